@@ -33,7 +33,7 @@ var __importStar = (this && this.__importStar) || (function () {
     };
 })();
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.onTopUpRequestUpdate = exports.syncTopUpRequestToStore = exports.sendDailySalesSummary = exports.processWhatsappQueue = void 0;
+exports.onTopUpRequestUpdate = exports.syncTopUpRequestToStore = exports.sendLowStockDigest = exports.settleCheckoutTallies = exports.cleanupExpiredHeldCarts = exports.sendDailySalesSummary = exports.processWhatsappQueue = void 0;
 const firestore_1 = require("firebase-functions/v2/firestore");
 const scheduler_1 = require("firebase-functions/v2/scheduler");
 const logger = __importStar(require("firebase-functions/logger"));
@@ -142,12 +142,22 @@ exports.sendDailySalesSummary = (0, scheduler_1.onSchedule)({
                 .where('createdAt', '>=', startOfDay.toISOString())
                 .where('createdAt', '<=', endOfDay.toISOString())
                 .get();
+            // QRIS sales still awaiting payment, or whose QRIS lapsed, never reached the till.
+            const paidTransactionDocs = transactionsSnapshot.docs.filter(txDoc => !['Menunggu Pembayaran', 'Dibatalkan'].includes(txDoc.data().status));
             let totalRevenue = 0;
-            const totalTransactions = transactionsSnapshot.size;
-            transactionsSnapshot.forEach(txDoc => {
+            const totalTransactions = paidTransactionDocs.length;
+            paidTransactionDocs.forEach(txDoc => {
                 totalRevenue += txDoc.data().totalAmount || 0;
             });
-            logger.info(`Toko: ${store.name}, Omset Kemarin: Rp ${totalRevenue}, Transaksi: ${totalTransactions}`);
+            const refundsSnapshot = await db.collection('stores').doc(storeId).collection('refunds')
+                .where('createdAt', '>=', startOfDay.toISOString())
+                .where('createdAt', '<=', endOfDay.toISOString())
+                .get();
+            let totalRefunds = 0;
+            refundsSnapshot.forEach(refundDoc => {
+                totalRefunds += refundDoc.data().amount || 0;
+            });
+            logger.info(`Toko: ${store.name}, Omset Kemarin: Rp ${totalRevenue}, Transaksi: ${totalTransactions}, Refund: Rp ${totalRefunds}`);
             if (!store.adminUids || store.adminUids.length === 0) {
                 logger.warn(`Toko ${store.name} tidak memiliki admin.`);
                 return;
@@ -163,7 +173,9 @@ exports.sendDailySalesSummary = (0, scheduler_1.onSchedule)({
 
 Halo *${adminData.name}*, berikut adalah ringkasan penjualan Anda kemarin:
 - *Total Omset*: Rp ${totalRevenue.toLocaleString('id-ID')}
-- *Jumlah Transaksi*: ${totalTransactions}
+- *Jumlah Transaksi*: ${totalTransactions}${totalRefunds > 0 ? `
+- *Refund* (${refundsSnapshot.size}): - Rp ${totalRefunds.toLocaleString('id-ID')}
+- *Omset Bersih*: Rp ${(totalRevenue - totalRefunds).toLocaleString('id-ID')}` : ''}
 
 Terus pantau dan optimalkan performa penjualan Anda melalui dasbor Chika. Semangat selalu! 💪
 
@@ -202,6 +214,180 @@ _Apabila tidak berkenan, fitur ini dapat dinonaktifkan di menu Pengaturan._`;
         logger.error("Error dalam fungsi terjadwal sendDailySalesSummary:", error);
     }
 });
+/**
+ * Deletes held POS carts whose expiry time has passed.
+ * The POS already hides expired carts; this keeps the collection from growing.
+ */
+exports.cleanupExpiredHeldCarts = (0, scheduler_1.onSchedule)({
+    schedule: "every 60 minutes",
+    timeZone: "Asia/Jakarta",
+}, async () => {
+    const now = new Date().toISOString();
+    try {
+        const storesSnapshot = await db.collection('stores').get();
+        let deletedCount = 0;
+        for (const storeDoc of storesSnapshot.docs) {
+            const expiredSnapshot = await storeDoc.ref.collection('heldCarts')
+                .where('expiresAt', '<=', now)
+                .get();
+            if (expiredSnapshot.empty)
+                continue;
+            const batch = db.batch();
+            expiredSnapshot.docs.forEach(doc => batch.delete(doc.ref));
+            await batch.commit();
+            deletedCount += expiredSnapshot.size;
+        }
+        logger.info(`${deletedCount} transaksi ditahan yang kedaluwarsa telah dihapus.`);
+    }
+    catch (error) {
+        logger.error("Error dalam fungsi terjadwal cleanupExpiredHeldCarts:", error);
+    }
+});
+/**
+ * Folds the fees and sale counts that checkouts tally on stores/{storeId}/checkoutTallies
+ * into each store's pradanaTokenBalance and transactionCounter. Checkouts write the tallies
+ * instead of the store doc, so busy stores don't contend on it.
+ */
+exports.settleCheckoutTallies = (0, scheduler_1.onSchedule)({
+    schedule: "every 5 minutes",
+    timeZone: "Asia/Jakarta",
+}, async () => {
+    try {
+        const storesSnapshot = await db.collection('stores').get();
+        let settledCount = 0;
+        for (const storeDoc of storesSnapshot.docs) {
+            const talliesSnapshot = await storeDoc.ref.collection('checkoutTallies').where('pendingSales', '>', 0).get();
+            if (talliesSnapshot.empty)
+                continue;
+            await db.runTransaction(async (transaction) => {
+                const tallyDocs = await transaction.getAll(...talliesSnapshot.docs.map(doc => doc.ref));
+                let pendingFee = 0;
+                let pendingSales = 0;
+                tallyDocs.forEach(tallyDoc => {
+                    const tally = tallyDoc.data() || {};
+                    if (!tally.pendingSales)
+                        return;
+                    pendingFee += tally.pendingFee || 0;
+                    pendingSales += tally.pendingSales;
+                    // Decrements, so sales tallied after this read are kept for the next run.
+                    transaction.update(tallyDoc.ref, {
+                        pendingFee: firestore_2.FieldValue.increment(-(tally.pendingFee || 0)),
+                        pendingSales: firestore_2.FieldValue.increment(-tally.pendingSales),
+                    });
+                });
+                if (pendingSales === 0)
+                    return;
+                transaction.update(storeDoc.ref, {
+                    pradanaTokenBalance: firestore_2.FieldValue.increment(-pendingFee),
+                    transactionCounter: firestore_2.FieldValue.increment(pendingSales),
+                });
+            });
+            settledCount++;
+        }
+        logger.info(`Tally checkout ${settledCount} toko telah diselesaikan.`);
+    }
+    catch (error) {
+        logger.error("Error dalam fungsi terjadwal settleCheckoutTallies:", error);
+    }
+});
+// Matches SALES_VELOCITY_WEEKS in src/lib/stock-alerts.ts, which the dashboard uses.
+const SALES_VELOCITY_WEEKS = 4;
+function formatStockQuantity(quantity, unit) {
+    return `${quantity.toLocaleString('id-ID', { maximumFractionDigits: 3 })} ${unit || 'pcs'}`;
+}
+/**
+ * Suggests how much to order so the stock lasts the velocity period above its minimum,
+ * never less than the product's usual reorder quantity.
+ */
+function getSuggestedReorderQuantity(product, weeklySales) {
+    const needed = weeklySales * SALES_VELOCITY_WEEKS + (product.minStock || 0) - product.stock;
+    const step = product.unit === 'gram' ? 100 : product.unit === 'kg' || product.unit === 'liter' ? 0.1 : 1;
+    const rounded = needed > 0 ? Math.round(Math.ceil(needed / step) * step * 1000) / 1000 : 0;
+    return Math.max(rounded, product.reorderQuantity || 0);
+}
+/**
+ * Sends each store's admins the products at or below their minimum stock every morning,
+ * with reorder quantities suggested from the last weeks of sales.
+ */
+exports.sendLowStockDigest = (0, scheduler_1.onSchedule)({
+    schedule: "0 7 * * *",
+    timeZone: "Asia/Jakarta",
+}, async () => {
+    var _a;
+    const since = new Date(Date.now() - SALES_VELOCITY_WEEKS * 7 * 24 * 60 * 60 * 1000).toISOString();
+    try {
+        const storesSnapshot = await db.collection('stores').get();
+        let sentCount = 0;
+        for (const storeDoc of storesSnapshot.docs) {
+            const store = storeDoc.data();
+            if (((_a = store.notificationSettings) === null || _a === void 0 ? void 0 : _a.lowStockDigestEnabled) === false)
+                continue;
+            if (!store.adminUids || store.adminUids.length === 0)
+                continue;
+            const productsSnapshot = await storeDoc.ref.collection('products').get();
+            const lowStockProducts = productsSnapshot.docs
+                .map(doc => (Object.assign({ id: doc.id }, doc.data())))
+                .filter(product => { var _a; return !((_a = product.bundleItems) === null || _a === void 0 ? void 0 : _a.length) && (product.minStock || 0) > 0 && product.stock <= product.minStock; });
+            if (lowStockProducts.length === 0)
+                continue;
+            const transactionsSnapshot = await storeDoc.ref.collection('transactions')
+                .where('createdAt', '>=', since)
+                .get();
+            const sold = new Map();
+            transactionsSnapshot.docs.forEach(txDoc => {
+                var _a;
+                const transaction = txDoc.data();
+                if (['Menunggu Pembayaran', 'Dibatalkan'].includes(transaction.status))
+                    return;
+                const refunded = ((_a = transaction.refundSummary) === null || _a === void 0 ? void 0 : _a.refundedQuantities) || [];
+                (transaction.items || []).forEach((item, index) => {
+                    var _a;
+                    const quantity = item.quantity - (refunded[index] || 0);
+                    // Bundle sales draw on their components' stock.
+                    const lines = ((_a = item.bundleItems) === null || _a === void 0 ? void 0 : _a.length)
+                        ? item.bundleItems.map(bundleItem => ({ productId: bundleItem.productId, quantity: bundleItem.quantity * quantity }))
+                        : [{ productId: item.productId, quantity }];
+                    lines.forEach(line => sold.set(line.productId, (sold.get(line.productId) || 0) + line.quantity));
+                });
+            });
+            const productLines = lowStockProducts
+                .sort((a, b) => a.stock / a.minStock - b.stock / b.minStock)
+                .map(product => {
+                const weeklySales = Math.max(0, sold.get(product.id) || 0) / SALES_VELOCITY_WEEKS;
+                const suggested = getSuggestedReorderQuantity(product, weeklySales);
+                return `- *${product.name}*: sisa ${formatStockQuantity(product.stock, product.unit)} (min. ${formatStockQuantity(product.minStock, product.unit)})${suggested > 0 ? `, saran pesan ${formatStockQuantity(suggested, product.unit)}` : ''}`;
+            });
+            const adminDocs = await Promise.all(store.adminUids.map((uid) => db.collection('users').doc(uid).get()));
+            for (const adminDoc of adminDocs) {
+                const adminData = adminDoc.data();
+                if (!(adminData === null || adminData === void 0 ? void 0 : adminData.whatsapp))
+                    continue;
+                const formattedPhone = adminData.whatsapp.startsWith('0')
+                    ? `62${adminData.whatsapp.substring(1)}`
+                    : adminData.whatsapp;
+                const message = `*Stok Menipis - ${store.name}*
+
+Halo *${adminData.name}*, ${lowStockProducts.length} produk sudah mencapai stok minimum:
+${productLines.join('\n')}
+
+Saran pesan dihitung dari penjualan ${SALES_VELOCITY_WEEKS} minggu terakhir. Buat pesanan ke pemasok di menu Pembelian.
+
+_Apabila tidak berkenan, fitur ini dapat dinonaktifkan di menu Pengaturan._`;
+                await db.collection('whatsappQueue').add({
+                    to: formattedPhone,
+                    storeId: storeDoc.id,
+                    message,
+                    createdAt: new Date().toISOString(),
+                });
+                sentCount++;
+            }
+        }
+        logger.info(`${sentCount} ringkasan stok menipis telah dikirim.`);
+    }
+    catch (error) {
+        logger.error("Error dalam fungsi terjadwal sendLowStockDigest:", error);
+    }
+});
 /**
  * Copies a new top-up request from the root 'topUpRequests' collection
  * to the corresponding store's subcollection for client-side history display.
@@ -9,6 +9,7 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { productCategories, promotionRuleTypes } from '@/lib/types';
 
 export const PromotionRecommendationInputSchema = z.object({
   businessDescription: z.string().describe('A brief description of the business (e.g., "toko pakaian", "vape store", "toko kelontong").'),
@@ -20,17 +21,41 @@ export const PromotionRecommendationInputSchema = z.object({
       isActive: z.boolean(),
     })
   ).describe('A list of the current loyalty redemption options.'),
+  currentPromotionRules: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string(),
+      isActive: z.boolean(),
+    })
+  ).describe('A list of the current automatic promotion rules.'),
   topSellingProducts: z.array(z.string()).describe('A list of the best-selling products this month.'),
   worstSellingProducts: z.array(z.string()).describe('A list of the worst-selling products this month.'),
 });
 export type PromotionRecommendationInput = z.infer<typeof PromotionRecommendationInputSchema>;
 
+// Mirrors PromotionRule in src/lib/types.ts, with products named instead of referenced by ID.
+export const PromotionRuleDraftSchema = z.object({
+  type: z.enum(promotionRuleTypes).describe('happy-hour: discount during a time window; buy-x-get-y: buy buyQuantity, get getQuantity discounted; category-discount: discount on a product category; min-spend: discount on the whole purchase above minSpend.'),
+  discountType: z.enum(['percent', 'nominal']).describe('Percent of the price, or Rupiah per item (per purchase for min-spend). buy-x-get-y is always percent.'),
+  discountValue: z.number().describe('The discount; 100 with percent makes the items free.'),
+  productNames: z.array(z.string()).optional().describe('Exact product names the promotion is limited to.'),
+  category: z.enum(productCategories).optional().describe('Product category the promotion is limited to. Required for category-discount.'),
+  buyQuantity: z.number().optional().describe('For buy-x-get-y: items the customer pays for.'),
+  getQuantity: z.number().optional().describe('For buy-x-get-y: items discounted on top.'),
+  minSpend: z.number().optional().describe('For min-spend: the minimum purchase in Rupiah.'),
+  days: z.array(z.number()).optional().describe('Days the promotion runs, 0 = Sunday. Omit for every day.'),
+  startTime: z.string().optional().describe('Start time as HH:mm. Required for happy-hour.'),
+  endTime: z.string().optional().describe('End time as HH:mm. Required for happy-hour.'),
+});
+export type PromotionRuleDraft = z.infer<typeof PromotionRuleDraftSchema>;
+
 export const RecommendationSchema = z.object({
   title: z.string().describe('A short, catchy title for the recommendation in Indonesian.'),
   description: z.string().describe('A concise, actionable recommendation in Indonesian. This will be the promo description.'),
   justification: z.string().describe('A brief explanation of why this recommendation is being made, in Indonesian.'),
   pointsRequired: z.number().describe('The suggested number of points required for this new promotion.'),
   value: z.number().describe('The suggested value (in Rupiah) of this new promotion, if applicable (e.g., for a discount). For free items, this can be 0.'),
+  rule: PromotionRuleDraftSchema.optional().describe('Set when the recommendation is an automatic promotion rather than a points redemption.'),
 });
 
 export const PromotionRecommendationOutputSchema = z.object({
@@ -54,6 +79,10 @@ Tugas Anda adalah menganalisis data dan menghasilkan 2-3 rekomendasi promo loyal
 {{#each currentRedemptionOptions}}
   - {{description}} ({{pointsRequired}} poin)
 {{/each}}
+- **Promo Otomatis:**
+{{#each currentPromotionRules}}
+  - {{name}}: {{description}}{{#unless isActive}} (non-aktif){{/unless}}
+{{/each}}
 - **Produk Terlaris Bulan Ini:** {{#each topSellingProducts}}{{{this}}}{{#unless @last}}, {{/unless}}{{/each}}
 - **Produk Kurang Laris Bulan Ini:** {{#each worstSellingProducts}}{{{this}}}{{#unless @last}}, {{/unless}}{{/each}}
 
@@ -65,13 +94,15 @@ Tugas Anda adalah menganalisis data dan menghasilkan 2-3 rekomendasi promo loyal
     -   Buat promo baru yang menarik (misal: "Diskon khusus akhir pekan").
     -   Usulkan \'bundling\' antara produk terlaris dan kurang laris untuk meningkatkan penjualan produk yang lambat.
     -   Sarankan promo untuk menonaktifkan atau mengubah promo lama yang mungkin kurang efektif.
+    -   Boleh juga menyarankan promo otomatis tanpa poin: happy hour pada jam sepi, beli X gratis Y, diskon kategori, atau diskon minimal belanja.
 3.  **Spesifik & Relevan**: Semua rekomendasi harus relevan untuk sebuah **{{businessDescription}}**. Hindari menyarankan produk atau promo yang tidak sesuai.
 4.  **Format Output**: Setiap rekomendasi HARUS memiliki:
     -   \'title\': Judul singkat dan menarik.
     -   \'description\': Deskripsi promo yang akan dilihat pelanggan (gunakan nama produk!).
     -   \'justification\': Alasan singkat mengapa ini ide yang bagus.
     -   \'pointsRequired\': Jumlah poin yang disarankan.
-    -   \'value\': Nilai promo dalam Rupiah (jika diskon, gunakan nilai diskon. Jika barang gratis, bisa 0).`;
+    -   \'value\': Nilai promo dalam Rupiah (jika diskon, gunakan nilai diskon. Jika barang gratis, bisa 0).
+    -   \'rule\': Hanya untuk promo otomatis. Isi sesuai format aturan promo; gunakan nama produk persis seperti pada data di atas. Untuk promo otomatis, isi \'pointsRequired\' dengan 0.`;
 
 
 export const promotionRecommendationFlow = ai.defineFlow(
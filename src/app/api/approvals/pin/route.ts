@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { ApprovalError, parseApprovalPin, setApprovalPin } from '@/lib/server/approvals';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const pin = parseApprovalPin(await req.json());
+
+    const result = await setApprovalPin(decodedToken.uid, pin);
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error setting approval PIN:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { getBundleStock, isBundleProduct } from '@/lib/bundles';
+import type { Product } from '@/lib/types';
 
 export async function GET(req: NextRequest) {
   const { db } = getFirebaseAdmin();
@@ -39,10 +41,14 @@ export async function GET(req: NextRequest) {
 
     const [productsSnapshot, promotionsSnapshot] = await Promise.all([productsPromise, promotionsPromise]);
       
-    const products = productsSnapshot.docs.map(doc => ({
+    const storeProducts = productsSnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
-    }));
+    }) as Product);
+    // Bundles keep no stock of their own, so the catalog shows what their components can make.
+    const products = storeProducts.map(product =>
+      isBundleProduct(product) ? { ...product, stock: getBundleStock(product, storeProducts) } : product
+    );
 
     const promotions = promotionsSnapshot.docs.map(doc => ({
         id: doc.id,
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError, parseCheckoutRequest, processCheckout } from '@/lib/server/checkout';
+import { createQrisPaymentForTransaction, PaymentError, releaseUnpaidTransaction } from '@/lib/server/payments';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const checkoutRequest = parseCheckoutRequest(await req.json());
+
+    const member = await assertStoreMember(decodedToken.uid, checkoutRequest.storeId);
+    const transaction = await processCheckout(checkoutRequest, decodedToken.uid, member);
+    // A retried checkout returns the stored sale, which may already have its QR.
+    if (transaction.status !== 'Menunggu Pembayaran' || transaction.qrisPayment) {
+      return NextResponse.json(transaction, { status: 201 });
+    }
+
+    try {
+      return NextResponse.json(await createQrisPaymentForTransaction(transaction), { status: 201 });
+    } catch (error) {
+      console.error(`Error creating QRIS payment for transaction ${transaction.id}:`, error);
+      // Without a QR the sale can't be paid, so the stock and points it took are released.
+      await releaseUnpaidTransaction(transaction.storeId, transaction.id);
+      throw new PaymentError('Gagal membuat QRIS. Silakan coba lagi atau pilih metode pembayaran lain.', 502);
+    }
+
+  } catch (error) {
+    if (error instanceof CheckoutError || error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error processing checkout:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { simulateQrisPayment, parseQrisPaymentRequest, PaymentError } from '@/lib/server/payments';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const paymentRequest = parseQrisPaymentRequest(await req.json());
+
+    await assertStoreMember(decodedToken.uid, paymentRequest.storeId);
+    const transaction = await simulateQrisPayment(paymentRequest.storeId, paymentRequest.transactionId);
+    return NextResponse.json(transaction);
+
+  } catch (error) {
+    if (error instanceof PaymentError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error simulating QRIS payment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyQrisPaymentEvent, getQrisAdapter, PaymentError } from '@/lib/server/payments';
+
+// Called by the QRIS provider, so it is authenticated by the adapter's signature check rather than a user token.
+export async function POST(req: NextRequest) {
+  try {
+    const rawBody = await req.text();
+    const event = getQrisAdapter().parseWebhook(rawBody, req.headers);
+    const transaction = await applyQrisPaymentEvent(event);
+    return NextResponse.json({ received: true, transactionId: transaction.id, status: transaction.status });
+
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error handling payment webhook:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
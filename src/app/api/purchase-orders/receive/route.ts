@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { parseReceivePurchaseOrderRequest, PurchaseOrderError, receivePurchaseOrder } from '@/lib/server/purchase-orders';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const receiveRequest = parseReceivePurchaseOrderRequest(await req.json());
+
+    const member = await assertStoreMember(decodedToken.uid, receiveRequest.storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Hanya admin toko yang dapat menerima barang.' }, { status: 403 });
+    }
+
+    const order = await receivePurchaseOrder(receiveRequest, decodedToken.uid);
+    return NextResponse.json(order);
+
+  } catch (error) {
+    if (error instanceof PurchaseOrderError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error receiving purchase order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
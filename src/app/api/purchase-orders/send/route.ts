@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { PurchaseOrderError, sendPurchaseOrder } from '@/lib/server/purchase-orders';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const { storeId, purchaseOrderId } = await req.json();
+    if (!storeId || typeof storeId !== 'string' || !purchaseOrderId || typeof purchaseOrderId !== 'string') {
+      return NextResponse.json({ error: 'storeId dan purchaseOrderId diperlukan.' }, { status: 400 });
+    }
+
+    const member = await assertStoreMember(decodedToken.uid, storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Hanya admin toko yang dapat mengirim pesanan pembelian.' }, { status: 403 });
+    }
+
+    const result = await sendPurchaseOrder(storeId, purchaseOrderId);
+    return NextResponse.json(result);
+
+  } catch (error) {
+    if (error instanceof PurchaseOrderError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error sending purchase order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
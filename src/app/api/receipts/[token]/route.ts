@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DigitalReceiptError, getDigitalReceiptView } from '@/lib/server/digital-receipts';
+
+// Public: the token in the link is the only credential a customer has.
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const receipt = await getDigitalReceiptView(token);
+    return NextResponse.json(receipt);
+
+  } catch (error) {
+    if (error instanceof DigitalReceiptError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error fetching digital receipt:', error);
+    return NextResponse.json({ error: 'Terjadi kesalahan internal saat memuat struk.' }, { status: 500 });
+  }
+}
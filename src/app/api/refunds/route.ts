@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { parseRefundRequest, processRefund, RefundError } from '@/lib/server/refunds';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const refundRequest = parseRefundRequest(await req.json());
+
+    const member = await assertStoreMember(decodedToken.uid, refundRequest.storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Pengembalian dana harus disetujui oleh admin toko.' }, { status: 403 });
+    }
+
+    const refund = await processRefund(refundRequest, decodedToken.uid);
+    return NextResponse.json(refund);
+
+  } catch (error) {
+    if (error instanceof RefundError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error processing refund:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
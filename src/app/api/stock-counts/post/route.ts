@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { parsePostStockCountRequest, postStockCount, StockCountError } from '@/lib/server/stock-counts';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const postRequest = parsePostStockCountRequest(await req.json());
+
+    const member = await assertStoreMember(decodedToken.uid, postRequest.storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Hanya admin toko yang dapat menyetujui stok opname.' }, { status: 403 });
+    }
+
+    const stockCount = await postStockCount(postRequest, decodedToken.uid);
+    return NextResponse.json(stockCount);
+
+  } catch (error) {
+    if (error instanceof StockCountError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error posting stock count:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
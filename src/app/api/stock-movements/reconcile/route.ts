@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { reconcileProductStock, StockMovementError } from '@/lib/server/stock-movements';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const { storeId, productId } = await req.json();
+    if (!storeId || typeof storeId !== 'string' || !productId || typeof productId !== 'string') {
+      return NextResponse.json({ error: 'storeId dan productId diperlukan.' }, { status: 400 });
+    }
+
+    const member = await assertStoreMember(decodedToken.uid, storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Hanya admin toko yang dapat mengubah stok.' }, { status: 403 });
+    }
+
+    const movement = await reconcileProductStock(storeId, productId, decodedToken.uid);
+    return NextResponse.json({ movement });
+
+  } catch (error) {
+    if (error instanceof StockMovementError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reconciling stock:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
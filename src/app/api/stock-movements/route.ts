@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirebaseAdmin } from '@/lib/server/firebase-admin';
+import { assertStoreMember, CheckoutError } from '@/lib/server/checkout';
+import { adjustStock, parseStockAdjustmentRequest, StockMovementError } from '@/lib/server/stock-movements';
+
+export async function POST(req: NextRequest) {
+  const { auth } = getFirebaseAdmin();
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return NextResponse.json({ error: 'Unauthorized: Missing or invalid token' }, { status: 401 });
+  }
+  const idToken = authorization.split('Bearer ')[1];
+
+  try {
+    const decodedToken = await auth.verifyIdToken(idToken);
+    const adjustmentRequest = parseStockAdjustmentRequest(await req.json());
+
+    const member = await assertStoreMember(decodedToken.uid, adjustmentRequest.storeId);
+    if (!member.isStoreAdmin) {
+      return NextResponse.json({ error: 'Hanya admin toko yang dapat mengubah stok.' }, { status: 403 });
+    }
+
+    const movements = await adjustStock(adjustmentRequest, decodedToken.uid);
+    return NextResponse.json(movements, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof StockMovementError || error instanceof CheckoutError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error adjusting stock:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
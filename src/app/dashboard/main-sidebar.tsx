@@ -34,6 +34,9 @@ import {
   TrendingUp,
   Map,
   Newspaper,
+  Banknote,
+  Truck,
+  ClipboardCheck,
 } from 'lucide-react';
 import * as React from 'react';
 import { Separator } from '@/components/ui/separator';
@@ -80,6 +83,7 @@ export function MainSidebar({ pradanaTokenBalance }: MainSidebarProps) {
             { view: 'overview', label: 'Overview', icon: <LayoutGrid />, roles: ['admin', 'cashier'] },
             { view: 'pos', label: 'Kasir POS', icon: <Armchair />, roles: ['admin', 'cashier'] },
             { view: 'transactions', label: 'Transaksi', icon: <History />, roles: ['admin', 'cashier'] },
+            { view: 'shifts', label: 'Laporan Shift', icon: <Banknote />, roles: ['admin'] },
         ]
     },
     {
@@ -88,6 +92,8 @@ export function MainSidebar({ pradanaTokenBalance }: MainSidebarProps) {
         roles: ['admin', 'cashier'],
         items: [
             { view: 'products', label: 'Produk (Menu)', icon: <BookOpenCheck />, roles: ['admin', 'cashier'] },
+            { view: 'purchasing', label: 'Pembelian', icon: <Truck />, roles: ['admin'] },
+            { view: 'stock-opname', label: 'Stok Opname', icon: <ClipboardCheck />, roles: ['admin', 'cashier'] },
             { view: 'customers', label: 'Pelanggan', icon: <Contact2 />, roles: ['admin', 'cashier'] },
             { view: 'employees', label: 'Karyawan', icon: <Users />, roles: ['admin'] },
         ]
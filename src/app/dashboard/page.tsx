@@ -12,6 +12,9 @@ import Products from '@/app/dashboard/views/products';
 import Customers from '@/app/dashboard/views/customers';
 import CustomerAnalytics from '@/app/dashboard/views/customer-analytics';
 import Transactions from '@/app/dashboard/views/transactions';
+import Shifts from '@/app/dashboard/views/shifts';
+import Purchasing from '@/app/dashboard/views/purchasing';
+import StockOpname from '@/app/dashboard/views/stock-opname';
 import Employees from '@/app/dashboard/views/employees';
 import Settings from '@/app/dashboard/views/settings';
 import Challenges from '@/app/dashboard/views/challenges';
@@ -23,14 +26,22 @@ import { Suspense } from 'react';
 import type { User, Transaction } from '@/lib/types';
 import { useAuth } from '@/contexts/auth-context';
 import { useDashboard } from '@/contexts/dashboard-context';
-import { Store, Printer } from 'lucide-react';
+import { Store, Printer, Send, Loader } from 'lucide-react';
 import { useSearchParams } from 'next/navigation';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Receipt } from '@/components/dashboard/receipt';
 import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
 
 function CheckoutReceiptDialog({ transaction, users, open, onOpenChange }: { transaction: Transaction | null; users: User[]; open: boolean; onOpenChange: (open: boolean) => void }) {
+    const { toast } = useToast();
+    const [isSending, setIsSending] = React.useState(false);
+
     if (!transaction) return null;
+
+    // Offline sales only get a link once they are synced and exist on the server.
+    const canSend = transaction.customerId !== 'N/A' && !(transaction.offlineSync && !transaction.offlineSync.syncedAt);
     
     const handlePrint = () => {
         const printableArea = document.querySelector('.printable-area');
@@ -44,6 +55,30 @@ function CheckoutReceiptDialog({ transaction, users, open, onOpenChange }: { tra
         }
     };
 
+    const handleSend = async () => {
+        setIsSending(true);
+        try {
+            const idToken = await auth.currentUser?.getIdToken();
+            const response = await fetch('/api/receipts/send', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${idToken}`,
+                },
+                body: JSON.stringify({ storeId: transaction.storeId, transactionId: transaction.id }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || 'Gagal mengirim struk.');
+            }
+            toast({ title: 'Struk Terkirim', description: `Tautan struk digital dikirim ke WhatsApp ${result.sentTo}.` });
+        } catch (error) {
+            toast({ variant: 'destructive', title: 'Gagal Mengirim Struk', description: (error as Error).message });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
             <DialogContent className="sm:max-w-sm">
@@ -53,7 +88,11 @@ function CheckoutReceiptDialog({ transaction, users, open, onOpenChange }: { tra
                 <div className="py-4" id={`receipt-for-${transaction.id}`}>
                     <Receipt transaction={transaction} users={users} />
                 </div>
-                <DialogFooter className="sm:justify-center">
+                <DialogFooter className="gap-2 sm:justify-center">
+                    <Button type="button" variant="outline" className="w-full gap-2" onClick={handleSend} disabled={!canSend || isSending}>
+                        {isSending ? <Loader className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                        Kirim Struk
+                    </Button>
                     <Button type="button" className="w-full gap-2" onClick={handlePrint}>
                         <Printer className="h-4 w-4" />
                         Cetak Struk
@@ -81,7 +120,7 @@ function DashboardContent() {
   const { users } = dashboardData;
 
   const renderView = () => {
-    const unauthorizedCashierViews = ['employees', 'challenges', 'receipt-settings', 'customer-analytics', 'ai-business-plan', 'catalog'];
+    const unauthorizedCashierViews = ['employees', 'challenges', 'receipt-settings', 'customer-analytics', 'ai-business-plan', 'catalog', 'shifts', 'purchasing'];
     if (currentUser?.role === 'cashier' && unauthorizedCashierViews.includes(view)) {
         return <POS onPrintRequest={setTransactionToPrint} />;
     }
@@ -104,6 +143,12 @@ function DashboardContent() {
         return <Employees />;
       case 'transactions':
         return <Transactions onPrintRequest={setTransactionToPrint} />;
+      case 'shifts':
+        return <Shifts />;
+      case 'purchasing':
+        return <Purchasing />;
+      case 'stock-opname':
+        return <StockOpname />;
       case 'settings':
         return <Settings />;
       case 'challenges':
@@ -130,6 +175,9 @@ function DashboardContent() {
       'customer-analytics': 'Analisis Pelanggan',
       'employees': 'Manajemen Karyawan',
       'transactions': 'Riwayat Transaksi',
+      'shifts': 'Laporan Shift',
+      'purchasing': 'Pembelian & Pemasok',
+      'stock-opname': 'Stok Opname',
       'settings': 'Pengaturan',
       'challenges': 'Tantangan Karyawan',
       'promotions': 'Manajemen Promosi',
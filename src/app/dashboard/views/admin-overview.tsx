@@ -21,7 +21,7 @@ import {
   Bar,
   BarChart,
 } from 'recharts';
-import { TrendingUp, DollarSign, Sparkles, ShoppingBag, Target, CheckCircle, Calendar as CalendarIcon, TrendingDown, FileText, FileSpreadsheet } from 'lucide-react';
+import { TrendingUp, DollarSign, Sparkles, ShoppingBag, Target, CheckCircle, Calendar as CalendarIcon, TrendingDown, FileText, FileSpreadsheet, WifiOff, PackageX } from 'lucide-react';
 import { subMonths, format, startOfMonth, endOfMonth, isWithinInterval, formatISO, subDays, addDays } from 'date-fns';
 import { id as idLocale } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
@@ -33,12 +33,22 @@ import { cn } from '@/lib/utils';
 import { Calendar } from '@/components/ui/calendar';
 import { Label } from '@/components/ui/label';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, getDocs, deleteDoc, doc } from 'firebase/firestore';
-import type { AppliedStrategy, TransactionItem, Transaction } from '@/lib/types';
+import { collection, addDoc, getDocs, deleteDoc, doc, query, where } from 'firebase/firestore';
+import type { AppliedStrategy, TransactionItem, Transaction, Refund, UnitOfMeasure } from '@/lib/types';
 import { useAuth } from '@/contexts/auth-context';
 import { useDashboard } from '@/contexts/dashboard-context';
 import Papa from 'papaparse';
 import { AIConfirmationDialog } from '@/components/dashboard/ai-confirmation-dialog';
+import { formatTenders, getTransactionPayments, isPaidTransaction, paymentMethodLabels } from '@/lib/payments';
+import { formatItemOptions } from '@/lib/product-options';
+import { formatQuantity } from '@/lib/units';
+import { getLineGrossAmount } from '@/lib/line-items';
+import { allocateBundleRevenue, expandBundleLines, formatBundleItems } from '@/lib/bundles';
+import { orderTypeLabels } from '@/lib/tax';
+import { getGiftCardSalesAmount } from '@/lib/gift-cards';
+import { markOfflineConflictsReviewed } from '@/lib/offline-checkouts';
+import { getReceiptNumberLabel } from '@/lib/receipt-numbers';
+import { SALES_VELOCITY_WEEKS, getLowStockProducts } from '@/lib/stock-alerts';
 
 interface AdminRecommendationInput {
   businessDescription: string;
@@ -62,9 +72,11 @@ const chartConfig = {
 };
 
 export default function AdminOverview() {
-  const { activeStore } = useAuth();
-  const { dashboardData } = useDashboard();
-  const { transactions, products, feeSettings } = dashboardData;
+  const { currentUser, activeStore } = useAuth();
+  const { dashboardData, refreshData } = useDashboard();
+  const { products, feeSettings } = dashboardData;
+  // Unpaid and cancelled QRIS sales are not revenue.
+  const transactions = React.useMemo(() => dashboardData.transactions.filter(isPaidTransaction), [dashboardData.transactions]);
   const [recommendations, setRecommendations] = React.useState<AdminRecommendationOutput | null>(null);
   const [appliedStrategies, setAppliedStrategies] = React.useState<AppliedStrategy[]>([]);
   const [exportDate, setExportDate] = React.useState<DateRange | undefined>({
@@ -72,8 +84,36 @@ export default function AdminOverview() {
     to: endOfMonth(new Date()),
   });
 
+  const [reviewingTransactionId, setReviewingTransactionId] = React.useState<string | null>(null);
+
   const { toast } = useToast();
 
+  // Offline sales that no longer added up when they reached the server, e.g. sold stock that had run out meanwhile.
+  const unreviewedOfflineConflicts = React.useMemo(
+    () => dashboardData.transactions.filter(transaction => transaction.offlineSync?.conflicts?.length && !transaction.offlineSync.conflictsReviewedAt),
+    [dashboardData.transactions]
+  );
+
+  const lowStockProducts = React.useMemo(
+    () => getLowStockProducts(products, dashboardData.transactions),
+    [products, dashboardData.transactions]
+  );
+
+  const handleReviewOfflineConflicts = async (transactionId: string) => {
+    if (!activeStore || !currentUser) return;
+    setReviewingTransactionId(transactionId);
+    try {
+      await markOfflineConflictsReviewed(activeStore.id, transactionId, currentUser.id);
+      toast({ title: 'Selisih Ditandai Sudah Ditinjau' });
+      refreshData();
+    } catch (error) {
+      console.error("Error reviewing offline conflicts:", error);
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan', description: (error as Error).message });
+    } finally {
+      setReviewingTransactionId(null);
+    }
+  };
+
   React.useEffect(() => {
     if (!activeStore) return;
     const fetchStrategies = async () => {
@@ -119,9 +159,10 @@ export default function AdminOverview() {
     const totalRevenue = (transactions || []).reduce((sum, t) => sum + t.totalAmount, 0);
 
     const totalCost = (transactions || []).reduce((sum, t) => {
-      return sum + t.items.reduce((itemSum, item) => {
-        const product = (products || []).find(p => p.id === item.productId);
-        return itemSum + ((product?.costPrice || 0) * item.quantity);
+      // A bundle costs what its components cost.
+      return sum + expandBundleLines(t.items).reduce((itemSum, line) => {
+        const product = (products || []).find(p => p.id === line.productId);
+        return itemSum + ((product?.costPrice || 0) * line.quantity);
       }, 0);
     }, 0);
 
@@ -272,25 +313,69 @@ export default function AdminOverview() {
       return;
     }
 
+    // Refunds are reported on the day they were made, which may fall outside the sale's range.
+    const refundsSnapshot = await getDocs(query(
+      collection(db, 'stores', activeStore!.id, 'refunds'),
+      where('createdAt', '>=', fromDate.toISOString()),
+      where('createdAt', '<=', toDate.toISOString())
+    ));
+    const refunds = refundsSnapshot.docs.map(refundDoc => ({ id: refundDoc.id, ...refundDoc.data() } as Refund));
+
     const dateRangeStr = `${format(fromDate, 'yyyy-MM-dd')} to ${format(toDate, 'yyyy-MM-dd')}`;
     const filename = `Laporan_Penjualan_${activeStore?.name}_${dateRangeStr}`.replace(/\s+/g, '_');
 
     if (formatType === 'Excel') {
-      const dataForCsv = filteredTransactions.flatMap(tx =>
+      const dataForCsv: Record<string, string | number>[] = filteredTransactions.flatMap(tx =>
         tx.items.map(item => ({
           'ID Transaksi': tx.id,
           'Tanggal': format(new Date(tx.createdAt), 'yyyy-MM-dd HH:mm:ss'),
           'Nama Pelanggan': tx.customerName,
           'Metode Pembayaran': tx.paymentMethod,
+          'Rincian Pembayaran': formatTenders(getTransactionPayments(tx)),
+          'Uang Diterima': tx.cashTendered ?? '',
+          'Kembalian': tx.changeAmount ?? '',
           'Nama Produk': item.productName,
+          'Varian': item.variantName || '',
+          'Tambahan': (item.modifiers || []).map(m => m.optionName).join(', '),
           'Jumlah': item.quantity,
+          'Satuan': item.unit || 'pcs',
           'Harga Satuan': item.price,
-          'Total Item': item.quantity * item.price,
+          'Harga Normal': item.originalPrice ?? item.price,
+          'Diskon Item': item.discountAmount || 0,
+          'Promo Item': item.promotionDiscountAmount || 0,
+          'Total Item': getLineGrossAmount(item) - (item.discountAmount || 0) - (item.promotionDiscountAmount || 0),
+          'Catatan Item': item.notes || '',
+          'Isi Paket': formatBundleItems(item),
           'Subtotal Transaksi': tx.subtotal,
+          'Promo Otomatis': (tx.appliedPromotions || []).map(promotion => promotion.name).join(', '),
+          'Diskon Promo': tx.promotionDiscountAmount || 0,
           'Diskon Transaksi': tx.discountAmount,
+          'Diskon Poin': tx.redemptionDiscountAmount || 0,
+          'Jenis Pesanan': tx.orderType ? orderTypeLabels[tx.orderType] : '',
+          'Biaya Layanan': tx.serviceChargeAmount || 0,
+          'Pajak': tx.taxAmount || 0,
+          'Jenis Pajak': tx.taxAmount !== undefined ? `${tx.taxName} ${tx.taxRate}%${tx.taxInclusive ? ' (termasuk)' : ''}` : '',
+          'Poin Ditukar': tx.pointsRedeemed,
+          'Penjualan Gift Card': (tx.giftCardSales || []).map(sale => `${sale.code}: ${sale.amount}`).join(', '),
           'Total Transaksi': tx.totalAmount
         }))
       );
+      // Refunds appear as negative lines so the export sums to net revenue; columns
+      // they don't use are left blank.
+      refunds.forEach(refund => refund.items.forEach((item, index) => dataForCsv.push({
+        'ID Transaksi': refund.transactionId,
+        'Tanggal': format(new Date(refund.createdAt), 'yyyy-MM-dd HH:mm:ss'),
+        'Nama Pelanggan': refund.customerName,
+        'Metode Pembayaran': `Refund ${refund.paymentMethod}`,
+        'Nama Produk': item.productName,
+        'Varian': item.variantName || '',
+        'Jumlah': -item.quantity,
+        'Satuan': item.unit || 'pcs',
+        'Total Item': -item.amount,
+        'Catatan Item': index === 0 ? refund.reason : '',
+        'Poin Ditukar': index === 0 ? -refund.pointsRestored : '',
+        'Total Transaksi': index === 0 ? -refund.amount : '',
+      })));
 
       const csv = Papa.unparse(dataForCsv);
       const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -317,7 +402,28 @@ export default function AdminOverview() {
       doc.text(`Periode: ${format(fromDate, 'd MMMM yyyy', { locale: idLocale })} - ${format(toDate, 'd MMMM yyyy', { locale: idLocale })}`, 14, 30);
 
       const totalRevenue = filteredTransactions.reduce((sum, tx) => sum + tx.totalAmount, 0);
+      const totalLineDiscounts = filteredTransactions.reduce((sum, tx) => sum + (tx.lineDiscountAmount || 0), 0);
       const totalDiscounts = filteredTransactions.reduce((sum, tx) => sum + tx.discountAmount, 0);
+      const totalPromotionDiscounts = filteredTransactions.reduce((sum, tx) => sum + (tx.promotionDiscountAmount || 0), 0);
+      const totalPriceOverrides = filteredTransactions
+        .flatMap(tx => tx.items)
+        .reduce((sum, item) => sum + (item.originalPrice !== undefined ? (item.originalPrice - item.price) * item.quantity : 0), 0);
+      const totalRedemptionDiscounts = filteredTransactions.reduce((sum, tx) => sum + (tx.redemptionDiscountAmount || 0), 0);
+      const totalServiceCharges = filteredTransactions.reduce((sum, tx) => sum + (tx.serviceChargeAmount || 0), 0);
+      const totalTaxes = filteredTransactions.reduce((sum, tx) => sum + (tx.taxAmount || 0), 0);
+      const totalGiftCardSales = filteredTransactions.reduce((sum, tx) => sum + getGiftCardSalesAmount(tx), 0);
+      const totalsByMethod = filteredTransactions
+        .flatMap(tx => getTransactionPayments(tx))
+        .reduce<Record<string, number>>((totals, payment) => {
+          totals[payment.method] = (totals[payment.method] || 0) + payment.amount;
+          return totals;
+        }, {});
+
+      const totalRefunds = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+      const refundsByMethod = refunds.reduce<Record<string, number>>((totals, refund) => {
+        totals[refund.paymentMethod] = (totals[refund.paymentMethod] || 0) + refund.amount;
+        return totals;
+      }, {});
 
       autoTable(doc, {
         startY: 40,
@@ -325,7 +431,26 @@ export default function AdminOverview() {
         body: [
           [`Total Transaksi`, filteredTransactions.length],
           [`Total Pendapatan`, `Rp ${totalRevenue.toLocaleString('id-ID')}`],
+          [`Total Diskon Item`, `Rp ${totalLineDiscounts.toLocaleString('id-ID')}`],
+          [`Total Diskon Promo`, `Rp ${totalPromotionDiscounts.toLocaleString('id-ID')}`],
           [`Total Diskon`, `Rp ${totalDiscounts.toLocaleString('id-ID')}`],
+          [`Selisih Ubah Harga`, `Rp ${totalPriceOverrides.toLocaleString('id-ID')}`],
+          [`Total Diskon Poin`, `Rp ${totalRedemptionDiscounts.toLocaleString('id-ID')}`],
+          [`Total Biaya Layanan`, `Rp ${totalServiceCharges.toLocaleString('id-ID')}`],
+          [`Total Pajak`, `Rp ${totalTaxes.toLocaleString('id-ID')}`],
+          [`Penjualan Gift Card`, `Rp ${totalGiftCardSales.toLocaleString('id-ID')}`],
+          ...Object.entries(totalsByMethod).map(([method, amount]) => [
+            `Pembayaran ${paymentMethodLabels[method as keyof typeof paymentMethodLabels]}`,
+            `Rp ${amount.toLocaleString('id-ID')}`,
+          ]),
+          ...(refunds.length > 0 ? [
+            [`Total Refund (${refunds.length})`, `- Rp ${totalRefunds.toLocaleString('id-ID')}`],
+            ...Object.entries(refundsByMethod).map(([method, amount]) => [
+              `Refund ${paymentMethodLabels[method as keyof typeof paymentMethodLabels]}`,
+              `- Rp ${amount.toLocaleString('id-ID')}`,
+            ]),
+            [`Pendapatan Bersih`, `Rp ${(totalRevenue - totalRefunds).toLocaleString('id-ID')}`],
+          ] : []),
         ],
         theme: 'grid'
       });
@@ -333,17 +458,102 @@ export default function AdminOverview() {
       const tableData = filteredTransactions.map(tx => [
         format(new Date(tx.createdAt), 'dd/MM/yy HH:mm'),
         tx.customerName,
-        tx.items.map(i => `${i.quantity}x ${i.productName}`).join('\n'),
+        tx.items.map(i => `${formatQuantity(i.quantity, i.unit)}x ${i.productName}${formatItemOptions(i) ? ` (${formatItemOptions(i)})` : ''}`).join('\n'),
+        getTransactionPayments(tx).map(p => `${paymentMethodLabels[p.method]}: Rp ${p.amount.toLocaleString('id-ID')}`).join('\n'),
         `Rp ${tx.totalAmount.toLocaleString('id-ID')}`,
       ]);
+      refunds.forEach(refund => tableData.push([
+        format(new Date(refund.createdAt), 'dd/MM/yy HH:mm'),
+        refund.customerName,
+        refund.items.map(i => `-${formatQuantity(i.quantity, i.unit)}x ${i.productName}`).join('\n'),
+        `Refund ${paymentMethodLabels[refund.paymentMethod]}`,
+        `- Rp ${refund.amount.toLocaleString('id-ID')}`,
+      ]));
 
       autoTable(doc, {
         startY: (doc as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10,
-        head: [['Tanggal', 'Pelanggan', 'Item', 'Total']],
+        head: [['Tanggal', 'Pelanggan', 'Item', 'Pembayaran', 'Total']],
         body: tableData,
         headStyles: { fillColor: [41, 128, 185] },
       });
 
+      const variantSales = filteredTransactions
+        .flatMap(tx => tx.items)
+        .filter(item => item.variantName)
+        .reduce<Record<string, { quantity: number; revenue: number }>>((sales, item) => {
+          const key = `${item.productName} - ${item.variantName}`;
+          sales[key] = sales[key] || { quantity: 0, revenue: 0 };
+          sales[key].quantity += item.quantity;
+          sales[key].revenue += getLineGrossAmount(item) - (item.discountAmount || 0) - (item.promotionDiscountAmount || 0);
+          return sales;
+        }, {});
+
+      if (Object.keys(variantSales).length > 0) {
+        autoTable(doc, {
+          startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10,
+          head: [['Varian', 'Terjual', 'Penjualan']],
+          body: Object.entries(variantSales)
+            .sort(([, a], [, b]) => b.quantity - a.quantity)
+            .map(([name, { quantity, revenue }]) => [name, quantity, `Rp ${revenue.toLocaleString('id-ID')}`]),
+          headStyles: { fillColor: [41, 128, 185] },
+        });
+      }
+
+      const promotionUsage = filteredTransactions
+        .flatMap(tx => tx.appliedPromotions || [])
+        .reduce<Record<string, { name: string; count: number; amount: number }>>((usage, promotion) => {
+          usage[promotion.ruleId] = usage[promotion.ruleId] || { name: promotion.name, count: 0, amount: 0 };
+          usage[promotion.ruleId].count += 1;
+          usage[promotion.ruleId].amount += promotion.amount;
+          return usage;
+        }, {});
+
+      if (Object.keys(promotionUsage).length > 0) {
+        autoTable(doc, {
+          startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10,
+          head: [['Promo Otomatis', 'Transaksi', 'Total Diskon']],
+          body: Object.values(promotionUsage)
+            .sort((a, b) => b.amount - a.amount)
+            .map(({ name, count, amount }) => [name, count, `Rp ${amount.toLocaleString('id-ID')}`]),
+          headStyles: { fillColor: [41, 128, 185] },
+        });
+      }
+
+      // Bundle revenue is reported per bundle, then split across the products inside it.
+      const bundleLines = filteredTransactions.flatMap(tx => tx.items).filter(item => item.bundleItems);
+      if (bundleLines.length > 0) {
+        const bundleSales: Record<string, { quantity: number; revenue: number }> = {};
+        const componentSales: Record<string, { quantity: number; unit?: UnitOfMeasure; revenue: number }> = {};
+        bundleLines.forEach(item => {
+          const revenue = getLineGrossAmount(item) - (item.discountAmount || 0) - (item.promotionDiscountAmount || 0);
+          bundleSales[item.productName] = bundleSales[item.productName] || { quantity: 0, revenue: 0 };
+          bundleSales[item.productName].quantity += item.quantity;
+          bundleSales[item.productName].revenue += revenue;
+          allocateBundleRevenue(item, revenue).forEach(component => {
+            componentSales[component.productName] = componentSales[component.productName] || { quantity: 0, unit: component.unit, revenue: 0 };
+            componentSales[component.productName].quantity += component.quantity;
+            componentSales[component.productName].revenue += component.revenue;
+          });
+        });
+
+        autoTable(doc, {
+          startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10,
+          head: [['Paket', 'Terjual', 'Penjualan']],
+          body: Object.entries(bundleSales)
+            .sort(([, a], [, b]) => b.revenue - a.revenue)
+            .map(([name, { quantity, revenue }]) => [name, quantity, `Rp ${revenue.toLocaleString('id-ID')}`]),
+          headStyles: { fillColor: [41, 128, 185] },
+        });
+        autoTable(doc, {
+          startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10,
+          head: [['Isi Paket', 'Terjual dalam Paket', 'Porsi Penjualan Paket']],
+          body: Object.entries(componentSales)
+            .sort(([, a], [, b]) => b.revenue - a.revenue)
+            .map(([name, { quantity, unit, revenue }]) => [name, formatQuantity(quantity, unit), `Rp ${revenue.toLocaleString('id-ID')}`]),
+          headStyles: { fillColor: [41, 128, 185] },
+        });
+      }
+
       doc.save(`${filename}.pdf`);
     }
 
@@ -355,6 +565,74 @@ export default function AdminOverview() {
 
   return (
     <div className="grid gap-6">
+      {unreviewedOfflineConflicts.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="font-headline tracking-wider flex items-center gap-2">
+              <WifiOff className="h-5 w-5" /> Selisih Transaksi Offline
+            </CardTitle>
+            <CardDescription>
+              Transaksi ini dibuat saat kasir offline dan tetap dicatat, tetapi data di server sudah berubah. Periksa stok, poin, atau saldo token terkait.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {unreviewedOfflineConflicts.map(transaction => (
+              <div key={transaction.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">
+                    Nota {getReceiptNumberLabel(transaction)} ({transaction.offlineSync!.provisionalReceiptNumber}) · {transaction.customerName}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {format(new Date(transaction.createdAt), 'dd MMM yyyy HH:mm', { locale: idLocale })} · Rp {transaction.totalAmount.toLocaleString('id-ID')}
+                  </p>
+                  {transaction.offlineSync!.conflicts!.map((conflict, index) => (
+                    <p key={index} className="text-destructive">{conflict.message}</p>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReviewOfflineConflicts(transaction.id)}
+                  disabled={!!reviewingTransactionId}
+                >
+                  <CheckCircle className="mr-2 h-4 w-4" /> Tandai Ditinjau
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {lowStockProducts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline tracking-wider flex items-center gap-2">
+              <PackageX className="h-5 w-5" /> Stok Menipis
+            </CardTitle>
+            <CardDescription>
+              Produk yang stoknya mencapai stok minimum. Saran pesan dihitung dari penjualan {SALES_VELOCITY_WEEKS} minggu terakhir; buat pesanannya di menu Pembelian.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {lowStockProducts.map(({ product, weeklySales, suggestedQuantity }) => (
+              <div key={product.id} className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm">
+                <div className="space-y-1">
+                  <p className="font-medium">{product.name}</p>
+                  <p className="text-muted-foreground">
+                    Sisa {formatQuantity(product.stock, product.unit)} · Minimum {formatQuantity(product.minStock!, product.unit)}
+                    {weeklySales > 0 && ` · Terjual ${formatQuantity(Math.round(weeklySales * 10) / 10, product.unit)}/minggu`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs text-muted-foreground">Saran Pesan</p>
+                  <p className="font-semibold">{suggestedQuantity > 0 ? formatQuantity(suggestedQuantity, product.unit) : '-'}</p>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="font-headline tracking-wider">Pertumbuhan Pendapatan Bulanan</CardTitle>
@@ -21,6 +21,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Crown, ShoppingBag, TrendingUp, Users } from 'lucide-react';
 import type { Customer } from '@/lib/types';
+import { isPaidTransaction } from '@/lib/payments';
 import { startOfMonth, isWithinInterval } from 'date-fns';
 import { useDashboard } from '@/contexts/dashboard-context';
 
@@ -33,7 +34,8 @@ type CustomerMetric = {
 
 export default function CustomerAnalytics() {
   const { dashboardData, isLoading } = useDashboard();
-  const { customers, transactions } = dashboardData || {};
+  const { customers, transactions: allTransactions } = dashboardData || {};
+  const transactions = React.useMemo(() => allTransactions?.filter(isPaidTransaction), [allTransactions]);
 
   const { topSpenders, mostFrequent, metrics } = React.useMemo(() => {
     if (!customers || !transactions || customers.length === 0 || transactions.length === 0) {
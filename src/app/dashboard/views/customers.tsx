@@ -17,7 +17,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { Customer } from '@/lib/types';
+import type { Customer, GiftCard, GiftCardMovement } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -54,13 +54,35 @@ import { useDashboard } from '@/contexts/dashboard-context';
 import { db } from '@/lib/firebase';
 import { doc, deleteDoc } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { getCustomerGiftCardMovements, getCustomerGiftCards } from '@/lib/gift-card-ledger';
+import { getGiftCardUnavailableReason, giftCardMovementLabels, giftCardTypeLabels } from '@/lib/gift-cards';
+
+function CustomerDetailsDialog({ storeId, customer, open, onOpenChange }: { storeId: string; customer: Customer; open: boolean; onOpenChange: (open: boolean) => void }) {
+    const [giftCards, setGiftCards] = React.useState<GiftCard[] | null>(null);
+    const [giftCardMovements, setGiftCardMovements] = React.useState<GiftCardMovement[]>([]);
+
+    React.useEffect(() => {
+        if (!open) return;
+        setGiftCards(null);
+        Promise.all([getCustomerGiftCards(storeId, customer.id), getCustomerGiftCardMovements(storeId, customer.id)])
+            .then(([cards, movements]) => {
+                setGiftCards(cards);
+                setGiftCardMovements(movements);
+            })
+            .catch(error => {
+                console.error("Error fetching customer gift cards:", error);
+                setGiftCards([]);
+                setGiftCardMovements([]);
+            });
+    }, [open, storeId, customer.id]);
 
-function CustomerDetailsDialog({ customer, open, onOpenChange }: { customer: Customer; open: boolean; onOpenChange: (open: boolean) => void }) {
     if (!customer) return null;
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-md">
+            <DialogContent className="sm:max-w-lg">
                 <DialogHeader>
                     <DialogTitle className="font-headline tracking-wider">{customer.name}</DialogTitle>
                     <DialogDescription>
@@ -82,6 +104,64 @@ function CustomerDetailsDialog({ customer, open, onOpenChange }: { customer: Cus
                         )}
                     </div>
                 </div>
+                <Separator />
+                <div className="space-y-2">
+                    <p className="text-sm font-semibold">Gift Card & Kredit Toko</p>
+                    {giftCards === null ? (
+                        <Skeleton className="h-16 w-full" />
+                    ) : giftCards.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Belum ada gift card atau kredit toko.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            {giftCards.map(card => {
+                                const unavailableReason = getGiftCardUnavailableReason(card);
+                                return (
+                                    <div key={card.code} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                                        <div>
+                                            <p className="font-code">{card.code}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {giftCardTypeLabels[card.type]}
+                                                {card.expiresAt && ` · berlaku s.d. ${new Date(card.expiresAt).toLocaleDateString('id-ID', { year: 'numeric', month: 'short', day: 'numeric' })}`}
+                                            </p>
+                                        </div>
+                                        <div className="text-right">
+                                            <p className="font-semibold">Rp {card.balance.toLocaleString('id-ID')}</p>
+                                            {unavailableReason && card.balance > 0 && <Badge variant="secondary">Tidak aktif</Badge>}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {giftCardMovements.length > 0 && (
+                        <ScrollArea className="h-40">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Tanggal</TableHead>
+                                        <TableHead>Kode</TableHead>
+                                        <TableHead>Mutasi</TableHead>
+                                        <TableHead className="text-right">Jumlah</TableHead>
+                                        <TableHead className="text-right">Saldo</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {giftCardMovements.map(movement => (
+                                        <TableRow key={movement.id}>
+                                            <TableCell className="text-xs">{new Date(movement.createdAt).toLocaleString('id-ID', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}</TableCell>
+                                            <TableCell className="font-code text-xs">{movement.code}</TableCell>
+                                            <TableCell className="text-xs">{giftCardMovementLabels[movement.type]}</TableCell>
+                                            <TableCell className={`text-right text-xs ${movement.amount < 0 ? 'text-destructive' : ''}`}>
+                                                {movement.amount > 0 ? '+' : '-'}Rp {Math.abs(movement.amount).toLocaleString('id-ID')}
+                                            </TableCell>
+                                            <TableCell className="text-right text-xs">Rp {movement.balanceAfter.toLocaleString('id-ID')}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </ScrollArea>
+                    )}
+                </div>
             </DialogContent>
         </Dialog>
     );
@@ -250,8 +330,9 @@ export default function Customers() {
           </Table>
         </CardContent>
       </Card>
-      {selectedCustomer && (
+      {selectedCustomer && activeStore && (
         <CustomerDetailsDialog
+            storeId={activeStore.id}
             customer={selectedCustomer}
             open={!!selectedCustomer}
             onOpenChange={() => setSelectedCustomer(null)}
@@ -42,6 +42,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import type { Customer, User } from '@/lib/types';
+import { isPaidTransaction } from '@/lib/payments';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Link from 'next/link';
 import { useToast } from '@/hooks/use-toast';
@@ -187,7 +188,8 @@ function BirthdayFollowUpDialog({ customer, open, onOpenChange }: { customer: Cu
 export default function Overview() {
   const { currentUser, activeStore } = useAuth();
   const { dashboardData } = useDashboard();
-  const { transactions, users, customers } = dashboardData || {};
+  const { transactions: allTransactions, users, customers } = dashboardData || {};
+  const transactions = React.useMemo(() => allTransactions?.filter(isPaidTransaction), [allTransactions]);
   const [selectedCustomer, setSelectedCustomer] = React.useState<Customer | null>(null);
   
   const storeId = activeStore?.id;
@@ -9,7 +9,7 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import type { Product, Customer, CartItem, Transaction } from '@/lib/types';
+import type { Product, Customer, CartItem, Transaction, CheckoutRequest, PaymentMethod, PaymentTender, HeldCart, PosSettings, TaxSettings, OrderType, Shift, CustomerDisplayState, PromotionRule, CheckoutGiftCardSale, ApprovalLog, ApprovalRequest, ApprovalSettings } from '@/lib/types';
 import {
   Search,
   PlusCircle,
@@ -24,16 +24,39 @@ import {
   Coins,
   Bell,
   PackageX,
+  PauseCircle,
+  History,
+  Loader,
+  Keyboard,
+  Wallet,
+  MonitorSmartphone,
+  BadgePercent,
+  Ticket,
+  WifiOff,
+  Banknote,
 } from 'lucide-react';
 import Image from 'next/image';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { LoyaltyRecommendation } from '@/components/dashboard/loyalty-recommendation';
+import { PaymentPanel, resolveTenders } from '@/components/dashboard/payment-panel';
+import { HeldCartsDialog } from '@/components/dashboard/held-carts-dialog';
+import { ShiftDialog } from '@/components/dashboard/shift-dialog';
+import { QrisPaymentDialog } from '@/components/dashboard/qris-payment-dialog';
+import { OfflineQueueDialog } from '@/components/dashboard/offline-queue-dialog';
+import { ApprovalPinDialog } from '@/components/dashboard/approval-pin-dialog';
+import { CartItemDialog } from '@/components/dashboard/cart-item-dialog';
+import { ProductOptionsDialog } from '@/components/dashboard/product-options-dialog';
+import { calculateLineDiscount, getLineKey, getLineTotal } from '@/lib/line-items';
+import { findProductByBarcode, formatItemOptions, getAvailableStock, hasProductOptions, resolveProductSelection, type ProductSelection } from '@/lib/product-options';
+import { summarizeTenders } from '@/lib/payments';
+import { expandBundleLines, formatBundleItems, getBundleStock, getTransactionBundleItems, isBundleProduct } from '@/lib/bundles';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -42,117 +65,380 @@ import { AddCustomerForm } from '@/components/dashboard/add-customer-form';
 import { Combobox } from '@/components/ui/combobox';
 import { BarcodeScanner } from '@/components/dashboard/barcode-scanner';
 import { useToast } from '@/hooks/use-toast';
+import { useScannerWedge } from '@/hooks/use-scanner-wedge';
+import { useOfflineCheckouts } from '@/hooks/use-offline-checkouts';
 import { cn } from '@/lib/utils';
 import { Label } from '@/components/ui/label';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { getPointEarningSettings, type PointEarningSettings } from '@/lib/point-earning-settings';
-import { db } from '@/lib/firebase';
-import { collection, doc, runTransaction, increment, serverTimestamp } from 'firebase/firestore';
+import { getPosSettings } from '@/lib/pos-settings';
+import { getTaxSettings } from '@/lib/tax-settings';
+import { getApprovalSettings } from '@/lib/approval-settings';
+import { defaultApprovalSettings, getCheckoutApprovalRequests, matchApprovals } from '@/lib/approvals';
+import { calculateTaxAndService, orderTypeLabels } from '@/lib/tax';
+import { holdCart } from '@/lib/held-carts';
+import { getPromotionRules } from '@/lib/promotion-rules';
+import { evaluatePromotions } from '@/lib/promotion-engine';
+import { getOpenShift } from '@/lib/shifts';
+import { publishCustomerDisplay } from '@/lib/customer-display';
+import { createCheckoutClientId, isNetworkError, queueOfflineCheckout } from '@/lib/offline-checkouts';
+import { getOfflineSnapshot, saveOfflineSnapshot } from '@/lib/offline-store';
+import { formatQuantity, formatUnitPrice, getItemUnit, getQuantityStep, isFractionalUnit, isValidQuantity, roundQuantity } from '@/lib/units';
+import { parseScaleBarcode } from '@/lib/scale-barcode';
+import { Textarea } from '@/components/ui/textarea';
+import { auth } from '@/lib/firebase';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/contexts/auth-context';
 import { useDashboard } from '@/contexts/dashboard-context';
 import { useRouter } from 'next/navigation';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 type POSProps = {
   onPrintRequest: (transaction: Transaction) => void;
 };
 
+type OfflinePosConfig = {
+  pointSettings: PointEarningSettings;
+  posSettings: PosSettings;
+  taxSettings: TaxSettings;
+  promotionRules: PromotionRule[];
+  approvalSettings: ApprovalSettings;
+};
+
+
+const KEYBOARD_MODE_STORAGE_KEY = 'pos-keyboard-mode';
+
+const keyboardShortcuts = [
+  { keys: 'Scan', label: 'Tambah produk' },
+  { keys: '3 *', label: 'Jumlah untuk scan berikutnya' },
+  { keys: '+ / -', label: 'Ubah jumlah item terakhir' },
+  { keys: 'Del', label: 'Hapus item terakhir' },
+  { keys: 'F2', label: 'Cari produk' },
+  { keys: 'F4', label: 'Diskon manual' },
+  { keys: 'F6 / F7 / F8', label: 'Tunai / Kartu / QRIS' },
+  { keys: 'F10', label: 'Uang diterima' },
+  { keys: 'F9', label: 'Bayar' },
+  { keys: 'Esc', label: 'Batalkan jumlah' },
+];
+
+// Keeps the typed text while a decimal quantity like "0," is still being entered.
+// Applied when the field loses focus, so lowering a quantity asks for approval once rather than per keystroke.
+function CartQuantityInput({ item, onQuantityChange }: { item: CartItem; onQuantityChange: (quantity: number) => void }) {
+  const [text, setText] = React.useState(String(item.quantity));
+
+  React.useEffect(() => {
+    setText(String(item.quantity));
+  }, [item.quantity]);
+
+  const commit = () => {
+    const quantity = Number(text.replace(',', '.'));
+    if (quantity > 0 && quantity !== item.quantity) onQuantityChange(quantity);
+    setText(String(item.quantity));
+  };
+
+  return (
+    <Input
+      type="text"
+      inputMode={isFractionalUnit(item.unit) ? 'decimal' : 'numeric'}
+      className={cn('h-8 text-center', isFractionalUnit(item.unit) ? 'w-20' : 'w-14')}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      onFocus={(e) => e.target.select()}
+    />
+  );
+}
 
 export default function POS({ onPrintRequest }: POSProps) {
   const { currentUser, activeStore, pradanaTokenBalance, refreshPradanaTokenBalance } = useAuth();
   const { dashboardData, isLoading, refreshData } = useDashboard();
-  const { products, customers, feeSettings } = dashboardData;
+  const { products, customers, feeSettings, redemptionOptions } = dashboardData;
 
   const router = useRouter();
 
   const [pointSettings, setPointSettings] = React.useState<PointEarningSettings | null>(null);
+  const [posSettings, setPosSettings] = React.useState<PosSettings | null>(null);
+  const [taxSettings, setTaxSettings] = React.useState<TaxSettings | null>(null);
+  const [promotionRules, setPromotionRules] = React.useState<PromotionRule[]>([]);
+  const [approvalSettings, setApprovalSettings] = React.useState<ApprovalSettings>(defaultApprovalSettings);
+  // Happy hours start and end while a cart is open, so the preview is re-evaluated every minute.
+  const [promotionClock, setPromotionClock] = React.useState(() => new Date());
 
   React.useEffect(() => {
-    if (activeStore?.id) {
-      getPointEarningSettings(activeStore.id).then(setPointSettings);
+    if (!activeStore?.id) return;
+    const storeId = activeStore.id;
+    // The settings getters fall back to defaults when Firestore can't be reached, which would
+    // price offline sales differently, so the POS keeps the last settings it loaded instead.
+    if (!navigator.onLine) {
+      getOfflineSnapshot<OfflinePosConfig>(storeId, 'posConfig').then(snapshot => {
+        if (!snapshot) return;
+        setPointSettings(snapshot.value.pointSettings);
+        setPosSettings(snapshot.value.posSettings);
+        setTaxSettings(snapshot.value.taxSettings);
+        setPromotionRules(snapshot.value.promotionRules);
+        setApprovalSettings({ ...defaultApprovalSettings, ...snapshot.value.approvalSettings });
+      }).catch(error => console.error('Error reading offline POS settings:', error));
+      return;
     }
+    Promise.all([
+      getPointEarningSettings(storeId),
+      getPosSettings(storeId),
+      getTaxSettings(storeId),
+      getPromotionRules(storeId),
+      getApprovalSettings(storeId),
+    ]).then(([pointSettings, posSettings, taxSettings, promotionRules, approvalSettings]) => {
+      setPointSettings(pointSettings);
+      setPosSettings(posSettings);
+      setTaxSettings(taxSettings);
+      setPromotionRules(promotionRules);
+      setApprovalSettings(approvalSettings);
+      saveOfflineSnapshot<OfflinePosConfig>(storeId, 'posConfig', { pointSettings, posSettings, taxSettings, promotionRules, approvalSettings })
+        .catch(error => console.error('Error saving offline POS settings:', error));
+    });
   }, [activeStore]);
 
+  React.useEffect(() => {
+    const interval = setInterval(() => setPromotionClock(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   const [isProcessingCheckout, setIsProcessingCheckout] = React.useState(false);
   const [cart, setCart] = React.useState<CartItem[]>([]);
+  const [giftCardSales, setGiftCardSales] = React.useState<CheckoutGiftCardSale[]>([]);
+  const [isGiftCardSaleOpen, setIsGiftCardSaleOpen] = React.useState(false);
+  const [giftCardSaleAmount, setGiftCardSaleAmount] = React.useState('');
   const [selectedCustomer, setSelectedCustomer] = React.useState<Customer | undefined>(undefined);
   const [searchTerm, setSearchTerm] = React.useState('');
-  const [paymentMethod, setPaymentMethod] = React.useState<'Cash' | 'Card' | 'QRIS'>('Cash');
+  const [orderType, setOrderType] = React.useState<OrderType>('dine-in');
+  const [paymentMethod, setPaymentMethod] = React.useState<PaymentMethod>('Cash');
+  const [splitTenders, setSplitTenders] = React.useState<PaymentTender[] | null>(null);
+  const [cashTendered, setCashTendered] = React.useState<number | undefined>(undefined);
   const [isMemberDialogOpen, setIsMemberDialogOpen] = React.useState(false);
   const [isScannerOpen, setIsScannerOpen] = React.useState(false);
   const [discountType, setDiscountType] = React.useState<'percent' | 'nominal'>('percent');
   const [discountValue, setDiscountValue] = React.useState(0);
   const [pointsToRedeem, setPointsToRedeem] = React.useState(0);
+  const [redemptionOptionId, setRedemptionOptionId] = React.useState<string | null>(null);
+  const [isDirectRedemption, setIsDirectRedemption] = React.useState(false);
+  const [cartNotes, setCartNotes] = React.useState('');
+  const [isHoldDialogOpen, setIsHoldDialogOpen] = React.useState(false);
+  const [isHeldCartsOpen, setIsHeldCartsOpen] = React.useState(false);
+  const [isHoldingCart, setIsHoldingCart] = React.useState(false);
+  const [editingItemId, setEditingItemId] = React.useState<string | null>(null);
+  const [optionsProduct, setOptionsProduct] = React.useState<Product | null>(null);
+  const [currentShift, setCurrentShift] = React.useState<Shift | null>(null);
+  const [isShiftDialogOpen, setIsShiftDialogOpen] = React.useState(false);
+  const [isKeyboardMode, setIsKeyboardMode] = React.useState(false);
+  const [pendingQuantity, setPendingQuantity] = React.useState<number | null>(null);
+  const [lastLineKey, setLastLineKey] = React.useState<string | null>(null);
+  const [paidTransaction, setPaidTransaction] = React.useState<Transaction | null>(null);
+  const [pendingQrisTransaction, setPendingQrisTransaction] = React.useState<Transaction | null>(null);
+  const [isOfflineQueueOpen, setIsOfflineQueueOpen] = React.useState(false);
+  // Approvals given for the order being rung up, spent when it is checked out.
+  const [orderApprovals, setOrderApprovals] = React.useState<ApprovalLog[]>([]);
+  const [approvalPrompt, setApprovalPrompt] = React.useState<{ requests: ApprovalRequest[]; resolve: (approvals: ApprovalLog[] | null) => void } | null>(null);
+  const searchInputRef = React.useRef<HTMLInputElement>(null);
+  const discountInputRef = React.useRef<HTMLInputElement>(null);
+  const typedDigitsRef = React.useRef('');
   const { toast } = useToast();
 
+  const isStoreAdmin = !!currentUser && (currentUser.role === 'admin' || !!activeStore?.adminUids.includes(currentUser.id));
+
+  // Asks for an admin's PIN and resolves with the recorded approvals, or null if none was given.
+  const requestApproval = (requests: ApprovalRequest[]): Promise<ApprovalLog[] | null> => {
+    if (!navigator.onLine) {
+      toast({ variant: 'destructive', title: 'Tidak Tersedia Saat Offline', description: 'Persetujuan PIN admin memerlukan koneksi internet.' });
+      return Promise.resolve(null);
+    }
+    return new Promise(resolve => setApprovalPrompt({ requests, resolve }));
+  };
+
+  const { isOnline, queue: offlineQueue, isSyncing, sync: syncOfflineQueue, refreshQueue: refreshOfflineQueue } = useOfflineCheckouts(activeStore?.id, result => {
+    if (result.synced.length > 0) {
+      const conflictCount = result.synced.filter(transaction => transaction.offlineSync?.conflicts?.length).length;
+      toast({
+        title: 'Transaksi Offline Tersinkron',
+        description: `${result.synced.length} transaksi offline telah tersimpan di server.${conflictCount > 0 ? ` ${conflictCount} di antaranya memiliki selisih yang perlu ditinjau admin.` : ''}`,
+      });
+    }
+    if (result.failed.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Transaksi Offline Ditolak',
+        description: `${result.failed.length} transaksi offline ditolak server. Buka antrean offline untuk melihat alasannya.`,
+      });
+    }
+    refreshPradanaTokenBalance();
+    refreshData();
+  });
+
+  React.useEffect(() => {
+    if (activeStore?.id && currentUser?.id) {
+      getOpenShift(activeStore.id, currentUser.id).then(setCurrentShift);
+    }
+  }, [activeStore?.id, currentUser?.id]);
+
+  // Keyboard mode belongs to the counter (which has the scanner), not the store, so it is kept per device.
+  React.useEffect(() => {
+    setIsKeyboardMode(localStorage.getItem(KEYBOARD_MODE_STORAGE_KEY) === 'true');
+  }, []);
+
+  const toggleKeyboardMode = () => {
+    const enabled = !isKeyboardMode;
+    setIsKeyboardMode(enabled);
+    setPendingQuantity(null);
+    localStorage.setItem(KEYBOARD_MODE_STORAGE_KEY, String(enabled));
+  };
+
   const customerOptions = (customers || []).map((c) => ({
     value: c.id,
     label: c.name,
   }));
 
-  const addToCart = (product: Product) => {
+  // Bundles have no stock of their own; they are limited by their components.
+  const getProductStock = (product: Product, variantId?: string) =>
+    isBundleProduct(product) ? getBundleStock(product, products) : getAvailableStock(product, variantId);
+
+  // How many units a cart line may hold, given the other lines drawing on the same product or variant stock,
+  // including bundles that share a component.
+  const getStockLimit = (currentCart: CartItem[], productId: string, variantId: string | undefined, lineKey: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return 0;
+    const reservedLines = expandBundleLines(currentCart.filter(item => getLineKey(item) !== lineKey));
+    if (isBundleProduct(product)) return getBundleStock(product, products, reservedLines);
+    const otherLines = reservedLines.filter(line => line.productId === productId);
+    const productLimit = roundQuantity(product.stock - otherLines.reduce((sum, item) => sum + item.quantity, 0), product.unit);
+
+    const variant = product.variants?.find(v => v.id === variantId);
+    if (variant?.stock === undefined) return productLimit;
+    const variantLimit = roundQuantity(variant.stock - otherLines
+      .filter(item => item.variantId === variantId)
+      .reduce((sum, item) => sum + item.quantity, 0), product.unit);
+    return Math.min(productLimit, variantLimit);
+  };
+
+  const getCatalogUnitPrice = (item: CartItem) => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) return item.originalPrice ?? item.price;
+    try {
+      return resolveProductSelection(product, item.variantId, item.modifiers?.map(m => m.optionId)).unitPrice;
+    } catch {
+      return item.originalPrice ?? item.price;
+    }
+  };
+
+  const addToCart = (product: Product, selection?: ProductSelection, scannedQuantity?: number) => {
     if (!activeStore) return;
-    const stockInStore = product.stock;
 
-    if (stockInStore === 0) {
+    if (!selection && hasProductOptions(product)) {
+      if (scannedQuantity) setPendingQuantity(scannedQuantity);
+      setOptionsProduct(product);
+      return;
+    }
+
+    // A quantity typed in keyboard mode ("3*") applies to the next product added, even through the options dialog.
+    const quantity = scannedQuantity ?? pendingQuantity ?? (product.unit === 'gram' ? 100 : 1);
+    setPendingQuantity(null);
+    if (!isValidQuantity(quantity, product.unit)) {
+      toast({ variant: 'destructive', title: 'Jumlah Tidak Valid', description: `${product.name} hanya bisa dijual dalam jumlah bulat.` });
+      return;
+    }
+
+    let bundleItems: CartItem['bundleItems'];
+    try {
+      bundleItems = isBundleProduct(product) ? getTransactionBundleItems(product, products) : undefined;
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Paket Tidak Tersedia', description: (error as Error).message });
+      return;
+    }
+
+    const newItem: CartItem = {
+      productId: product.id,
+      productName: product.name,
+      ...(selection?.variant && { variantId: selection.variant.id, variantName: selection.variant.name }),
+      ...(selection && selection.modifiers.length > 0 && { modifiers: selection.modifiers }),
+      quantity,
+      ...getItemUnit(product),
+      price: selection ? selection.unitPrice : product.price,
+      ...(bundleItems && { bundleItems }),
+    };
+    const lineKey = getLineKey(newItem);
+    const label = selection?.variant ? `${product.name} (${selection.variant.name})` : product.name;
+
+    if (getProductStock(product, selection?.variant?.id) <= 0) {
       toast({
         variant: 'destructive',
         title: 'Stok Habis',
-        description: `${product.name} saat ini stoknya habis di toko ini.`,
+        description: `${label} saat ini stoknya habis di toko ini.`,
       });
       return;
     }
     setCart((prevCart) => {
-      const existingItem = prevCart.find(
-        (item) => item.productId === product.id
-      );
+      const existingItem = prevCart.find((item) => getLineKey(item) === lineKey);
+      const stockLimit = getStockLimit(prevCart, product.id, newItem.variantId, lineKey);
+      const currentQuantity = existingItem?.quantity || 0;
+      if (currentQuantity + quantity > stockLimit) {
+        toast({
+          variant: 'destructive',
+          title: 'Batas Stok Tercapai',
+          description: `Hanya ${formatQuantity(Math.max(0, stockLimit), product.unit)} ${label} yang tersedia.`,
+        });
+        if (currentQuantity >= stockLimit) return prevCart;
+      }
+      const newQuantity = roundQuantity(Math.min(currentQuantity + quantity, stockLimit), product.unit);
       if (existingItem) {
-        if (existingItem.quantity >= stockInStore) {
-          toast({
-            variant: 'destructive',
-            title: 'Batas Stok Tercapai',
-            description: `Hanya ${stockInStore} unit ${product.name} yang tersedia.`,
-          });
-          return prevCart;
-        }
         return prevCart.map((item) =>
-          item.productId === product.id
-            ? { ...item, quantity: item.quantity + 1 }
+          getLineKey(item) === lineKey
+            ? { ...item, quantity: newQuantity }
             : item
         );
       }
-      return [
-        ...prevCart,
-        {
-          productId: product.id,
-          productName: product.name,
-          quantity: 1,
-          price: product.price,
-        },
-      ];
+      return [...prevCart, { ...newItem, quantity: newQuantity }];
     });
+    setLastLineKey(lineKey);
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = async (lineKey: string, requestedQuantity: number) => {
+    const line = cart.find(item => getLineKey(item) === lineKey);
+    if (!line) return;
+    const quantity = roundQuantity(requestedQuantity, line.unit);
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineKey);
       return;
     }
     if (!activeStore) return;
 
-    const product = products.find(p => p.id === productId);
-    const stockInStore = product?.stock || 0;
+    // Taking items off a line voids them just as removing the whole line does.
+    if (quantity < line.quantity && approvalSettings.lineVoids && !isStoreAdmin) {
+      const voidedQuantity = roundQuantity(line.quantity - quantity, line.unit);
+      const approvals = await requestApproval([{
+        action: 'line-void',
+        details: {
+          description: `Kurangi ${formatQuantity(voidedQuantity, line.unit)} ${line.productName} dari keranjang`,
+          productId: line.productId,
+          productName: line.productName,
+          quantity: voidedQuantity,
+          amount: Math.round(getLineTotal(line) * voidedQuantity / line.quantity),
+        },
+      }]);
+      if (!approvals) return;
+    }
+
+    const stockLimit = Math.max(0, getStockLimit(cart, line.productId, line.variantId, lineKey));
 
-    if (product && quantity > stockInStore) {
+    if (quantity > stockLimit) {
       toast({
         variant: 'destructive',
         title: 'Batas Stok Tercapai',
-        description: `Hanya ${stockInStore} unit ${product.name} yang tersedia.`,
+        description: `Hanya ${formatQuantity(stockLimit, line.unit)} ${line.productName} yang tersedia.`,
       });
       setCart((prevCart) =>
         prevCart.map((item) =>
-          item.productId === productId ? { ...item, quantity: stockInStore } : item
+          getLineKey(item) === lineKey ? { ...item, quantity: stockLimit } : item
         )
       );
       return;
@@ -160,24 +446,56 @@ export default function POS({ onPrintRequest }: POSProps) {
 
     setCart((prevCart) =>
       prevCart.map((item) =>
-        item.productId === productId ? { ...item, quantity } : item
+        getLineKey(item) === lineKey ? { ...item, quantity } : item
       )
     );
   };
 
-  const removeFromCart = (productId: string) => {
+  const removeFromCart = async (lineKey: string) => {
+    const line = cart.find(item => getLineKey(item) === lineKey);
+    if (line && approvalSettings.lineVoids && !isStoreAdmin) {
+      const approvals = await requestApproval([{
+        action: 'line-void',
+        details: {
+          description: `Hapus ${formatQuantity(line.quantity, line.unit)} ${line.productName} dari keranjang`,
+          productId: line.productId,
+          productName: line.productName,
+          quantity: line.quantity,
+          amount: getLineTotal(line),
+        },
+      }]);
+      if (!approvals) return;
+    }
     setCart((prevCart) =>
-      prevCart.filter((item) => item.productId !== productId)
+      prevCart.filter((item) => getLineKey(item) !== lineKey)
     );
   };
 
   const handleBarcodeScanned = (barcode: string) => {
-    const product = products.find(p => p.attributes.barcode === barcode);
-    if (product) {
-      addToCart(product);
+    typedDigitsRef.current = '';
+    const match = findProductByBarcode(products, barcode);
+    if (match) {
+      const { product, variant } = match;
+      // A variant barcode identifies the variant, so the options dialog is only needed for modifiers.
+      if (variant && !(product.modifierGroups?.length)) {
+        addToCart(product, { variant, modifiers: [], unitPrice: product.price + variant.priceDelta });
+      } else {
+        addToCart(product);
+      }
       toast({
         title: 'Produk Ditambahkan!',
-        description: `${product.name} telah ditambahkan ke keranjang.`,
+        description: `${pendingQuantity ? `${pendingQuantity}x ` : ''}${product.name} telah ditambahkan ke keranjang.`,
+      });
+      setIsScannerOpen(false);
+      return;
+    }
+
+    const scaleMatch = parseScaleBarcode(products, barcode, posSettings?.scaleBarcodeValue || 'weight');
+    if (scaleMatch) {
+      addToCart(scaleMatch.product, undefined, scaleMatch.quantity);
+      toast({
+        title: 'Produk Ditambahkan!',
+        description: `${formatQuantity(scaleMatch.quantity, scaleMatch.product.unit)} ${scaleMatch.product.name} telah ditambahkan ke keranjang.`,
       });
       setIsScannerOpen(false);
     } else {
@@ -190,29 +508,124 @@ export default function POS({ onPrintRequest }: POSProps) {
   };
 
   const subtotal = cart.reduce(
-    (total, item) => total + item.price * item.quantity,
+    (total, item) => total + getLineTotal(item),
     0
   );
 
+  // Cashiers may override prices when the store allows it with an admin's PIN.
+  const canOverridePrice = isStoreAdmin || approvalSettings.priceOverrides;
+  const editingItem = cart.find(item => getLineKey(item) === editingItemId) || null;
+
+  const handleCartItemSave = (updatedItem: CartItem) => {
+    setCart(prevCart => prevCart.map(item => getLineKey(item) === getLineKey(updatedItem) ? updatedItem : item));
+  };
+
+  // The server re-evaluates promotions at checkout; this is the preview.
+  const promotions = React.useMemo(
+    () => evaluatePromotions(promotionRules, cart, products, promotionClock),
+    [promotionRules, cart, products, promotionClock]
+  );
+  const promotionDiscountAmount = Math.min(promotions.discountAmount, subtotal);
+  const discountableAmount = subtotal - promotionDiscountAmount;
+
   const discountAmount = React.useMemo(() => {
     if (discountType === 'percent') {
-      return (subtotal * discountValue) / 100;
+      return Math.round((discountableAmount * Math.min(discountValue, 100)) / 100);
     }
-    return discountValue;
-  }, [subtotal, discountType, discountValue]);
+    return Math.min(discountValue, discountableAmount);
+  }, [discountableAmount, discountType, discountValue]);
 
-  const totalAmount = Math.max(0, subtotal - discountAmount);
+  const rpPerRedeemedPoint = pointSettings?.rpPerRedeemedPoint || 0;
+  const activeRedemptionOptions = (redemptionOptions || []).filter(option => option.isActive);
+  const selectedRedemptionOption = activeRedemptionOptions.find(option => option.id === redemptionOptionId);
+  const pointsRedeemed = selectedRedemptionOption ? selectedRedemptionOption.pointsRequired : pointsToRedeem;
 
-  const pointsEarned = (selectedCustomer && pointSettings) ? Math.floor(totalAmount / pointSettings.rpPerPoint) : 0;
+  // Redemption applies after the manual discount and never pushes the total below zero, matching /api/checkout.
+  const redemptionDiscountAmount = Math.min(
+    selectedRedemptionOption ? selectedRedemptionOption.value : pointsToRedeem * rpPerRedeemedPoint,
+    Math.max(0, discountableAmount - discountAmount)
+  );
+
+  const netAmount = Math.max(0, discountableAmount - discountAmount - redemptionDiscountAmount);
+  // Same calculation as /api/checkout, so the preview matches the stored transaction.
+  const taxBreakdown = taxSettings ? calculateTaxAndService(netAmount, taxSettings, orderType) : null;
+  const goodsAmount = taxBreakdown ? taxBreakdown.totalAmount : netAmount;
+  // Gift cards sold are charged on top of the goods, without discounts, tax, points or fee.
+  const giftCardSalesAmount = giftCardSales.reduce((sum, sale) => sum + sale.amount, 0);
+  const totalAmount = goodsAmount + giftCardSalesAmount;
+  const isOrderEmpty = cart.length === 0 && giftCardSales.length === 0;
+  const hasDineInOnlyCharges = !!taxSettings && (
+    (taxSettings.taxEnabled && taxSettings.taxDineInOnly) ||
+    (taxSettings.serviceChargeEnabled && taxSettings.serviceChargeDineInOnly)
+  );
+
+  const pointsEarned = (selectedCustomer && pointSettings) ? Math.floor(goodsAmount / pointSettings.rpPerPoint) : 0;
 
   const transactionFee = React.useMemo(() => {
-    if (!feeSettings) return 0;
+    if (!feeSettings || cart.length === 0) return 0;
 
-    const feeFromPercentage = totalAmount * feeSettings.feePercentage;
+    const feeFromPercentage = goodsAmount * feeSettings.feePercentage;
     const feeCappedAtMin = Math.max(feeFromPercentage, feeSettings.minFeeRp);
     const feeCappedAtMax = Math.min(feeCappedAtMin, feeSettings.maxFeeRp);
     return feeCappedAtMax / feeSettings.tokenValueRp;
-  }, [totalAmount, feeSettings]);
+  }, [goodsAmount, cart.length, feeSettings]);
+
+  // The customer display shows the last sale until the next item is rung up.
+  React.useEffect(() => {
+    if (!isOrderEmpty) setPaidTransaction(null);
+  }, [isOrderEmpty]);
+
+  const customerDisplayState: Omit<CustomerDisplayState, 'updatedAt'> | null = !currentUser ? null
+    : isOrderEmpty && paidTransaction ? {
+      staffId: currentUser.id,
+      staffName: currentUser.name,
+      status: 'paid',
+      items: [],
+      subtotal: paidTransaction.subtotal,
+      discountAmount: (paidTransaction.promotionDiscountAmount || 0) + paidTransaction.discountAmount + (paidTransaction.redemptionDiscountAmount || 0),
+      serviceChargeAmount: paidTransaction.serviceChargeAmount || 0,
+      taxAmount: paidTransaction.taxAmount || 0,
+      totalAmount: paidTransaction.totalAmount,
+      paymentMethod: paidTransaction.paymentMethod,
+      ...(paidTransaction.customerId !== 'N/A' && { customerName: paidTransaction.customerName, pointsEarned: paidTransaction.pointsEarned }),
+      ...(paidTransaction.changeAmount !== undefined && { changeAmount: paidTransaction.changeAmount }),
+    } : {
+      staffId: currentUser.id,
+      staffName: currentUser.name,
+      status: isOrderEmpty ? 'idle' : isProcessingCheckout || pendingQrisTransaction ? 'awaiting-payment' : 'cart',
+      items: [
+        ...cart.map(item => ({
+          name: item.productName,
+          ...(formatItemOptions(item) && { options: formatItemOptions(item) }),
+          quantity: item.quantity,
+          ...(item.unit && { unit: item.unit }),
+          lineTotal: getLineTotal(item),
+        })),
+        ...giftCardSales.map(sale => ({ name: 'Gift Card', quantity: 1, lineTotal: sale.amount })),
+      ],
+      subtotal: subtotal + giftCardSalesAmount,
+      discountAmount: promotionDiscountAmount + discountAmount + redemptionDiscountAmount,
+      serviceChargeAmount: taxBreakdown?.serviceChargeAmount || 0,
+      taxAmount: taxBreakdown?.taxAmount || 0,
+      totalAmount,
+      paymentMethod: splitTenders ? 'Split' : paymentMethod,
+      ...(selectedCustomer && { customerName: selectedCustomer.name, pointsEarned }),
+      ...(pendingQrisTransaction?.qrisPayment && { qrString: pendingQrisTransaction.qrisPayment.qrString }),
+    };
+  // Compared as JSON so re-renders that change nothing don't write to Firestore.
+  const customerDisplayJson = customerDisplayState ? JSON.stringify(customerDisplayState) : null;
+
+  React.useEffect(() => {
+    if (!activeStore?.id || !customerDisplayJson) return;
+    const storeId = activeStore.id;
+    // Debounced so typing a quantity or discount doesn't write on every keystroke.
+    const timeout = setTimeout(() => {
+      publishCustomerDisplay(storeId, JSON.parse(customerDisplayJson)).catch(error => {
+        console.error('Error updating customer display:', error);
+      });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [activeStore?.id, customerDisplayJson]);
 
   const handlePointsRedeemChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let value = Number(e.target.value);
@@ -228,12 +641,29 @@ export default function POS({ onPrintRequest }: POSProps) {
     setPointsToRedeem(value);
   }
 
+  const handleRedemptionChange = (value: string) => {
+    setPointsToRedeem(0);
+    setRedemptionOptionId(value === 'none' || value === 'points' ? null : value);
+    setIsDirectRedemption(value === 'points');
+  };
+
   const filteredProducts = (products || []).filter((product) =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const handleAddGiftCardSale = () => {
+    const amount = Number(giftCardSaleAmount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      toast({ variant: 'destructive', title: 'Nominal Tidak Valid', description: 'Masukkan nominal gift card dalam rupiah.' });
+      return;
+    }
+    setGiftCardSales(prev => [...prev, { amount }]);
+    setGiftCardSaleAmount('');
+    setIsGiftCardSaleOpen(false);
+  };
+
   const handleCheckout = async () => {
-    if (cart.length === 0) {
+    if (isOrderEmpty) {
       toast({ variant: 'destructive', title: 'Keranjang Kosong', description: 'Silakan tambahkan produk ke keranjang.' });
       return;
     }
@@ -242,6 +672,21 @@ export default function POS({ onPrintRequest }: POSProps) {
       return;
     }
 
+    const tenders = resolveTenders(totalAmount, paymentMethod, splitTenders);
+    const { remainingAmount, cashAmount, changeAmount } = summarizeTenders(tenders, totalAmount, cashTendered);
+    if (remainingAmount !== 0) {
+      toast({ variant: 'destructive', title: 'Pembayaran Belum Sesuai', description: `Total pembayaran harus sama dengan total belanja (Rp ${totalAmount.toLocaleString('id-ID')}).` });
+      return;
+    }
+    if (cashAmount > 0 && changeAmount < 0) {
+      toast({ variant: 'destructive', title: 'Uang Diterima Kurang', description: `Uang diterima kurang Rp ${Math.abs(changeAmount).toLocaleString('id-ID')}.` });
+      return;
+    }
+    if (tenders.some(tender => tender.method === 'GiftCard' && !tender.giftCardCode)) {
+      toast({ variant: 'destructive', title: 'Kode Gift Card Kosong', description: 'Masukkan kode gift card untuk setiap pembayaran dengan gift card.' });
+      return;
+    }
+
     if (pradanaTokenBalance < transactionFee) {
       toast({
         variant: 'destructive',
@@ -251,120 +696,397 @@ export default function POS({ onPrintRequest }: POSProps) {
       return;
     }
 
-    setIsProcessingCheckout(true);
+    // Approvals given earlier for this order are reused; only what they don't cover is asked for.
+    let approvalIds: string[] = [];
+    if (!isStoreAdmin) {
+      const neededApprovals = getCheckoutApprovalRequests({ items: cart, discountAmount, discountableAmount, pointsRedeemed }, approvalSettings);
+      const { used, missing } = matchApprovals(neededApprovals, orderApprovals);
+      if (missing.length > 0) {
+        const approvals = await requestApproval(missing);
+        if (!approvals) return;
+        setOrderApprovals(prev => [...prev, ...approvals]);
+        used.push(...approvals);
+      }
+      approvalIds = used.map(approval => approval.id);
+    }
 
-    const storeId = activeStore.id;
+    // Sent with the first attempt too, so a sale whose response was lost can be queued without being recorded twice.
+    const checkoutRequest: CheckoutRequest & { clientId: string } = {
+      clientId: createCheckoutClientId(),
+      storeId: activeStore.id,
+      customerId: selectedCustomer?.id,
+      items: cart.map(item => ({
+        productId: item.productId,
+        ...(item.variantId && { variantId: item.variantId }),
+        ...(item.modifiers && { modifierOptionIds: item.modifiers.map(m => m.optionId) }),
+        quantity: item.quantity,
+        ...(item.originalPrice !== undefined && { priceOverride: item.price }),
+        ...(!!item.discountValue && { discountType: item.discountType, discountValue: item.discountValue }),
+        ...(item.notes && { notes: item.notes }),
+      })),
+      ...(giftCardSales.length > 0 && { giftCardSales }),
+      orderType,
+      discountType,
+      discountValue,
+      pointsToRedeem: selectedRedemptionOption ? 0 : pointsToRedeem,
+      redemptionOptionId: selectedRedemptionOption?.id,
+      paymentMethod,
+      payments: splitTenders ?? undefined,
+      cashTendered: cashAmount > 0 ? cashTendered : undefined,
+      ...(approvalIds.length > 0 && { approvalIds }),
+    };
+    const offlineBlocker = getOfflineBlocker(tenders);
+
+    if (!navigator.onLine) {
+      if (offlineBlocker) {
+        toast({ variant: 'destructive', title: 'Tidak Tersedia Saat Offline', description: offlineBlocker });
+        return;
+      }
+      setIsProcessingCheckout(true);
+      await saveOfflineSale(checkoutRequest, tenders);
+      setIsProcessingCheckout(false);
+      return;
+    }
+
+    setIsProcessingCheckout(true);
 
     try {
-      let finalTransactionData: Transaction | null = null;
-      await runTransaction(db, async (transaction) => {
+      const idToken = await auth.currentUser?.getIdToken();
+      if (!idToken) {
+        throw new Error("Authentication failed. Please log in again.");
+      }
 
-        const storeRef = doc(db, 'stores', storeId);
-        const storeDoc = await transaction.get(storeRef);
-        if (!storeDoc.exists()) {
-          throw new Error("Store document not found.");
-        }
-        const storeData = storeDoc.data();
+      let response: Response;
+      try {
+        response = await fetch('/api/checkout', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${idToken}`,
+          },
+          body: JSON.stringify(checkoutRequest),
+        });
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        if (offlineBlocker) throw new Error(`Koneksi ke server terputus. ${offlineBlocker}`);
+        await saveOfflineSale(checkoutRequest, tenders);
+        return;
+      }
 
-        const productReads = cart
-          .filter(item => !item.productId.startsWith('manual-'))
-          .map(item => ({
-            ref: doc(db, 'stores', storeId, 'products', item.productId),
-            item: item,
-          }));
+      if (!response.ok) {
+        const errorResult = await response.json();
+        throw new Error(errorResult.error || 'Gagal memproses transaksi.');
+      }
 
-        const customerRef = selectedCustomer ? doc(db, 'stores', storeId, 'customers', selectedCustomer.id) : null;
+      const finalTransactionData: Transaction = await response.json();
 
-        const productDocs = await Promise.all(productReads.map(p => transaction.get(p.ref)));
-        const customerDoc = customerRef ? await transaction.get(customerRef) : null;
+      // A dynamic QRIS sale is held until the provider confirms it; the cart stays put meanwhile.
+      if (finalTransactionData.status === 'Menunggu Pembayaran') {
+        setPendingQrisTransaction(finalTransactionData);
+        refreshPradanaTokenBalance();
+        return;
+      }
 
+      completeSale(finalTransactionData);
 
-        // 1. Handle transaction count and first transaction date
-        const currentCounter = storeData.transactionCounter || 0;
-        const newReceiptNumber = currentCounter + 1;
-        const isFirstTransaction = currentCounter === 0;
+    } catch (error) {
+      console.error("Checkout failed:", error);
+      const errorMessage = error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.";
+      toast({ variant: 'destructive', title: 'Checkout Gagal', description: errorMessage });
+    } finally {
+      setIsProcessingCheckout(false);
+    }
+  }
 
-        const updatesForStore: { [key: string]: unknown } = {
-          transactionCounter: increment(1)
-        };
-        if (isFirstTransaction) {
-          updatesForStore.firstTransactionDate = serverTimestamp();
-        }
-
-        // 2. Token balance check and deduction for ALL users
-        const currentTokenBalance = storeData.pradanaTokenBalance || 0;
-        if (currentTokenBalance < transactionFee) {
-          throw new Error(`Saldo Token Toko Tidak Cukup. Sisa: ${currentTokenBalance.toFixed(2)}, Dibutuhkan: ${transactionFee.toFixed(2)}`);
-        }
-        updatesForStore.pradanaTokenBalance = increment(-transactionFee);
-        transaction.update(storeRef, updatesForStore);
-
-        // 3. Stock updates
-        for (let i = 0; i < productDocs.length; i++) {
-          const productDoc = productDocs[i];
-          const { item } = productReads[i];
-
-          if (!productDoc.exists()) throw new Error(`Produk ${item.productName} tidak ditemukan.`);
-
-          const currentStock = productDoc.data().stock || 0;
-          if (currentStock < item.quantity) throw new Error(`Stok tidak cukup untuk ${item.productName}.`);
-
-          transaction.update(productDoc.ref, { stock: increment(-item.quantity) });
-        }
-
-        // 4. Customer points update
-        if (selectedCustomer && customerDoc?.exists() && pointSettings) {
-          const earnedPoints = Math.floor(totalAmount / pointSettings.rpPerPoint);
-          const customerPoints = customerDoc.data()?.loyaltyPoints || 0;
-          const newPoints = customerPoints + earnedPoints - pointsToRedeem;
-          transaction.update(customerDoc.ref, { loyaltyPoints: newPoints });
-        }
-
-        // 5. Create transaction record
-        const newTransactionRef = doc(collection(db, 'stores', storeId, 'transactions'));
-        const transactionData: Transaction = {
-          id: newTransactionRef.id,
-          receiptNumber: newReceiptNumber,
-          storeId: activeStore.id,
-          customerId: selectedCustomer?.id || 'N/A',
-          customerName: selectedCustomer?.name || 'Guest',
-          staffId: currentUser.id,
-          createdAt: new Date().toISOString(),
-          subtotal: subtotal,
-          discountAmount: discountAmount,
-          totalAmount: totalAmount,
-          paymentMethod: paymentMethod,
-          pointsEarned: pointsEarned,
-          pointsRedeemed: pointsToRedeem,
-          items: cart,
-          status: 'Selesai',
+  // Why an order can't be taken without the server, or null if it can.
+  const getOfflineBlocker = (tenders: PaymentTender[]): string | null => {
+    if (giftCardSales.length > 0 || tenders.some(tender => tender.method === 'GiftCard')) {
+      return 'Gift card tidak dapat dijual atau dipakai saat offline.';
+    }
+    if (posSettings?.dynamicQrisEnabled && tenders.some(tender => tender.method === 'QRIS')) {
+      return 'QRIS dinamis memerlukan koneksi. Gunakan metode pembayaran lain.';
+    }
+    return null;
+  };
+
+  // Queues the sale on this device and hands over a provisional receipt built from the preview.
+  // The server recalculates everything when the queue is replayed.
+  const saveOfflineSale = async (checkoutRequest: CheckoutRequest & { clientId: string }, tenders: PaymentTender[]) => {
+    if (!currentUser || !activeStore) return;
+    const { cashAmount, changeAmount } = summarizeTenders(tenders, totalAmount, cashTendered);
+    const receipt: Transaction = {
+      id: checkoutRequest.clientId,
+      receiptNumber: 0,
+      storeId: activeStore.id,
+      customerId: selectedCustomer?.id || 'N/A',
+      customerName: selectedCustomer?.name || 'Guest',
+      staffId: currentUser.id,
+      ...(currentShift && { shiftId: currentShift.id }),
+      createdAt: new Date().toISOString(),
+      subtotal,
+      lineDiscountAmount: cart.reduce((sum, item) => sum + calculateLineDiscount(item), 0),
+      ...(promotions.appliedPromotions.length > 0 && {
+        promotionDiscountAmount,
+        appliedPromotions: promotions.appliedPromotions,
+      }),
+      discountAmount,
+      redemptionDiscountAmount,
+      ...(selectedRedemptionOption && { redemptionOptionId: selectedRedemptionOption.id, redemptionDescription: selectedRedemptionOption.description }),
+      orderType,
+      ...(taxBreakdown && taxBreakdown.serviceChargeRate > 0 && {
+        serviceChargeAmount: taxBreakdown.serviceChargeAmount,
+        serviceChargeRate: taxBreakdown.serviceChargeRate,
+      }),
+      ...(taxSettings && taxBreakdown && taxBreakdown.taxRate > 0 && {
+        taxAmount: taxBreakdown.taxAmount,
+        taxRate: taxBreakdown.taxRate,
+        taxName: taxSettings.taxName,
+        taxInclusive: taxSettings.taxInclusive,
+      }),
+      totalAmount,
+      paymentMethod: tenders.length > 1 ? 'Split' : tenders[0].method,
+      payments: tenders,
+      ...(cashAmount > 0 && cashTendered !== undefined && { cashTendered, changeAmount }),
+      pointsEarned,
+      pointsRedeemed,
+      transactionFee,
+      items: cart.map((item, index) => {
+        const lineDiscountAmount = calculateLineDiscount(item);
+        const linePromotionAmount = promotions.lineDiscounts[index] || 0;
+        return {
+          ...item,
+          ...(lineDiscountAmount > 0 && { discountAmount: lineDiscountAmount }),
+          ...(linePromotionAmount > 0 && { promotionDiscountAmount: linePromotionAmount }),
         };
-        transaction.set(newTransactionRef, transactionData);
-        finalTransactionData = transactionData;
+      }),
+      status: 'Selesai',
+    };
+
+    try {
+      const entry = await queueOfflineCheckout(checkoutRequest, receipt, currentUser.id);
+      toast({
+        title: 'Transaksi Disimpan Offline',
+        description: `Struk sementara ${entry.request.offline.provisionalReceiptNumber}. Transaksi akan dikirim ke server saat koneksi kembali.`,
       });
+      onPrintRequest(entry.receipt);
+      setPaidTransaction(entry.receipt);
+      resetOrder();
+      refreshOfflineQueue();
+    } catch (error) {
+      console.error('Error queueing offline checkout:', error);
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan Transaksi Offline', description: (error as Error).message });
+    }
+  };
 
-      toast({ title: "Transaksi Berhasil!", description: "Transaksi telah berhasil disimpan." });
+  const completeSale = (transaction: Transaction) => {
+    toast({ title: "Transaksi Berhasil!", description: "Transaksi telah berhasil disimpan." });
 
-      if (finalTransactionData) {
-        onPrintRequest(finalTransactionData);
-      }
+    onPrintRequest(transaction);
+    setPaidTransaction(transaction);
 
-      refreshPradanaTokenBalance();
+    refreshPradanaTokenBalance();
 
-      setCart([]);
-      setDiscountValue(0);
-      setPointsToRedeem(0);
-      setSelectedCustomer(undefined);
-      refreshData();
+    resetOrder();
+    refreshData();
+  };
+
+  const handleQrisSettled = (transaction: Transaction) => {
+    setPendingQrisTransaction(null);
+    if (transaction.status === 'Selesai') {
+      completeSale(transaction);
+      return;
+    }
+    // The held stock, points and fee were released, so the cart can be paid another way.
+    toast({
+      variant: 'destructive',
+      title: transaction.qrisPayment?.status === 'expired' ? 'QRIS Kedaluwarsa' : 'QRIS Dibatalkan',
+      description: 'Pembayaran tidak diterima. Keranjang masih tersimpan, silakan coba lagi.',
+    });
+    refreshPradanaTokenBalance();
+    refreshData();
+  };
 
+  const resetOrder = () => {
+    setCart([]);
+    setGiftCardSales([]);
+    setOrderType('dine-in');
+    setDiscountType('percent');
+    setDiscountValue(0);
+    setPointsToRedeem(0);
+    setRedemptionOptionId(null);
+    setIsDirectRedemption(false);
+    setSplitTenders(null);
+    setCashTendered(undefined);
+    setSelectedCustomer(undefined);
+    setCartNotes('');
+    setPendingQuantity(null);
+    setLastLineKey(null);
+    setOrderApprovals([]);
+  };
+
+  const handleHoldCart = async () => {
+    if (!currentUser || !activeStore || isOrderEmpty) return;
+    setIsHoldingCart(true);
+    try {
+      await holdCart(activeStore.id, {
+        staffId: currentUser.id,
+        staffName: currentUser.name,
+        items: cart,
+        giftCardSales,
+        customerId: selectedCustomer?.id,
+        customerName: selectedCustomer?.name,
+        discountType,
+        discountValue,
+        notes: cartNotes.trim(),
+      }, posSettings?.heldCartExpiryMinutes ?? 0);
+      toast({ title: 'Transaksi Ditahan', description: 'Keranjang disimpan dan dapat dipanggil kembali nanti.' });
+      resetOrder();
+      setIsHoldDialogOpen(false);
     } catch (error) {
-      console.error("Checkout failed:", error);
-      const errorMessage = error instanceof Error ? error.message : "Terjadi kesalahan yang tidak diketahui.";
-      toast({ variant: 'destructive', title: 'Checkout Gagal', description: errorMessage });
+      console.error("Error holding cart:", error);
+      toast({ variant: 'destructive', title: 'Gagal Menahan Transaksi', description: (error as Error).message });
     } finally {
-      setIsProcessingCheckout(false);
+      setIsHoldingCart(false);
     }
-  }
+  };
+
+  const handleOpenHeldCarts = () => {
+    if (!isOrderEmpty) {
+      toast({ variant: 'destructive', title: 'Keranjang Belum Kosong', description: 'Tahan atau selesaikan pesanan saat ini sebelum memanggil transaksi lain.' });
+      return;
+    }
+    setIsHeldCartsOpen(true);
+  };
+
+  // Printing opens a drawer wired to the receipt printer, so a no-sale prints a slip saying who opened it.
+  const handleNoSale = async () => {
+    if (!currentUser) return;
+    if (approvalSettings.noSale && !isStoreAdmin) {
+      const approvals = await requestApproval([{ action: 'no-sale', details: { description: 'Buka laci kas tanpa transaksi' } }]);
+      if (!approvals) return;
+    }
+    const printableArea = document.querySelector('.printable-area');
+    if (printableArea) {
+      const slip = document.createElement('div');
+      slip.className = 'bg-white text-black text-sm w-[300px] p-4 font-code mx-auto text-center';
+      ['NO SALE', currentUser.name, new Date().toLocaleString('id-ID')].forEach(text => {
+        const line = document.createElement('p');
+        line.textContent = text;
+        slip.appendChild(line);
+      });
+      printableArea.replaceChildren(slip);
+      window.print();
+    }
+  };
+
+  const handleRecallCart = (heldCart: HeldCart) => {
+    // Prices and stock may have changed while the cart was parked, so re-read them from the catalog.
+    const recalledItems = heldCart.items.flatMap(item => {
+      const product = products.find(p => p.id === item.productId);
+      if (!product) return [];
+      let catalogPrice: number;
+      try {
+        catalogPrice = resolveProductSelection(product, item.variantId, item.modifiers?.map(m => m.optionId)).unitPrice;
+      } catch {
+        return []; // The variant or modifier was removed from the product
+      }
+      const stock = getProductStock(product, item.variantId);
+      if (stock <= 0) return [];
+      let bundleItems: CartItem['bundleItems'];
+      try {
+        bundleItems = isBundleProduct(product) ? getTransactionBundleItems(product, products) : undefined;
+      } catch {
+        return []; // A component of the bundle was removed
+      }
+      // Price overrides are kept, but their reference price follows the catalog.
+      const prices = item.originalPrice !== undefined ? { originalPrice: catalogPrice } : { price: catalogPrice };
+      const recalled: CartItem = { ...item, ...prices, productName: product.name, quantity: Math.min(item.quantity, stock) };
+      delete recalled.bundleItems;
+      return [bundleItems ? { ...recalled, bundleItems } : recalled];
+    });
+
+    resetOrder();
+    setCart(recalledItems);
+    setGiftCardSales(heldCart.giftCardSales || []);
+    setSelectedCustomer((customers || []).find(c => c.id === heldCart.customerId));
+    setDiscountType(heldCart.discountType);
+    setDiscountValue(heldCart.discountValue);
+    setCartNotes(heldCart.notes || '');
+
+    if (recalledItems.length < heldCart.items.length) {
+      toast({ variant: 'destructive', title: 'Sebagian Produk Tidak Tersedia', description: 'Produk yang sudah dihapus atau habis tidak dimasukkan kembali ke keranjang.' });
+    } else {
+      toast({ title: 'Transaksi Dilanjutkan', description: `Keranjang ${heldCart.customerName || 'pelanggan umum'} telah dipanggil kembali.` });
+    }
+  };
+
+  // Enter in the search box adds the product when the text is a barcode or matches exactly one product.
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter' || !searchTerm.trim()) return;
+    event.preventDefault();
+    if (findProductByBarcode(products, searchTerm.trim())) {
+      handleBarcodeScanned(searchTerm.trim());
+    } else if (filteredProducts.length === 1) {
+      addToCart(filteredProducts[0]);
+    } else {
+      return;
+    }
+    setSearchTerm('');
+  };
+
+  const selectPaymentMethod = (method: PaymentMethod) => {
+    setSplitTenders(null);
+    setPaymentMethod(method);
+  };
+
+  const handleHotkey = (event: KeyboardEvent, isInTextField: boolean) => {
+    const hotkeyActions: Record<string, () => void> = {
+      F2: () => searchInputRef.current?.select(),
+      F4: () => discountInputRef.current?.select(),
+      F6: () => selectPaymentMethod('Cash'),
+      F7: () => selectPaymentMethod('Card'),
+      F8: () => selectPaymentMethod('QRIS'),
+      F9: () => !isProcessingCheckout && handleCheckout(),
+      F10: () => (document.getElementById('cash-tendered') as HTMLInputElement | null)?.select(),
+    };
+    const action = event.key === 'Enter' && (event.ctrlKey || event.metaKey) ? hotkeyActions.F9 : hotkeyActions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+      return;
+    }
+    if (isInTextField || event.ctrlKey || event.metaKey || event.altKey) return;
+
+    const lastLine = cart.find(item => getLineKey(item) === lastLineKey) || cart[cart.length - 1];
+    if (/^[0-9.,]$/.test(event.key)) {
+      typedDigitsRef.current = (typedDigitsRef.current + event.key).slice(-6);
+      return;
+    }
+    if (event.key === '*') {
+      const quantity = parseFloat(typedDigitsRef.current.replace(',', '.'));
+      typedDigitsRef.current = '';
+      if (quantity > 0) setPendingQuantity(quantity);
+    } else if ((event.key === '+' || event.key === '-') && lastLine) {
+      const step = getQuantityStep(lastLine.unit);
+      updateQuantity(getLineKey(lastLine), lastLine.quantity + (event.key === '+' ? step : -step));
+    } else if (event.key === 'Delete' && lastLine) {
+      removeFromCart(getLineKey(lastLine));
+    } else if (event.key === 'Escape') {
+      setPendingQuantity(null);
+    } else {
+      typedDigitsRef.current = '';
+      return;
+    }
+    typedDigitsRef.current = '';
+    event.preventDefault();
+  };
+
+  const isAnyDialogOpen = !!approvalPrompt || !!pendingQrisTransaction || isScannerOpen || isMemberDialogOpen || isHoldDialogOpen || isHeldCartsOpen || isShiftDialogOpen || !!editingItemId || !!optionsProduct;
+  useScannerWedge({
+    enabled: isKeyboardMode && !isAnyDialogOpen,
+    onScan: handleBarcodeScanned,
+    onKey: handleHotkey,
+  });
 
   const handleCustomerAdded = () => {
     refreshData();
@@ -383,14 +1105,49 @@ export default function POS({ onPrintRequest }: POSProps) {
                   type="search"
                   placeholder="Cari produk..."
                   className="w-full rounded-lg bg-secondary pl-8"
+                  ref={searchInputRef}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
                 />
+                <Button
+                  variant={isKeyboardMode ? 'default' : 'outline'}
+                  size="icon"
+                  onClick={toggleKeyboardMode}
+                  title="Mode Keyboard"
+                >
+                  <Keyboard className="h-4 w-4" />
+                  <span className="sr-only">Mode Keyboard</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => activeStore && currentUser && window.open(`/display/${activeStore.id}?kasir=${currentUser.id}`, '_blank')}
+                  disabled={!activeStore || !currentUser}
+                  title="Layar Pelanggan"
+                >
+                  <MonitorSmartphone className="h-4 w-4" />
+                  <span className="sr-only">Layar Pelanggan</span>
+                </Button>
                 <Button variant="outline" size="icon" onClick={() => setIsScannerOpen(true)}>
                   <ScanBarcode className="h-4 w-4" />
                   <span className="sr-only">Scan Barcode</span>
                 </Button>
               </div>
+              {isKeyboardMode && (
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pt-2 text-xs text-muted-foreground">
+                  {pendingQuantity && (
+                    <span className="rounded bg-primary px-1.5 py-0.5 font-semibold text-primary-foreground">
+                      Jumlah: {pendingQuantity}x
+                    </span>
+                  )}
+                  {keyboardShortcuts.map(shortcut => (
+                    <span key={shortcut.keys}>
+                      <kbd className="rounded border bg-secondary px-1 font-mono">{shortcut.keys}</kbd> {shortcut.label}
+                    </span>
+                  ))}
+                </div>
+              )}
             </CardHeader>
             <ScrollArea className="h-[calc(100vh-220px)]">
               <CardContent className="p-4">
@@ -400,7 +1157,7 @@ export default function POS({ onPrintRequest }: POSProps) {
                       <Skeleton key={i} className="aspect-square w-full rounded-lg" />
                     ))
                   ) : filteredProducts.map((product) => {
-                    const stockInStore = product.stock;
+                    const stockInStore = getProductStock(product);
                     const isOutOfStock = stockInStore === 0;
                     return (
                       <Card
@@ -431,7 +1188,11 @@ export default function POS({ onPrintRequest }: POSProps) {
                         </div>
                         <div className="p-3">
                           <h3 className="font-semibold truncate text-sm">{product.name}</h3>
-                          <p className="text-xs text-muted-foreground">Rp {product.price.toLocaleString('id-ID')}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Rp {formatUnitPrice(product.price, product.unit)}
+                            {hasProductOptions(product) && <span className="ml-1">· Pilihan</span>}
+                            {isBundleProduct(product) && <span className="ml-1">· Paket</span>}
+                          </p>
                         </div>
                       </Card>
                     )
@@ -443,10 +1204,42 @@ export default function POS({ onPrintRequest }: POSProps) {
         </div>
         <div className="xl:col-span-2">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle className="font-headline tracking-wider">
                 Pesanan Saat Ini
               </CardTitle>
+              <div className="flex gap-2">
+                {(!isOnline || offlineQueue.length > 0) && (
+                  <Button
+                    variant={offlineQueue.some(entry => entry.status === 'failed') ? 'destructive' : 'secondary'}
+                    size="sm"
+                    onClick={() => setIsOfflineQueueOpen(true)}
+                  >
+                    {isSyncing ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <WifiOff className="mr-2 h-4 w-4" />}
+                    {isOnline ? 'Antrean' : 'Offline'} · {offlineQueue.length}
+                  </Button>
+                )}
+                <Button
+                  variant={currentShift ? 'outline' : 'secondary'}
+                  size="sm"
+                  onClick={() => setIsShiftDialogOpen(true)}
+                  disabled={!activeStore || !currentUser}
+                >
+                  <Wallet className="mr-2 h-4 w-4" /> {currentShift ? 'Shift' : 'Buka Shift'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsGiftCardSaleOpen(true)} disabled={!activeStore}>
+                  <Ticket className="mr-2 h-4 w-4" /> Gift Card
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsHoldDialogOpen(true)} disabled={isOrderEmpty || !posSettings}>
+                  <PauseCircle className="mr-2 h-4 w-4" /> Tahan
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleOpenHeldCarts} disabled={!activeStore}>
+                  <History className="mr-2 h-4 w-4" /> Ditahan
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleNoSale} disabled={!activeStore || !currentUser}>
+                  <Banknote className="mr-2 h-4 w-4" /> Buka Laci
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="flex flex-col gap-4">
               <div className="grid grid-cols-1 gap-2">
@@ -456,7 +1249,7 @@ export default function POS({ onPrintRequest }: POSProps) {
                     value={selectedCustomer?.id}
                     onValueChange={(value) => {
                       setSelectedCustomer((customers || []).find((c) => c.id === value));
-                      setPointsToRedeem(0); // Reset points when customer changes
+                      handleRedemptionChange('none'); // Reset points when customer changes
                     }}
                     placeholder="Cari pelanggan..."
                     searchPlaceholder="Cari nama pelanggan..."
@@ -511,58 +1304,114 @@ export default function POS({ onPrintRequest }: POSProps) {
                 </div>
               )}
 
+              {hasDineInOnlyCharges && (
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  className="grid grid-cols-2"
+                  value={orderType}
+                  onValueChange={(value) => {
+                    if (value) setOrderType(value as OrderType);
+                  }}
+                >
+                  {(Object.keys(orderTypeLabels) as OrderType[]).map(type => (
+                    <ToggleGroupItem key={type} value={type} className="h-9">
+                      {orderTypeLabels[type]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              )}
+
+              {cartNotes && (
+                <p className="text-sm italic text-muted-foreground">Catatan: {cartNotes}</p>
+              )}
+
               <Separator />
 
               <ScrollArea className="h-[250px] w-full">
                 <div className="space-y-4 pr-4">
-                  {cart.length > 0 ? (
-                    cart.map((item) => (
-                      <div key={item.productId} className="flex items-center gap-4">
-                        <div className="flex-1">
-                          <p className="font-medium">{item.productName}</p>
-                          <p className="text-sm text-muted-foreground">
-                            Rp {item.price.toLocaleString('id-ID')}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-2">
+                  {!isOrderEmpty ? (
+                    <>
+                      {cart.map((item, index) => (
+                        <div key={getLineKey(item)} className="flex items-center gap-4">
+                          <button type="button" className="flex-1 text-left" onClick={() => setEditingItemId(getLineKey(item))}>
+                            <p className="font-medium">{item.productName}</p>
+                            {formatItemOptions(item) && (
+                              <p className="text-xs text-muted-foreground">{formatItemOptions(item)}</p>
+                            )}
+                            {item.bundleItems && (
+                              <p className="text-xs text-muted-foreground">Isi: {formatBundleItems(item)}</p>
+                            )}
+                            <p className="text-sm text-muted-foreground">
+                              {item.originalPrice !== undefined && (
+                                <span className="mr-1 line-through">Rp {item.originalPrice.toLocaleString('id-ID')}</span>
+                              )}
+                              Rp {formatUnitPrice(item.price, item.unit)}
+                              {calculateLineDiscount(item) > 0 && (
+                                <span className="ml-1 text-destructive">
+                                  (- Rp {calculateLineDiscount(item).toLocaleString('id-ID')})
+                                </span>
+                              )}
+                            </p>
+                            {promotions.lineDiscounts[index] > 0 && (
+                              <p className="flex items-center gap-1 text-xs text-primary">
+                                <BadgePercent className="h-3 w-3" /> Promo - Rp {promotions.lineDiscounts[index].toLocaleString('id-ID')}
+                              </p>
+                            )}
+                            {item.notes && (
+                              <p className="text-xs italic text-muted-foreground">{item.notes}</p>
+                            )}
+                          </button>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() =>
+                                updateQuantity(getLineKey(item), item.quantity - getQuantityStep(item.unit))
+                              }
+                            >
+                              <MinusCircle className="h-4 w-4" />
+                            </Button>
+                            <CartQuantityInput item={item} onQuantityChange={(quantity) => updateQuantity(getLineKey(item), quantity)} />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() =>
+                                updateQuantity(getLineKey(item), item.quantity + getQuantityStep(item.unit))
+                              }
+                            >
+                              <PlusCircle className="h-4 w-4" />
+                            </Button>
+                          </div>
                           <Button
                             variant="ghost"
                             size="icon"
-                            className="h-7 w-7"
-                            onClick={() =>
-                              updateQuantity(item.productId, item.quantity - 1)
-                            }
+                            className="h-7 w-7 text-destructive/80 hover:text-destructive"
+                            onClick={() => removeFromCart(getLineKey(item))}
                           >
-                            <MinusCircle className="h-4 w-4" />
+                            <XCircle className="h-4 w-4" />
                           </Button>
-                          <Input
-                            type="number"
-                            className="w-14 h-8 text-center"
-                            value={item.quantity}
-                            onChange={(e) => updateQuantity(item.productId, parseInt(e.target.value) || 0)}
-                            onFocus={(e) => e.target.select()}
-                          />
+                        </div>
+                      ))}
+                      {giftCardSales.map((sale, index) => (
+                        <div key={`gift-card-${index}`} className="flex items-center gap-4">
+                          <div className="flex-1">
+                            <p className="flex items-center gap-1 font-medium"><Ticket className="h-4 w-4" /> Gift Card</p>
+                            <p className="text-sm text-muted-foreground">Rp {sale.amount.toLocaleString('id-ID')} · kode dibuat saat pembayaran</p>
+                          </div>
                           <Button
                             variant="ghost"
                             size="icon"
-                            className="h-7 w-7"
-                            onClick={() =>
-                              updateQuantity(item.productId, item.quantity + 1)
-                            }
+                            className="h-7 w-7 text-destructive/80 hover:text-destructive"
+                            onClick={() => setGiftCardSales(prev => prev.filter((_, i) => i !== index))}
                           >
-                            <PlusCircle className="h-4 w-4" />
+                            <XCircle className="h-4 w-4" />
                           </Button>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-7 w-7 text-destructive/80 hover:text-destructive"
-                          onClick={() => removeFromCart(item.productId)}
-                        >
-                          <XCircle className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))
+                      ))}
+                    </>
                   ) : (
                     <div className="py-10 text-center text-sm text-muted-foreground">
                       Keranjang Anda kosong.
@@ -583,11 +1432,18 @@ export default function POS({ onPrintRequest }: POSProps) {
                   <span>Subtotal</span>
                   <span>Rp {subtotal.toLocaleString('id-ID')}</span>
                 </div>
+                {promotions.appliedPromotions.map(promotion => (
+                  <div key={promotion.ruleId} className="flex justify-between text-muted-foreground">
+                    <span className="flex items-center gap-1"><BadgePercent className="h-3 w-3" /> {promotion.name}</span>
+                    <span className="text-destructive">- Rp {promotion.amount.toLocaleString('id-ID')}</span>
+                  </div>
+                ))}
                 <div className="grid gap-2">
                   <Label htmlFor='discount' className="flex items-center gap-1 text-muted-foreground"><Percent className="h-3 w-3" /> Diskon Manual</Label>
                   <div className="flex items-center gap-2">
                     <Input
                       id="discount"
+                      ref={discountInputRef}
                       type="number"
                       value={discountValue}
                       onChange={(e) => setDiscountValue(Number(e.target.value))}
@@ -613,35 +1469,83 @@ export default function POS({ onPrintRequest }: POSProps) {
 
                 <div className="grid gap-2">
                   <Label htmlFor='redeem-points' className="flex items-center gap-1 text-muted-foreground"><Gift className="h-3 w-3" /> Tukar Poin</Label>
-                  <Input
-                    id="redeem-points"
-                    type="number"
-                    value={pointsToRedeem}
-                    onChange={handlePointsRedeemChange}
-                    className="h-9"
-                    placeholder='0'
+                  <Select
+                    value={selectedRedemptionOption ? selectedRedemptionOption.id : isDirectRedemption ? 'points' : 'none'}
+                    onValueChange={handleRedemptionChange}
                     disabled={!selectedCustomer || selectedCustomer.loyaltyPoints === 0}
-                  />
+                  >
+                    <SelectTrigger id="redeem-points" className="h-9">
+                      <SelectValue placeholder="Pilih penukaran poin..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Tidak menukar poin</SelectItem>
+                      {activeRedemptionOptions.map(option => (
+                        <SelectItem
+                          key={option.id}
+                          value={option.id}
+                          disabled={!selectedCustomer || option.pointsRequired > selectedCustomer.loyaltyPoints}
+                        >
+                          {option.description} ({option.pointsRequired.toLocaleString('id-ID')} pts)
+                        </SelectItem>
+                      ))}
+                      {rpPerRedeemedPoint > 0 && (
+                        <SelectItem value="points">Tukar poin langsung (1 pt = Rp {rpPerRedeemedPoint.toLocaleString('id-ID')})</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  {isDirectRedemption && (
+                    <Input
+                      type="number"
+                      value={pointsToRedeem}
+                      onChange={handlePointsRedeemChange}
+                      className="h-9"
+                      placeholder='Jumlah poin'
+                    />
+                  )}
                 </div>
 
                 <div className="flex justify-between text-muted-foreground">
-                  <span>Total Diskon</span>
+                  <span>Diskon Manual</span>
                   <span className="text-destructive">- Rp {discountAmount.toLocaleString('id-ID')}</span>
                 </div>
+                {redemptionDiscountAmount > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span className="flex items-center gap-1"><Gift className="h-3 w-3" /> {selectedRedemptionOption?.description || 'Diskon Poin'}</span>
+                    <span className="text-destructive">- Rp {redemptionDiscountAmount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-muted-foreground">
                   <span className="flex items-center gap-1"><Sparkles className="h-3 w-3" /> Poin Didapat</span>
                   <span>+ {pointsEarned.toLocaleString('id-ID')} pts</span>
                 </div>
                 <div className="flex justify-between text-muted-foreground">
                   <span className="flex items-center gap-1 text-destructive"><Gift className="h-3 w-3" /> Poin Ditukar</span>
-                  <span className="text-destructive">- {pointsToRedeem.toLocaleString('id-ID')} pts</span>
+                  <span className="text-destructive">- {pointsRedeemed.toLocaleString('id-ID')} pts</span>
                 </div>
+                {taxBreakdown && taxBreakdown.serviceChargeRate > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Biaya Layanan ({taxBreakdown.serviceChargeRate}%)</span>
+                    <span>+ Rp {taxBreakdown.serviceChargeAmount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {taxBreakdown && taxSettings && taxBreakdown.taxRate > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>{taxSettings.taxName} ({taxBreakdown.taxRate}%{taxSettings.taxInclusive ? ', termasuk' : ''})</span>
+                    <span>{taxSettings.taxInclusive ? '' : '+ '}Rp {taxBreakdown.taxAmount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
                 {transactionFee > 0 && (
                   <div className="flex justify-between text-muted-foreground">
                     <span className="flex items-center gap-1 text-destructive"><Coins className="h-3 w-3" /> Biaya Transaksi</span>
                     <span className="text-destructive">- {transactionFee.toFixed(2)} Token</span>
                   </div>
                 )}
+                {giftCardSalesAmount > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span className="flex items-center gap-1"><Ticket className="h-3 w-3" /> Gift Card ({giftCardSales.length})</span>
+                    <span>+ Rp {giftCardSalesAmount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between text-lg font-bold">
                   <span>Total</span>
@@ -650,14 +1554,21 @@ export default function POS({ onPrintRequest }: POSProps) {
               </div>
 
               {selectedCustomer && cart.length > 0 && feeSettings && (
-                <LoyaltyRecommendation customer={selectedCustomer} totalPurchaseAmount={totalAmount} feeSettings={feeSettings} />
+                <LoyaltyRecommendation customer={selectedCustomer} totalPurchaseAmount={goodsAmount} feeSettings={feeSettings} />
               )}
 
-              <div className="grid grid-cols-3 gap-2">
-                <Button variant={paymentMethod === 'Cash' ? 'default' : 'secondary'} onClick={() => setPaymentMethod('Cash')}>Tunai</Button>
-                <Button variant={paymentMethod === 'Card' ? 'default' : 'secondary'} onClick={() => setPaymentMethod('Card')}>Kartu</Button>
-                <Button variant={paymentMethod === 'QRIS' ? 'default' : 'secondary'} onClick={() => setPaymentMethod('QRIS')}>QRIS</Button>
-              </div>
+              {activeStore && (
+                <PaymentPanel
+                  storeId={activeStore.id}
+                  totalAmount={totalAmount}
+                  paymentMethod={paymentMethod}
+                  onPaymentMethodChange={setPaymentMethod}
+                  splitTenders={splitTenders}
+                  onSplitTendersChange={setSplitTenders}
+                  cashTendered={cashTendered}
+                  onCashTenderedChange={setCashTendered}
+                />
+              )}
 
               <Button size="lg" className="w-full font-headline text-lg tracking-wider" onClick={handleCheckout} disabled={isProcessingCheckout || isLoading}>
                 Buat Pesanan & Bayar
@@ -678,6 +1589,133 @@ export default function POS({ onPrintRequest }: POSProps) {
           <BarcodeScanner onScan={handleBarcodeScanned} />
         </DialogContent>
       </Dialog>
+
+      <Dialog open={isHoldDialogOpen} onOpenChange={setIsHoldDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">Tahan Transaksi</DialogTitle>
+            <DialogDescription>
+              Keranjang, pelanggan, dan diskon akan disimpan selama {posSettings?.heldCartExpiryMinutes ?? 0} menit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="held-cart-notes">Catatan</Label>
+            <Textarea
+              id="held-cart-notes"
+              placeholder="Contoh: Meja 4, menunggu teman"
+              value={cartNotes}
+              onChange={(e) => setCartNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsHoldDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleHoldCart} disabled={isHoldingCart}>
+              {isHoldingCart && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Tahan Transaksi
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isGiftCardSaleOpen} onOpenChange={setIsGiftCardSaleOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">Jual Gift Card</DialogTitle>
+            <DialogDescription>
+              Kode gift card dibuat saat pembayaran selesai dan dicetak di struk.{selectedCustomer ? ` Gift card akan tercatat atas nama ${selectedCustomer.name}.` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="gift-card-amount">Nominal (Rp)</Label>
+            <Input
+              id="gift-card-amount"
+              type="number"
+              min={1}
+              value={giftCardSaleAmount}
+              onChange={(e) => setGiftCardSaleAmount(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddGiftCardSale()}
+            />
+            <div className="flex flex-wrap gap-2">
+              {[50000, 100000, 250000, 500000].map(amount => (
+                <Button key={amount} variant="outline" size="sm" onClick={() => setGiftCardSaleAmount(String(amount))}>
+                  {amount.toLocaleString('id-ID')}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsGiftCardSaleOpen(false)}>Batal</Button>
+            <Button onClick={handleAddGiftCardSale}>Tambah ke Pesanan</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ProductOptionsDialog
+        product={optionsProduct}
+        onOpenChange={(open) => !open && setOptionsProduct(null)}
+        onConfirm={addToCart}
+      />
+
+      <CartItemDialog
+        item={editingItem}
+        catalogPrice={editingItem ? getCatalogUnitPrice(editingItem) : 0}
+        canOverridePrice={canOverridePrice}
+        priceOverrideNeedsApproval={!isStoreAdmin}
+        onOpenChange={(open) => !open && setEditingItemId(null)}
+        onSave={handleCartItemSave}
+      />
+
+      {activeStore && currentUser && (
+        <ShiftDialog
+          storeId={activeStore.id}
+          staff={{ id: currentUser.id, name: currentUser.name }}
+          shift={currentShift}
+          open={isShiftDialogOpen}
+          onOpenChange={setIsShiftDialogOpen}
+          onShiftChange={setCurrentShift}
+        />
+      )}
+
+      <QrisPaymentDialog
+        transaction={pendingQrisTransaction}
+        onSettled={handleQrisSettled}
+      />
+
+      {activeStore && (
+        <HeldCartsDialog
+          storeId={activeStore.id}
+          open={isHeldCartsOpen}
+          onOpenChange={setIsHeldCartsOpen}
+          onRecall={handleRecallCart}
+        />
+      )}
+
+      {activeStore && (
+        <ApprovalPinDialog
+          storeId={activeStore.id}
+          requests={approvalPrompt?.requests || null}
+          onApproved={(approvals) => {
+            approvalPrompt?.resolve(approvals);
+            setApprovalPrompt(null);
+          }}
+          onCancel={() => {
+            approvalPrompt?.resolve(null);
+            setApprovalPrompt(null);
+          }}
+        />
+      )}
+
+      <OfflineQueueDialog
+        queue={offlineQueue}
+        isOnline={isOnline}
+        isSyncing={isSyncing}
+        canDiscard={isStoreAdmin}
+        open={isOfflineQueueOpen}
+        onOpenChange={setIsOfflineQueueOpen}
+        onSync={() => syncOfflineQueue(true)}
+        onDiscarded={refreshOfflineQueue}
+        onPrint={onPrintRequest}
+      />
     </>
   );
 }
@@ -21,7 +21,7 @@ import type { Product, ProductCategory } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { ListFilter, MoreHorizontal, PlusCircle, Search, Sparkles, MessageSquare, Edit } from 'lucide-react';
+import { ListFilter, MoreHorizontal, PlusCircle, Search, Sparkles, MessageSquare, Edit, History, FileUp, FileDown } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -41,6 +41,8 @@ import {
 } from '@/components/ui/dialog';
 import { AddProductForm } from '@/components/dashboard/add-product-form';
 import { EditProductForm } from '@/components/dashboard/edit-product-form';
+import { StockHistoryDialog } from '@/components/dashboard/stock-history-dialog';
+import { ProductImportDialog } from '@/components/dashboard/product-import-dialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -61,6 +63,9 @@ import { useDashboard } from '@/contexts/dashboard-context';
 import { AIConfirmationDialog } from '@/components/dashboard/ai-confirmation-dialog';
 import { DescriptionGeneratorOutput } from '@/ai/flows/description-generator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatQuantity, formatUnitPrice } from '@/lib/units';
+import { getBundleStock, isBundleProduct } from '@/lib/bundles';
+import { downloadProductFile, type ProductFileFormat } from '@/lib/product-files';
 
 
 export default function Products() {
@@ -76,6 +81,9 @@ export default function Products() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
 
   const [selectedProduct, setSelectedProduct] = React.useState<Product | null>(null);
+  // Looked up by ID so the dialog shows the stock as refreshed after each change.
+  const [stockHistoryProductId, setStockHistoryProductId] = React.useState<string | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = React.useState(false);
   const { toast } = useToast();
 
   const [searchTerm, setSearchTerm] = React.useState('');
@@ -121,6 +129,15 @@ export default function Products() {
   const handleDataUpdate = () => {
     refreshData();
   }
+
+  const handleExport = async (format: ProductFileFormat) => {
+    try {
+      await downloadProductFile(products || [], format, `produk-${activeStore?.name || 'toko'}`);
+    } catch (error) {
+      console.error("Error exporting products:", error);
+      toast({ variant: 'destructive', title: 'Gagal Mengekspor Produk', description: (error as Error).message });
+    }
+  }
   
   const handleCategoryFilterChange = (category: ProductCategory) => {
     setSelectedCategories(prev => {
@@ -237,6 +254,31 @@ export default function Products() {
                 </DropdownMenuContent>
               </DropdownMenu>
               
+              {isAdmin && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-10 gap-1" disabled={!activeStore}>
+                      <FileUp className="h-3.5 w-3.5" />
+                      <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+                        Impor/Ekspor
+                      </span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setIsImportDialogOpen(true)}>
+                      <FileUp className="mr-2 h-4 w-4" /> Impor CSV/Excel
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => handleExport('csv')}>
+                      <FileDown className="mr-2 h-4 w-4" /> Ekspor CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                      <FileDown className="mr-2 h-4 w-4" /> Ekspor Excel
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
               {isAdmin && (
                 <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
                     <DialogTrigger asChild>
@@ -297,10 +339,13 @@ export default function Products() {
                     <TableCell className="font-medium">{product.name}</TableCell>
                     <TableCell>
                       <Badge variant="outline">{product.category}</Badge>
+                      {isBundleProduct(product) && <Badge variant="secondary" className="ml-1">Paket</Badge>}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {isBundleProduct(product) ? getBundleStock(product, products || []) : formatQuantity(product.stock, product.unit)}
                     </TableCell>
-                    <TableCell className="text-center">{product.stock}</TableCell>
                     <TableCell className="text-right">
-                      Rp {product.price.toLocaleString('id-ID')}
+                      Rp {formatUnitPrice(product.price, product.unit)}
                     </TableCell>
                     {isAdmin && (
                         <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
@@ -317,6 +362,10 @@ export default function Products() {
                               <Edit className="mr-2 h-4 w-4" />
                               Ubah Produk
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setStockHistoryProductId(product.id)}>
+                              <History className="mr-2 h-4 w-4" />
+                              Riwayat Stok
+                            </DropdownMenuItem>
                             <DropdownMenuItem className="text-destructive" onClick={() => handleDeleteClick(product)}>Hapus</DropdownMenuItem>
                             </DropdownMenuContent>
                         </DropdownMenu>
@@ -348,6 +397,25 @@ export default function Products() {
           </Dialog>
       )}
   
+      {currentStoreId && isAdmin && (
+          <ProductImportDialog
+              storeId={currentStoreId}
+              open={isImportDialogOpen}
+              products={products || []}
+              onOpenChange={setIsImportDialogOpen}
+              onImported={refreshData}
+          />
+      )}
+
+      {currentStoreId && (
+          <StockHistoryDialog
+              storeId={currentStoreId}
+              product={(products || []).find(product => product.id === stockHistoryProductId) || null}
+              onOpenChange={(open) => !open && setStockHistoryProductId(null)}
+              onStockChanged={refreshData}
+          />
+      )}
+  
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
       <AlertDialogContent>
           <AlertDialogHeader>
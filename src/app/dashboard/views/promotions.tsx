@@ -18,10 +18,11 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { RedemptionOption, Transaction } from '@/lib/types';
+import type { PromotionRule, RedemptionOption, Transaction } from '@/lib/types';
+import { productCategories } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MoreHorizontal, PlusCircle, CheckCircle, XCircle, Sparkles, Target, Save } from 'lucide-react';
+import { MoreHorizontal, PlusCircle, CheckCircle, XCircle, Sparkles, Target, Save, BadgePercent } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -33,7 +34,7 @@ import { useToast } from '@/hooks/use-toast';
 import { startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
-import { getPointEarningSettings, updatePointEarningSettings } from '@/lib/point-earning-settings';
+import { defaultPointEarningSettings, getPointEarningSettings, updatePointEarningSettings } from '@/lib/point-earning-settings';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -45,6 +46,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { db } from '@/lib/firebase';
+import { isPaidTransaction } from '@/lib/payments';
 import { doc, updateDoc, deleteDoc, collection, addDoc } from 'firebase/firestore';
 import {
   Dialog,
@@ -55,6 +57,9 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { AddPromotionForm } from '@/components/dashboard/add-promotion-form';
+import { AddPromotionRuleForm } from '@/components/dashboard/add-promotion-rule-form';
+import { addPromotionRule, deletePromotionRule, getPromotionRules, setPromotionRuleActive } from '@/lib/promotion-rules';
+import { describePromotionRule, promotionRuleTypeLabels } from '@/lib/promotion-engine';
 import { useAuth } from '@/contexts/auth-context';
 import { useDashboard } from '@/contexts/dashboard-context';
 import { AIConfirmationDialog } from '@/components/dashboard/ai-confirmation-dialog';
@@ -63,6 +68,7 @@ interface PromotionRecommendationInput {
   businessDescription: string;
   activeStoreName: string;
   currentRedemptionOptions: { description: string, pointsRequired: number, isActive: boolean }[];
+  currentPromotionRules: { name: string, description: string, isActive: boolean }[];
   topSellingProducts: string[];
   worstSellingProducts: string[];
 }
@@ -74,29 +80,110 @@ interface PromotionRecommendationOutput {
     justification: string;
     pointsRequired: number;
     value: number;
+    rule?: PromotionRuleDraft;
   }[];
 }
 
+interface PromotionRuleDraft {
+  type: PromotionRule['type'];
+  discountType: 'percent' | 'nominal';
+  discountValue: number;
+  productNames?: string[];
+  category?: string;
+  buyQuantity?: number;
+  getQuantity?: number;
+  minSpend?: number;
+  days?: number[];
+  startTime?: string;
+  endTime?: string;
+}
+
 export default function Promotions() {
   const { currentUser, activeStore } = useAuth();
   const { dashboardData, refreshData } = useDashboard();
-  const { redemptionOptions, transactions, feeSettings } = dashboardData || {};
+  const { redemptionOptions, products, transactions: allTransactions, feeSettings } = dashboardData || {};
+  const transactions = React.useMemo(() => allTransactions?.filter(isPaidTransaction), [allTransactions]);
 
   const isAdmin = currentUser?.role === 'admin';
   const [recommendations, setRecommendations] = React.useState<PromotionRecommendationOutput | null>(null);
   const { toast } = useToast();
 
   const [isAddDialogOpen, setIsAddDialogOpen] = React.useState(false);
-  const [pointSettings, setPointSettings] = React.useState({ rpPerPoint: 10000 });
+  const [pointSettings, setPointSettings] = React.useState(defaultPointEarningSettings);
 
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
   const [promotionToDelete, setPromotionToDelete] = React.useState<RedemptionOption | null>(null);
 
+  const [promotionRules, setPromotionRules] = React.useState<PromotionRule[]>([]);
+  const [isAddRuleDialogOpen, setIsAddRuleDialogOpen] = React.useState(false);
+  const [ruleToDelete, setRuleToDelete] = React.useState<PromotionRule | null>(null);
+
+  const loadPromotionRules = React.useCallback(() => {
+    if (activeStore) {
+      getPromotionRules(activeStore.id).then(setPromotionRules);
+    }
+  }, [activeStore]);
+
   React.useEffect(() => {
     if (activeStore) {
         getPointEarningSettings(activeStore.id).then(setPointSettings);
     }
-  }, [activeStore]);
+    loadPromotionRules();
+  }, [activeStore, loadPromotionRules]);
+
+  // Usage this month per rule, from what was recorded on each sale.
+  const ruleUsage = React.useMemo(() => {
+    const usage: Record<string, { count: number; amount: number }> = {};
+    const now = new Date();
+    const thisMonth = { start: startOfMonth(now), end: endOfMonth(now) };
+    (transactions || [])
+      .filter(t => isWithinInterval(new Date(t.createdAt), thisMonth))
+      .forEach(t => (t.appliedPromotions || []).forEach(promotion => {
+        usage[promotion.ruleId] = usage[promotion.ruleId] || { count: 0, amount: 0 };
+        usage[promotion.ruleId].count += 1;
+        usage[promotion.ruleId].amount += promotion.amount;
+      }));
+    return usage;
+  }, [transactions]);
+
+  const toggleRuleStatus = async (rule: PromotionRule) => {
+    if (!activeStore) return;
+    try {
+      await setPromotionRuleActive(activeStore.id, rule.id, !rule.isActive);
+      loadPromotionRules();
+      toast({
+        title: 'Status Diperbarui',
+        description: `Promo "${rule.name}" ${rule.isActive ? 'dinonaktifkan' : 'diaktifkan'}.`,
+      });
+    } catch (error) {
+      console.error("Error updating promotion rule status: ", error);
+      toast({
+        variant: "destructive",
+        title: "Gagal memperbarui",
+        description: "Terjadi kesalahan saat mengubah status promo otomatis."
+      });
+    }
+  };
+
+  const handleConfirmDeleteRule = async () => {
+    if (!ruleToDelete || !activeStore) return;
+    try {
+      await deletePromotionRule(activeStore.id, ruleToDelete.id);
+      loadPromotionRules();
+      toast({
+        title: 'Promo Dihapus!',
+        description: `Promo otomatis "${ruleToDelete.name}" telah dihapus.`,
+      });
+    } catch (error) {
+      console.error("Error deleting promotion rule: ", error);
+      toast({
+        variant: "destructive",
+        title: "Gagal menghapus",
+        description: "Terjadi kesalahan saat menghapus promo otomatis."
+      });
+    }
+    setRuleToDelete(null);
+  };
 
 
   const handleDeleteClick = (option: RedemptionOption) => {
@@ -201,6 +288,11 @@ export default function Promotions() {
           pointsRequired: o.pointsRequired,
           isActive: o.isActive,
         })),
+        currentPromotionRules: promotionRules.map(rule => ({
+          name: rule.name,
+          description: describePromotionRule(rule),
+          isActive: rule.isActive,
+        })),
         topSellingProducts: topProducts,
         worstSellingProducts: worstProducts,
     };
@@ -221,6 +313,10 @@ export default function Promotions() {
 
   const handleApplyRecommendation = async (rec: PromotionRecommendationOutput['recommendations'][0]) => {
     if (!activeStore) return;
+    if (rec.rule) {
+      await handleApplyRuleRecommendation(rec.title, rec.rule);
+      return;
+    }
     try {
       await addDoc(collection(db, "stores", activeStore.id, "redemptionOptions"), {
         description: rec.description,
@@ -245,6 +341,43 @@ export default function Promotions() {
     }
   };
 
+  // Rule recommendations name products, so they are matched back to the catalog; unknown names are dropped.
+  const handleApplyRuleRecommendation = async (title: string, draft: PromotionRuleDraft) => {
+    if (!activeStore) return;
+    const productIds = (draft.productNames || []).flatMap(name => {
+      const product = (products || []).find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+      return product ? [product.id] : [];
+    });
+    const category = productCategories.find(c => c === draft.category);
+    const days = (draft.days || []).filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+    try {
+      await addPromotionRule(activeStore.id, {
+        name: title,
+        type: draft.type,
+        isActive: false,
+        discountType: draft.type === 'buy-x-get-y' ? 'percent' : draft.discountType,
+        discountValue: draft.discountValue,
+        ...(productIds.length > 0 && { productIds }),
+        ...(category && { category }),
+        ...(draft.type === 'buy-x-get-y' && { buyQuantity: draft.buyQuantity || 1, getQuantity: draft.getQuantity || 1 }),
+        ...(draft.type === 'min-spend' && { minSpend: draft.minSpend || 0 }),
+        ...(draft.startTime && draft.endTime && { schedule: { days, startTime: draft.startTime, endTime: draft.endTime } }),
+      });
+      loadPromotionRules();
+      toast({
+        title: 'Draf Promo Dibuat!',
+        description: `"${title}" telah ditambahkan sebagai promo otomatis non-aktif.`,
+      });
+    } catch (error) {
+      console.error("Error applying rule recommendation:", error);
+      toast({
+        variant: 'destructive',
+        title: 'Gagal Menerapkan Promo',
+        description: 'Terjadi kesalahan saat menyimpan draf promo. Silakan coba lagi.',
+      });
+    }
+  };
+
   const handlePromotionAdded = () => {
     refreshData();
   };
@@ -257,7 +390,7 @@ export default function Promotions() {
           <Card>
             <CardHeader>
               <CardTitle className="font-headline tracking-wider">Pengaturan Perolehan Poin</CardTitle>
-              <CardDescription>Atur berapa total belanja (dalam Rupiah) yang diperlukan untuk mendapatkan 1 poin loyalitas.</CardDescription>
+              <CardDescription>Atur berapa total belanja (dalam Rupiah) yang diperlukan untuk mendapatkan 1 poin loyalitas, dan nilai poin saat ditukar di kasir.</CardDescription>
             </CardHeader>
             <CardContent className="max-w-sm space-y-4">
               <div className="grid gap-2">
@@ -270,6 +403,17 @@ export default function Promotions() {
                   step="1000"
                 />
               </div>
+              <div className="grid gap-2">
+                <Label htmlFor="rp-per-redeemed-point">Nilai 1 Poin saat Ditukar (Rp)</Label>
+                <Input
+                  id="rp-per-redeemed-point"
+                  type="number"
+                  value={pointSettings.rpPerRedeemedPoint}
+                  onChange={(e) => setPointSettings(prev => ({...prev, rpPerRedeemedPoint: Number(e.target.value)}))}
+                  step="100"
+                />
+                <p className="text-xs text-muted-foreground">Isi 0 agar poin hanya bisa ditukar melalui opsi promo di bawah.</p>
+              </div>
               <Button onClick={handleSavePointEarning}>
                 <Save className="mr-2 h-4 w-4" />
                 Simpan Pengaturan
@@ -306,10 +450,16 @@ export default function Promotions() {
                       <CardContent className="space-y-2">
                         <p className="text-sm">{rec.description}</p>
                         <p className="text-xs text-muted-foreground italic">&quot;{rec.justification}&quot;</p>
-                        <div className='flex justify-between text-xs pt-2'>
-                          <span className='font-semibold'>{rec.pointsRequired} Poin</span>
-                          <span className='font-semibold'>Senilai Rp {rec.value.toLocaleString('id-ID')}</span>
-                        </div>
+                        {rec.rule ? (
+                          <div className='flex items-center gap-1 text-xs pt-2 font-semibold'>
+                            <BadgePercent className="h-3 w-3" /> Promo Otomatis · {promotionRuleTypeLabels[rec.rule.type]}
+                          </div>
+                        ) : (
+                          <div className='flex justify-between text-xs pt-2'>
+                            <span className='font-semibold'>{rec.pointsRequired} Poin</span>
+                            <span className='font-semibold'>Senilai Rp {rec.value.toLocaleString('id-ID')}</span>
+                          </div>
+                        )}
                       </CardContent>
                       <CardFooter>
                         <Button variant="outline" size="sm" onClick={() => handleApplyRecommendation(rec)}>
@@ -325,6 +475,115 @@ export default function Promotions() {
           </Card>
         )}
 
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle className="font-headline tracking-wider">
+                  Promo Otomatis
+                </CardTitle>
+                <CardDescription>
+                  Happy hour, beli X gratis Y, diskon kategori dan minimal belanja yang langsung diterapkan di kasir sesuai jadwalnya.
+                </CardDescription>
+              </div>
+              {isAdmin && (
+                <Dialog open={isAddRuleDialogOpen} onOpenChange={setIsAddRuleDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" className="gap-1">
+                      <PlusCircle className="h-3.5 w-3.5" />
+                      <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">
+                        Tambah Promo Otomatis
+                      </span>
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                      <DialogTitle className="font-headline tracking-wider">Tambah Promo Otomatis</DialogTitle>
+                      <DialogDescription>
+                        Tiap item mendapat satu promo dengan potongan terbesar; promo minimal belanja berlaku setelahnya.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <AddPromotionRuleForm setDialogOpen={setIsAddRuleDialogOpen} onRuleAdded={loadPromotionRules} />
+                  </DialogContent>
+                </Dialog>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Ketentuan</TableHead>
+                  <TableHead className="text-center">Status</TableHead>
+                  <TableHead className="text-right">Dipakai Bulan Ini</TableHead>
+                  <TableHead className="text-right">Total Diskon (Rp)</TableHead>
+                  {isAdmin && <TableHead className="text-right">Aksi</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotionRules.length > 0 ? promotionRules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <p className="font-medium">{rule.name}</p>
+                      <p className="text-xs text-muted-foreground">{promotionRuleTypeLabels[rule.type]}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describePromotionRule(rule)}
+                      {(rule.startDate || rule.endDate) && (
+                        <p className="text-xs text-muted-foreground">{rule.startDate || '...'} s/d {rule.endDate || '...'}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant={rule.isActive ? 'default' : 'destructive'}>
+                        {rule.isActive ? 'Aktif' : 'Non-Aktif'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {(ruleUsage[rule.id]?.count || 0).toLocaleString('id-ID')}x
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {(ruleUsage[rule.id]?.amount || 0).toLocaleString('id-ID')}
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button aria-haspopup="true" size="icon" variant="ghost">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Toggle menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Aksi</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => toggleRuleStatus(rule)}>
+                              {rule.isActive ? (
+                                <XCircle className="mr-2 h-4 w-4" />
+                              ) : (
+                                <CheckCircle className="mr-2 h-4 w-4" />
+                              )}
+                              <span>{rule.isActive ? 'Non-Aktifkan' : 'Aktifkan'}</span>
+                            </DropdownMenuItem>
+                            <DropdownMenuItem className="text-destructive" onClick={() => setRuleToDelete(rule)}>
+                              Hapus
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                )) : (
+                  <TableRow>
+                    <TableCell colSpan={isAdmin ? 6 : 5} className="text-center text-muted-foreground">
+                      Belum ada promo otomatis.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <div className="flex items-start justify-between">
@@ -441,6 +700,26 @@ export default function Promotions() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <AlertDialog open={!!ruleToDelete} onOpenChange={(open) => !open && setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Anda Yakin?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Promo otomatis ini akan dihapus permanen. Transaksi yang sudah memakainya tetap tercatat: <br />
+              <span className="font-bold">&quot;{ruleToDelete?.name}&quot;</span>.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDeleteRule}
+              className='bg-destructive text-destructive-foreground hover:bg-destructive/90'
+            >
+              Ya, Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
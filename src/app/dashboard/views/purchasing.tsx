@@ -0,0 +1,466 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Edit, MoreHorizontal, PackageCheck, PlusCircle, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { auth } from '@/lib/firebase';
+import { cancelPurchaseOrder, deleteSupplier, getPurchaseOrders, getSuppliers } from '@/lib/purchasing';
+import { getRemainingQuantity, isPurchaseOrderOpen, purchaseOrderStatusLabels } from '@/lib/purchase-orders';
+import { formatQuantity, formatUnitPrice } from '@/lib/units';
+import type { PurchaseOrder, PurchaseOrderStatus, Supplier } from '@/lib/types';
+import { SupplierFormDialog } from '@/components/dashboard/supplier-form-dialog';
+import { PurchaseOrderFormDialog } from '@/components/dashboard/purchase-order-form-dialog';
+import { ReceivePurchaseOrderDialog } from '@/components/dashboard/receive-purchase-order-dialog';
+
+const statusVariants: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  ordered: 'default',
+  partial: 'secondary',
+  received: 'secondary',
+  cancelled: 'destructive',
+};
+
+function formatRp(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function PurchaseOrderDetailsDialog({ order, onOpenChange }: { order: PurchaseOrder | null; onOpenChange: (open: boolean) => void }) {
+  if (!order) return null;
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">{order.number}</DialogTitle>
+          <DialogDescription>
+            {order.supplierName} · {purchaseOrderStatusLabels[order.status]} · dibuat {formatDateTime(order.createdAt)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          <div className="space-y-2">
+            {order.items.map(item => (
+              <div key={`${item.productId}-${item.variantId || ''}`} className="flex justify-between gap-2">
+                <div>
+                  <p>{item.productName}{item.variantName && ` (${item.variantName})`}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatQuantity(item.quantity, item.unit)} x Rp {formatUnitPrice(item.unitCost, item.unit)} · diterima {formatQuantity(item.receivedQuantity, item.unit)}
+                  </p>
+                </div>
+                {getRemainingQuantity(item) > 0 && order.status !== 'cancelled' && (
+                  <Badge variant="outline" className="h-fit shrink-0">Sisa {formatQuantity(getRemainingQuantity(item), item.unit)}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between font-semibold"><span>Perkiraan Total</span><span>{formatRp(order.totalCost)}</span></div>
+          {order.expectedAt && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>Perkiraan Tiba</span><span>{new Date(order.expectedAt).toLocaleDateString('id-ID', { dateStyle: 'medium' })}</span>
+            </div>
+          )}
+          {order.sentAt && (
+            <div className="flex justify-between text-muted-foreground"><span>Dikirim ke Pemasok</span><span>{formatDateTime(order.sentAt)}</span></div>
+          )}
+          {order.notes && <p className="italic text-muted-foreground">{order.notes}</p>}
+          {order.receipts.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <p className="font-medium">Penerimaan</p>
+                {order.receipts.map(receipt => (
+                  <div key={receipt.id} className="text-muted-foreground">
+                    <p>{formatDateTime(receipt.receivedAt)}{receipt.note && ` · ${receipt.note}`}</p>
+                    <p className="text-xs">
+                      {receipt.items.map(line => {
+                        const item = order.items[line.lineIndex];
+                        return `${item.productName}${item.variantName ? ` (${item.variantName})` : ''} ${formatQuantity(line.quantity, item.unit)}`;
+                      }).join(', ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Purchasing() {
+  const { activeStore } = useAuth();
+  const { dashboardData, refreshData } = useDashboard();
+  const products = dashboardData?.products || [];
+  const storeId = activeStore?.id;
+  const { toast } = useToast();
+
+  const [suppliers, setSuppliers] = React.useState<Supplier[] | null>(null);
+  const [orders, setOrders] = React.useState<PurchaseOrder[] | null>(null);
+  const [isSupplierFormOpen, setIsSupplierFormOpen] = React.useState(false);
+  const [editedSupplier, setEditedSupplier] = React.useState<Supplier | null>(null);
+  const [supplierToDelete, setSupplierToDelete] = React.useState<Supplier | null>(null);
+  const [isOrderFormOpen, setIsOrderFormOpen] = React.useState(false);
+  const [editedOrder, setEditedOrder] = React.useState<PurchaseOrder | null>(null);
+  const [orderToReceive, setOrderToReceive] = React.useState<PurchaseOrder | null>(null);
+  const [orderToCancel, setOrderToCancel] = React.useState<PurchaseOrder | null>(null);
+  const [selectedOrder, setSelectedOrder] = React.useState<PurchaseOrder | null>(null);
+  const [sendingOrderId, setSendingOrderId] = React.useState<string | null>(null);
+
+  const loadSuppliers = React.useCallback(() => {
+    if (!storeId) return;
+    getSuppliers(storeId).then(setSuppliers).catch(error => {
+      console.error('Error fetching suppliers:', error);
+      setSuppliers([]);
+    });
+  }, [storeId]);
+
+  const loadOrders = React.useCallback(() => {
+    if (!storeId) return;
+    getPurchaseOrders(storeId).then(setOrders).catch(error => {
+      console.error('Error fetching purchase orders:', error);
+      setOrders([]);
+    });
+  }, [storeId]);
+
+  React.useEffect(() => {
+    loadSuppliers();
+    loadOrders();
+  }, [loadSuppliers, loadOrders]);
+
+  if (!storeId) return null;
+
+  const openSupplierForm = (supplier: Supplier | null) => {
+    setEditedSupplier(supplier);
+    setIsSupplierFormOpen(true);
+  };
+
+  const openOrderForm = (order: PurchaseOrder | null) => {
+    setEditedOrder(order);
+    setIsOrderFormOpen(true);
+  };
+
+  const handleSend = async (order: PurchaseOrder) => {
+    setSendingOrderId(order.id);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/purchase-orders/send', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, purchaseOrderId: order.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengirim pesanan.');
+      }
+      toast({ title: 'Pesanan Terkirim', description: `${order.number} dikirim ke WhatsApp ${result.sentTo}.` });
+      loadOrders();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Mengirim Pesanan', description: (error as Error).message });
+    } finally {
+      setSendingOrderId(null);
+    }
+  };
+
+  const handleConfirmCancel = async () => {
+    if (!orderToCancel) return;
+    try {
+      await cancelPurchaseOrder(storeId, orderToCancel.id);
+      toast({ title: 'Pesanan Dibatalkan', description: orderToCancel.number });
+      loadOrders();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Membatalkan Pesanan', description: (error as Error).message });
+    } finally {
+      setOrderToCancel(null);
+    }
+  };
+
+  const handleConfirmDeleteSupplier = async () => {
+    if (!supplierToDelete) return;
+    try {
+      await deleteSupplier(storeId, supplierToDelete.id);
+      toast({ title: 'Pemasok Dihapus', description: supplierToDelete.name });
+      loadSuppliers();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menghapus Pemasok', description: (error as Error).message });
+    } finally {
+      setSupplierToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Tabs defaultValue="orders" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="orders">Pesanan Pembelian</TabsTrigger>
+          <TabsTrigger value="suppliers">Pemasok</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="font-headline tracking-wider">Pesanan Pembelian</CardTitle>
+                <CardDescription>Pesan barang ke pemasok dan catat penerimaannya, termasuk pengiriman sebagian.</CardDescription>
+              </div>
+              <Button size="sm" className="gap-1" onClick={() => openOrderForm(null)} disabled={!suppliers?.length}>
+                <PlusCircle className="h-3.5 w-3.5" />
+                Buat Pesanan
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>No.</TableHead>
+                    <TableHead>Pemasok</TableHead>
+                    <TableHead>Dibuat</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                    <TableHead className="text-right">Perkiraan Total</TableHead>
+                    <TableHead className="w-[100px] text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!orders ? (
+                    Array.from({ length: 4 }).map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={6}><Skeleton className="h-5 w-full" /></TableCell>
+                      </TableRow>
+                    ))
+                  ) : orders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">
+                        {suppliers?.length ? 'Belum ada pesanan pembelian.' : 'Tambahkan pemasok terlebih dahulu untuk membuat pesanan.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : orders.map(order => (
+                    <TableRow key={order.id} className="cursor-pointer" onClick={() => setSelectedOrder(order)}>
+                      <TableCell className="font-medium">{order.number}</TableCell>
+                      <TableCell>{order.supplierName}</TableCell>
+                      <TableCell>{formatDateTime(order.createdAt)}</TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={statusVariants[order.status]}>{purchaseOrderStatusLabels[order.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatRp(order.totalCost)}</TableCell>
+                      <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                        {isPurchaseOrderOpen(order) && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button aria-haspopup="true" size="icon" variant="ghost" disabled={sendingOrderId === order.id}>
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">Toggle menu</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Aksi</DropdownMenuLabel>
+                              {order.status === 'draft' && (
+                                <DropdownMenuItem onClick={() => openOrderForm(order)}>
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  Ubah Pesanan
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => handleSend(order)}>
+                                <Send className="mr-2 h-4 w-4" />
+                                {order.sentAt ? 'Kirim Ulang via WhatsApp' : 'Kirim via WhatsApp'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setOrderToReceive(order)}>
+                                <PackageCheck className="mr-2 h-4 w-4" />
+                                Terima Barang
+                              </DropdownMenuItem>
+                              <DropdownMenuItem className="text-destructive" onClick={() => setOrderToCancel(order)}>Batalkan</DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="font-headline tracking-wider">Pemasok</CardTitle>
+                <CardDescription>Kontak dan tempo pembayaran pemasok. Hubungkan produk ke pemasoknya dari formulir produk.</CardDescription>
+              </div>
+              <Button size="sm" className="gap-1" onClick={() => openSupplierForm(null)}>
+                <PlusCircle className="h-3.5 w-3.5" />
+                Tambah Pemasok
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nama</TableHead>
+                    <TableHead>Kontak</TableHead>
+                    <TableHead>WhatsApp</TableHead>
+                    <TableHead className="text-center">Tempo</TableHead>
+                    <TableHead className="text-center">Produk</TableHead>
+                    <TableHead className="w-[100px] text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!suppliers ? (
+                    Array.from({ length: 3 }).map((_, i) => (
+                      <TableRow key={i}>
+                        <TableCell colSpan={6}><Skeleton className="h-5 w-full" /></TableCell>
+                      </TableRow>
+                    ))
+                  ) : suppliers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">Belum ada pemasok.</TableCell>
+                    </TableRow>
+                  ) : suppliers.map(supplier => (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>{supplier.contactName || '-'}</TableCell>
+                      <TableCell>{supplier.phone || '-'}</TableCell>
+                      <TableCell className="text-center">{supplier.paymentTermDays > 0 ? `${supplier.paymentTermDays} hari` : 'Tunai'}</TableCell>
+                      <TableCell className="text-center">{products.filter(product => product.supplierId === supplier.id).length}</TableCell>
+                      <TableCell className="text-right">
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button aria-haspopup="true" size="icon" variant="ghost">
+                              <MoreHorizontal className="h-4 w-4" />
+                              <span className="sr-only">Toggle menu</span>
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuLabel>Aksi</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => openSupplierForm(supplier)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Ubah Pemasok
+                            </DropdownMenuItem>
+                            <DropdownMenuItem className="text-destructive" onClick={() => setSupplierToDelete(supplier)}>Hapus</DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <SupplierFormDialog
+        storeId={storeId}
+        open={isSupplierFormOpen}
+        supplier={editedSupplier}
+        onOpenChange={setIsSupplierFormOpen}
+        onSaved={loadSuppliers}
+      />
+      <PurchaseOrderFormDialog
+        storeId={storeId}
+        open={isOrderFormOpen}
+        order={editedOrder}
+        suppliers={suppliers || []}
+        products={products}
+        onOpenChange={setIsOrderFormOpen}
+        onSaved={loadOrders}
+      />
+      <ReceivePurchaseOrderDialog
+        storeId={storeId}
+        order={orderToReceive}
+        onOpenChange={(open) => !open && setOrderToReceive(null)}
+        onReceived={() => {
+          loadOrders();
+          refreshData();
+        }}
+      />
+      <PurchaseOrderDetailsDialog order={selectedOrder} onOpenChange={(open) => !open && setSelectedOrder(null)} />
+
+      <AlertDialog open={!!orderToCancel} onOpenChange={(open) => !open && setOrderToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Batalkan {orderToCancel?.number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Barang yang belum datang tidak lagi ditunggu. Barang yang sudah diterima tetap tercatat di stok.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Kembali</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmCancel} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Ya, Batalkan
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!supplierToDelete} onOpenChange={(open) => !open && setSupplierToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus {supplierToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pesanan pembelian ke pemasok ini tetap tersimpan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDeleteSupplier} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Ya, Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
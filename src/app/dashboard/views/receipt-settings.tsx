@@ -10,15 +10,29 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import {
   getReceiptSettings,
   updateReceiptSettings,
   defaultReceiptSettings
 } from '@/lib/receipt-settings';
-import { Loader, Receipt, Sparkles, WandSparkles, AlertCircle } from 'lucide-react';
+import { getReceiptNumberSettings, getReceiptNumberVoids, updateReceiptNumberSettings } from '@/lib/receipt-number-settings';
+import {
+  defaultReceiptNumberSettings,
+  formatReceiptNumber,
+  getReceiptNumberLabel,
+  getReceiptNumberSettingsError,
+  maxReceiptCounterShards,
+  receiptNumberResetLabels,
+  receiptNumberTokens,
+  receiptNumberVoidReasonLabels,
+} from '@/lib/receipt-numbers';
+import type { ReceiptNumberReset, ReceiptNumberVoid } from '@/lib/types';
+import { Loader, Receipt, Sparkles, WandSparkles, AlertCircle, Hash } from 'lucide-react';
 // Hapus import { getReceiptPromo } from '@/ai/flows/receipt-promo-generator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/auth-context';
@@ -45,12 +59,23 @@ export default function ReceiptSettings() {
   const [isLoading, setIsLoading] = React.useState(true);
   const [isSaving, setIsSaving] = React.useState(false);
   const [generatedPromo, setGeneratedPromo] = React.useState('');
+  const [numberSettings, setNumberSettings] = React.useState(defaultReceiptNumberSettings);
+  const [numberVoids, setNumberVoids] = React.useState<ReceiptNumberVoid[]>([]);
+  const [isSavingNumberSettings, setIsSavingNumberSettings] = React.useState(false);
 
   React.useEffect(() => {
     if (activeStore) {
       setIsLoading(true);
-      getReceiptSettings(activeStore.id)
-        .then(setSettings)
+      Promise.all([
+        getReceiptSettings(activeStore.id),
+        getReceiptNumberSettings(activeStore.id),
+        getReceiptNumberVoids(activeStore.id),
+      ])
+        .then(([receiptSettings, receiptNumberSettings, receiptNumberVoids]) => {
+          setSettings(receiptSettings);
+          setNumberSettings(receiptNumberSettings);
+          setNumberVoids(receiptNumberVoids);
+        })
         .catch(() => {
           toast({ variant: 'destructive', title: 'Gagal memuat pengaturan.' });
         })
@@ -82,6 +107,28 @@ export default function ReceiptSettings() {
     }
   };
 
+  const numberSettingsError = getReceiptNumberSettingsError(numberSettings);
+
+  const handleSaveNumberSettings = async () => {
+    if (!activeStore || numberSettingsError) return;
+    setIsSavingNumberSettings(true);
+    try {
+      await updateReceiptNumberSettings(activeStore.id, numberSettings);
+      toast({
+        title: 'Format Nomor Nota Disimpan!',
+        description: 'Transaksi berikutnya akan memakai format baru.',
+      });
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Gagal Menyimpan',
+        description: 'Terjadi kesalahan saat menyimpan format nomor nota.',
+      });
+    } finally {
+      setIsSavingNumberSettings(false);
+    }
+  };
+
   const handleGeneratePromo = async (): Promise<ReceiptPromoOutput> => {
     if (!redemptionOptions || !activeStore) {
         toast({ variant: 'destructive', title: 'Data promo atau toko tidak tersedia.'});
@@ -261,6 +308,126 @@ export default function ReceiptSettings() {
           </Button>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline tracking-wider">Format Nomor Nota</CardTitle>
+          <CardDescription>
+            Atur bentuk nomor nota dan kapan nomor urut dimulai kembali dari 1.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="receipt-number-format">Format</Label>
+              <Input
+                id="receipt-number-format"
+                value={numberSettings.format}
+                onChange={(e) => setNumberSettings(prev => ({ ...prev, format: e.target.value }))}
+                placeholder="INV/{outlet}/{yyyyMMdd}/{seq}"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="receipt-number-outlet">Kode Outlet</Label>
+              <Input
+                id="receipt-number-outlet"
+                value={numberSettings.outletCode}
+                onChange={(e) => setNumberSettings(prev => ({ ...prev, outletCode: e.target.value.toUpperCase() }))}
+                placeholder="Contoh: PST"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Reset Nomor Urut</Label>
+              <Select
+                value={numberSettings.reset}
+                onValueChange={(value: ReceiptNumberReset) => setNumberSettings(prev => ({ ...prev, reset: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(receiptNumberResetLabels) as ReceiptNumberReset[]).map(reset => (
+                    <SelectItem key={reset} value={reset}>{receiptNumberResetLabels[reset]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="receipt-number-digits">Digit Nomor Urut</Label>
+              <Input
+                id="receipt-number-digits"
+                type="number"
+                min={1}
+                max={10}
+                value={numberSettings.sequenceDigits}
+                onChange={(e) => setNumberSettings(prev => ({ ...prev, sequenceDigits: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="receipt-number-shards">Shard Penghitung</Label>
+              <Input
+                id="receipt-number-shards"
+                type="number"
+                min={1}
+                max={maxReceiptCounterShards}
+                value={numberSettings.counterShards}
+                onChange={(e) => setNumberSettings(prev => ({ ...prev, counterShards: Number(e.target.value) }))}
+              />
+              <p className="text-sm text-muted-foreground">
+                Beberapa shard membuat kasir yang checkout bersamaan tidak saling menunggu; nomor tetap unik tetapi tidak selalu urut waktu. Isi 1 jika nomor harus selalu berurutan tanpa celah.
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+            {receiptNumberTokens.map(({ token, description }) => (
+              <span key={token} className="rounded-md border px-2 py-1">
+                <span className="font-code">{token}</span> {description}
+              </span>
+            ))}
+          </div>
+          {numberSettingsError ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Format Tidak Valid</AlertTitle>
+              <AlertDescription>{numberSettingsError}</AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-sm">
+              Contoh: <span className="font-code font-semibold">{formatReceiptNumber(numberSettings, 42, new Date())}</span>
+            </p>
+          )}
+          <Button onClick={handleSaveNumberSettings} disabled={isSavingNumberSettings || !!numberSettingsError}>
+            {isSavingNumberSettings ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <Hash className="mr-2 h-4 w-4" />}
+            Simpan Format
+          </Button>
+
+          <div className="space-y-2">
+            <p className="font-medium">Nomor Nota Batal</p>
+            <p className="text-sm text-muted-foreground">
+              Nomor yang sudah terpakai oleh transaksi yang batal sebelum dibayar atau di-void, sehingga tidak muncul di penjualan.
+            </p>
+            {numberVoids.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Belum ada nomor nota yang batal.</p>
+            ) : (
+              <div className="divide-y rounded-md border text-sm">
+                {numberVoids.map(numberVoid => (
+                  <div key={numberVoid.id} className="flex items-center justify-between gap-4 p-3">
+                    <div>
+                      <p className="font-code font-semibold">
+                        {getReceiptNumberLabel(numberVoid)}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {receiptNumberVoidReasonLabels[numberVoid.reason]} · {new Date(numberVoid.createdAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}
+                      </p>
+                    </div>
+                    <p>Rp {numberVoid.amount.toLocaleString('id-ID')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
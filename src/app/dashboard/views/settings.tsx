@@ -31,19 +31,22 @@ import {
   reauthenticateWithCredential,
   updatePassword,
 } from 'firebase/auth';
-import { Loader, KeyRound, UserCircle, Building, Eye, EyeOff, Save, Play, MessageSquareQuote, Zap, Info, Newspaper, Sparkles } from 'lucide-react';
+import { Loader, KeyRound, UserCircle, Building, Eye, EyeOff, Save, Play, MessageSquareQuote, Zap, Info, Newspaper, Sparkles, PauseCircle, Scale, QrCode, Gift, PackageX } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
 import { useDashboard } from '@/contexts/dashboard-context';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { getReceiptSettings, updateReceiptSettings } from '@/lib/receipt-settings';
-import type { ReceiptSettings, NotificationSettings } from '@/lib/types';
+import type { ReceiptSettings, NotificationSettings, PosSettings } from '@/lib/types';
+import { defaultPosSettings } from '@/lib/pos-settings';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { FirebaseError } from 'firebase/app';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 import { AIConfirmationDialog } from '@/components/dashboard/ai-confirmation-dialog';
+import { TaxSettingsCard } from '@/components/dashboard/tax-settings-card';
+import { ApprovalSettingsCard } from '@/components/dashboard/approval-settings-card';
 
 interface TextToSpeechInput {
   text: string;
@@ -117,6 +120,7 @@ export default function Settings() {
   const [isSamplePlaying, setIsSamplePlaying] = React.useState(false);
   const [generalSettings, setGeneralSettings] = React.useState<Pick<ReceiptSettings, 'voiceGender' | 'notificationStyle'> | null>(null);
   const [notificationSettings, setNotificationSettings] = React.useState<NotificationSettings | null>(null);
+  const [posSettings, setPosSettings] = React.useState<PosSettings | null>(null);
   const [businessDescription, setBusinessDescription] = React.useState('');
   
   const [showCurrentPassword, setShowCurrentPassword] = React.useState(false);
@@ -134,6 +138,7 @@ export default function Settings() {
         });
         setBusinessDescription(activeStore.businessDescription || '');
         setNotificationSettings(activeStore.notificationSettings || { dailySummaryEnabled: true });
+        setPosSettings({ ...defaultPosSettings, ...activeStore.posSettings });
     }
   }, [activeStore]);
 
@@ -193,13 +198,22 @@ export default function Settings() {
   };
   
   const handleGeneralSettingSave = async () => {
-    if (!activeStore || !generalSettings || !notificationSettings) return;
+    if (!activeStore || !generalSettings || !notificationSettings || !posSettings) return;
+    if (!Number.isInteger(posSettings.heldCartExpiryMinutes) || posSettings.heldCartExpiryMinutes < 1) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Batas waktu transaksi ditahan minimal 1 menit.' });
+      return;
+    }
+    if (!Number.isInteger(posSettings.giftCardExpiryMonths) || posSettings.giftCardExpiryMonths < 0) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Masa berlaku gift card harus berupa bilangan bulat, 0 atau lebih.' });
+      return;
+    }
     setIsGeneralSettingLoading(true);
     try {
         const storeRef = doc(db, 'stores', activeStore.id);
         await setDoc(storeRef, {
             businessDescription: businessDescription,
-            notificationSettings: notificationSettings
+            notificationSettings: notificationSettings,
+            posSettings: posSettings
         }, { merge: true });
   
       await updateReceiptSettings(activeStore.id, {
@@ -404,6 +418,79 @@ export default function Settings() {
                                 <Label htmlFor="daily-summary-switch" className='font-normal'>Aktifkan pengiriman ringkasan penjualan harian via WhatsApp</Label>
                             </div>
                          ) : <Skeleton className="h-12 w-full" />}
+                    </div>
+                    <div className="space-y-2">
+                         <Label className='flex items-center gap-2'><PackageX className='h-4 w-4' /> Notifikasi Stok Menipis</Label>
+                         {notificationSettings ? (
+                            <div className='flex items-center space-x-2 rounded-md border p-3'>
+                                <Switch
+                                    id="low-stock-digest-switch"
+                                    checked={notificationSettings.lowStockDigestEnabled !== false}
+                                    onCheckedChange={(checked) => setNotificationSettings(s => s ? {...s, lowStockDigestEnabled: checked} : null)}
+                                />
+                                <Label htmlFor="low-stock-digest-switch" className='font-normal'>Kirim daftar produk yang mencapai stok minimum setiap pagi via WhatsApp</Label>
+                            </div>
+                         ) : <Skeleton className="h-12 w-full" />}
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor='held-cart-expiry' className='flex items-center gap-2'><PauseCircle className='h-4 w-4' /> Batas Waktu Transaksi Ditahan (menit)</Label>
+                        {posSettings ? (
+                            <Input
+                                id='held-cart-expiry'
+                                type='number'
+                                min={1}
+                                value={posSettings.heldCartExpiryMinutes}
+                                onChange={(e) => setPosSettings(s => s ? {...s, heldCartExpiryMinutes: Number(e.target.value)} : null)}
+                                className='max-w-[200px]'
+                            />
+                        ) : <Skeleton className="h-10 w-[200px]" />}
+                        <p className="text-xs text-muted-foreground">Transaksi yang ditahan di kasir akan dihapus otomatis setelah batas waktu ini.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor='scale-barcode-value' className='flex items-center gap-2'><Scale className='h-4 w-4' /> Barcode Label Timbangan</Label>
+                        {posSettings ? (
+                            <Select
+                                value={posSettings.scaleBarcodeValue}
+                                onValueChange={(value: PosSettings['scaleBarcodeValue']) => setPosSettings(s => s ? {...s, scaleBarcodeValue: value} : null)}
+                            >
+                                <SelectTrigger id='scale-barcode-value' className='max-w-[300px]'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value='weight'>Berisi berat (gram)</SelectItem>
+                                    <SelectItem value='price'>Berisi harga (Rp)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        ) : <Skeleton className="h-10 w-[300px]" />}
+                        <p className="text-xs text-muted-foreground">Label EAN-13 berawalan 20-29 dari timbangan: 5 digit kode produk (sama dengan barcode produk), lalu 5 digit berat atau harga.</p>
+                    </div>
+                    <div className="space-y-2">
+                         <Label className='flex items-center gap-2'><QrCode className='h-4 w-4' /> QRIS Dinamis</Label>
+                         {posSettings ? (
+                            <div className='flex items-center space-x-2 rounded-md border p-3'>
+                                <Switch
+                                    id="dynamic-qris-switch"
+                                    checked={posSettings.dynamicQrisEnabled}
+                                    onCheckedChange={(checked) => setPosSettings(s => s ? {...s, dynamicQrisEnabled: checked} : null)}
+                                />
+                                <Label htmlFor="dynamic-qris-switch" className='font-normal'>Buat QRIS berisi nominal untuk setiap pembayaran QRIS dan konfirmasi otomatis</Label>
+                            </div>
+                         ) : <Skeleton className="h-12 w-full" />}
+                         <p className="text-xs text-muted-foreground">Transaksi QRIS ditahan sampai pembayaran dikonfirmasi penyedia. QRIS yang kedaluwarsa atau dibatalkan akan mengembalikan stok.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor='gift-card-expiry' className='flex items-center gap-2'><Gift className='h-4 w-4' /> Masa Berlaku Gift Card & Kredit Toko (bulan)</Label>
+                        {posSettings ? (
+                            <Input
+                                id='gift-card-expiry'
+                                type='number'
+                                min={0}
+                                value={posSettings.giftCardExpiryMonths}
+                                onChange={(e) => setPosSettings(s => s ? {...s, giftCardExpiryMonths: Number(e.target.value)} : null)}
+                                className='max-w-[200px]'
+                            />
+                        ) : <Skeleton className="h-10 w-[200px]" />}
+                        <p className="text-xs text-muted-foreground">Berlaku untuk gift card dan kredit toko yang diterbitkan setelah disimpan. Isi 0 agar tidak pernah kedaluwarsa.</p>
                     </div>
                      <Button onClick={handleGeneralSettingSave} disabled={isGeneralSettingLoading}>
                         {isGeneralSettingLoading && <Loader className="mr-2 h-4 w-4 animate-spin"/>}
@@ -413,6 +500,12 @@ export default function Settings() {
                 </CardContent>
             </Card>
         )}
+        {currentUser?.role === 'admin' && activeStore && (
+            <TaxSettingsCard storeId={activeStore.id} />
+        )}
+        {currentUser?.role === 'admin' && activeStore && (
+            <ApprovalSettingsCard storeId={activeStore.id} pinUpdatedAt={currentUser.approvalPinUpdatedAt} />
+        )}
         <Card>
           <CardHeader>
             <CardTitle className="font-headline tracking-wider">
@@ -0,0 +1,172 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Shift } from '@/lib/types';
+import { getShifts } from '@/lib/shifts';
+import { useAuth } from '@/contexts/auth-context';
+import { cn } from '@/lib/utils';
+
+function formatRp(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function VarianceBadge({ variance }: { variance: number }) {
+  if (variance === 0) return <Badge variant="secondary">Sesuai</Badge>;
+  return (
+    <Badge variant={variance < 0 ? 'destructive' : 'outline'}>
+      {variance > 0 ? '+' : '-'} {formatRp(Math.abs(variance))}
+    </Badge>
+  );
+}
+
+function ShiftDetailsDialog({ shift, onOpenChange }: { shift: Shift | null; onOpenChange: (open: boolean) => void }) {
+  if (!shift) return null;
+
+  const cashIn = shift.cashMovements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0);
+  const cashOut = shift.cashMovements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0);
+
+  return (
+    <Dialog open={!!shift} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Detail Shift</DialogTitle>
+          <DialogDescription>
+            {shift.staffName} · {formatDateTime(shift.openedAt)}{shift.closedAt && ` s/d ${formatDateTime(shift.closedAt)}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <div className="flex justify-between"><span className="text-muted-foreground">Transaksi</span><span>{shift.transactionCount ?? '-'}</span></div>
+            <div className="flex justify-between"><span className="text-muted-foreground">Total Penjualan</span><span>{formatRp(shift.totalSales || 0)}</span></div>
+          </div>
+          <Separator />
+          <div className="space-y-1">
+            <div className="flex justify-between"><span className="text-muted-foreground">Modal Awal</span><span>{formatRp(shift.openingFloat)}</span></div>
+            <div className="flex justify-between"><span className="text-muted-foreground">Penjualan Tunai</span><span>{formatRp(shift.cashSales || 0)}</span></div>
+            {!!shift.cashRefunds && <div className="flex justify-between"><span className="text-muted-foreground">Refund Tunai</span><span>- {formatRp(shift.cashRefunds)}</span></div>}
+            <div className="flex justify-between"><span className="text-muted-foreground">Kas Masuk</span><span>{formatRp(cashIn)}</span></div>
+            <div className="flex justify-between"><span className="text-muted-foreground">Kas Keluar</span><span>- {formatRp(cashOut)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Kas Seharusnya</span><span>{formatRp(shift.expectedCash || 0)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Kas Dihitung</span><span>{formatRp(shift.countedCash || 0)}</span></div>
+            <div className={cn('flex justify-between font-bold', (shift.variance || 0) < 0 && 'text-destructive')}>
+              <span>Selisih</span><span>{formatRp(shift.variance || 0)}</span>
+            </div>
+          </div>
+          {shift.cashMovements.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-1">
+                <p className="font-medium">Catatan Kas</p>
+                {shift.cashMovements.map(movement => (
+                  <div key={movement.id} className="flex justify-between text-muted-foreground">
+                    <span>{formatDateTime(movement.createdAt)} · {movement.reason}</span>
+                    <span className={movement.type === 'out' ? 'text-destructive' : undefined}>
+                      {movement.type === 'out' ? '-' : '+'} {formatRp(movement.amount)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          {shift.closingNotes && (
+            <>
+              <Separator />
+              <p className="italic text-muted-foreground">{shift.closingNotes}</p>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Shifts() {
+  const { activeStore } = useAuth();
+  const [shifts, setShifts] = React.useState<Shift[] | null>(null);
+  const [selectedShift, setSelectedShift] = React.useState<Shift | null>(null);
+
+  React.useEffect(() => {
+    if (activeStore?.id) {
+      getShifts(activeStore.id).then(setShifts);
+    }
+  }, [activeStore?.id]);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline tracking-wider">Laporan Shift</CardTitle>
+          <CardDescription>
+            Rekap kas laci per shift kasir, termasuk selisih antara kas seharusnya dan kas yang dihitung.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kasir</TableHead>
+                <TableHead>Dibuka</TableHead>
+                <TableHead>Ditutup</TableHead>
+                <TableHead className="text-right">Kas Seharusnya</TableHead>
+                <TableHead className="text-right">Kas Dihitung</TableHead>
+                <TableHead className="text-center">Selisih</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!shifts ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={6}><Skeleton className="h-5 w-full" /></TableCell>
+                  </TableRow>
+                ))
+              ) : shifts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-10 text-center text-muted-foreground">Belum ada shift yang tercatat.</TableCell>
+                </TableRow>
+              ) : shifts.map(shift => (
+                <TableRow key={shift.id} className="cursor-pointer" onClick={() => setSelectedShift(shift)}>
+                  <TableCell className="font-medium">{shift.staffName}</TableCell>
+                  <TableCell>{formatDateTime(shift.openedAt)}</TableCell>
+                  <TableCell>{shift.closedAt ? formatDateTime(shift.closedAt) : <Badge>Berjalan</Badge>}</TableCell>
+                  <TableCell className="text-right">{shift.status === 'closed' ? formatRp(shift.expectedCash || 0) : '-'}</TableCell>
+                  <TableCell className="text-right">{shift.status === 'closed' ? formatRp(shift.countedCash || 0) : '-'}</TableCell>
+                  <TableCell className="text-center">{shift.status === 'closed' ? <VarianceBadge variance={shift.variance || 0} /> : '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <ShiftDetailsDialog shift={selectedShift} onOpenChange={(open) => !open && setSelectedShift(null)} />
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader, PlusCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { id as idLocale } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { getStockCounts, startStockCount } from '@/lib/stock-opname';
+import { stockCountStatusLabels } from '@/lib/stock-counts';
+import type { StockCount, StockCountStatus } from '@/lib/types';
+import { StockCountSession } from '@/components/dashboard/stock-count-session';
+
+const statusVariants: Record<StockCountStatus, 'default' | 'secondary' | 'destructive'> = {
+  counting: 'default',
+  posted: 'secondary',
+  cancelled: 'destructive',
+};
+
+export default function StockOpname() {
+  const { currentUser, activeStore } = useAuth();
+  const { dashboardData, refreshData } = useDashboard();
+  const products = dashboardData?.products || [];
+  const storeId = activeStore?.id;
+  const isAdmin = currentUser?.role === 'admin';
+  const { toast } = useToast();
+
+  const [stockCounts, setStockCounts] = React.useState<StockCount[] | null>(null);
+  const [selectedCountId, setSelectedCountId] = React.useState<string | null>(null);
+  const [isStartOpen, setIsStartOpen] = React.useState(false);
+  const [newCountName, setNewCountName] = React.useState('');
+  const [isStarting, setIsStarting] = React.useState(false);
+
+  const loadStockCounts = React.useCallback(() => {
+    if (!storeId) return;
+    getStockCounts(storeId).then(setStockCounts).catch(error => {
+      console.error('Error fetching stock counts:', error);
+      setStockCounts([]);
+    });
+  }, [storeId]);
+
+  React.useEffect(() => {
+    loadStockCounts();
+  }, [loadStockCounts]);
+
+  if (!storeId) return null;
+
+  const openStartDialog = () => {
+    setNewCountName(`Stok Opname ${format(new Date(), 'MMMM yyyy', { locale: idLocale })}`);
+    setIsStartOpen(true);
+  };
+
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newCountName.trim() || !currentUser) return;
+    setIsStarting(true);
+    try {
+      const stockCount = await startStockCount(storeId, newCountName.trim(), products, currentUser.id);
+      toast({ title: 'Stok Opname Dimulai', description: `Stok ${stockCount.items.length} barang telah dibekukan.` });
+      setIsStartOpen(false);
+      setSelectedCountId(stockCount.id);
+      loadStockCounts();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Memulai Stok Opname', description: (error as Error).message });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (selectedCountId) {
+    return (
+      <StockCountSession
+        storeId={storeId}
+        stockCountId={selectedCountId}
+        isAdmin={isAdmin}
+        onBack={() => {
+          setSelectedCountId(null);
+          loadStockCounts();
+        }}
+        onChanged={() => {
+          refreshData();
+          loadStockCounts();
+        }}
+      />
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="font-headline tracking-wider">Stok Opname</CardTitle>
+            <CardDescription>
+              Hitung stok fisik bersama-sama, lihat selisihnya dengan stok sistem, lalu sesuaikan stok sekaligus setelah disetujui admin.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" className="gap-1" onClick={openStartDialog}>
+              <PlusCircle className="h-3.5 w-3.5" />
+              Mulai Stok Opname
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama</TableHead>
+                <TableHead>Dimulai</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-right">Barang Selisih</TableHead>
+                <TableHead className="text-right">Nilai Selisih</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stockCounts === null && Array.from({ length: 3 }).map((_, index) => (
+                <TableRow key={index}>
+                  <TableCell colSpan={5}><Skeleton className="h-5 w-full" /></TableCell>
+                </TableRow>
+              ))}
+              {stockCounts?.map(stockCount => (
+                <TableRow key={stockCount.id} className="cursor-pointer" onClick={() => setSelectedCountId(stockCount.id)}>
+                  <TableCell className="font-medium">{stockCount.name}</TableCell>
+                  <TableCell>{new Date(stockCount.createdAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</TableCell>
+                  <TableCell className="text-center">
+                    <Badge variant={statusVariants[stockCount.status]}>{stockCountStatusLabels[stockCount.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{stockCount.summary ? stockCount.summary.varianceItems : '-'}</TableCell>
+                  <TableCell className="text-right">
+                    {stockCount.summary
+                      ? `Rp ${(stockCount.summary.surplusValue - stockCount.summary.shortageValue).toLocaleString('id-ID')}`
+                      : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {stockCounts?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">Belum ada stok opname.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleStart} className="grid gap-4">
+            <DialogHeader>
+              <DialogTitle className="font-headline tracking-wider">Mulai Stok Opname</DialogTitle>
+              <DialogDescription>
+                Stok sistem saat ini dibekukan sebagai pembanding. Penjualan tetap dapat berjalan selama penghitungan.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2">
+              <Label htmlFor="stock-count-name">Nama</Label>
+              <Input id="stock-count-name" value={newCountName} onChange={(e) => setNewCountName(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsStartOpen(false)} disabled={isStarting}>Batal</Button>
+              <Button type="submit" disabled={isStarting || !newCountName.trim()}>
+                {isStarting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+                Mulai
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -19,7 +19,8 @@ import {
 import type { Transaction, User, Customer, TransactionStatus } from '@/lib/types';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MoreHorizontal, Volume2, Send, CheckCircle, Loader, Calendar as CalendarIcon, Printer, Sparkles } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { MoreHorizontal, Volume2, Send, CheckCircle, Loader, Calendar as CalendarIcon, Printer, Sparkles, Undo2, Search } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,6 +33,7 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -61,12 +63,18 @@ import { Calendar } from '@/components/ui/calendar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { OrderReadyFollowUpInput, OrderReadyFollowUpOutput } from '@/ai/flows/order-ready-follow-up';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { getTransactionPayments, isPaidTransaction, paymentMethodLabels } from '@/lib/payments';
+import { formatItemOptions } from '@/lib/product-options';
+import { formatQuantity, formatUnitPrice } from '@/lib/units';
+import { getLineGrossAmount } from '@/lib/line-items';
+import { getReceiptNumberLabel } from '@/lib/receipt-numbers';
+import { RefundDialog } from '@/components/dashboard/refund-dialog';
 
 type TransactionsProps = {
     onPrintRequest: (transaction: Transaction) => void;
 };
 
-function TransactionDetailsDialog({ transaction, open, onOpenChange, users }: { transaction: Transaction; open: boolean; onOpenChange: (open: boolean) => void; users: User[] }) {
+function TransactionDetailsDialog({ transaction, open, onOpenChange, users, onRefundRequest }: { transaction: Transaction; open: boolean; onOpenChange: (open: boolean) => void; users: User[]; onRefundRequest?: () => void }) {
     if (!transaction) return null;
     
     const staff = (users || []).find(u => u.id === transaction.staffId);
@@ -93,16 +101,51 @@ function TransactionDetailsDialog({ transaction, open, onOpenChange, users }: {
                         <p className="text-sm text-muted-foreground">Tanggal</p>
                         <p className="font-medium">{new Date(transaction.createdAt).toLocaleString('id-ID', { dateStyle: 'long', timeStyle: 'short' })}</p>
                    </div>
+                   {transaction.offlineSync && (
+                       <div>
+                            <p className="text-sm text-muted-foreground">Transaksi Offline</p>
+                            <p className="font-medium">
+                                Nota sementara {transaction.offlineSync.provisionalReceiptNumber}
+                                {transaction.offlineSync.syncedAt && `, tersinkron ${new Date(transaction.offlineSync.syncedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}`}
+                            </p>
+                            {(transaction.offlineSync.conflicts || []).map((conflict, index) => (
+                                <p key={index} className="text-sm text-destructive">{conflict.message}</p>
+                            ))}
+                            {transaction.offlineSync.conflictsReviewedAt && (
+                                <p className="text-xs text-muted-foreground">Selisih sudah ditinjau admin.</p>
+                            )}
+                       </div>
+                   )}
                    <Separator />
                    <div className="space-y-2">
                         <p className="font-medium">Item Dibeli</p>
-                        {transaction.items.map(item => (
-                            <div key={item.productId} className="flex justify-between items-center text-sm">
+                        {transaction.items.map((item, index) => (
+                            <div key={`${item.productId}-${index}`} className="flex justify-between items-center text-sm">
                                 <div>
                                     <p>{item.productName}</p>
-                                    <p className="text-muted-foreground">{item.quantity} x Rp {item.price.toLocaleString('id-ID')}</p>
+                                    {formatItemOptions(item) && <p className="text-xs text-muted-foreground">{formatItemOptions(item)}</p>}
+                                    <p className="text-muted-foreground">
+                                        {formatQuantity(item.quantity, item.unit)} x Rp {formatUnitPrice(item.price, item.unit)}
+                                        {item.originalPrice !== undefined && <span className="ml-1 line-through">Rp {item.originalPrice.toLocaleString('id-ID')}</span>}
+                                    </p>
+                                    {(item.discountAmount || 0) > 0 && (
+                                        <p className="text-destructive">Diskon item - Rp {(item.discountAmount || 0).toLocaleString('id-ID')}</p>
+                                    )}
+                                    {item.notes && <p className="text-muted-foreground italic">{item.notes}</p>}
+                                    {(transaction.refundSummary?.refundedQuantities[index] || 0) > 0 && (
+                                        <p className="text-destructive">Dikembalikan {formatQuantity(transaction.refundSummary!.refundedQuantities[index], item.unit)}</p>
+                                    )}
                                 </div>
-                                <p>Rp {(item.quantity * item.price).toLocaleString('id-ID')}</p>
+                                <p>Rp {(getLineGrossAmount(item) - (item.discountAmount || 0)).toLocaleString('id-ID')}</p>
+                            </div>
+                        ))}
+                        {(transaction.giftCardSales || []).map(sale => (
+                            <div key={sale.code} className="flex justify-between items-center text-sm">
+                                <div>
+                                    <p>Gift Card</p>
+                                    <p className="text-muted-foreground font-code">{sale.code}</p>
+                                </div>
+                                <p>Rp {sale.amount.toLocaleString('id-ID')}</p>
                             </div>
                         ))}
                    </div>
@@ -112,18 +155,50 @@ function TransactionDetailsDialog({ transaction, open, onOpenChange, users }: {
                             <p className="text-muted-foreground">Subtotal</p>
                             <p>Rp {transaction.subtotal.toLocaleString('id-ID')}</p>
                         </div>
+                        {(transaction.appliedPromotions || []).map(promotion => (
+                            <div key={promotion.ruleId} className="flex justify-between text-destructive">
+                                <p>Promo {promotion.name}</p>
+                                <p>- Rp {promotion.amount.toLocaleString('id-ID')}</p>
+                            </div>
+                        ))}
                         <div className="flex justify-between text-destructive">
                             <p>Diskon</p>
                             <p>- Rp {transaction.discountAmount.toLocaleString('id-ID')}</p>
                         </div>
+                        {(transaction.redemptionDiscountAmount || 0) > 0 && (
+                            <div className="flex justify-between text-destructive">
+                                <p>{transaction.redemptionDescription || 'Diskon Poin'}</p>
+                                <p>- Rp {(transaction.redemptionDiscountAmount || 0).toLocaleString('id-ID')}</p>
+                            </div>
+                        )}
+                        {transaction.serviceChargeAmount !== undefined && (
+                            <div className="flex justify-between">
+                                <p className="text-muted-foreground">Biaya Layanan ({transaction.serviceChargeRate}%)</p>
+                                <p>Rp {transaction.serviceChargeAmount.toLocaleString('id-ID')}</p>
+                            </div>
+                        )}
+                        {transaction.taxAmount !== undefined && (
+                            <div className="flex justify-between">
+                                <p className="text-muted-foreground">{transaction.taxName} ({transaction.taxRate}%{transaction.taxInclusive ? ', termasuk' : ''})</p>
+                                <p>Rp {transaction.taxAmount.toLocaleString('id-ID')}</p>
+                            </div>
+                        )}
                         <div className="flex justify-between font-medium">
                             <p>Total</p>
                             <p>Rp {transaction.totalAmount.toLocaleString('id-ID')}</p>
                         </div>
-                        <div className="flex justify-between">
-                            <p className="text-muted-foreground">Metode Pembayaran</p>
-                            <p>{transaction.paymentMethod}</p>
-                        </div>
+                        {getTransactionPayments(transaction).map((payment, index) => (
+                            <div key={index} className="flex justify-between">
+                                <p className="text-muted-foreground">Pembayaran {paymentMethodLabels[payment.method]}{payment.giftCardCode && ` ${payment.giftCardCode}`}</p>
+                                <p>Rp {payment.amount.toLocaleString('id-ID')}</p>
+                            </div>
+                        ))}
+                        {transaction.cashTendered !== undefined && (
+                            <div className="flex justify-between">
+                                <p className="text-muted-foreground">Tunai Diterima / Kembalian</p>
+                                <p>Rp {transaction.cashTendered.toLocaleString('id-ID')} / Rp {(transaction.changeAmount || 0).toLocaleString('id-ID')}</p>
+                            </div>
+                        )}
                          <div className="flex justify-between">
                             <p className="text-muted-foreground">Poin Didapat</p>
                             <p className="text-primary">+{transaction.pointsEarned} pts</p>
@@ -132,8 +207,21 @@ function TransactionDetailsDialog({ transaction, open, onOpenChange, users }: {
                             <p>Poin Ditukar</p>
                             <p>-{transaction.pointsRedeemed} pts</p>
                         </div>
+                        {transaction.refundSummary && (
+                            <div className="flex justify-between font-medium text-destructive">
+                                <p>Dikembalikan ({transaction.refundSummary.refundIds.length}x)</p>
+                                <p>- Rp {transaction.refundSummary.amount.toLocaleString('id-ID')}</p>
+                            </div>
+                        )}
                    </div>
                 </div>
+                {onRefundRequest && (transaction.refundSummary?.amount || 0) < transaction.totalAmount && (
+                    <DialogFooter>
+                        <Button variant="outline" className="text-destructive" onClick={onRefundRequest}>
+                            <Undo2 className="mr-2 h-4 w-4" /> Pengembalian
+                        </Button>
+                    </DialogFooter>
+                )}
             </DialogContent>
         </Dialog>
     );
@@ -142,7 +230,7 @@ function TransactionDetailsDialog({ transaction, open, onOpenChange, users }: {
 type StatusFilter = 'Semua' | 'Diproses' | 'Selesai';
 
 export default function Transactions({ onPrintRequest }: TransactionsProps) {
-  const { activeStore } = useAuth();
+  const { currentUser, activeStore } = useAuth();
   const { dashboardData, isLoading, refreshData: onDataChange } = useDashboard();
   const { transactions, users, customers } = dashboardData || {};
   
@@ -153,12 +241,18 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
   const [transactionToComplete, setTransactionToComplete] = React.useState<Transaction | null>(null);
   const [generatingTextId, setGeneratingTextId] = React.useState<string | null>(null);
   const [sentWhatsappIds, setSentWhatsappIds] = React.useState<Set<string>>(new Set());
+  const [transactionToRefund, setTransactionToRefund] = React.useState<Transaction | null>(null);
+
+  // Refunds are approved by store admins; the API enforces the same rule.
+  const canRefund = !!currentUser && (currentUser.role === 'admin' || !!activeStore?.adminUids.includes(currentUser.id));
+  const isFullyRefunded = (transaction: Transaction) => !!transaction.refundSummary && transaction.refundSummary.amount >= transaction.totalAmount;
 
   const [date, setDate] = React.useState<DateRange | undefined>({
     from: startOfMonth(new Date()),
     to: endOfMonth(new Date()),
   });
   const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('Semua');
+  const [receiptSearch, setReceiptSearch] = React.useState('');
   const [currentPage, setCurrentPage] = React.useState(1);
   const itemsPerPage = 100;
 
@@ -170,6 +264,15 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
         dateFiltered = dateFiltered.filter(t => isWithinInterval(new Date(t.createdAt), { start: fromDate, end: toDate }));
     }
 
+    const searchTerm = receiptSearch.trim().toLowerCase();
+    if (searchTerm) {
+        // Offline sales can also be found by the provisional number on the receipt the customer holds.
+        dateFiltered = dateFiltered.filter(t =>
+            getReceiptNumberLabel(t).toLowerCase().includes(searchTerm) ||
+            !!t.offlineSync?.provisionalReceiptNumber.toLowerCase().includes(searchTerm)
+        );
+    }
+
     if (statusFilter === 'Semua') {
         return dateFiltered;
     }
@@ -184,7 +287,7 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
         return false;
     });
 
-  }, [transactions, date, statusFilter]);
+  }, [transactions, date, statusFilter, receiptSearch]);
 
   const paginatedTransactions = React.useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
@@ -196,7 +299,7 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
   
   React.useEffect(() => {
       setCurrentPage(1);
-  }, [date, statusFilter]);
+  }, [date, statusFilter, receiptSearch]);
 
   const getCustomerForTransaction = (transaction: Transaction): Customer | undefined => {
       if (!transaction.customerId || transaction.customerId === 'N/A') return undefined;
@@ -311,6 +414,15 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
                     </CardDescription>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
+                    <div className="relative w-full sm:w-[240px]">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Cari nomor nota..."
+                            value={receiptSearch}
+                            onChange={(e) => setReceiptSearch(e.target.value)}
+                            className="pl-8"
+                        />
+                    </div>
                     <Select value={statusFilter} onValueChange={(value: StatusFilter) => setStatusFilter(value)}>
                         <SelectTrigger className="w-full sm:w-[180px]">
                             <SelectValue placeholder="Filter status..." />
@@ -389,7 +501,14 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
                     paginatedTransactions.map((transaction) => {
                     return (
                     <TableRow key={transaction.id}>
-                        <TableCell className="font-mono">{String(transaction.receiptNumber).padStart(6, '0')}</TableCell>
+                        <TableCell className="font-mono">
+                            {getReceiptNumberLabel(transaction)}
+                            {transaction.offlineSync && (
+                                <Badge variant={transaction.offlineSync.conflicts?.length && !transaction.offlineSync.conflictsReviewedAt ? 'destructive' : 'outline'} className="ml-2 font-sans">
+                                    Offline
+                                </Badge>
+                            )}
+                        </TableCell>
                         <TableCell>
                         {new Date(transaction.createdAt).toLocaleDateString('id-ID', {
                             day: 'numeric',
@@ -404,10 +523,17 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
                             className={cn(
                                 transaction.status === 'Diproses' && 'bg-amber-500/20 text-amber-800 border-amber-500/50',
                                 (transaction.status === 'Selesai' || transaction.status === 'Selesai Dibayar') && 'bg-green-500/20 text-green-800 border-green-500/50',
+                                transaction.status === 'Menunggu Pembayaran' && 'bg-sky-500/20 text-sky-800 border-sky-500/50',
+                                transaction.status === 'Dibatalkan' && 'bg-muted text-muted-foreground line-through',
                             )}
                           >
                               {transaction.status}
                           </Badge>
+                          {transaction.refundSummary && (
+                            <Badge variant="destructive" className="ml-1">
+                              {isFullyRefunded(transaction) ? 'Dibatalkan' : 'Retur Sebagian'}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="text-right font-mono">
                         Rp {transaction.totalAmount.toLocaleString('id-ID')}
@@ -470,10 +596,14 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
                                 <DropdownMenuItem onClick={() => onPrintRequest(transaction)}>
                                     <Printer className="mr-2 h-4 w-4"/> Cetak Struk
                                 </DropdownMenuItem>
-                                <DropdownMenuSeparator />
-                                <DropdownMenuItem className="text-destructive">
-                                    Pengembalian
-                                </DropdownMenuItem>
+                                {canRefund && isPaidTransaction(transaction) && !isFullyRefunded(transaction) && (
+                                    <>
+                                        <DropdownMenuSeparator />
+                                        <DropdownMenuItem className="text-destructive" onClick={() => setTransactionToRefund(transaction)}>
+                                            <Undo2 className="mr-2 h-4 w-4"/> Pengembalian
+                                        </DropdownMenuItem>
+                                    </>
+                                )}
                                 </DropdownMenuContent>
                             </DropdownMenu>
                           </div>
@@ -516,6 +646,19 @@ export default function Transactions({ onPrintRequest }: TransactionsProps) {
               open={!!selectedTransaction}
               onOpenChange={() => setSelectedTransaction(null)}
               users={users || []}
+              onRefundRequest={canRefund && isPaidTransaction(selectedTransaction) ? () => {
+                  setTransactionToRefund(selectedTransaction);
+                  setSelectedTransaction(null);
+              } : undefined}
+          />
+      )}
+      {transactionToRefund && activeStore && (
+          <RefundDialog
+              storeId={activeStore.id}
+              transaction={transactionToRefund}
+              open={!!transactionToRefund}
+              onOpenChange={(open) => !open && setTransactionToRefund(null)}
+              onSuccess={() => onDataChange()}
           />
       )}
       {actionInProgress && activeStore && (
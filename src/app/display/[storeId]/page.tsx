@@ -0,0 +1,205 @@
+'use client';
+
+import * as React from 'react';
+import { Suspense } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { CheckCircle, Gift, Loader, QrCode, ShoppingBag } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { cn } from '@/lib/utils';
+import type { CustomerDisplayState, RedemptionOption } from '@/lib/types';
+import { getCustomerDisplayPromotions, subscribeToCustomerDisplay } from '@/lib/customer-display';
+import { paymentMethodLabels } from '@/lib/payments';
+import { formatQuantity } from '@/lib/units';
+import { QrisCode } from '@/components/dashboard/qris-code';
+
+// How long the thank-you screen stays up before the display returns to promos.
+const PAID_SCREEN_SECONDS = 15;
+const PROMO_ROTATION_SECONDS = 8;
+
+function formatRp(amount: number) {
+  return `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+}
+
+function TotalRow({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={cn('flex justify-between', className)}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+function PromoScreen({ storeName, promoText, redemptionOptions }: { storeName: string; promoText: string; redemptionOptions: RedemptionOption[] }) {
+  const slides = React.useMemo(() => [
+    ...(promoText ? [{ title: `Selamat Datang di ${storeName}`, description: promoText }] : []),
+    ...redemptionOptions.map(option => ({
+      title: option.description,
+      description: `Tukar ${option.pointsRequired.toLocaleString('id-ID')} poin, hemat ${formatRp(option.value)}`,
+    })),
+  ], [storeName, promoText, redemptionOptions]);
+  const [slideIndex, setSlideIndex] = React.useState(0);
+
+  React.useEffect(() => {
+    if (slides.length <= 1) return;
+    const interval = setInterval(() => setSlideIndex(index => (index + 1) % slides.length), PROMO_ROTATION_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [slides.length]);
+
+  const slide = slides[slideIndex % Math.max(slides.length, 1)];
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-6 p-10 text-center">
+      {slide ? (
+        <>
+          <Gift className="h-16 w-16 text-primary" />
+          <h2 className="font-headline text-4xl tracking-wider">{slide.title}</h2>
+          <p className="max-w-2xl text-2xl text-muted-foreground">{slide.description}</p>
+          {slides.length > 1 && (
+            <div className="flex gap-2">
+              {slides.map((_, index) => (
+                <span key={index} className={cn('h-2 w-2 rounded-full bg-muted', index === slideIndex && 'bg-primary')} />
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <h2 className="font-headline text-4xl tracking-wider">Selamat Datang di {storeName}</h2>
+      )}
+    </div>
+  );
+}
+
+function PaidScreen({ state }: { state: CustomerDisplayState }) {
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-4 p-10 text-center">
+      <CheckCircle className="h-20 w-20 text-green-500" />
+      <h2 className="font-headline text-4xl tracking-wider">Terima Kasih!</h2>
+      <p className="text-2xl">Total {formatRp(state.totalAmount)}</p>
+      {state.changeAmount !== undefined && state.changeAmount > 0 && (
+        <p className="text-3xl font-bold">Kembalian {formatRp(state.changeAmount)}</p>
+      )}
+      {state.customerName && !!state.pointsEarned && (
+        <p className="text-xl text-primary">{state.customerName}, Anda mendapat +{state.pointsEarned} poin</p>
+      )}
+    </div>
+  );
+}
+
+function CartScreen({ state }: { state: CustomerDisplayState }) {
+  const isQris = state.paymentMethod === 'QRIS';
+  return (
+    <div className="grid flex-1 gap-6 p-6 lg:grid-cols-5">
+      <Card className="lg:col-span-3">
+        <CardContent className="space-y-3 p-6">
+          {state.items.map((item, index) => (
+            <div key={index} className="flex items-start justify-between gap-4 text-xl">
+              <div>
+                <p className="font-medium">{item.name}</p>
+                {item.options && <p className="text-base text-muted-foreground">{item.options}</p>}
+                <p className="text-base text-muted-foreground">{formatQuantity(item.quantity, item.unit)}</p>
+              </div>
+              <p className="font-mono">{formatRp(item.lineTotal)}</p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+      <div className="space-y-6 lg:col-span-2">
+        <Card>
+          <CardContent className="space-y-2 p-6 text-xl">
+            {state.customerName && <TotalRow label="Pelanggan" value={state.customerName} className="text-muted-foreground" />}
+            <TotalRow label="Subtotal" value={formatRp(state.subtotal)} />
+            {state.discountAmount > 0 && <TotalRow label="Diskon" value={`- ${formatRp(state.discountAmount)}`} className="text-destructive" />}
+            {state.serviceChargeAmount > 0 && <TotalRow label="Biaya Layanan" value={formatRp(state.serviceChargeAmount)} />}
+            {state.taxAmount > 0 && <TotalRow label="Pajak" value={formatRp(state.taxAmount)} />}
+            <Separator />
+            <TotalRow label="Total" value={formatRp(state.totalAmount)} className="text-4xl font-bold" />
+            {!!state.pointsEarned && <TotalRow label="Poin Didapat" value={`+${state.pointsEarned}`} className="text-primary" />}
+          </CardContent>
+        </Card>
+        <Card className={cn(state.status === 'awaiting-payment' && 'border-primary')}>
+          <CardContent className="flex items-center gap-4 p-6 text-xl">
+            {state.status === 'awaiting-payment'
+              ? (isQris ? <QrCode className="h-10 w-10 text-primary" /> : <Loader className="h-10 w-10 animate-spin text-primary" />)
+              : <ShoppingBag className="h-10 w-10 text-muted-foreground" />}
+            <div>
+              <p className="font-medium">
+                {state.paymentMethod === 'Split' ? 'Pembayaran Terpisah' : `Pembayaran ${paymentMethodLabels[state.paymentMethod]}`}
+              </p>
+              <p className="text-base text-muted-foreground">
+                {state.status === 'awaiting-payment'
+                  ? (state.qrString ? 'Silakan scan QRIS di bawah untuk membayar.' : isQris ? 'Silakan scan QRIS toko dan selesaikan pembayaran.' : 'Pembayaran sedang diproses...')
+                  : 'Kasir sedang menyiapkan pesanan Anda.'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        {state.status === 'awaiting-payment' && state.qrString && (
+          <Card className="border-primary">
+            <CardContent className="flex flex-col items-center gap-3 p-6">
+              <QrisCode value={state.qrString} size={320} />
+              <p className="text-base text-muted-foreground">Scan dengan aplikasi bank atau e-wallet Anda.</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CustomerDisplay() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const storeId = params.storeId as string;
+  const staffId = searchParams.get('kasir');
+
+  const [state, setState] = React.useState<CustomerDisplayState | null>(null);
+  const [promotions, setPromotions] = React.useState<{ storeName: string; promoText: string; redemptionOptions: RedemptionOption[] } | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (!storeId) return;
+    getCustomerDisplayPromotions(storeId).then(setPromotions).catch(error => {
+      console.error('Error fetching display promotions:', error);
+    });
+    return subscribeToCustomerDisplay(storeId, staffId, setState);
+  }, [storeId, staffId]);
+
+  // Re-renders the display so an old thank-you screen times out.
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isPaidScreenActive = state?.status === 'paid' && now - new Date(state.updatedAt).getTime() < PAID_SCREEN_SECONDS * 1000;
+  const hasCart = !!state && (state.status === 'cart' || state.status === 'awaiting-payment') && state.items.length > 0;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <header className="flex items-center justify-between border-b px-6 py-4">
+        <h1 className="font-headline text-2xl tracking-wider">{promotions?.storeName || 'Chika POS'}</h1>
+        <span className="text-xl text-muted-foreground">
+          {new Date(now).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </header>
+      {hasCart ? (
+        <CartScreen state={state!} />
+      ) : isPaidScreenActive ? (
+        <PaidScreen state={state!} />
+      ) : promotions ? (
+        <PromoScreen {...promotions} />
+      ) : (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader className="h-10 w-10 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CustomerDisplayPage() {
+  return (
+    <Suspense fallback={null}>
+      <CustomerDisplay />
+    </Suspense>
+  );
+}
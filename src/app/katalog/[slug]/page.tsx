@@ -23,6 +23,10 @@ import {
   CarouselPrevious,
 } from "@/components/ui/carousel"
 import Autoplay from "embla-carousel-autoplay"
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getAvailableStock } from '@/lib/product-options';
+import { formatUnitPrice } from '@/lib/units';
 
 
 function groupProducts(products: Product[]): Record<string, Product[]> {
@@ -37,6 +41,77 @@ function groupProducts(products: Product[]): Record<string, Product[]> {
 }
 
 
+function CatalogProductCard({ product }: { product: Product }) {
+    const variants = product.variants || [];
+    const [variantId, setVariantId] = React.useState<string | undefined>(
+        variants.find(variant => getAvailableStock(product, variant.id) > 0)?.id ?? variants[0]?.id
+    );
+    const selectedVariant = variants.find(variant => variant.id === variantId);
+    const price = product.price + (selectedVariant?.priceDelta || 0);
+
+    return (
+        <Card className="overflow-hidden group">
+            <div className="relative aspect-square">
+                <Image src={product.imageUrl} alt={product.name} fill className="object-cover transition-transform group-hover:scale-105" unoptimized/>
+                {product.stock === 0 && (
+                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                      <div className="text-center text-white">
+                        <PackageX className="mx-auto h-8 w-8" />
+                        <p className="font-bold">Stok Habis</p>
+                      </div>
+                    </div>
+                )}
+            </div>
+            <CardHeader>
+                <CardTitle className="text-lg">{product.name}</CardTitle>
+                <CardDescription className="text-primary font-bold text-base">
+                    Rp {formatUnitPrice(price, product.unit)}
+                </CardDescription>
+            </CardHeader>
+            {(product.description || variants.length > 0 || (product.modifierGroups?.length || 0) > 0) && (
+                <CardContent className="space-y-3">
+                    {product.description && <p className="text-sm text-muted-foreground">{product.description}</p>}
+                    {variants.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium text-muted-foreground">{product.variantLabel || 'Varian'}</p>
+                            <div className="flex flex-wrap gap-2">
+                                {variants.map(variant => {
+                                    const isSoldOut = getAvailableStock(product, variant.id) <= 0;
+                                    return (
+                                        <Button
+                                            key={variant.id}
+                                            size="sm"
+                                            variant={variant.id === variantId ? 'default' : 'outline'}
+                                            className={cn("h-7", isSoldOut && "line-through")}
+                                            disabled={isSoldOut}
+                                            onClick={() => setVariantId(variant.id)}
+                                        >
+                                            {variant.name}
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                    {(product.modifierGroups || []).map(group => (
+                        <div key={group.id} className="space-y-1">
+                            <p className="text-xs font-medium text-muted-foreground">{group.name}</p>
+                            <div className="flex flex-wrap gap-1">
+                                {group.options.map(option => (
+                                    <Badge key={option.id} variant="secondary">
+                                        {option.name}{option.priceDelta > 0 && ` +Rp ${option.priceDelta.toLocaleString('id-ID')}`}
+                                    </Badge>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </CardContent>
+            )}
+        </Card>
+    );
+}
+
+
 type ChatMessage = {
   sender: 'user' | 'ai';
   text: string;
@@ -292,30 +367,7 @@ export default function CatalogPage() {
                                 <h2 className="text-2xl font-bold font-headline mb-6 border-b-2 border-primary pb-2">{category}</h2>
                                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                                     {productsInCategory.map(product => (
-                                        <Card key={product.id} className="overflow-hidden group">
-                                            <div className="relative aspect-square">
-                                                <Image src={product.imageUrl} alt={product.name} fill className="object-cover transition-transform group-hover:scale-105" unoptimized/>
-                                                {product.stock === 0 && (
-                                                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
-                                                      <div className="text-center text-white">
-                                                        <PackageX className="mx-auto h-8 w-8" />
-                                                        <p className="font-bold">Stok Habis</p>
-                                                      </div>
-                                                    </div>
-                                                )}
-                                            </div>
-                                            <CardHeader>
-                                                <CardTitle className="text-lg">{product.name}</CardTitle>
-                                                <CardDescription className="text-primary font-bold text-base">
-                                                    Rp {product.price.toLocaleString('id-ID')}
-                                                </CardDescription>
-                                            </CardHeader>
-                                            {product.description && (
-                                                <CardContent>
-                                                    <p className="text-sm text-muted-foreground">{product.description}</p>
-                                                </CardContent>
-                                            )}
-                                        </Card>
+                                        <CatalogProductCard key={product.id} product={product} />
                                     ))}
                                 </div>
                             </section>
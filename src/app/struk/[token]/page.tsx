@@ -0,0 +1,76 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Loader, ReceiptText, Store as StoreIcon } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Receipt } from '@/components/dashboard/receipt';
+import type { DigitalReceiptView } from '@/lib/types';
+
+export default function DigitalReceiptPage() {
+    const params = useParams();
+    const token = params?.token as string;
+    const [receipt, setReceipt] = React.useState<DigitalReceiptView | null>(null);
+    const [error, setError] = React.useState<string | undefined>(undefined);
+    const [isLoading, setIsLoading] = React.useState(true);
+
+    React.useEffect(() => {
+        if (!token) return;
+        async function fetchReceipt() {
+            setIsLoading(true);
+            setError(undefined);
+            try {
+                const response = await fetch(`/api/receipts/${encodeURIComponent(token)}`);
+                const data = await response.json();
+                if (!response.ok || data.error) {
+                    throw new Error(data.error || 'Gagal memuat struk.');
+                }
+                setReceipt(data);
+            } catch (e) {
+                setError((e as Error).message);
+                setReceipt(null);
+            } finally {
+                setIsLoading(false);
+            }
+        }
+        fetchReceipt();
+    }, [token]);
+
+    if (isLoading) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-secondary">
+                <Loader className="h-8 w-8 animate-spin text-primary"/>
+            </div>
+        );
+    }
+
+    if (error || !receipt) {
+        return (
+            <div className="flex min-h-screen items-center justify-center bg-secondary p-4">
+                <Alert variant="destructive" className="w-auto max-w-md">
+                    <ReceiptText className="h-4 w-4" />
+                    <AlertTitle>Struk Tidak Tersedia</AlertTitle>
+                    <AlertDescription>{error || 'Struk yang Anda cari tidak dapat ditemukan.'}</AlertDescription>
+                </Alert>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex min-h-screen flex-col items-center gap-4 bg-secondary p-4">
+            <div className="rounded-md shadow-md">
+                <Receipt transaction={receipt.transaction} settings={receipt.receiptSettings} staffName={receipt.staffName} />
+            </div>
+            {receipt.catalogSlug && (
+                <Button asChild variant="outline">
+                    <Link href={`/katalog/${receipt.catalogSlug}`}>
+                        <StoreIcon className="mr-2 h-4 w-4" />
+                        Lihat Katalog {receipt.storeName}
+                    </Link>
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -22,17 +23,22 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { productCategories } from '@/lib/types';
+import { productCategories, unitsOfMeasure } from '@/lib/types';
+import { unitLabels } from '@/lib/units';
 import type { UserRole, Store } from '@/lib/types';
 import * as React from 'react';
 import { Loader, ScanBarcode, Upload } from 'lucide-react';
 import { BarcodeScanner } from './barcode-scanner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
-import { db, storage } from '@/lib/firebase';
-import { addDoc, collection } from 'firebase/firestore';
+import { auth, storage } from '@/lib/firebase';
+import { addProductWithStock } from '@/lib/stock-ledger';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import Image from 'next/image';
 import { Textarea } from '../ui/textarea';
+import { ProductOptionsFields, getProductOptionsFormValues, productOptionsSchema, toProductOptionsData } from './product-options-fields';
+import { BundleItemsFields, bundleItemsSchema, getBundleItemsFormValues, toBundleItemsData } from './bundle-items-fields';
+import { SupplierField, supplierSchema } from './supplier-field';
+import { StockAlertFields, getStockAlertFormValues, stockAlertSchema } from './stock-alert-fields';
 
 const FormSchema = z.object({
   name: z.string().min(2, {
@@ -43,10 +49,17 @@ const FormSchema = z.object({
   barcode: z.string().optional(),
   price: z.coerce.number().min(0, "Harga harus diisi"),
   costPrice: z.coerce.number().min(0).optional(),
+  unit: z.enum(unitsOfMeasure),
   brand: z.string().min(2, {
     message: 'Brand must be at least 2 characters.',
   }),
   stock: z.coerce.number().min(0, 'Stock awal harus diisi.')
+}).merge(productOptionsSchema).merge(bundleItemsSchema).merge(supplierSchema).merge(stockAlertSchema).refine(data => data.unit !== 'pcs' || Number.isInteger(data.stock), {
+  message: 'Stok produk satuan pcs harus bilangan bulat.',
+  path: ['stock'],
+}).refine(data => data.bundleItems.length === 0 || data.unit === 'pcs', {
+  message: 'Paket dijual per pcs.',
+  path: ['unit'],
 });
 
 type AddProductFormProps = {
@@ -73,9 +86,14 @@ export function AddProductForm({ setDialogOpen, userRole, onProductAdded, active
       barcode: '',
       price: 0,
       costPrice: 0,
+      unit: 'pcs',
       brand: '',
       stock: 1,
       description: '',
+      ...getProductOptionsFormValues(),
+      ...getBundleItemsFormValues(),
+      ...getStockAlertFormValues(),
+      supplierId: '',
     },
   });
 
@@ -116,21 +134,27 @@ export function AddProductForm({ setDialogOpen, userRole, onProductAdded, active
         await uploadBytes(imageRef, imageFile);
         const imageUrl = await getDownloadURL(imageRef);
 
-        await addDoc(collection(db, 'stores', activeStore.id, 'products'), {
+        await addProductWithStock(activeStore.id, {
             name: data.name,
             category: data.category,
             description: data.description || '',
             price: data.price,
-            costPrice: costPrice,
-            stock: data.stock,
-            supplierId: '',
+            costPrice: costPrice ?? 0,
+            unit: data.unit,
+            // A bundle's stock comes from its components.
+            stock: data.bundleItems.length > 0 ? 0 : data.stock,
+            ...toProductOptionsData(data),
+            ...toBundleItemsData(data),
+            supplierId: data.supplierId,
+            minStock: data.minStock,
+            reorderQuantity: data.reorderQuantity,
             imageUrl: imageUrl,
             imageHint: '', // Hint is not needed for user-uploaded images
             attributes: { 
                 brand: data.brand,
                 barcode: data.barcode || '',
             }
-        });
+        }, auth.currentUser?.uid || '');
         
         toast({
             title: 'Produk Berhasil Ditambahkan!',
@@ -233,6 +257,7 @@ export function AddProductForm({ setDialogOpen, userRole, onProductAdded, active
             </FormItem>
           )}
         />
+        <SupplierField storeId={activeStore.id} />
         <FormField
           control={form.control}
           name="description"
@@ -283,25 +308,37 @@ export function AddProductForm({ setDialogOpen, userRole, onProductAdded, active
         )}
         
         <FormField
-            control={form.control}
-            name="price"
-            render={({ field }) => (
-                <FormItem>
-                <FormLabel>Harga Jual (Rp)</FormLabel>
+          control={form.control}
+          name="unit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Satuan</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
                 <FormControl>
-                    <Input type="number" {...field} />
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pilih satuan" />
+                  </SelectTrigger>
                 </FormControl>
-                <FormMessage />
-                </FormItem>
-            )}
+                <SelectContent>
+                  {unitsOfMeasure.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unitLabels[unit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Harga dan stok dihitung per satuan ini. Gunakan kg, gram atau liter untuk produk yang ditimbang.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
         />
 
         <FormField
             control={form.control}
-            name="stock"
+            name="price"
             render={({ field }) => (
                 <FormItem>
-                <FormLabel>Stok Awal</FormLabel>
+                <FormLabel>Harga Jual (Rp)</FormLabel>
                 <FormControl>
                     <Input type="number" {...field} />
                 </FormControl>
@@ -310,6 +347,27 @@ export function AddProductForm({ setDialogOpen, userRole, onProductAdded, active
             )}
         />
 
+        {!(form.watch('trackVariantStock') && form.watch('variants').length > 0) && form.watch('bundleItems').length === 0 && (
+          <FormField
+              control={form.control}
+              name="stock"
+              render={({ field }) => (
+                  <FormItem>
+                  <FormLabel>Stok Awal</FormLabel>
+                  <FormControl>
+                      <Input type="number" step="any" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                  </FormItem>
+              )}
+          />
+        )}
+
+        <StockAlertFields />
+
+        <ProductOptionsFields />
+
+        <BundleItemsFields />
 
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading && <Loader className="mr-2 h-4 w-4 animate-spin" />}
@@ -0,0 +1,410 @@
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import * as React from 'react';
+import { Loader } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { addPromotionRule } from '@/lib/promotion-rules';
+import { promotionDayLabels, promotionRuleTypeLabels } from '@/lib/promotion-engine';
+import { productCategories, promotionRuleTypes } from '@/lib/types';
+import type { PromotionRule } from '@/lib/types';
+
+const ALL_CATEGORIES = 'all';
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const FormSchema = z.object({
+  name: z.string().min(3, 'Nama promo minimal 3 karakter.'),
+  type: z.enum(promotionRuleTypes),
+  discountType: z.enum(['percent', 'nominal']),
+  discountValue: z.coerce.number().positive('Nilai diskon harus lebih dari 0.'),
+  category: z.string(),
+  productIds: z.array(z.string()),
+  buyQuantity: z.coerce.number().int().min(0),
+  getQuantity: z.coerce.number().int().min(0),
+  minSpend: z.coerce.number().min(0),
+  days: z.array(z.string()),
+  startTime: z.string(),
+  endTime: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+}).refine(data => data.discountType === 'nominal' || data.discountValue <= 100, {
+  message: 'Diskon persen maksimal 100.',
+  path: ['discountValue'],
+}).refine(data => data.type !== 'category-discount' || data.category !== ALL_CATEGORIES, {
+  message: 'Pilih kategori.',
+  path: ['category'],
+}).refine(data => data.type !== 'buy-x-get-y' || (data.buyQuantity >= 1 && data.getQuantity >= 1), {
+  message: 'Jumlah beli dan gratis minimal 1.',
+  path: ['getQuantity'],
+}).refine(data => data.type !== 'min-spend' || data.minSpend > 0, {
+  message: 'Minimal belanja harus diisi.',
+  path: ['minSpend'],
+}).refine(data => data.type !== 'happy-hour' || (timePattern.test(data.startTime) && timePattern.test(data.endTime)), {
+  message: 'Jam mulai dan selesai wajib diisi untuk happy hour.',
+  path: ['endTime'],
+}).refine(data => (!data.startTime && !data.endTime) || (timePattern.test(data.startTime) && timePattern.test(data.endTime) && data.startTime !== data.endTime), {
+  message: 'Isi jam mulai dan selesai yang berbeda.',
+  path: ['endTime'],
+}).refine(data => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+  message: 'Tanggal selesai harus setelah tanggal mulai.',
+  path: ['endDate'],
+});
+
+type FormValues = z.infer<typeof FormSchema>;
+
+// Firestore rejects undefined fields, so only what applies to the rule's type is written.
+function toPromotionRuleData(data: FormValues): Omit<PromotionRule, 'id' | 'createdAt'> {
+  const hasSchedule = !!data.startTime && !!data.endTime;
+  return {
+    name: data.name,
+    type: data.type,
+    isActive: true,
+    discountType: data.type === 'buy-x-get-y' ? 'percent' : data.discountType,
+    discountValue: data.discountValue,
+    ...(data.type !== 'min-spend' && data.productIds.length > 0 && { productIds: data.productIds }),
+    ...(data.type !== 'min-spend' && data.category !== ALL_CATEGORIES && { category: data.category as PromotionRule['category'] }),
+    ...(data.type === 'buy-x-get-y' && { buyQuantity: data.buyQuantity, getQuantity: data.getQuantity }),
+    ...(data.type === 'min-spend' && { minSpend: data.minSpend }),
+    ...(hasSchedule && {
+      schedule: { days: data.days.map(Number).sort(), startTime: data.startTime, endTime: data.endTime },
+    }),
+    ...(data.startDate && { startDate: data.startDate }),
+    ...(data.endDate && { endDate: data.endDate }),
+  };
+}
+
+type AddPromotionRuleFormProps = {
+  setDialogOpen: (open: boolean) => void;
+  onRuleAdded: () => void;
+};
+
+export function AddPromotionRuleForm({ setDialogOpen, onRuleAdded }: AddPromotionRuleFormProps) {
+  const { activeStore } = useAuth();
+  const { dashboardData } = useDashboard();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: {
+      name: '',
+      type: 'happy-hour',
+      discountType: 'percent',
+      discountValue: 10,
+      category: ALL_CATEGORIES,
+      productIds: [],
+      buyQuantity: 1,
+      getQuantity: 1,
+      minSpend: 0,
+      days: [],
+      startTime: '',
+      endTime: '',
+      startDate: '',
+      endDate: '',
+    },
+  });
+  const type = form.watch('type');
+  const isItemPromotion = type !== 'min-spend';
+
+  async function onSubmit(data: FormValues) {
+    if (!activeStore) {
+      toast({ variant: 'destructive', title: 'Toko tidak aktif' });
+      return;
+    }
+    setIsLoading(true);
+
+    try {
+      await addPromotionRule(activeStore.id, toPromotionRuleData(data));
+      toast({
+        title: 'Promo Otomatis Ditambahkan!',
+        description: `"${data.name}" akan diterapkan otomatis di kasir.`,
+      });
+      onRuleAdded();
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error adding promotion rule:", error);
+      toast({
+        variant: 'destructive',
+        title: 'Gagal Menambahkan Promo',
+        description: 'Terjadi kesalahan saat menyimpan data. Silakan coba lagi.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="max-h-[75vh] overflow-y-auto pr-6 pl-2 -mr-6 -ml-2">
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nama Promo</FormLabel>
+              <FormControl>
+                <Input placeholder="Contoh: Happy Hour Sore" {...field} />
+              </FormControl>
+              <FormDescription>Ditampilkan di kasir dan struk.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Jenis Promo</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {promotionRuleTypes.map(ruleType => (
+                    <SelectItem key={ruleType} value={ruleType}>{promotionRuleTypeLabels[ruleType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {type === 'buy-x-get-y' ? (
+          <div className="grid grid-cols-3 gap-2">
+            <FormField
+              control={form.control}
+              name="buyQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Beli</FormLabel>
+                  <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="getQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gratis</FormLabel>
+                  <FormControl><Input type="number" step="1" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="discountValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Diskon (%)</FormLabel>
+                  <FormControl><Input type="number" step="any" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="col-span-3 text-xs text-muted-foreground">
+              Item termurah yang memenuhi syarat mendapat diskon ini. Isi 100 untuk gratis.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-[1fr_auto] items-end gap-2">
+            <FormField
+              control={form.control}
+              name="discountValue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nilai Diskon</FormLabel>
+                  <FormControl><Input type="number" step="any" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="discountType"
+              render={({ field }) => (
+                <FormItem>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={field.value}
+                    onValueChange={(value) => { if (value) field.onChange(value); }}
+                  >
+                    <ToggleGroupItem value="percent" className="h-10">%</ToggleGroupItem>
+                    <ToggleGroupItem value="nominal" className="h-10">Rp</ToggleGroupItem>
+                  </ToggleGroup>
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {type === 'min-spend' && (
+          <FormField
+            control={form.control}
+            name="minSpend"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimal Belanja (Rp)</FormLabel>
+                <FormControl><Input type="number" step="any" {...field} /></FormControl>
+                <FormDescription>Dihitung setelah promo per item.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isItemPromotion && (
+          <>
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kategori</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_CATEGORIES}>Semua kategori</SelectItem>
+                      {productCategories.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="productIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produk (Opsional)</FormLabel>
+                  <ScrollArea className="h-32 rounded-md border p-2">
+                    {dashboardData.products.map(product => (
+                      <label key={product.id} className="flex items-center gap-2 py-1 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(product.id)}
+                          onCheckedChange={(checked) => field.onChange(checked
+                            ? [...field.value, product.id]
+                            : field.value.filter(productId => productId !== product.id))}
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </ScrollArea>
+                  <FormDescription>Kosongkan agar berlaku untuk semua produk{form.watch('category') !== ALL_CATEGORIES ? ' di kategori ini' : ''}.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="font-medium">Jadwal{type === 'happy-hour' ? '' : ' (Opsional)'}</p>
+          <FormField
+            control={form.control}
+            name="days"
+            render={({ field }) => (
+              <FormItem>
+                <ToggleGroup type="multiple" variant="outline" value={field.value} onValueChange={field.onChange} className="flex-wrap justify-start">
+                  {promotionDayLabels.map((label, day) => (
+                    <ToggleGroupItem key={day} value={String(day)} className="h-8 px-2">{label}</ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <FormDescription>Tidak memilih hari berarti setiap hari.</FormDescription>
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={form.control}
+              name="startTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Jam Mulai</FormLabel>
+                  <FormControl><Input type="time" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="endTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Jam Selesai</FormLabel>
+                  <FormControl><Input type="time" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mulai Tanggal</FormLabel>
+                  <FormControl><Input type="date" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sampai Tanggal</FormLabel>
+                  <FormControl><Input type="date" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">Jam mengikuti waktu toko (WIB).</p>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+          Simpan Promo Otomatis
+        </Button>
+      </form>
+    </Form>
+    </div>
+  );
+}
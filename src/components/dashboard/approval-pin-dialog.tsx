@@ -0,0 +1,109 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { approvalActionLabels } from '@/lib/approvals';
+import type { ApprovalLog, ApprovalRequest } from '@/lib/types';
+
+type ApprovalPinDialogProps = {
+  storeId: string;
+  requests: ApprovalRequest[] | null; // The dialog is open while there is something to approve
+  onApproved: (approvals: ApprovalLog[]) => void;
+  onCancel: () => void;
+};
+
+export function ApprovalPinDialog({ storeId, requests, onApproved, onCancel }: ApprovalPinDialogProps) {
+  const [pin, setPin] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (requests) setPin('');
+  }, [requests]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!requests || !pin) return;
+    setIsSubmitting(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/approvals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, pin, requests }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal memverifikasi PIN.');
+      }
+      const approvals: ApprovalLog[] = result;
+      toast({ title: 'Disetujui', description: `Disetujui oleh ${approvals[0]?.approvedByName || 'admin'}.` });
+      onApproved(approvals);
+    } catch (error) {
+      setPin('');
+      toast({ variant: 'destructive', title: 'Persetujuan Ditolak', description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!requests} onOpenChange={(open) => !open && !isSubmitting && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" /> Persetujuan Admin
+            </DialogTitle>
+            <DialogDescription>Tindakan berikut memerlukan PIN admin toko.</DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 text-sm">
+            {(requests || []).map((request, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <Badge variant="secondary" className="shrink-0">{approvalActionLabels[request.action]}</Badge>
+                <span>{request.details.description}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="grid gap-2">
+            <Label htmlFor="approval-pin">PIN Admin</Label>
+            <Input
+              id="approval-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>Batal</Button>
+            <Button type="submit" disabled={isSubmitting || pin.length < 4}>
+              {isSubmitting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Setujui
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
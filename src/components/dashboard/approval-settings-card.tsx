@@ -0,0 +1,194 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { KeyRound, Loader, Save, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import type { ApprovalLog, ApprovalSettings } from '@/lib/types';
+import { getApprovalLogs, getApprovalSettings, updateApprovalSettings } from '@/lib/approval-settings';
+import { approvalActionLabels } from '@/lib/approvals';
+
+const policySwitches: { key: 'lineVoids' | 'priceOverrides' | 'pointsRedemption' | 'noSale'; label: string }[] = [
+  { key: 'lineVoids', label: 'Hapus item dari keranjang' },
+  { key: 'priceOverrides', label: 'Kasir boleh mengubah harga dengan PIN admin' },
+  { key: 'pointsRedemption', label: 'Tukar poin pelanggan' },
+  { key: 'noSale', label: 'Buka laci kas tanpa transaksi' },
+];
+
+export function ApprovalSettingsCard({ storeId, pinUpdatedAt }: { storeId: string; pinUpdatedAt?: string }) {
+  const [settings, setSettings] = React.useState<ApprovalSettings | null>(null);
+  const [logs, setLogs] = React.useState<ApprovalLog[] | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [pin, setPin] = React.useState('');
+  const [isSavingPin, setIsSavingPin] = React.useState(false);
+  const [lastPinUpdate, setLastPinUpdate] = React.useState(pinUpdatedAt);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    getApprovalSettings(storeId).then(setSettings);
+    getApprovalLogs(storeId).then(setLogs).catch(error => {
+      console.error('Error fetching approval logs:', error);
+      setLogs([]);
+    });
+  }, [storeId]);
+
+  const update = (changes: Partial<ApprovalSettings>) => setSettings(s => s ? { ...s, ...changes } : null);
+
+  const handleSave = async () => {
+    if (!settings) return;
+    const threshold = settings.discountThresholdPercent;
+    if (threshold !== null && (!(threshold >= 0) || threshold > 100)) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Batas diskon harus antara 0 dan 100%.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateApprovalSettings(storeId, settings);
+      toast({ title: 'Kebijakan Persetujuan Disimpan!' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSavePin = async () => {
+    setIsSavingPin(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/approvals/pin', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ pin }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan PIN.');
+      }
+      setLastPinUpdate(result.approvalPinUpdatedAt);
+      setPin('');
+      toast({ title: 'PIN Persetujuan Disimpan!' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan PIN', description: (error as Error).message });
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline tracking-wider">Persetujuan Admin</CardTitle>
+        <CardDescription>Tindakan kasir yang harus disetujui dengan PIN admin. Admin toko tidak perlu persetujuan.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="approval-pin-new" className="flex items-center gap-2"><KeyRound className="h-4 w-4" /> PIN Persetujuan Anda</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="approval-pin-new"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={6}
+              placeholder="4-6 digit"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="max-w-[200px]"
+            />
+            <Button variant="outline" onClick={handleSavePin} disabled={isSavingPin || pin.length < 4}>
+              {isSavingPin && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              {lastPinUpdate ? 'Ganti PIN' : 'Atur PIN'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {lastPinUpdate
+              ? `PIN terakhir diubah ${new Date(lastPinUpdate).toLocaleString('id-ID')}.`
+              : 'Anda belum mengatur PIN. Kasir tidak dapat meminta persetujuan Anda tanpa PIN.'}
+          </p>
+        </div>
+
+        {settings ? (
+          <>
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="approval-discount"
+                  checked={settings.discountThresholdPercent !== null}
+                  onCheckedChange={(checked) => update({ discountThresholdPercent: checked ? 20 : null })}
+                />
+                <Label htmlFor="approval-discount">Diskon di atas batas</Label>
+              </div>
+              {settings.discountThresholdPercent !== null && (
+                <div className="space-y-2">
+                  <Label htmlFor="approval-discount-threshold">Batas Diskon (%)</Label>
+                  <Input
+                    id="approval-discount-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="max-w-[200px]"
+                    value={settings.discountThresholdPercent}
+                    onChange={(e) => update({ discountThresholdPercent: Number(e.target.value) })}
+                  />
+                  <p className="text-xs text-muted-foreground">Berlaku untuk diskon item dan diskon keranjang, termasuk diskon nominal.</p>
+                </div>
+              )}
+              {policySwitches.map(({ key, label }) => (
+                <div key={key} className="flex items-center space-x-2">
+                  <Switch id={`approval-${key}`} checked={settings[key]} onCheckedChange={(checked) => update({ [key]: checked })} />
+                  <Label htmlFor={`approval-${key}`} className="font-normal">{label}</Label>
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              <Save className="mr-2 h-4 w-4" />
+              Simpan Kebijakan
+            </Button>
+          </>
+        ) : (
+          <Skeleton className="h-40 w-full" />
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <p className="flex items-center gap-2 text-sm font-medium"><ShieldCheck className="h-4 w-4" /> Log Persetujuan</p>
+          {logs === null ? (
+            <Skeleton className="h-24 w-full" />
+          ) : logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada persetujuan.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {logs.map(log => (
+                <li key={log.id} className="space-y-1 py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="secondary">{approvalActionLabels[log.action]}</Badge>
+                    <span className="text-xs text-muted-foreground">{new Date(log.createdAt).toLocaleString('id-ID')}</span>
+                  </div>
+                  <p>{log.details.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Diminta {log.requestedByName || log.requestedBy}, disetujui {log.approvedByName || log.approvedBy}
+                    {log.transactionId && ' · dipakai pada transaksi'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import * as React from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PackagePlus, XCircle } from 'lucide-react';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { isBundleProduct } from '@/lib/bundles';
+import { unitLabels } from '@/lib/units';
+import type { Product, ProductBundleItem } from '@/lib/types';
+
+export const bundleItemsSchema = z.object({
+  bundleItems: z.array(z.object({
+    productId: z.string().min(1, 'Pilih produk.'),
+    quantity: z.coerce.number().positive('Jumlah harus lebih dari 0.'),
+  })),
+});
+
+type BundleItemsFormValues = z.infer<typeof bundleItemsSchema>;
+
+/**
+ * Builds the form values for a bundle's components.
+ * @param product The product being edited, or undefined for a new product.
+ */
+export function getBundleItemsFormValues(product?: Product): BundleItemsFormValues {
+  return {
+    bundleItems: (product?.bundleItems || []).map(bundleItem => ({ ...bundleItem })),
+  };
+}
+
+/**
+ * Converts the form values into the bundleItems stored on the product document.
+ * A component listed twice is merged into a single entry.
+ */
+export function toBundleItemsData(values: BundleItemsFormValues): { bundleItems: ProductBundleItem[] } {
+  const bundleItems: ProductBundleItem[] = [];
+  values.bundleItems.forEach(({ productId, quantity }) => {
+    const existing = bundleItems.find(bundleItem => bundleItem.productId === productId);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      bundleItems.push({ productId, quantity });
+    }
+  });
+  return { bundleItems };
+}
+
+/**
+ * Editor for the components of a bundle ("Paket") product, shared by the add and edit
+ * product forms. Only products without variants that aren't bundles themselves can be
+ * components. Must be rendered inside a form whose schema includes bundleItemsSchema.
+ * @param currentProductId The product being edited, which can't contain itself.
+ */
+export function BundleItemsFields({ currentProductId }: { currentProductId?: string }) {
+  const { control, watch } = useFormContext<BundleItemsFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'bundleItems' });
+  const { dashboardData } = useDashboard();
+  const bundleItems = watch('bundleItems');
+
+  const candidates = dashboardData.products.filter(product =>
+    product.id !== currentProductId && !isBundleProduct(product) && (product.variants?.length || 0) === 0
+  );
+  const componentsValue = bundleItems.reduce((sum, bundleItem) => {
+    const component = candidates.find(product => product.id === bundleItem.productId);
+    return sum + (component ? component.price * (Number(bundleItem.quantity) || 0) : 0);
+  }, 0);
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div>
+        <p className="font-medium">Isi Paket</p>
+        <p className="text-xs text-muted-foreground">
+          Isi produk lain untuk menjadikannya paket. Stok paket mengikuti stok isinya dan berkurang saat paket terjual.
+        </p>
+      </div>
+      {fields.map((field, index) => {
+        const component = candidates.find(product => product.id === bundleItems[index]?.productId);
+        return (
+          <div key={field.id} className="grid grid-cols-[1fr_7rem_auto] items-start gap-2 rounded-md bg-secondary/50 p-2">
+            <FormField
+              control={control}
+              name={`bundleItems.${index}.productId`}
+              render={({ field }) => (
+                <FormItem>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue placeholder="Pilih produk" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {candidates.map(product => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`bundleItems.${index}.quantity`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="any"
+                      placeholder={component?.unit ? unitLabels[component.unit] : 'Jumlah'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="icon" className="text-destructive/80 hover:text-destructive" onClick={() => remove(index)}>
+              <XCircle className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      {fields.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Harga normal isi paket: Rp {componentsValue.toLocaleString('id-ID')}. Pendapatan paket dibagi ke isinya sesuai harga ini di laporan.
+        </p>
+      )}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ productId: '', quantity: 1 })}>
+        <PackagePlus className="mr-2 h-4 w-4" /> Tambah Isi Paket
+      </Button>
+    </div>
+  );
+}
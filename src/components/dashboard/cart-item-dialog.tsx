@@ -0,0 +1,142 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Lock } from 'lucide-react';
+import type { CartItem } from '@/lib/types';
+import { applyLineAdjustments, calculateLineDiscount } from '@/lib/line-items';
+
+type CartItemDialogProps = {
+  item: CartItem | null;
+  catalogPrice: number;
+  canOverridePrice: boolean;
+  priceOverrideNeedsApproval?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (item: CartItem) => void;
+};
+
+export function CartItemDialog({ item, catalogPrice, canOverridePrice, priceOverrideNeedsApproval, onOpenChange, onSave }: CartItemDialogProps) {
+  const [price, setPrice] = React.useState(catalogPrice);
+  const [discountType, setDiscountType] = React.useState<'percent' | 'nominal'>('percent');
+  const [discountValue, setDiscountValue] = React.useState(0);
+  const [notes, setNotes] = React.useState('');
+
+  React.useEffect(() => {
+    if (item) {
+      setPrice(item.price);
+      setDiscountType(item.discountType || 'percent');
+      setDiscountValue(item.discountValue || 0);
+      setNotes(item.notes || '');
+    }
+  }, [item]);
+
+  if (!item) return null;
+
+  const updatedItem = applyLineAdjustments(item, catalogPrice, {
+    priceOverride: canOverridePrice ? price : item.price,
+    discountType,
+    discountValue,
+    notes,
+  });
+  const lineDiscount = calculateLineDiscount(updatedItem);
+
+  const handleSave = () => {
+    onSave(updatedItem);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">{item.productName}</DialogTitle>
+          <DialogDescription>
+            Atur harga, diskon, dan catatan untuk item ini. Harga normal Rp {catalogPrice.toLocaleString('id-ID')}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="line-price" className="flex items-center gap-1">
+              Harga Satuan (Rp) {!canOverridePrice && <Lock className="h-3 w-3 text-muted-foreground" />}
+            </Label>
+            <Input
+              id="line-price"
+              type="number"
+              min={0}
+              value={price}
+              onChange={(e) => setPrice(Number(e.target.value))}
+              onFocus={(e) => e.target.select()}
+              disabled={!canOverridePrice}
+            />
+            {!canOverridePrice && (
+              <p className="text-xs text-muted-foreground">Hanya admin yang dapat mengubah harga.</p>
+            )}
+            {canOverridePrice && priceOverrideNeedsApproval && (
+              <p className="text-xs text-muted-foreground">Perubahan harga memerlukan PIN admin saat pembayaran.</p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="line-discount">Diskon Item</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="line-discount"
+                type="number"
+                min={0}
+                value={discountValue}
+                onChange={(e) => setDiscountValue(Math.max(0, Number(e.target.value)))}
+                onFocus={(e) => e.target.select()}
+                className="h-9"
+              />
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={discountType}
+                onValueChange={(value) => {
+                  if (value) setDiscountType(value as 'percent' | 'nominal');
+                }}
+              >
+                <ToggleGroupItem value="percent" aria-label="Toggle percent" className="h-9">
+                  %
+                </ToggleGroupItem>
+                <ToggleGroupItem value="nominal" aria-label="Toggle nominal" className="h-9">
+                  Rp
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            {lineDiscount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Potongan Rp {lineDiscount.toLocaleString('id-ID')} untuk {item.quantity} item.
+              </p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="line-notes">Catatan</Label>
+            <Textarea
+              id="line-notes"
+              placeholder="Contoh: kurangi gula"
+              value={notes}
+              maxLength={200}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button onClick={handleSave}>Simpan</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
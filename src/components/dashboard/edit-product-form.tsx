@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -22,17 +23,22 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { productCategories } from '@/lib/types';
+import { productCategories, unitsOfMeasure } from '@/lib/types';
+import { unitLabels } from '@/lib/units';
 import type { UserRole, Store, Product } from '@/lib/types';
 import * as React from 'react';
 import { Loader, ScanBarcode, Upload } from 'lucide-react';
 import { BarcodeScanner } from './barcode-scanner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
-import { db, storage } from '@/lib/firebase';
-import { doc, updateDoc } from 'firebase/firestore';
+import { auth, storage } from '@/lib/firebase';
+import { updateProductWithStock } from '@/lib/stock-ledger';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import Image from 'next/image';
 import { Textarea } from '../ui/textarea';
+import { ProductOptionsFields, getProductOptionsFormValues, productOptionsSchema, toProductOptionsData } from './product-options-fields';
+import { BundleItemsFields, bundleItemsSchema, getBundleItemsFormValues, toBundleItemsData } from './bundle-items-fields';
+import { SupplierField, supplierSchema } from './supplier-field';
+import { StockAlertFields, getStockAlertFormValues, stockAlertSchema } from './stock-alert-fields';
 
 const FormSchema = z.object({
   name: z.string().min(2, { message: 'Nama harus minimal 2 karakter.' }),
@@ -41,7 +47,11 @@ const FormSchema = z.object({
   barcode: z.string().optional(),
   price: z.coerce.number().min(0, "Harga harus diisi"),
   costPrice: z.coerce.number().min(0).optional(),
+  unit: z.enum(unitsOfMeasure),
   brand: z.string().min(2, { message: 'Merek harus minimal 2 karakter.' }),
+}).merge(productOptionsSchema).merge(bundleItemsSchema).merge(supplierSchema).merge(stockAlertSchema).refine(data => data.bundleItems.length === 0 || data.unit === 'pcs', {
+  message: 'Paket dijual per pcs.',
+  path: ['unit'],
 });
 
 type FormValues = z.infer<typeof FormSchema>;
@@ -70,9 +80,14 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
       barcode: product.attributes.barcode,
       price: product.price,
       costPrice: product.costPrice,
+      unit: product.unit || 'pcs',
       brand: product.attributes.brand,
       category: product.category,
       description: product.description || '',
+      ...getProductOptionsFormValues(product),
+      ...getBundleItemsFormValues(product),
+      ...getStockAlertFormValues(product),
+      supplierId: product.supplierId || '',
     },
   });
 
@@ -95,7 +110,6 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
 
   async function onSubmit(data: FormValues) {
     setIsLoading(true);
-    const productRef = doc(db, 'stores', activeStore.id, 'products', product.id);
 
     try {
         let imageUrl = product.imageUrl;
@@ -109,16 +123,22 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
             imageUrl = await getDownloadURL(imageRef);
         }
 
-        await updateDoc(productRef, {
+        await updateProductWithStock(activeStore.id, product.id, {
             name: data.name,
             category: data.category,
             description: data.description || '',
             price: data.price,
             costPrice: (userRole === 'admin') ? data.costPrice : product.costPrice,
+            unit: data.unit,
             'attributes.brand': data.brand,
             'attributes.barcode': data.barcode || '',
+            supplierId: data.supplierId,
+            minStock: data.minStock,
+            reorderQuantity: data.reorderQuantity,
             imageUrl: imageUrl, // Save the new or existing image URL
-        });
+            ...toProductOptionsData(data),
+            ...toBundleItemsData(data),
+        }, auth.currentUser?.uid || '');
         
         toast({
             title: 'Produk Berhasil Diperbarui!',
@@ -221,6 +241,7 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
               </FormItem>
             )}
           />
+           <SupplierField storeId={activeStore.id} />
            <FormField
               control={form.control}
               name="description"
@@ -270,6 +291,32 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
               />
           )}
           
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Satuan</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih satuan" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {unitsOfMeasure.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unitLabels[unit]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Harga dan stok dihitung per satuan ini. Gunakan kg, gram atau liter untuk produk yang ditimbang.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
               control={form.control}
               name="price"
@@ -283,6 +330,12 @@ export function EditProductForm({ setDialogOpen, userRole, onProductUpdated, act
                   </FormItem>
               )}
           />
+
+          <StockAlertFields product={product} />
+
+          <ProductOptionsFields />
+
+          <BundleItemsFields currentProductId={product.id} />
           
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading && <Loader className="mr-2 h-4 w-4 animate-spin" />}
@@ -0,0 +1,141 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Clock, Loader, RotateCcw, Trash2, User } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { id as idLocale } from 'date-fns/locale';
+import type { HeldCart } from '@/lib/types';
+import { deleteHeldCart, getHeldCarts } from '@/lib/held-carts';
+import { useToast } from '@/hooks/use-toast';
+
+type HeldCartsDialogProps = {
+  storeId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecall: (heldCart: HeldCart) => void;
+};
+
+export function HeldCartsDialog({ storeId, open, onOpenChange, onRecall }: HeldCartsDialogProps) {
+  const [heldCarts, setHeldCarts] = React.useState<HeldCart[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [busyCartId, setBusyCartId] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    getHeldCarts(storeId)
+      .then(setHeldCarts)
+      .catch(error => {
+        console.error("Error fetching held carts:", error);
+        toast({ variant: 'destructive', title: 'Gagal Memuat', description: 'Tidak dapat memuat transaksi yang ditahan.' });
+      })
+      .finally(() => setIsLoading(false));
+  }, [open, storeId, toast]);
+
+  const handleRecall = async (heldCart: HeldCart) => {
+    setBusyCartId(heldCart.id);
+    try {
+      // Remove it first so the same cart can't be recalled twice from another register.
+      await deleteHeldCart(storeId, heldCart.id);
+      onRecall(heldCart);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error recalling held cart:", error);
+      toast({ variant: 'destructive', title: 'Gagal Memanggil Transaksi', description: (error as Error).message });
+    } finally {
+      setBusyCartId(null);
+    }
+  };
+
+  const handleDelete = async (heldCart: HeldCart) => {
+    setBusyCartId(heldCart.id);
+    try {
+      await deleteHeldCart(storeId, heldCart.id);
+      setHeldCarts(prev => prev.filter(c => c.id !== heldCart.id));
+      toast({ title: 'Transaksi Ditahan Dihapus' });
+    } catch (error) {
+      console.error("Error deleting held cart:", error);
+      toast({ variant: 'destructive', title: 'Gagal Menghapus', description: (error as Error).message });
+    } finally {
+      setBusyCartId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Transaksi Ditahan</DialogTitle>
+          <DialogDescription>
+            Pilih transaksi untuk dilanjutkan. Transaksi yang melewati batas waktu akan dihapus otomatis.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-3 pr-4">
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+            ) : heldCarts.length === 0 ? (
+              <div className="py-10 text-center text-sm text-muted-foreground">
+                Tidak ada transaksi yang ditahan.
+              </div>
+            ) : heldCarts.map(heldCart => {
+              const itemCount = heldCart.items.reduce((sum, item) => sum + item.quantity, 0);
+              const subtotal = heldCart.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+                + (heldCart.giftCardSales || []).reduce((sum, sale) => sum + sale.amount, 0);
+              const isBusy = busyCartId === heldCart.id;
+              return (
+                <div key={heldCart.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1 text-sm">
+                    <p className="font-semibold">
+                      {heldCart.customerName || 'Pelanggan Umum'} · Rp {subtotal.toLocaleString('id-ID')}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {itemCount} item · {[
+                        ...heldCart.items.map(item => item.productName),
+                        ...(heldCart.giftCardSales || []).map(sale => `Gift Card Rp ${sale.amount.toLocaleString('id-ID')}`),
+                      ].join(', ')}
+                    </p>
+                    {heldCart.notes && <p className="italic text-muted-foreground">&quot;{heldCart.notes}&quot;</p>}
+                    <p className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1"><User className="h-3 w-3" /> {heldCart.staffName}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" /> {format(new Date(heldCart.createdAt), 'HH:mm', { locale: idLocale })}
+                        {' · '}kedaluwarsa {formatDistanceToNow(new Date(heldCart.expiresAt), { addSuffix: true, locale: idLocale })}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button size="sm" onClick={() => handleRecall(heldCart)} disabled={!!busyCartId}>
+                      {isBusy ? <Loader className="h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+                      {!isBusy && 'Lanjutkan'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9 text-destructive/80 hover:text-destructive"
+                      onClick={() => handleDelete(heldCart)}
+                      disabled={!!busyCartId}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
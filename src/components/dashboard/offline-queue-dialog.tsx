@@ -0,0 +1,144 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Clock, Loader, Printer, RefreshCw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { id as idLocale } from 'date-fns/locale';
+import type { QueuedCheckout, Transaction } from '@/lib/types';
+import { deleteQueuedCheckout } from '@/lib/offline-store';
+import { useToast } from '@/hooks/use-toast';
+
+type OfflineQueueDialogProps = {
+  queue: QueuedCheckout[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  canDiscard: boolean; // Discarding drops a sale that already happened, so only admins may
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSync: () => void;
+  onDiscarded: () => void;
+  onPrint: (receipt: Transaction) => void;
+};
+
+export function OfflineQueueDialog({ queue, isOnline, isSyncing, canDiscard, open, onOpenChange, onSync, onDiscarded, onPrint }: OfflineQueueDialogProps) {
+  const [entryToDiscard, setEntryToDiscard] = React.useState<QueuedCheckout | null>(null);
+  const [discardingId, setDiscardingId] = React.useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleDiscard = async (entry: QueuedCheckout) => {
+    setEntryToDiscard(null);
+    setDiscardingId(entry.id);
+    try {
+      await deleteQueuedCheckout(entry.id);
+      toast({ title: 'Transaksi Offline Dibuang' });
+      onDiscarded();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Membuang', description: (error as Error).message });
+    } finally {
+      setDiscardingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">Antrean Transaksi Offline</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'Transaksi di bawah ini disimpan di perangkat ini dan dikirim ke server secara otomatis.'
+                : 'Perangkat sedang offline. Transaksi akan dikirim ke server saat koneksi kembali.'}
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-3 pr-4">
+              {queue.length === 0 ? (
+                <div className="py-10 text-center text-sm text-muted-foreground">
+                  Semua transaksi sudah tersinkron.
+                </div>
+              ) : queue.map(entry => (
+                <div key={entry.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1 text-sm">
+                    <p className="flex items-center gap-2 font-semibold">
+                      {entry.request.offline.provisionalReceiptNumber}
+                      <Badge variant={entry.status === 'failed' ? 'destructive' : 'secondary'}>
+                        {entry.status === 'failed' ? 'Ditolak' : 'Menunggu'}
+                      </Badge>
+                    </p>
+                    <p className="text-muted-foreground">
+                      {entry.receipt.customerName} · Rp {entry.receipt.totalAmount.toLocaleString('id-ID')}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" /> {format(new Date(entry.request.offline.soldAt), 'dd MMM HH:mm', { locale: idLocale })}
+                    </p>
+                    {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => onPrint(entry.receipt)}>
+                      <Printer className="h-4 w-4" />
+                    </Button>
+                    {canDiscard && entry.status === 'failed' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 text-destructive/80 hover:text-destructive"
+                        onClick={() => setEntryToDiscard(entry)}
+                        disabled={!!discardingId}
+                      >
+                        {discardingId === entry.id ? <Loader className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button onClick={onSync} disabled={!isOnline || isSyncing || queue.length === 0}>
+              {isSyncing ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Sinkronkan Sekarang
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <AlertDialog open={!!entryToDiscard} onOpenChange={() => setEntryToDiscard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Buang Transaksi {entryToDiscard?.request.offline.provisionalReceiptNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Penjualan ini tidak akan pernah tercatat di server. Catat ulang secara manual bila barang dan uangnya sudah berpindah tangan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={() => entryToDiscard && handleDiscard(entryToDiscard)} className='bg-destructive text-destructive-foreground hover:bg-destructive/90'>
+              Ya, Buang
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
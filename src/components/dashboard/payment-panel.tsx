@@ -0,0 +1,252 @@
+'use client';
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Banknote, Loader, PlusCircle, Search, Split, XCircle } from 'lucide-react';
+import type { GiftCard, PaymentMethod, PaymentTender } from '@/lib/types';
+import { paymentMethodLabels, summarizeTenders } from '@/lib/payments';
+import { getGiftCardUnavailableReason } from '@/lib/gift-cards';
+import { getGiftCard } from '@/lib/gift-card-ledger';
+import { cn } from '@/lib/utils';
+
+type PaymentPanelProps = {
+  storeId: string;
+  totalAmount: number;
+  paymentMethod: PaymentMethod;
+  onPaymentMethodChange: (method: PaymentMethod) => void;
+  splitTenders: PaymentTender[] | null; // null means the whole bill is paid with paymentMethod
+  onSplitTendersChange: (tenders: PaymentTender[] | null) => void;
+  cashTendered: number | undefined;
+  onCashTenderedChange: (amount: number | undefined) => void;
+};
+
+const quickCashAmounts = [20000, 50000, 100000];
+
+type GiftCardCodeInputProps = {
+  storeId: string;
+  tender: PaymentTender;
+  onCodeChange: (code: string) => void;
+  onCardChecked: (card: GiftCard) => void;
+};
+
+/**
+ * The code field of a gift card tender, with a balance check. Checkout validates the
+ * card again, so the check is only there to tell the cashier how much they can use.
+ */
+function GiftCardCodeInput({ storeId, tender, onCodeChange, onCardChecked }: GiftCardCodeInputProps) {
+  const [isChecking, setIsChecking] = React.useState(false);
+  const [message, setMessage] = React.useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleCheck = async () => {
+    if (!tender.giftCardCode) return;
+    setIsChecking(true);
+    try {
+      const card = await getGiftCard(storeId, tender.giftCardCode);
+      const unavailableReason = card ? getGiftCardUnavailableReason(card) : 'Gift card tidak ditemukan.';
+      if (!card || unavailableReason) {
+        setMessage({ text: unavailableReason!, isError: true });
+        return;
+      }
+      setMessage({ text: `Saldo Rp ${card.balance.toLocaleString('id-ID')}`, isError: false });
+      onCardChecked(card);
+    } catch (error) {
+      setMessage({ text: (error as Error).message, isError: true });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1 pl-1">
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 font-code uppercase"
+          placeholder="Kode gift card"
+          value={tender.giftCardCode || ''}
+          onChange={(e) => {
+            setMessage(null);
+            onCodeChange(e.target.value);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+        />
+        <Button variant="outline" size="sm" className="h-8" onClick={handleCheck} disabled={isChecking || !tender.giftCardCode}>
+          {isChecking ? <Loader className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+        </Button>
+      </div>
+      {message && <p className={cn("text-xs", message.isError ? "text-destructive" : "text-muted-foreground")}>{message.text}</p>}
+    </div>
+  );
+}
+
+/**
+ * Resolves the tenders the POS will submit: either the split tenders,
+ * or a single tender for the whole bill.
+ */
+export function resolveTenders(totalAmount: number, paymentMethod: PaymentMethod, splitTenders: PaymentTender[] | null): PaymentTender[] {
+  return splitTenders ?? [{ method: paymentMethod, amount: totalAmount }];
+}
+
+export function PaymentPanel({
+  storeId,
+  totalAmount,
+  paymentMethod,
+  onPaymentMethodChange,
+  splitTenders,
+  onSplitTendersChange,
+  cashTendered,
+  onCashTenderedChange,
+}: PaymentPanelProps) {
+  const tenders = resolveTenders(totalAmount, paymentMethod, splitTenders);
+  const { remainingAmount, cashAmount, changeAmount } = summarizeTenders(tenders, totalAmount, cashTendered);
+
+  const startSplit = () => {
+    onSplitTendersChange([{ method: paymentMethod, amount: totalAmount }]);
+  };
+
+  // A gift card tender needs its code, so it is always entered as a tender row.
+  const selectMethod = (method: PaymentMethod) => {
+    if (method === 'GiftCard') {
+      onSplitTendersChange([{ method, amount: totalAmount }]);
+      return;
+    }
+    onPaymentMethodChange(method);
+  };
+
+  const updateTender = (index: number, update: Partial<PaymentTender>) => {
+    if (!splitTenders) return;
+    onSplitTendersChange(splitTenders.map((tender, i) => {
+      if (i !== index) return tender;
+      const updated = { ...tender, ...update };
+      if (updated.method !== 'GiftCard') delete updated.giftCardCode;
+      return updated;
+    }));
+  };
+
+  // Uses what the card holds and leaves the rest of its tender to be paid in cash.
+  const applyGiftCardBalance = (index: number, card: GiftCard) => {
+    if (!splitTenders) return;
+    const tender = splitTenders[index];
+    const amount = Math.min(tender.amount, card.balance);
+    const tenders = splitTenders.map((t, i) => (i === index ? { ...t, giftCardCode: card.code, amount } : t));
+    onSplitTendersChange(amount < tender.amount ? [...tenders, { method: 'Cash', amount: tender.amount - amount }] : tenders);
+  };
+
+  const addTender = () => {
+    if (!splitTenders) return;
+    const usedMethods = splitTenders.map(t => t.method);
+    const nextMethod = (Object.keys(paymentMethodLabels) as PaymentMethod[]).find(m => !usedMethods.includes(m)) || 'Cash';
+    onSplitTendersChange([...splitTenders, { method: nextMethod, amount: Math.max(0, remainingAmount) }]);
+  };
+
+  const removeTender = (index: number) => {
+    if (!splitTenders) return;
+    const remaining = splitTenders.filter((_, i) => i !== index);
+    onSplitTendersChange(remaining.length > 0 ? remaining : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {splitTenders ? (
+        <div className="space-y-2">
+          {splitTenders.map((tender, index) => (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Select value={tender.method} onValueChange={(value: PaymentMethod) => updateTender(index, { method: value })}>
+                  <SelectTrigger className="h-9 w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map(method => (
+                      <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  className="h-9"
+                  value={tender.amount}
+                  onChange={(e) => updateTender(index, { amount: Number(e.target.value) || 0 })}
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive/80 hover:text-destructive"
+                  onClick={() => removeTender(index)}
+                >
+                  <XCircle className="h-4 w-4" />
+                </Button>
+              </div>
+              {tender.method === 'GiftCard' && (
+                <GiftCardCodeInput
+                  storeId={storeId}
+                  tender={tender}
+                  onCodeChange={(code) => updateTender(index, { giftCardCode: code.toUpperCase() })}
+                  onCardChecked={(card) => applyGiftCardBalance(index, card)}
+                />
+              )}
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={addTender} disabled={remainingAmount <= 0}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Tambah Pembayaran
+            </Button>
+            <span className={cn("text-sm", remainingAmount !== 0 ? "text-destructive" : "text-muted-foreground")}>
+              {remainingAmount >= 0 ? 'Sisa' : 'Lebih'}: Rp {Math.abs(remainingAmount).toLocaleString('id-ID')}
+            </span>
+          </div>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onSplitTendersChange(null)}>
+            Bayar dengan satu metode
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map(method => (
+              <Button key={method} variant={paymentMethod === method ? 'default' : 'secondary'} onClick={() => selectMethod(method)}>
+                {paymentMethodLabels[method]}
+              </Button>
+            ))}
+          </div>
+          <Button variant="link" size="sm" className="h-auto p-0 gap-1" onClick={startSplit}>
+            <Split className="h-3 w-3" /> Bagi Pembayaran
+          </Button>
+        </div>
+      )}
+
+      {cashAmount > 0 && (
+        <div className="grid gap-2 rounded-lg border p-3">
+          <Label htmlFor="cash-tendered" className="flex items-center gap-1 text-muted-foreground">
+            <Banknote className="h-3 w-3" /> Uang Diterima
+          </Label>
+          <Input
+            id="cash-tendered"
+            type="number"
+            className="h-9"
+            placeholder={cashAmount.toLocaleString('id-ID')}
+            value={cashTendered ?? ''}
+            onChange={(e) => onCashTenderedChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            onFocus={(e) => e.target.select()}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => onCashTenderedChange(cashAmount)}>Uang Pas</Button>
+            {quickCashAmounts.filter(amount => amount > cashAmount).map(amount => (
+              <Button key={amount} variant="outline" size="sm" onClick={() => onCashTenderedChange(amount)}>
+                {amount.toLocaleString('id-ID')}
+              </Button>
+            ))}
+          </div>
+          {cashTendered !== undefined && (
+            <div className={cn("flex justify-between font-semibold", changeAmount < 0 && "text-destructive")}>
+              <span>{changeAmount < 0 ? 'Kurang' : 'Kembalian'}</span>
+              <span>Rp {Math.abs(changeAmount).toLocaleString('id-ID')}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
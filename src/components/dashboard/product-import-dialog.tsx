@@ -0,0 +1,163 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { readProductFile } from '@/lib/product-files';
+import { productFileColumns, toProductFileRecords, validateProductImport, type ProductImportRow } from '@/lib/product-import';
+import { importProductsWithStock } from '@/lib/stock-ledger';
+import type { Product } from '@/lib/types';
+
+type ProductImportDialogProps = {
+  storeId: string;
+  open: boolean;
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+};
+
+export function ProductImportDialog({ storeId, open, products, onOpenChange, onImported }: ProductImportDialogProps) {
+  const [rows, setRows] = React.useState<ProductImportRow[] | null>(null);
+  const [isReading, setIsReading] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!open) setRows(null);
+  }, [open]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const records = toProductFileRecords(await readProductFile(file));
+      if (records.length === 0) {
+        throw new Error('File tidak berisi baris produk.');
+      }
+      setRows(validateProductImport(records, products));
+    } catch (error) {
+      setRows(null);
+      toast({ variant: 'destructive', title: 'Gagal Membaca File', description: (error as Error).message });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const validRows = (rows || []).filter(row => row.errors.length === 0);
+  const updateCount = validRows.filter(row => row.existingProduct).length;
+  const errorCount = (rows || []).length - validRows.length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await importProductsWithStock(storeId, validRows, auth.currentUser?.uid || '');
+      toast({
+        title: 'Impor Selesai',
+        description: `${validRows.length - updateCount} produk ditambahkan, ${updateCount} diperbarui.`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Mengimpor Produk', description: (error as Error).message });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Impor Produk</DialogTitle>
+          <DialogDescription>
+            Unggah file CSV atau Excel (.xlsx) dengan kolom {productFileColumns.join(', ')}. Baris dengan id produk, atau tanpa id dengan barcode yang sudah ada, memperbarui produk tersebut; sisanya ditambahkan. Kolom costPrice, stock, barcode dan imageUrl yang kosong tidak mengubah produk yang sudah ada.
+          </DialogDescription>
+        </DialogHeader>
+        <Input type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={isReading || isImporting} />
+
+        {isReading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader className="h-4 w-4 animate-spin" /> Membaca file...
+          </div>
+        )}
+
+        {rows && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{validRows.length - updateCount} baru</Badge>
+              <Badge variant="secondary">{updateCount} diperbarui</Badge>
+              {errorCount > 0 && <Badge variant="destructive">{errorCount} baris bermasalah, dilewati</Badge>}
+            </div>
+            <ScrollArea className="h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Baris</TableHead>
+                    <TableHead>Produk</TableHead>
+                    <TableHead>Barcode</TableHead>
+                    <TableHead className="text-right">Harga</TableHead>
+                    <TableHead className="text-right">Stok</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <p>{row.data.name || '-'}</p>
+                        <p className="text-xs text-muted-foreground">{row.data.category} · {row.data.brand}</p>
+                      </TableCell>
+                      <TableCell>{row.data.barcode || '-'}</TableCell>
+                      <TableCell className="text-right">Rp {row.data.price.toLocaleString('id-ID')}</TableCell>
+                      <TableCell className="text-right">{row.data.stock?.toLocaleString('id-ID') ?? '-'}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <ul className="space-y-1 text-xs text-destructive">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        ) : (
+                          <Badge variant="outline">{row.existingProduct ? 'Perbarui' : 'Baru'}</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>Batal</Button>
+          <Button onClick={handleImport} disabled={isImporting || validRows.length === 0}>
+            {isImporting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Impor {validRows.length} Produk
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
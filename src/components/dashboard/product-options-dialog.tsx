@@ -0,0 +1,132 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { Product, ProductModifierGroup } from '@/lib/types';
+import { getAvailableStock, resolveProductSelection, type ProductSelection } from '@/lib/product-options';
+
+type ProductOptionsDialogProps = {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (product: Product, selection: ProductSelection) => void;
+};
+
+function formatPriceDelta(priceDelta: number) {
+  if (priceDelta === 0) return '';
+  return `${priceDelta > 0 ? '+' : '-'} Rp ${Math.abs(priceDelta).toLocaleString('id-ID')}`;
+}
+
+export function ProductOptionsDialog({ product, onOpenChange, onConfirm }: ProductOptionsDialogProps) {
+  const [variantId, setVariantId] = React.useState<string | undefined>(undefined);
+  const [optionIds, setOptionIds] = React.useState<string[]>([]);
+
+  React.useEffect(() => {
+    if (product) {
+      // Preselect the first variant in stock so the common case is a single tap.
+      setVariantId(product.variants?.find(variant => getAvailableStock(product, variant.id) > 0)?.id);
+      setOptionIds([]);
+    }
+  }, [product]);
+
+  if (!product) return null;
+
+  let selection: ProductSelection | null = null;
+  let selectionError: string | null = null;
+  try {
+    selection = resolveProductSelection(product, variantId, optionIds);
+  } catch (error) {
+    selectionError = (error as Error).message;
+  }
+
+  const toggleOption = (group: ProductModifierGroup, optionId: string, checked: boolean) => {
+    const groupOptionIds = group.options.map(option => option.id);
+    setOptionIds(prev => {
+      const otherIds = group.multiple ? prev : prev.filter(id => !groupOptionIds.includes(id));
+      return checked ? [...otherIds.filter(id => id !== optionId), optionId] : otherIds.filter(id => id !== optionId);
+    });
+  };
+
+  const handleConfirm = () => {
+    if (!selection) return;
+    onConfirm(product, selection);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">{product.name}</DialogTitle>
+          <DialogDescription>Pilih varian dan tambahan untuk produk ini.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-6 pr-4">
+            {(product.variants?.length || 0) > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">{product.variantLabel || 'Varian'}</p>
+                <RadioGroup value={variantId} onValueChange={setVariantId}>
+                  {product.variants!.map(variant => {
+                    const stock = getAvailableStock(product, variant.id);
+                    return (
+                      <div key={variant.id} className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value={variant.id} id={`variant-${variant.id}`} disabled={stock <= 0} />
+                          <Label htmlFor={`variant-${variant.id}`} className="font-normal">
+                            {variant.name} {stock <= 0 && <span className="text-destructive">(Habis)</span>}
+                          </Label>
+                        </div>
+                        <span className="text-sm text-muted-foreground">{formatPriceDelta(variant.priceDelta)}</span>
+                      </div>
+                    );
+                  })}
+                </RadioGroup>
+              </div>
+            )}
+            {(product.modifierGroups || []).map(group => (
+              <div key={group.id} className="space-y-2">
+                <p className="font-medium">
+                  {group.name}{' '}
+                  <span className="text-xs font-normal text-muted-foreground">
+                    ({group.required ? 'Wajib' : 'Opsional'}{group.multiple ? ', boleh lebih dari satu' : ''})
+                  </span>
+                </p>
+                {group.options.map(option => (
+                  <div key={option.id} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`option-${option.id}`}
+                        checked={optionIds.includes(option.id)}
+                        onCheckedChange={(checked) => toggleOption(group, option.id, checked === true)}
+                      />
+                      <Label htmlFor={`option-${option.id}`} className="font-normal">{option.name}</Label>
+                    </div>
+                    <span className="text-sm text-muted-foreground">{formatPriceDelta(option.priceDelta)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        {selectionError && <p className="text-sm text-destructive">{selectionError}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button onClick={handleConfirm} disabled={!selection}>
+            Tambah · Rp {(selection?.unitPrice ?? product.price).toLocaleString('id-ID')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
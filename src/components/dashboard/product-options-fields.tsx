@@ -0,0 +1,295 @@
+'use client';
+
+import * as React from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { PlusCircle, XCircle } from 'lucide-react';
+import type { Product, ProductModifierGroup, ProductVariant } from '@/lib/types';
+
+export const productOptionsSchema = z.object({
+  variantLabel: z.string().optional(),
+  trackVariantStock: z.boolean(),
+  variants: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Nama varian harus diisi.'),
+    priceDelta: z.coerce.number(),
+    stock: z.coerce.number().min(0, 'Stok tidak boleh negatif.'),
+    barcode: z.string().optional(),
+  })),
+  modifierGroups: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Nama grup harus diisi.'),
+    required: z.boolean(),
+    multiple: z.boolean(),
+    options: z.array(z.object({
+      id: z.string().optional(),
+      name: z.string().min(1, 'Nama pilihan harus diisi.'),
+      priceDelta: z.coerce.number(),
+    })).min(1, 'Tambahkan minimal satu pilihan.'),
+  })),
+});
+
+type ProductOptionsFormValues = z.infer<typeof productOptionsSchema>;
+
+function generateOptionId() {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+/**
+ * Builds the form values for a product's variants and modifiers.
+ * @param product The product being edited, or undefined for a new product.
+ */
+export function getProductOptionsFormValues(product?: Product): ProductOptionsFormValues {
+  const variants = product?.variants || [];
+  return {
+    variantLabel: product?.variantLabel || '',
+    trackVariantStock: variants.some(variant => variant.stock !== undefined),
+    variants: variants.map(variant => ({
+      id: variant.id,
+      name: variant.name,
+      priceDelta: variant.priceDelta,
+      stock: variant.stock ?? 0,
+      barcode: variant.barcode || '',
+    })),
+    modifierGroups: (product?.modifierGroups || []).map(group => ({ ...group, options: group.options.map(option => ({ ...option })) })),
+  };
+}
+
+/**
+ * Converts the form values into the fields stored on the product document.
+ * When stock is tracked per variant, `stock` is the sum of the variant stocks.
+ */
+export function toProductOptionsData(values: ProductOptionsFormValues): {
+  variantLabel: string;
+  variants: ProductVariant[];
+  modifierGroups: ProductModifierGroup[];
+  stock?: number;
+} {
+  const trackStock = values.trackVariantStock && values.variants.length > 0;
+  const variants: ProductVariant[] = values.variants.map(variant => ({
+    id: variant.id || generateOptionId(),
+    name: variant.name.trim(),
+    priceDelta: variant.priceDelta,
+    ...(trackStock && { stock: variant.stock }),
+    ...(variant.barcode?.trim() && { barcode: variant.barcode.trim() }),
+  }));
+  const modifierGroups: ProductModifierGroup[] = values.modifierGroups.map(group => ({
+    id: group.id || generateOptionId(),
+    name: group.name.trim(),
+    required: group.required,
+    multiple: group.multiple,
+    options: group.options.map(option => ({
+      id: option.id || generateOptionId(),
+      name: option.name.trim(),
+      priceDelta: option.priceDelta,
+    })),
+  }));
+
+  return {
+    variantLabel: variants.length > 0 ? (values.variantLabel?.trim() || 'Varian') : '',
+    variants,
+    modifierGroups,
+    ...(trackStock && { stock: variants.reduce((sum, variant) => sum + (variant.stock || 0), 0) }),
+  };
+}
+
+function ModifierOptionsFields({ groupIndex }: { groupIndex: number }) {
+  const { control } = useFormContext<ProductOptionsFormValues>();
+  const { fields, append, remove } = useFieldArray({ control, name: `modifierGroups.${groupIndex}.options` });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, optionIndex) => (
+        <div key={field.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`modifierGroups.${groupIndex}.options.${optionIndex}.name`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl><Input placeholder="e.g., Extra Shot" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`modifierGroups.${groupIndex}.options.${optionIndex}.priceDelta`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <FormControl><Input type="number" placeholder="+Rp" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" className="text-destructive/80 hover:text-destructive" onClick={() => remove(optionIndex)}>
+            <XCircle className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => append({ name: '', priceDelta: 0 })}>
+        <PlusCircle className="mr-1 h-3 w-3" /> Tambah Pilihan
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Variant and modifier editor shared by the add and edit product forms.
+ * Must be rendered inside a form whose schema includes productOptionsSchema.
+ */
+export function ProductOptionsFields() {
+  const { control, watch, formState } = useFormContext<ProductOptionsFormValues>();
+  const variants = useFieldArray({ control, name: 'variants' });
+  const modifierGroups = useFieldArray({ control, name: 'modifierGroups' });
+  const trackVariantStock = watch('trackVariantStock');
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div className="space-y-2">
+        <p className="font-medium">Varian</p>
+        {variants.fields.length > 0 && (
+          <>
+            <FormField
+              control={control}
+              name="variantLabel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nama Pilihan Varian</FormLabel>
+                  <FormControl><Input placeholder="e.g., Ukuran" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name="trackVariantStock"
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  <FormLabel className="font-normal">Stok dihitung per varian</FormLabel>
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+        {variants.fields.map((field, index) => (
+          <div key={field.id} className="grid grid-cols-[1fr_6rem_auto] items-start gap-2 rounded-md bg-secondary/50 p-2">
+            <FormField
+              control={control}
+              name={`variants.${index}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl><Input placeholder="e.g., Large" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`variants.${index}.priceDelta`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl><Input type="number" placeholder="+Rp" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="icon" className="text-destructive/80 hover:text-destructive" onClick={() => variants.remove(index)}>
+              <XCircle className="h-4 w-4" />
+            </Button>
+            <FormField
+              control={control}
+              name={`variants.${index}.barcode`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl><Input placeholder="Barcode varian (opsional)" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {trackVariantStock && (
+              <FormField
+                control={control}
+                name={`variants.${index}.stock`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl><Input type="number" step="any" placeholder="Stok" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => variants.append({ name: '', priceDelta: 0, stock: 0, barcode: '' })}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Varian
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium">Tambahan (Topping, Add-on)</p>
+        {modifierGroups.fields.map((field, index) => (
+          <div key={field.id} className="space-y-2 rounded-md bg-secondary/50 p-2">
+            <div className="flex items-start gap-2">
+              <FormField
+                control={control}
+                name={`modifierGroups.${index}.name`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl><Input placeholder="e.g., Topping" {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" className="text-destructive/80 hover:text-destructive" onClick={() => modifierGroups.remove(index)}>
+                <XCircle className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-4">
+              <FormField
+                control={control}
+                name={`modifierGroups.${index}.required`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                    <FormLabel className="font-normal">Wajib</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`modifierGroups.${index}.multiple`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                    <FormLabel className="font-normal">Boleh pilih lebih dari satu</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Label className="text-xs text-muted-foreground">Pilihan</Label>
+            <ModifierOptionsFields groupIndex={index} />
+            {(() => {
+              const optionsError = formState.errors.modifierGroups?.[index]?.options;
+              const message = optionsError?.root?.message || optionsError?.message;
+              return message ? <p className="text-sm font-medium text-destructive">{message}</p> : null;
+            })()}
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => modifierGroups.append({ name: '', required: false, multiple: true, options: [{ name: '', priceDelta: 0 }] })}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Tambah Grup Tambahan
+        </Button>
+      </div>
+    </div>
+  );
+}
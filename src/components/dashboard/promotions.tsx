@@ -188,6 +188,7 @@ export default function Promotions({ redemptionOptions, setRedemptionOptions, tr
           pointsRequired: o.pointsRequired,
           isActive: o.isActive,
         })),
+        currentPromotionRules: [],
         topSellingProducts: topProducts,
         worstSellingProducts: worstProducts,
       });
@@ -0,0 +1,281 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader, PlusCircle, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { createPurchaseOrder, updatePurchaseOrderDraft, type PurchaseOrderInput } from '@/lib/purchasing';
+import { getPurchaseOrderTotal } from '@/lib/purchase-orders';
+import { isBundleProduct } from '@/lib/bundles';
+import { getItemUnit, isFractionalUnit, isValidQuantity, unitLabels } from '@/lib/units';
+import type { Product, PurchaseOrder, PurchaseOrderItem, Supplier } from '@/lib/types';
+
+type PurchaseOrderFormDialogProps = {
+  storeId: string;
+  open: boolean;
+  order: PurchaseOrder | null; // A draft to edit, otherwise a new order is created
+  suppliers: Supplier[];
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+};
+
+type LineForm = {
+  key: number;
+  productId: string;
+  variantId: string;
+  quantity: string;
+  unitCost: string;
+};
+
+let nextLineKey = 0;
+
+function newLine(changes: Partial<LineForm> = {}): LineForm {
+  return { key: nextLineKey++, productId: '', variantId: '', quantity: '', unitCost: '', ...changes };
+}
+
+function getStockedVariants(product?: Product) {
+  return (product?.variants || []).filter(variant => variant.stock !== undefined);
+}
+
+export function PurchaseOrderFormDialog({ storeId, open, order, suppliers, products, onOpenChange, onSaved }: PurchaseOrderFormDialogProps) {
+  const [supplierId, setSupplierId] = React.useState('');
+  const [lines, setLines] = React.useState<LineForm[]>([]);
+  const [notes, setNotes] = React.useState('');
+  const [expectedAt, setExpectedAt] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!open) return;
+    setSupplierId(order?.supplierId || '');
+    setLines(order
+      ? order.items.map(item => newLine({
+        productId: item.productId,
+        variantId: item.variantId || '',
+        quantity: String(item.quantity),
+        unitCost: String(item.unitCost),
+      }))
+      : [newLine()]);
+    setNotes(order?.notes || '');
+    setExpectedAt(order?.expectedAt || '');
+  }, [open, order]);
+
+  // The supplier's own products are listed first.
+  const orderableProducts = products
+    .filter(product => !isBundleProduct(product))
+    .sort((a, b) => Number(b.supplierId === supplierId) - Number(a.supplierId === supplierId) || a.name.localeCompare(b.name));
+
+  const updateLine = (key: number, changes: Partial<LineForm>) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, ...changes } : line));
+  };
+
+  const handleProductChange = (key: number, productId: string) => {
+    const product = products.find(candidate => candidate.id === productId);
+    updateLine(key, { productId, variantId: '', unitCost: String(product?.costPrice || 0) });
+  };
+
+  const parsedLines = lines.map(line => ({
+    ...line,
+    product: products.find(product => product.id === line.productId),
+    quantityValue: Number(line.quantity.replace(',', '.')),
+    unitCostValue: Number(line.unitCost),
+  }));
+  const total = getPurchaseOrderTotal(parsedLines
+    .filter(line => line.quantityValue > 0 && line.unitCostValue >= 0)
+    .map(line => ({ quantity: line.quantityValue, unitCost: line.unitCostValue })));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const supplier = suppliers.find(candidate => candidate.id === supplierId);
+    if (!supplier) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Pilih pemasok.' });
+      return;
+    }
+    let items: PurchaseOrderItem[];
+    try {
+      items = parsedLines.map(line => {
+        const { product } = line;
+        if (!product) throw new Error('Pilih produk di setiap baris.');
+        const variants = getStockedVariants(product);
+        const variant = variants.find(candidate => candidate.id === line.variantId);
+        if (variants.length > 0 && !variant) throw new Error(`Pilih varian ${product.name}.`);
+        if (!isValidQuantity(line.quantityValue, product.unit)) throw new Error(`Jumlah ${product.name} tidak valid.`);
+        if (!Number.isFinite(line.unitCostValue) || line.unitCostValue < 0) throw new Error(`Harga beli ${product.name} tidak valid.`);
+        return {
+          productId: product.id,
+          productName: product.name,
+          ...(variant && { variantId: variant.id, variantName: variant.name }),
+          ...getItemUnit(product),
+          quantity: line.quantityValue,
+          receivedQuantity: 0,
+          unitCost: line.unitCostValue,
+        };
+      });
+      if (items.length === 0) throw new Error('Tambahkan minimal satu barang.');
+      const keys = items.map(item => `${item.productId}:${item.variantId || ''}`);
+      if (new Set(keys).size !== keys.length) throw new Error('Setiap produk hanya boleh muncul sekali.');
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: (error as Error).message });
+      return;
+    }
+
+    const input: PurchaseOrderInput = {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      items,
+      ...(notes.trim() && { notes: notes.trim() }),
+      ...(expectedAt && { expectedAt }),
+    };
+    setIsSaving(true);
+    try {
+      if (order) {
+        await updatePurchaseOrderDraft(storeId, order.id, input);
+      } else {
+        await createPurchaseOrder(storeId, input, auth.currentUser?.uid || '');
+      }
+      toast({ title: order ? 'Pesanan Diperbarui!' : 'Pesanan Dibuat!', description: `Pesanan ke ${supplier.name} disimpan sebagai draf.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan Pesanan', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">{order ? `Ubah ${order.number}` : 'Buat Pesanan Pembelian'}</DialogTitle>
+            <DialogDescription>Harga beli diisi dari harga modal produk dan dapat disesuaikan.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label>Pemasok</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pilih pemasok" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="po-expected">Perkiraan Tiba</Label>
+              <Input id="po-expected" type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+            </div>
+          </div>
+
+          <ScrollArea className="max-h-[45vh]">
+            <div className="space-y-2 pr-4">
+              {parsedLines.map(line => {
+                const variants = getStockedVariants(line.product);
+                return (
+                  <div key={line.key} className="flex items-end gap-2">
+                    <div className="grid flex-1 gap-1">
+                      <Label className="text-xs">Produk</Label>
+                      <Select value={line.productId} onValueChange={(value) => handleProductChange(line.key, value)}>
+                        <SelectTrigger className="h-9">
+                          <SelectValue placeholder="Pilih produk" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {orderableProducts.map(product => (
+                            <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {variants.length > 0 && (
+                      <div className="grid w-32 gap-1">
+                        <Label className="text-xs">{line.product?.variantLabel || 'Varian'}</Label>
+                        <Select value={line.variantId} onValueChange={(value) => updateLine(line.key, { variantId: value })}>
+                          <SelectTrigger className="h-9">
+                            <SelectValue placeholder="Pilih" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {variants.map(variant => (
+                              <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <div className="grid w-24 gap-1">
+                      <Label className="text-xs">Jumlah{line.product && isFractionalUnit(line.product.unit) && ` (${unitLabels[line.product.unit!]})`}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={isFractionalUnit(line.product?.unit) ? 'any' : 1}
+                        className="h-9"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid w-28 gap-1">
+                      <Label className="text-xs">Harga Beli</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="h-9"
+                        value={line.unitCost}
+                        onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-9 w-9"
+                      onClick={() => setLines(current => current.filter(candidate => candidate.key !== line.key))}
+                      disabled={lines.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Hapus baris</span>
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={() => setLines(current => [...current, newLine()])}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Tambah Barang
+              </Button>
+            </div>
+          </ScrollArea>
+
+          <Textarea placeholder="Catatan untuk pemasok (opsional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          <div className="flex justify-between text-sm font-semibold">
+            <span>Perkiraan Total</span>
+            <span>Rp {total.toLocaleString('id-ID')}</span>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Batal</Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Simpan Draf
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
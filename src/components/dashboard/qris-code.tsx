@@ -0,0 +1,34 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+type QrisCodeProps = {
+  value: string;
+  size?: number;
+  className?: string;
+};
+
+/**
+ * Renders a QRIS payload as a scannable QR code.
+ */
+export function QrisCode({ value, size = 256, className }: QrisCodeProps) {
+  const [dataUrl, setDataUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let isCurrent = true;
+    setDataUrl(null);
+    QRCode.toDataURL(value, { width: size, margin: 1, errorCorrectionLevel: 'M' })
+      .then(url => isCurrent && setDataUrl(url))
+      .catch(error => console.error('Error rendering QRIS code:', error));
+    return () => { isCurrent = false; };
+  }, [value, size]);
+
+  if (!dataUrl) {
+    return <Skeleton className={cn('rounded-md', className)} style={{ width: size, height: size }} />;
+  }
+  return <Image src={dataUrl} alt="Kode QRIS" width={size} height={size} className={cn('rounded-md bg-white', className)} unoptimized />;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader, RefreshCw } from 'lucide-react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useToast } from '@/hooks/use-toast';
+import { auth, db } from '@/lib/firebase';
+import { getReceiptNumberLabel } from '@/lib/receipt-numbers';
+import type { Transaction } from '@/lib/types';
+import { QrisCode } from '@/components/dashboard/qris-code';
+
+type QrisPaymentDialogProps = {
+  transaction: Transaction | null; // A transaction waiting for QRIS payment
+  onSettled: (transaction: Transaction) => void; // Called once it is paid or cancelled
+};
+
+type QrisAction = 'status' | 'cancel' | 'simulate';
+
+function formatCountdown(milliseconds: number) {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Shows the dynamic QR for a held sale and waits for the provider to confirm it.
+ * The transaction document is watched in real time, so the webhook settles the dialog;
+ * the status check covers a late webhook and an expired QR.
+ */
+export function QrisPaymentDialog({ transaction, onSettled }: QrisPaymentDialogProps) {
+  const [runningAction, setRunningAction] = React.useState<QrisAction | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+  const { toast } = useToast();
+
+  const storeId = transaction?.storeId;
+  const transactionId = transaction?.id;
+  const onSettledRef = React.useRef(onSettled);
+  onSettledRef.current = onSettled;
+  // The snapshot and an action's response can both report the same outcome; only the first counts.
+  const settledIdRef = React.useRef<string | null>(null);
+  const settle = React.useCallback((updated: Transaction) => {
+    if (settledIdRef.current === updated.id) return;
+    settledIdRef.current = updated.id;
+    onSettledRef.current(updated);
+  }, []);
+
+  React.useEffect(() => {
+    if (!storeId || !transactionId) return;
+    return onSnapshot(doc(db, 'stores', storeId, 'transactions', transactionId), (docSnap) => {
+      const updated = { id: docSnap.id, ...docSnap.data() } as Transaction;
+      if (docSnap.exists() && updated.status !== 'Menunggu Pembayaran') {
+        settle(updated);
+      }
+    });
+  }, [storeId, transactionId, settle]);
+
+  React.useEffect(() => {
+    if (!transactionId) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [transactionId]);
+
+  const runAction = React.useCallback(async (action: QrisAction) => {
+    if (!storeId || !transactionId) return;
+    setRunningAction(action);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch(`/api/payments/qris/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, transactionId }),
+      });
+      if (!response.ok) {
+        const errorResult = await response.json();
+        throw new Error(errorResult.error || 'Gagal memperbarui pembayaran QRIS.');
+      }
+      const updated: Transaction = await response.json();
+      if (updated.status !== 'Menunggu Pembayaran') {
+        settle(updated);
+      } else if (action === 'status') {
+        toast({ title: 'Belum Dibayar', description: 'Pembayaran QRIS belum diterima.' });
+      }
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Pembayaran QRIS Gagal', description: (error as Error).message });
+    } finally {
+      setRunningAction(null);
+    }
+  }, [storeId, transactionId, settle, toast]);
+
+  const qrisPayment = transaction?.qrisPayment;
+  const remaining = qrisPayment ? new Date(qrisPayment.expiresAt).getTime() - now : 0;
+  const isExpired = !!qrisPayment && remaining <= 0;
+
+  // Once the QR expires, ask the server to settle it so the held stock is released.
+  React.useEffect(() => {
+    if (isExpired) runAction('status');
+  }, [isExpired, runAction]);
+
+  if (!transaction || !qrisPayment) return null;
+
+  return (
+    <Dialog open>
+      <DialogContent className="sm:max-w-sm" onInteractOutside={(e) => e.preventDefault()} onEscapeKeyDown={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Bayar dengan QRIS</DialogTitle>
+          <DialogDescription>
+            Nota {getReceiptNumberLabel(transaction)} · minta pelanggan memindai kode di bawah.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-3">
+          <QrisCode value={qrisPayment.qrString} size={240} />
+          <p className="text-2xl font-bold">Rp {qrisPayment.amount.toLocaleString('id-ID')}</p>
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader className="h-4 w-4 animate-spin" />
+            {isExpired ? 'QRIS kedaluwarsa, memeriksa status...' : `Menunggu pembayaran · ${formatCountdown(remaining)}`}
+          </p>
+        </div>
+        <DialogFooter className="gap-2 sm:flex-col sm:space-x-0">
+          {qrisPayment.provider === 'mock' && (
+            <Button variant="secondary" onClick={() => runAction('simulate')} disabled={!!runningAction}>
+              {runningAction === 'simulate' && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Simulasikan Pembayaran
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => runAction('status')} disabled={!!runningAction}>
+            {runningAction === 'status' ? <Loader className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Cek Status Pembayaran
+          </Button>
+          <Button variant="ghost" className="text-destructive" onClick={() => runAction('cancel')} disabled={!!runningAction}>
+            {runningAction === 'cancel' && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Batalkan QRIS
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,28 +2,41 @@
 'use client';
 
 import * as React from 'react';
-import type { Transaction, ReceiptSettings, User } from '@/lib/types';
+import type { Transaction, TransactionItem, ReceiptItem, ReceiptSettings, ReceiptTransaction, User } from '@/lib/types';
 import { getReceiptSettings, defaultReceiptSettings } from '@/lib/receipt-settings';
+import { getReceiptNumberLabel } from '@/lib/receipt-numbers';
+import { getTransactionPayments, paymentMethodLabels } from '@/lib/payments';
+import { formatItemOptions } from '@/lib/product-options';
+import { formatBundleItems } from '@/lib/bundles';
+import { formatQuantity, formatUnitPrice } from '@/lib/units';
+import { getLineGrossAmount } from '@/lib/line-items';
 import { ShoppingCart } from 'lucide-react';
 
 type ReceiptProps = {
-    transaction: Transaction;
-    users: User[];
+    // The public /struk page only has what is printed, without the store or cashier ids or line notes.
+    transaction: Omit<ReceiptTransaction, 'items'> & Partial<Pick<Transaction, 'storeId' | 'staffId'>> & {
+        items: (ReceiptItem & Partial<Pick<TransactionItem, 'notes'>>)[];
+    };
+    users?: User[];
+    // Given by pages that can't read the store's settings themselves, like the public /struk page.
+    settings?: Pick<ReceiptSettings, 'headerText' | 'footerText' | 'promoText'>;
+    staffName?: string;
 };
 
-export function Receipt({ transaction, users }: ReceiptProps) {
+export function Receipt({ transaction, users = [], settings: presetSettings, staffName }: ReceiptProps) {
   const [settings, setSettings] = React.useState<ReceiptSettings>(defaultReceiptSettings);
   
   React.useEffect(() => {
-    if (transaction?.storeId) {
+    if (transaction?.storeId && !presetSettings) {
       getReceiptSettings(transaction.storeId).then(setSettings);
     }
-  }, [transaction?.storeId]);
+  }, [transaction?.storeId, presetSettings]);
 
   if (!transaction) return null;
 
   const staff = users.find(u => u.id === transaction.staffId);
-  const { headerText, footerText, promoText } = settings;
+  const payments = getTransactionPayments(transaction);
+  const { headerText, footerText, promoText } = presetSettings || settings;
 
   return (
     <div className="bg-white text-black text-sm w-[300px] p-4 font-code mx-auto">
@@ -40,11 +53,17 @@ export function Receipt({ transaction, users }: ReceiptProps) {
       <div className="my-2 space-y-1">
         <div className="flex justify-between">
             <span>Nota:</span>
-            <span>{String(transaction.receiptNumber).padStart(6, '0')}</span>
+            <span>{getReceiptNumberLabel(transaction)}</span>
         </div>
+        {transaction.offlineSync?.syncedAt && (
+          <div className="flex justify-between">
+              <span>Nota Offline:</span>
+              <span>{transaction.offlineSync.provisionalReceiptNumber}</span>
+          </div>
+        )}
         <div className="flex justify-between">
             <span>Kasir:</span>
-            <span>{staff?.name || transaction.staffId}</span>
+            <span>{staffName || staff?.name || transaction.staffId}</span>
         </div>
         <div className="flex justify-between">
             <span>Pelanggan:</span>
@@ -63,13 +82,34 @@ export function Receipt({ transaction, users }: ReceiptProps) {
       </div>
       <div className="border-t border-dashed border-black" />
       <div className="my-2 space-y-1">
-        {transaction.items.map((item) => (
-          <div key={item.productId}>
+        {transaction.items.map((item, index) => (
+          <div key={`${item.productName}-${index}`}>
             <p>{item.productName}</p>
+            {formatItemOptions(item) && <p className="pl-2">{formatItemOptions(item)}</p>}
+            {item.bundleItems && <p className="pl-2">Isi: {formatBundleItems(item)}</p>}
+            <div className="flex justify-between">
+              <span>
+                {formatQuantity(item.quantity, item.unit)} x {formatUnitPrice(item.price, item.unit)}
+                {item.originalPrice !== undefined && <span className="line-through ml-1">{item.originalPrice.toLocaleString('id-ID')}</span>}
+              </span>
+              <span>{getLineGrossAmount(item).toLocaleString('id-ID')}</span>
+            </div>
+            {(item.discountAmount || 0) > 0 && (
+              <div className="flex justify-between pl-2">
+                <span>Diskon{item.discountType === 'percent' ? ` ${item.discountValue}%` : ''}</span>
+                <span>-{(item.discountAmount || 0).toLocaleString('id-ID')}</span>
+              </div>
+            )}
+            {item.notes && <p className="pl-2 italic">* {item.notes}</p>}
+          </div>
+        ))}
+        {(transaction.giftCardSales || []).map(sale => (
+          <div key={sale.code}>
             <div className="flex justify-between">
-              <span>{item.quantity} x {item.price.toLocaleString('id-ID')}</span>
-              <span>{(item.quantity * item.price).toLocaleString('id-ID')}</span>
+              <span>Gift Card</span>
+              <span>{sale.amount.toLocaleString('id-ID')}</span>
             </div>
+            <p className="pl-2">Kode: {sale.code}</p>
           </div>
         ))}
       </div>
@@ -79,10 +119,34 @@ export function Receipt({ transaction, users }: ReceiptProps) {
             <span>Subtotal</span>
             <span>Rp {transaction.subtotal.toLocaleString('id-ID')}</span>
           </div>
+          {(transaction.appliedPromotions || []).map(promotion => (
+            <div key={promotion.ruleId} className="flex justify-between">
+              <span>Promo {promotion.name}</span>
+              <span>-Rp {promotion.amount.toLocaleString('id-ID')}</span>
+            </div>
+          ))}
            <div className="flex justify-between">
             <span>Diskon</span>
             <span>-Rp {transaction.discountAmount.toLocaleString('id-ID')}</span>
           </div>
+          {(transaction.redemptionDiscountAmount || 0) > 0 && (
+            <div className="flex justify-between">
+              <span>{transaction.redemptionDescription || 'Tukar Poin'}</span>
+              <span>-Rp {(transaction.redemptionDiscountAmount || 0).toLocaleString('id-ID')}</span>
+            </div>
+          )}
+          {transaction.serviceChargeAmount !== undefined && (
+            <div className="flex justify-between">
+              <span>Biaya Layanan {transaction.serviceChargeRate}%</span>
+              <span>Rp {transaction.serviceChargeAmount.toLocaleString('id-ID')}</span>
+            </div>
+          )}
+          {transaction.taxAmount !== undefined && !transaction.taxInclusive && (
+            <div className="flex justify-between">
+              <span>{transaction.taxName} {transaction.taxRate}%</span>
+              <span>Rp {transaction.taxAmount.toLocaleString('id-ID')}</span>
+            </div>
+          )}
        </div>
        <div className="border-t border-dashed border-black" />
        <div className="my-2 space-y-1 font-semibold">
@@ -90,6 +154,32 @@ export function Receipt({ transaction, users }: ReceiptProps) {
             <span>TOTAL</span>
             <span>Rp {transaction.totalAmount.toLocaleString('id-ID')}</span>
          </div>
+         {transaction.taxAmount !== undefined && transaction.taxInclusive && (
+           <div className="flex justify-between font-normal">
+             <span>Termasuk {transaction.taxName} {transaction.taxRate}%</span>
+             <span>Rp {transaction.taxAmount.toLocaleString('id-ID')}</span>
+           </div>
+         )}
+       </div>
+       <div className="my-2 space-y-1">
+          {payments.map((payment, index) => (
+            <div key={index} className="flex justify-between">
+              <span>{paymentMethodLabels[payment.method]}{payment.giftCardCode && ` ${payment.giftCardCode}`}</span>
+              <span>Rp {payment.amount.toLocaleString('id-ID')}</span>
+            </div>
+          ))}
+          {transaction.cashTendered !== undefined && (
+            <>
+              <div className="flex justify-between">
+                <span>Tunai Diterima</span>
+                <span>Rp {transaction.cashTendered.toLocaleString('id-ID')}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Kembalian</span>
+                <span>Rp {(transaction.changeAmount || 0).toLocaleString('id-ID')}</span>
+              </div>
+            </>
+          )}
        </div>
         <div className="border-t border-dashed border-black" />
          <div className="text-center mt-4 space-y-2">
@@ -99,6 +189,9 @@ export function Receipt({ transaction, users }: ReceiptProps) {
             ))}
           <p className="font-semibold">Poin didapat: +{transaction.pointsEarned}</p>
           {transaction.pointsRedeemed > 0 && <p className="font-semibold">Poin ditukar: -{transaction.pointsRedeemed}</p>}
+          {transaction.offlineSync && !transaction.offlineSync.syncedAt && (
+            <p className="text-xs">Struk sementara, transaksi dibuat saat offline dan menunggu sinkronisasi.</p>
+          )}
        </div>
     </div>
   );
@@ -0,0 +1,147 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { getRemainingQuantity } from '@/lib/purchase-orders';
+import { formatQuantity, isFractionalUnit } from '@/lib/units';
+import type { PurchaseOrder } from '@/lib/types';
+
+type ReceivePurchaseOrderDialogProps = {
+  storeId: string;
+  order: PurchaseOrder | null; // The dialog is open while an order is given
+  onOpenChange: (open: boolean) => void;
+  onReceived: (order: PurchaseOrder) => void;
+};
+
+export function ReceivePurchaseOrderDialog({ storeId, order, onOpenChange, onReceived }: ReceivePurchaseOrderDialogProps) {
+  const [quantities, setQuantities] = React.useState<string[]>([]);
+  const [unitCosts, setUnitCosts] = React.useState<string[]>([]);
+  const [note, setNote] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  // Everything still outstanding is expected to arrive, at the ordered cost.
+  React.useEffect(() => {
+    if (!order) return;
+    setQuantities(order.items.map(item => String(getRemainingQuantity(item))));
+    setUnitCosts(order.items.map(item => String(item.unitCost)));
+    setNote('');
+  }, [order]);
+
+  if (!order) return null;
+
+  const lines = order.items
+    .map((_, lineIndex) => ({
+      lineIndex,
+      quantity: Number((quantities[lineIndex] || '').replace(',', '.')),
+      unitCost: Number(unitCosts[lineIndex]),
+    }))
+    .filter(line => line.quantity > 0);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/purchase-orders/receive', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, purchaseOrderId: order.id, items: lines, note }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mencatat penerimaan barang.');
+      }
+      const updated: PurchaseOrder = result;
+      toast({
+        title: 'Barang Diterima',
+        description: updated.status === 'received' ? `${order.number} sudah diterima seluruhnya.` : `Sisa ${order.number} masih ditunggu.`,
+      });
+      onReceived(updated);
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menerima Barang', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Terima Barang</DialogTitle>
+          <DialogDescription>
+            {order.number} · {order.supplierName}. Isi jumlah yang datang; sisanya tetap ditunggu.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[55vh]">
+          <div className="space-y-3 pr-4">
+            {order.items.map((item, index) => {
+              const remaining = getRemainingQuantity(item);
+              return (
+                <div key={`${item.productId}-${item.variantId || ''}`} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p>{item.productName}{item.variantName && ` (${item.variantName})`}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Diterima {formatQuantity(item.receivedQuantity, item.unit)} dari {formatQuantity(item.quantity, item.unit)}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      step={isFractionalUnit(item.unit) ? 'any' : 1}
+                      className="h-9 w-24"
+                      disabled={remaining <= 0}
+                      aria-label={`Jumlah diterima ${item.productName}`}
+                      value={quantities[index] ?? ''}
+                      onChange={(e) => setQuantities(current => current.map((value, i) => i === index ? e.target.value : value))}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      className="h-9 w-28"
+                      disabled={remaining <= 0}
+                      aria-label={`Harga beli ${item.productName}`}
+                      value={unitCosts[index] ?? ''}
+                      onChange={(e) => setUnitCosts(current => current.map((value, i) => i === index ? e.target.value : value))}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Harga modal produk dihitung ulang dari rata-rata stok lama dan harga beli barang yang diterima.
+            </p>
+            <Textarea placeholder="Catatan penerimaan, mis. no. surat jalan (opsional)" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button onClick={handleSubmit} disabled={isSaving || lines.length === 0}>
+            {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Terima Barang
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
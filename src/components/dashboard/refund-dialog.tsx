@@ -0,0 +1,227 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import type { PaymentMethod, Refund, Transaction } from '@/lib/types';
+import { paymentMethodLabels } from '@/lib/payments';
+import { formatItemOptions } from '@/lib/product-options';
+import { formatQuantity, isFractionalUnit } from '@/lib/units';
+import { calculateRefund, getRefundableQuantity, getRemainingRefundLines, type RefundLine } from '@/lib/refunds';
+import { getReceiptNumberLabel } from '@/lib/receipt-numbers';
+
+type RefundDialogProps = {
+  storeId: string;
+  transaction: Transaction;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (refund: Refund) => void;
+};
+
+function formatRp(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+export function RefundDialog({ storeId, transaction, open, onOpenChange, onSuccess }: RefundDialogProps) {
+  const [isVoid, setIsVoid] = React.useState(false);
+  const [quantities, setQuantities] = React.useState<Record<number, string>>({});
+  const [reason, setReason] = React.useState('');
+  const [paymentMethod, setPaymentMethod] = React.useState<PaymentMethod>(
+    transaction.paymentMethod === 'Split' ? 'Cash' : transaction.paymentMethod
+  );
+  const [restock, setRestock] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (open) {
+      setIsVoid(false);
+      setQuantities({});
+      setReason('');
+      setRestock(true);
+    }
+  }, [open]);
+
+  const lines: RefundLine[] = isVoid
+    ? getRemainingRefundLines(transaction)
+    : Object.entries(quantities)
+        .map(([lineIndex, quantity]) => ({ lineIndex: Number(lineIndex), quantity: Number(quantity.replace(',', '.')) }))
+        .filter(line => line.quantity > 0);
+
+  let preview: ReturnType<typeof calculateRefund> | null = null;
+  let previewError: string | null = null;
+  if (lines.length > 0) {
+    try {
+      preview = calculateRefund(transaction, lines, transaction.transactionFee || 0);
+    } catch (error) {
+      previewError = (error as Error).message;
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!preview) return;
+    if (!reason.trim()) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Alasan pengembalian harus diisi.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/refunds', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({
+          storeId,
+          transactionId: transaction.id,
+          type: isVoid ? 'void' : 'return',
+          items: isVoid ? [] : lines,
+          reason,
+          paymentMethod,
+          restock,
+        }),
+      });
+      if (!response.ok) {
+        const errorResult = await response.json();
+        throw new Error(errorResult.error || 'Gagal memproses pengembalian.');
+      }
+      const refund: Refund = await response.json();
+      toast({
+        title: isVoid ? 'Transaksi Dibatalkan' : 'Pengembalian Dicatat',
+        description: refund.giftCardCode
+          ? `${formatRp(refund.amount)} diterbitkan sebagai kredit toko dengan kode ${refund.giftCardCode}.`
+          : `${formatRp(refund.amount)} dikembalikan via ${paymentMethodLabels[refund.paymentMethod]}.`,
+      });
+      onSuccess(refund);
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Memproses Pengembalian', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Pengembalian</DialogTitle>
+          <DialogDescription>
+            Nota {getReceiptNumberLabel(transaction)} · {transaction.customerName} · {formatRp(transaction.totalAmount)}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh]">
+          <div className="space-y-4 pr-4">
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="refund-void">Batalkan Seluruh Transaksi</Label>
+                <p className="text-xs text-muted-foreground">Kembalikan semua item yang tersisa.</p>
+              </div>
+              <Switch id="refund-void" checked={isVoid} onCheckedChange={setIsVoid} />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Item Dikembalikan</p>
+              {transaction.items.map((item, index) => {
+                const refundable = getRefundableQuantity(transaction, index);
+                return (
+                  <div key={`${item.productId}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                    <div>
+                      <p>{item.productName}</p>
+                      {formatItemOptions(item) && <p className="text-xs text-muted-foreground">{formatItemOptions(item)}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        Sisa {formatQuantity(refundable, item.unit)} dari {formatQuantity(item.quantity, item.unit)}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={refundable}
+                      step={isFractionalUnit(item.unit) ? 'any' : 1}
+                      className="h-9 w-24"
+                      disabled={isVoid || refundable <= 0}
+                      placeholder="0"
+                      value={isVoid ? refundable : quantities[index] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [index]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <Separator />
+
+            <div className="grid gap-2">
+              <Label>Dikembalikan Melalui</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['Cash', 'Card', 'QRIS'] as PaymentMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{paymentMethodLabels[method]}</SelectItem>
+                  ))}
+                  <SelectItem value="GiftCard">Kredit Toko (kode baru)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="refund-restock" checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+              <Label htmlFor="refund-restock" className="font-normal">Kembalikan item ke stok</Label>
+            </div>
+            <Textarea placeholder="Alasan pengembalian" value={reason} onChange={(e) => setReason(e.target.value)} />
+
+            {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+            {preview && (
+              <div className="space-y-1 rounded-md bg-secondary/50 p-3 text-sm">
+                <div className="flex justify-between font-semibold">
+                  <span>Dana Dikembalikan</span>
+                  <span>{formatRp(preview.amount)}</span>
+                </div>
+                {preview.pointsReversed > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Poin Didapat Ditarik</span>
+                    <span>-{preview.pointsReversed} pts</span>
+                  </div>
+                )}
+                {preview.pointsRestored > 0 && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Poin Ditukar Dikembalikan</span>
+                    <span>+{preview.pointsRestored} pts</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSaving || !preview}>
+            {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            {isVoid ? 'Batalkan Transaksi' : 'Proses Pengembalian'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
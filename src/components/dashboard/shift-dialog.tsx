@@ -0,0 +1,308 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowDownCircle, ArrowUpCircle, Loader } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { cn } from '@/lib/utils';
+import type { CashMovement, Refund, Shift, Transaction } from '@/lib/types';
+import { addCashMovement, getShiftRefunds, getShiftTransactions, openShift } from '@/lib/shifts';
+import { calculateShiftCash } from '@/lib/shift-report';
+
+type ShiftDialogProps = {
+  storeId: string;
+  staff: { id: string; name: string };
+  shift: Shift | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onShiftChange: (shift: Shift | null) => void;
+};
+
+function formatRp(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+function SummaryRow({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={cn('flex justify-between', className)}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+export function ShiftDialog({ storeId, staff, shift, open, onOpenChange, onShiftChange }: ShiftDialogProps) {
+  const [openingFloat, setOpeningFloat] = React.useState<number | undefined>(undefined);
+  const [movementType, setMovementType] = React.useState<CashMovement['type']>('out');
+  const [movementAmount, setMovementAmount] = React.useState<number | undefined>(undefined);
+  const [movementReason, setMovementReason] = React.useState('');
+  const [countedCash, setCountedCash] = React.useState<number | undefined>(undefined);
+  const [closingNotes, setClosingNotes] = React.useState('');
+  const [shiftTransactions, setShiftTransactions] = React.useState<Transaction[] | null>(null);
+  const [shiftRefunds, setShiftRefunds] = React.useState<Refund[] | null>(null);
+  const [closedShift, setClosedShift] = React.useState<Shift | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  const shiftId = shift?.id;
+
+  React.useEffect(() => {
+    if (open) setClosedShift(null);
+  }, [open]);
+
+  React.useEffect(() => {
+    setShiftTransactions(null);
+    setShiftRefunds(null);
+    if (open && shiftId) {
+      getShiftTransactions(storeId, shiftId).then(setShiftTransactions);
+      getShiftRefunds(storeId, shiftId).then(setShiftRefunds);
+    }
+  }, [open, shiftId, storeId]);
+
+  const summary = shift && shiftTransactions && shiftRefunds ? calculateShiftCash(shift, shiftTransactions, shiftRefunds) : null;
+
+  const handleOpenShift = async () => {
+    if (openingFloat === undefined || openingFloat < 0) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Masukkan modal awal di laci kas.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const newShift = await openShift(storeId, staff, openingFloat);
+      onShiftChange(newShift);
+      setOpeningFloat(undefined);
+      toast({ title: 'Shift Dibuka', description: `Modal awal ${formatRp(openingFloat)}.` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Membuka Shift', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddMovement = async () => {
+    if (!shift) return;
+    if (!movementAmount || movementAmount <= 0 || !movementReason.trim()) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Jumlah dan keterangan kas harus diisi.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const movement = await addCashMovement(storeId, shift.id, { type: movementType, amount: movementAmount, reason: movementReason.trim() });
+      onShiftChange({ ...shift, cashMovements: [...shift.cashMovements, movement] });
+      setMovementAmount(undefined);
+      setMovementReason('');
+      toast({ title: movementType === 'in' ? 'Kas Masuk Dicatat' : 'Kas Keluar Dicatat' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Mencatat Kas', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    if (!shift) return;
+    if (countedCash === undefined || countedCash < 0) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Hitung dan masukkan jumlah uang di laci kas.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/shifts/close', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, shiftId: shift.id, countedCash, closingNotes }),
+      });
+      if (!response.ok) {
+        const errorResult = await response.json();
+        throw new Error(errorResult.error || 'Gagal menutup shift.');
+      }
+      const result: Shift = await response.json();
+      setClosedShift(result);
+      setCountedCash(undefined);
+      setClosingNotes('');
+      onShiftChange(null);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menutup Shift', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOpenForm = () => (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor="opening-float">Modal Awal (Rp)</Label>
+        <Input
+          id="opening-float"
+          type="number"
+          min={0}
+          placeholder="0"
+          value={openingFloat ?? ''}
+          onChange={(e) => setOpeningFloat(e.target.value === '' ? undefined : Number(e.target.value))}
+        />
+        <p className="text-xs text-muted-foreground">Jumlah uang tunai di laci kas saat shift dimulai.</p>
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+        <Button onClick={handleOpenShift} disabled={isSaving}>
+          {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+          Buka Shift
+        </Button>
+      </DialogFooter>
+    </>
+  );
+
+  const renderClosedResult = (result: Shift) => {
+    const variance = result.variance || 0;
+    return (
+      <>
+        <div className="space-y-1 text-sm">
+          <SummaryRow label="Kas Seharusnya" value={formatRp(result.expectedCash || 0)} />
+          <SummaryRow label="Kas Dihitung" value={formatRp(result.countedCash || 0)} />
+          <Separator className="my-1" />
+          <SummaryRow
+            label={variance === 0 ? 'Selisih' : variance > 0 ? 'Selisih (Lebih)' : 'Selisih (Kurang)'}
+            value={formatRp(variance)}
+            className={cn('text-base font-bold', variance < 0 && 'text-destructive')}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">Laporan shift telah dikirim ke grup WhatsApp admin.</p>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Selesai</Button>
+        </DialogFooter>
+      </>
+    );
+  };
+
+  const renderOpenShift = (currentShift: Shift) => (
+    <>
+      <ScrollArea className="max-h-[60vh]">
+        <div className="space-y-4 pr-4">
+          <div className="space-y-1 text-sm">
+            <SummaryRow label="Modal Awal" value={formatRp(currentShift.openingFloat)} />
+            {summary ? (
+              <>
+                <SummaryRow label={`Penjualan Tunai (${summary.transactionCount} transaksi)`} value={formatRp(summary.cashSales)} />
+                {summary.cashRefunds > 0 && <SummaryRow label="Refund Tunai" value={`- ${formatRp(summary.cashRefunds)}`} />}
+                <SummaryRow label="Kas Masuk" value={formatRp(summary.cashIn)} />
+                <SummaryRow label="Kas Keluar" value={`- ${formatRp(summary.cashOut)}`} />
+                <Separator className="my-1" />
+                <SummaryRow label="Kas Seharusnya" value={formatRp(summary.expectedCash)} className="font-semibold" />
+              </>
+            ) : <Skeleton className="h-16 w-full" />}
+          </div>
+
+          {currentShift.cashMovements.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">Catatan Kas</p>
+              {currentShift.cashMovements.map(movement => (
+                <div key={movement.id} className="flex justify-between text-muted-foreground">
+                  <span>{new Date(movement.createdAt).toLocaleTimeString('id-ID', { timeStyle: 'short' })} · {movement.reason}</span>
+                  <span className={movement.type === 'out' ? 'text-destructive' : undefined}>
+                    {movement.type === 'out' ? '-' : '+'} {formatRp(movement.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-2 rounded-md border p-3">
+            <p className="text-sm font-medium">Catat Kas Masuk/Keluar</p>
+            <div className="flex items-center gap-2">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={movementType}
+                onValueChange={(value) => value && setMovementType(value as CashMovement['type'])}
+              >
+                <ToggleGroupItem value="in" className="h-9" aria-label="Kas masuk"><ArrowDownCircle className="h-4 w-4" /></ToggleGroupItem>
+                <ToggleGroupItem value="out" className="h-9" aria-label="Kas keluar"><ArrowUpCircle className="h-4 w-4" /></ToggleGroupItem>
+              </ToggleGroup>
+              <Input
+                type="number"
+                min={0}
+                placeholder="Jumlah"
+                className="h-9"
+                value={movementAmount ?? ''}
+                onChange={(e) => setMovementAmount(e.target.value === '' ? undefined : Number(e.target.value))}
+              />
+            </div>
+            <Input
+              placeholder={movementType === 'in' ? 'Contoh: Tambah uang kembalian' : 'Contoh: Beli es batu'}
+              className="h-9"
+              value={movementReason}
+              onChange={(e) => setMovementReason(e.target.value)}
+            />
+            <Button variant="outline" size="sm" onClick={handleAddMovement} disabled={isSaving}>
+              Simpan Catatan Kas
+            </Button>
+          </div>
+
+          <div className="grid gap-2 rounded-md border p-3">
+            <p className="text-sm font-medium">Tutup Shift</p>
+            <Label htmlFor="counted-cash" className="text-muted-foreground">Uang di Laci Kas (Rp)</Label>
+            <Input
+              id="counted-cash"
+              type="number"
+              min={0}
+              className="h-9"
+              value={countedCash ?? ''}
+              onChange={(e) => setCountedCash(e.target.value === '' ? undefined : Number(e.target.value))}
+            />
+            <Textarea
+              placeholder="Catatan penutupan (opsional)"
+              value={closingNotes}
+              onChange={(e) => setClosingNotes(e.target.value)}
+            />
+          </div>
+        </div>
+      </ScrollArea>
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>Kembali</Button>
+        <Button variant="destructive" onClick={handleCloseShift} disabled={isSaving}>
+          {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+          Tutup Shift
+        </Button>
+      </DialogFooter>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">
+            {closedShift ? 'Shift Ditutup' : shift ? 'Shift Kasir' : 'Buka Shift'}
+          </DialogTitle>
+          <DialogDescription>
+            {shift
+              ? `${shift.staffName} · dibuka ${new Date(shift.openedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}`
+              : closedShift ? 'Rekap kas laci untuk shift ini.' : 'Hitung uang di laci kas sebelum mulai berjualan.'}
+          </DialogDescription>
+        </DialogHeader>
+        {closedShift ? renderClosedResult(closedShift) : shift ? renderOpenShift(shift) : renderOpenForm()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import * as React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { SALES_VELOCITY_WEEKS, getSuggestedReorderQuantity, getWeeklySales } from '@/lib/stock-alerts';
+import { formatQuantity } from '@/lib/units';
+import type { Product } from '@/lib/types';
+
+export const stockAlertSchema = z.object({
+  minStock: z.coerce.number().min(0, 'Stok minimum tidak boleh negatif.'),
+  reorderQuantity: z.coerce.number().min(0, 'Jumlah pesan ulang tidak boleh negatif.'),
+});
+
+type StockAlertFormValues = z.infer<typeof stockAlertSchema>;
+
+/**
+ * Builds the form values for a product's low-stock threshold and reorder quantity.
+ * @param product The product being edited, or undefined for a new product.
+ */
+export function getStockAlertFormValues(product?: Product): StockAlertFormValues {
+  return {
+    minStock: product?.minStock || 0,
+    reorderQuantity: product?.reorderQuantity || 0,
+  };
+}
+
+/**
+ * Minimum stock and reorder quantity inputs, shared by the add and edit product forms.
+ * Must be rendered inside a form whose schema includes stockAlertSchema.
+ * @param product The product being edited; its recent sales drive the reorder suggestion.
+ */
+export function StockAlertFields({ product }: { product?: Product }) {
+  const { control, watch, setValue } = useFormContext<StockAlertFormValues>();
+  const { dashboardData } = useDashboard();
+  const minStock = Number(watch('minStock')) || 0;
+
+  const weeklySales = React.useMemo(
+    () => (product ? getWeeklySales(dashboardData.transactions).get(product.id) || 0 : 0),
+    [product, dashboardData.transactions]
+  );
+  const suggestedQuantity = product && weeklySales > 0
+    ? getSuggestedReorderQuantity({ ...product, minStock, reorderQuantity: 0 }, weeklySales)
+    : 0;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <FormField
+          control={control}
+          name="minStock"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Stok Minimum</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} step="any" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="reorderQuantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Jumlah Pesan Ulang</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} step="any" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormDescription>
+        Produk muncul di peringatan stok menipis saat stoknya mencapai stok minimum. Isi 0 untuk menonaktifkan.
+      </FormDescription>
+      {product && weeklySales > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            Terjual rata-rata {formatQuantity(Math.round(weeklySales * 10) / 10, product.unit)}/minggu dalam {SALES_VELOCITY_WEEKS} minggu terakhir.
+            {suggestedQuantity > 0 && ` Saran pesan ulang: ${formatQuantity(suggestedQuantity, product.unit)}.`}
+          </span>
+          {suggestedQuantity > 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setValue('reorderQuantity', suggestedQuantity, { shouldDirty: true })}>
+              Pakai Saran
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CheckCircle, Loader, ScanLine, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useScannerWedge } from '@/hooks/use-scanner-wedge';
+import { useDashboard } from '@/contexts/dashboard-context';
+import { auth } from '@/lib/firebase';
+import { BarcodeScanner } from '@/components/dashboard/barcode-scanner';
+import { cancelStockCount, recordStockCountEntry, subscribeToStockCount } from '@/lib/stock-opname';
+import { getStockCountItemKey, getStockCountReport, stockCountStatusLabels } from '@/lib/stock-counts';
+import { findProductByBarcode } from '@/lib/product-options';
+import { parseScaleBarcode } from '@/lib/scale-barcode';
+import { getPosSettings } from '@/lib/pos-settings';
+import { formatQuantity, isFractionalUnit, roundQuantity } from '@/lib/units';
+import { cn } from '@/lib/utils';
+import type { PosSettings, StockCount, StockCountEntry, UnitOfMeasure } from '@/lib/types';
+
+type StockCountSessionProps = {
+  storeId: string;
+  stockCountId: string;
+  isAdmin: boolean;
+  onBack: () => void;
+  onChanged: () => void; // The count was posted or cancelled
+};
+
+function formatRp(amount: number) {
+  return `Rp ${amount.toLocaleString('id-ID')}`;
+}
+
+function formatSigned(quantity: number, unit?: UnitOfMeasure) {
+  return `${quantity > 0 ? '+' : ''}${formatQuantity(quantity, unit)}`;
+}
+
+// A count typed by hand, saved when the field loses focus. Follows the shared count while idle.
+function CountInput({ value, unit, label, onCommit }: {
+  value?: number;
+  unit?: UnitOfMeasure;
+  label: string;
+  onCommit: (quantity: number) => void;
+}) {
+  const [draft, setDraft] = React.useState(value === undefined ? '' : String(value));
+  const [isEditing, setIsEditing] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!isEditing) setDraft(value === undefined ? '' : String(value));
+  }, [value, isEditing]);
+
+  const commit = () => {
+    setIsEditing(false);
+    if (draft.trim() === '') return;
+    const quantity = roundQuantity(Number(draft.replace(',', '.')), unit);
+    if (Number.isFinite(quantity) && quantity >= 0 && quantity !== value) onCommit(quantity);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      step={isFractionalUnit(unit) ? 'any' : 1}
+      className="ml-auto h-8 w-24 text-right"
+      aria-label={label}
+      value={draft}
+      onFocus={() => setIsEditing(true)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+    />
+  );
+}
+
+/**
+ * Counting and variance report of one stock opname session. Staff count by scanning barcodes
+ * (camera or USB scanner), which adds to an item's count, or by typing the total; everyone
+ * counting sees the same figures live. Admins approve the count to post its adjustments.
+ */
+export function StockCountSession({ storeId, stockCountId, isAdmin, onBack, onChanged }: StockCountSessionProps) {
+  const { dashboardData } = useDashboard();
+  const products = dashboardData?.products || [];
+  const { toast } = useToast();
+
+  const [stockCount, setStockCount] = React.useState<StockCount | null>(null);
+  const [entries, setEntries] = React.useState<StockCountEntry[]>([]);
+  const [posSettings, setPosSettings] = React.useState<PosSettings | null>(null);
+  const [searchTerm, setSearchTerm] = React.useState('');
+  const [showVariancesOnly, setShowVariancesOnly] = React.useState(false);
+  const [lastScannedKey, setLastScannedKey] = React.useState<string | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = React.useState(false);
+  const [isPostConfirmOpen, setIsPostConfirmOpen] = React.useState(false);
+  const [isCancelConfirmOpen, setIsCancelConfirmOpen] = React.useState(false);
+  const [isPosting, setIsPosting] = React.useState(false);
+
+  React.useEffect(() => subscribeToStockCount(storeId, stockCountId, setStockCount, setEntries), [storeId, stockCountId]);
+
+  React.useEffect(() => {
+    getPosSettings(storeId).then(setPosSettings).catch(error => {
+      console.error('Error fetching POS settings:', error);
+    });
+  }, [storeId]);
+
+  const isCounting = stockCount?.status === 'counting';
+  const report = React.useMemo(
+    () => (stockCount ? getStockCountReport(stockCount.items, entries) : null),
+    [stockCount, entries]
+  );
+
+  const recordCount = async (itemKey: string, quantity: number, replace: boolean) => {
+    try {
+      await recordStockCountEntry(storeId, stockCountId, itemKey, quantity, auth.currentUser?.uid || '', replace);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan Hitungan', description: (error as Error).message });
+    }
+  };
+
+  const handleBarcodeScanned = (barcode: string) => {
+    setIsScannerOpen(false);
+    if (!stockCount) return;
+    let itemKey: string | undefined;
+    let quantity = 1;
+    const match = findProductByBarcode(products, barcode);
+    if (match) {
+      itemKey = getStockCountItemKey(match.product.id, match.variant?.id);
+    } else {
+      const scaleMatch = parseScaleBarcode(products, barcode, posSettings?.scaleBarcodeValue || 'weight');
+      if (scaleMatch) {
+        itemKey = getStockCountItemKey(scaleMatch.product.id);
+        quantity = scaleMatch.quantity;
+      }
+    }
+
+    const item = stockCount.items.find(candidate => candidate.key === itemKey);
+    if (!item) {
+      const variantsCounted = match && stockCount.items.some(candidate => candidate.productId === match.product.id);
+      toast({
+        variant: 'destructive',
+        title: 'Barang Tidak Dikenali',
+        description: variantsCounted
+          ? `${match!.product.name} dihitung per varian. Isi jumlahnya di tabel.`
+          : `Barcode ${barcode} tidak termasuk dalam stok opname ini.`,
+      });
+      return;
+    }
+    recordCount(item.key, quantity, false);
+    setLastScannedKey(item.key);
+    toast({
+      title: 'Terhitung',
+      description: `+${formatQuantity(quantity, item.unit)} ${item.productName}${item.variantName ? ` (${item.variantName})` : ''}`,
+    });
+  };
+
+  useScannerWedge({ enabled: isCounting && !isScannerOpen, onScan: handleBarcodeScanned });
+
+  // The camera restarts whenever its callback changes, and live counts re-render often.
+  const handleBarcodeScannedRef = React.useRef(handleBarcodeScanned);
+  handleBarcodeScannedRef.current = handleBarcodeScanned;
+  const handleCameraScan = React.useCallback((barcode: string) => handleBarcodeScannedRef.current(barcode), []);
+
+  const handlePost = async () => {
+    setIsPosting(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      const response = await fetch('/api/stock-counts/post', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ storeId, stockCountId }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal memposting stok opname.');
+      }
+      toast({ title: 'Stok Opname Diposting', description: `Stok ${result.summary.varianceItems} barang telah disesuaikan.` });
+      onChanged();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Memposting', description: (error as Error).message });
+    } finally {
+      setIsPosting(false);
+      setIsPostConfirmOpen(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelStockCount(storeId, stockCountId);
+      toast({ title: 'Stok Opname Dibatalkan', description: stockCount?.name });
+      onChanged();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Membatalkan', description: (error as Error).message });
+    } finally {
+      setIsCancelConfirmOpen(false);
+    }
+  };
+
+  if (!stockCount || !report) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const { summary } = report;
+  const lines = report.lines.filter(line => {
+    const name = `${line.item.productName} ${line.item.variantName || ''}`.toLowerCase();
+    return (!showVariancesOnly || line.variance !== 0) && name.includes(searchTerm.toLowerCase());
+  });
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <Button variant="ghost" size="sm" className="-ml-3 gap-1" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4" /> Semua Stok Opname
+            </Button>
+            <CardTitle className="font-headline tracking-wider flex items-center gap-2">
+              {stockCount.name}
+              <Badge variant={isCounting ? 'default' : stockCount.status === 'posted' ? 'secondary' : 'destructive'}>
+                {stockCountStatusLabels[stockCount.status]}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Stok sistem dibekukan {new Date(stockCount.createdAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}.
+              {isCounting
+                ? ' Scan barcode untuk menambah hitungan, atau isi jumlahnya langsung di tabel. Barang yang tidak dihitung tidak diubah.'
+                : stockCount.postedAt && ` Diposting ${new Date(stockCount.postedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}.`}
+            </CardDescription>
+          </div>
+          {isCounting && (
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button size="sm" variant="outline" className="gap-1" onClick={() => setIsScannerOpen(true)}>
+                <ScanLine className="h-3.5 w-3.5" /> Scan
+              </Button>
+              {isAdmin && (
+                <>
+                  <Button size="sm" variant="outline" className="gap-1" onClick={() => setIsCancelConfirmOpen(true)}>
+                    <XCircle className="h-3.5 w-3.5" /> Batalkan
+                  </Button>
+                  <Button size="sm" className="gap-1" onClick={() => setIsPostConfirmOpen(true)} disabled={summary.countedItems === 0}>
+                    <CheckCircle className="h-3.5 w-3.5" /> Setujui & Posting
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-4">
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Dihitung</p>
+              <p className="text-lg font-semibold">{summary.countedItems} / {stockCount.items.length}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Barang Selisih</p>
+              <p className="text-lg font-semibold">{summary.varianceItems}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Nilai Kurang</p>
+              <p className="text-lg font-semibold text-destructive">{formatRp(summary.shortageValue)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Nilai Lebih</p>
+              <p className="text-lg font-semibold">{formatRp(summary.surplusValue)}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <Input
+              placeholder="Cari produk..."
+              className="max-w-xs"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="variances-only" checked={showVariancesOnly} onCheckedChange={setShowVariancesOnly} />
+              <Label htmlFor="variances-only" className="font-normal">Hanya yang selisih</Label>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produk</TableHead>
+                <TableHead className="text-right">Stok Sistem</TableHead>
+                <TableHead className="text-right">Dihitung</TableHead>
+                <TableHead className="text-right">Selisih</TableHead>
+                <TableHead className="text-right">Nilai Selisih</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map(({ item, countedQuantity, variance, varianceValue }) => (
+                <TableRow key={item.key} className={cn(item.key === lastScannedKey && 'bg-primary/5')}>
+                  <TableCell>
+                    {item.productName}
+                    {item.variantName && <span className="text-muted-foreground"> ({item.variantName})</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatQuantity(item.expectedQuantity, item.unit)}</TableCell>
+                  <TableCell className="text-right">
+                    {isCounting ? (
+                      <CountInput
+                        value={countedQuantity}
+                        unit={item.unit}
+                        label={`Jumlah dihitung ${item.productName}`}
+                        onCommit={(quantity) => recordCount(item.key, quantity, true)}
+                      />
+                    ) : countedQuantity !== undefined ? formatQuantity(countedQuantity, item.unit) : '-'}
+                  </TableCell>
+                  <TableCell className={cn('text-right', variance < 0 && 'text-destructive')}>
+                    {countedQuantity === undefined ? <span className="text-muted-foreground">Belum dihitung</span> : formatSigned(variance, item.unit)}
+                  </TableCell>
+                  <TableCell className={cn('text-right', varianceValue < 0 && 'text-destructive')}>
+                    {varianceValue !== 0 ? formatRp(varianceValue) : '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {lines.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">Tidak ada barang.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isScannerOpen} onOpenChange={setIsScannerOpen}>
+        <DialogContent className="sm:max-w-[425px] md:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">Scan Barcode</DialogTitle>
+            <DialogDescription>
+              Setiap scan menambah hitungan barang sebanyak 1, atau sesuai berat pada label timbangan.
+            </DialogDescription>
+          </DialogHeader>
+          {isScannerOpen && <BarcodeScanner onScan={handleCameraScan} />}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isPostConfirmOpen} onOpenChange={setIsPostConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Posting stok opname?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stok {summary.varianceItems} barang akan disesuaikan dengan hasil hitungan: kurang {formatRp(summary.shortageValue)}, lebih {formatRp(summary.surplusValue)}.
+              {summary.countedItems < stockCount.items.length && ` ${stockCount.items.length - summary.countedItems} barang belum dihitung dan tidak diubah.`}
+              {' '}Penjualan sejak stok dibekukan tetap diperhitungkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPosting}>Batal</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handlePost(); }} disabled={isPosting}>
+              {isPosting && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Posting
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isCancelConfirmOpen} onOpenChange={setIsCancelConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Batalkan stok opname?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Hasil hitungan {stockCount.name} akan diabaikan dan stok tidak diubah.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Kembali</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel}>Batalkan Stok Opname</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
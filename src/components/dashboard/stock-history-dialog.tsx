@@ -0,0 +1,293 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader, Scale } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import type { Product, StockMovement, StockMovementType } from '@/lib/types';
+import { getProductStockMovements } from '@/lib/stock-ledger';
+import { stockMovementLabels, sumStockMovements } from '@/lib/stock-movements';
+import { isBundleProduct } from '@/lib/bundles';
+import { formatQuantity, isFractionalUnit, roundQuantity } from '@/lib/units';
+
+type ManualType = Extract<StockMovementType, 'receiving' | 'adjustment' | 'waste' | 'transfer'>;
+
+const manualTypes: ManualType[] = ['receiving', 'waste', 'transfer', 'adjustment'];
+
+type StockHistoryDialogProps = {
+  storeId: string;
+  product: Product | null; // The dialog is open while a product is given
+  onOpenChange: (open: boolean) => void;
+  onStockChanged: () => void;
+};
+
+function formatSignedQuantity(quantity: number, unit?: Product['unit']) {
+  return `${quantity > 0 ? '+' : ''}${formatQuantity(quantity, unit)}`;
+}
+
+async function postStockMovement(path: string, body: object) {
+  const idToken = await auth.currentUser?.getIdToken();
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Gagal mengubah stok.');
+  }
+  return result;
+}
+
+export function StockHistoryDialog({ storeId, product, onOpenChange, onStockChanged }: StockHistoryDialogProps) {
+  const [movements, setMovements] = React.useState<StockMovement[] | null>(null);
+  const [type, setType] = React.useState<ManualType>('receiving');
+  const [variantId, setVariantId] = React.useState('');
+  const [isTransferIn, setIsTransferIn] = React.useState(false);
+  const [amount, setAmount] = React.useState('');
+  const [note, setNote] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  const productId = product?.id;
+  const loadMovements = React.useCallback(() => {
+    if (!productId) return;
+    getProductStockMovements(storeId, productId).then(setMovements).catch(error => {
+      console.error('Error fetching stock movements:', error);
+      setMovements([]);
+    });
+  }, [storeId, productId]);
+
+  React.useEffect(() => {
+    setMovements(null);
+    setType('receiving');
+    setVariantId('');
+    setAmount('');
+    setNote('');
+    loadMovements();
+  }, [loadMovements]);
+
+  if (!product) return null;
+
+  const stockedVariants = (product.variants || []).filter(variant => variant.stock !== undefined);
+  const selectedVariant = stockedVariants.find(variant => variant.id === variantId);
+  const currentStock = selectedVariant ? selectedVariant.stock! : product.stock || 0;
+  const ledgerStock = movements ? sumStockMovements(movements, product.unit) : null;
+  const difference = ledgerStock !== null ? roundQuantity((product.stock || 0) - ledgerStock, product.unit) : 0;
+
+  const value = Number(amount.replace(',', '.'));
+  // An adjustment is entered as the counted stock; everything else as the quantity moved.
+  const quantity = !amount || !Number.isFinite(value) ? 0
+    : type === 'adjustment' ? roundQuantity(value - currentStock, product.unit)
+    : type === 'waste' || (type === 'transfer' && !isTransferIn) ? -value
+    : value;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (stockedVariants.length > 0 && !selectedVariant) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Pilih varian yang stoknya diubah.' });
+      return;
+    }
+    if (quantity === 0) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Tidak ada perubahan stok.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await postStockMovement('/api/stock-movements', {
+        storeId,
+        productId: product.id,
+        ...(selectedVariant && { variantId: selectedVariant.id }),
+        type,
+        quantity,
+        note,
+      });
+      toast({ title: 'Stok Diperbarui', description: `${product.name}: ${formatSignedQuantity(quantity, product.unit)}` });
+      setAmount('');
+      setNote('');
+      loadMovements();
+      onStockChanged();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Mengubah Stok', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setIsSaving(true);
+    try {
+      await postStockMovement('/api/stock-movements/reconcile', { storeId, productId: product.id });
+      toast({ title: 'Riwayat Stok Disesuaikan' });
+      loadMovements();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyesuaikan', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-headline tracking-wider">Riwayat Stok</DialogTitle>
+          <DialogDescription>
+            {product.name} · stok {formatQuantity(product.stock || 0, product.unit)}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[65vh]">
+          <div className="space-y-4 pr-4">
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+              {ledgerStock === null ? (
+                <Skeleton className="h-5 w-full" />
+              ) : difference === 0 ? (
+                <p className="flex items-center gap-2"><Scale className="h-4 w-4" /> Riwayat sesuai dengan stok.</p>
+              ) : (
+                <>
+                  <p>
+                    Riwayat menjumlah {formatQuantity(ledgerStock, product.unit)}, selisih {formatSignedQuantity(difference, product.unit)} dari stok tercatat.
+                  </p>
+                  <Button size="sm" variant="outline" onClick={handleReconcile} disabled={isSaving}>Sesuaikan</Button>
+                </>
+              )}
+            </div>
+
+            {!isBundleProduct(product) && (
+              <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="grid gap-2">
+                    <Label>Jenis</Label>
+                    <Select value={type} onValueChange={(value) => setType(value as ManualType)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {manualTypes.map(manualType => (
+                          <SelectItem key={manualType} value={manualType}>{stockMovementLabels[manualType]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {type === 'transfer' && (
+                    <div className="grid gap-2">
+                      <Label>Arah</Label>
+                      <Select value={isTransferIn ? 'in' : 'out'} onValueChange={(value) => setIsTransferIn(value === 'in')}>
+                        <SelectTrigger className="h-9">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="out">Keluar</SelectItem>
+                          <SelectItem value="in">Masuk</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  {stockedVariants.length > 0 && (
+                    <div className="grid gap-2">
+                      <Label>{product.variantLabel || 'Varian'}</Label>
+                      <Select value={variantId} onValueChange={setVariantId}>
+                        <SelectTrigger className="h-9">
+                          <SelectValue placeholder="Pilih" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {stockedVariants.map(variant => (
+                            <SelectItem key={variant.id} value={variant.id}>
+                              {variant.name} ({formatQuantity(variant.stock!, product.unit)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="grid gap-2">
+                    <Label htmlFor="stock-amount">{type === 'adjustment' ? 'Stok Sebenarnya' : 'Jumlah'}</Label>
+                    <Input
+                      id="stock-amount"
+                      type="number"
+                      min={0}
+                      step={isFractionalUnit(product.unit) ? 'any' : 1}
+                      className="h-9"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <Input
+                  placeholder={type === 'transfer' ? 'Tujuan atau asal transfer' : type === 'adjustment' ? 'Alasan penyesuaian' : 'Catatan (opsional)'}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={200}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {quantity !== 0 && `Perubahan ${formatSignedQuantity(quantity, product.unit)}`}
+                  </span>
+                  <Button type="submit" size="sm" disabled={isSaving || quantity === 0}>
+                    {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+                    Simpan
+                  </Button>
+                </div>
+              </form>
+            )}
+            {isBundleProduct(product) && (
+              <p className="text-sm text-muted-foreground">Stok paket mengikuti stok produk isinya.</p>
+            )}
+
+            <Separator />
+
+            {movements === null ? (
+              <Skeleton className="h-24 w-full" />
+            ) : movements.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Belum ada perubahan stok yang tercatat.</p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {movements.map(movement => (
+                  <li key={movement.id} className="space-y-1 py-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{stockMovementLabels[movement.type]}</Badge>
+                        {movement.variantName && <span className="text-xs text-muted-foreground">{movement.variantName}</span>}
+                      </div>
+                      <span className={movement.quantity < 0 ? 'font-medium text-destructive' : 'font-medium'}>
+                        {formatSignedQuantity(movement.quantity, product.unit)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span>{new Date(movement.createdAt).toLocaleString('id-ID')}</span>
+                      <span>Sisa {formatQuantity(movement.stockAfter, product.unit)}</span>
+                    </div>
+                    {movement.note && <p className="text-xs">{movement.note}</p>}
+                    {(movement.refundId || movement.transactionId) && (
+                      <p className="font-mono text-xs text-muted-foreground">
+                        {movement.refundId ? `Pengembalian ${movement.refundId}` : `Transaksi ${movement.transactionId}`}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import * as React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { z } from 'zod';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSuppliers } from '@/lib/purchasing';
+import type { Supplier } from '@/lib/types';
+
+export const supplierSchema = z.object({
+  supplierId: z.string(),
+});
+
+type SupplierFormValues = z.infer<typeof supplierSchema>;
+
+// Radix Select can't hold an empty value, so "no supplier" is selected under this one.
+const NO_SUPPLIER = 'none';
+
+export function SupplierField({ storeId }: { storeId: string }) {
+  const { control } = useFormContext<SupplierFormValues>();
+  const [suppliers, setSuppliers] = React.useState<Supplier[]>([]);
+
+  React.useEffect(() => {
+    getSuppliers(storeId).then(setSuppliers).catch(error => {
+      console.error('Error fetching suppliers:', error);
+    });
+  }, [storeId]);
+
+  return (
+    <FormField
+      control={control}
+      name="supplierId"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Pemasok</FormLabel>
+          <Select value={field.value || NO_SUPPLIER} onValueChange={(value) => field.onChange(value === NO_SUPPLIER ? '' : value)}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={NO_SUPPLIER}>Tanpa pemasok</SelectItem>
+              {suppliers.map(supplier => (
+                <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { addSupplier, updateSupplier, type SupplierInput } from '@/lib/purchasing';
+import type { Supplier } from '@/lib/types';
+
+type SupplierFormDialogProps = {
+  storeId: string;
+  open: boolean;
+  supplier: Supplier | null; // Edited when given, otherwise a new supplier is added
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+};
+
+const emptyForm = { name: '', contactName: '', phone: '', email: '', address: '', paymentTermDays: '0', notes: '' };
+
+export function SupplierFormDialog({ storeId, open, supplier, onOpenChange, onSaved }: SupplierFormDialogProps) {
+  const [form, setForm] = React.useState(emptyForm);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!open) return;
+    setForm(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      paymentTermDays: String(supplier.paymentTermDays),
+      notes: supplier.notes || '',
+    } : emptyForm);
+  }, [open, supplier]);
+
+  const update = (changes: Partial<typeof emptyForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const paymentTermDays = Number(form.paymentTermDays);
+    if (form.name.trim().length < 2) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Nama pemasok harus minimal 2 karakter.' });
+      return;
+    }
+    if (!Number.isInteger(paymentTermDays) || paymentTermDays < 0) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Tempo pembayaran harus berupa jumlah hari.' });
+      return;
+    }
+    const input: SupplierInput = {
+      name: form.name.trim(),
+      ...(form.contactName.trim() && { contactName: form.contactName.trim() }),
+      ...(form.phone.trim() && { phone: form.phone.trim() }),
+      ...(form.email.trim() && { email: form.email.trim() }),
+      ...(form.address.trim() && { address: form.address.trim() }),
+      paymentTermDays,
+      ...(form.notes.trim() && { notes: form.notes.trim() }),
+    };
+    setIsSaving(true);
+    try {
+      if (supplier) {
+        await updateSupplier(storeId, supplier.id, input);
+      } else {
+        await addSupplier(storeId, input);
+      }
+      toast({ title: supplier ? 'Pemasok Diperbarui!' : 'Pemasok Ditambahkan!', description: input.name });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan Pemasok', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle className="font-headline tracking-wider">{supplier ? 'Ubah Pemasok' : 'Tambah Pemasok'}</DialogTitle>
+            <DialogDescription>Pesanan pembelian dikirim ke nomor WhatsApp pemasok.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="supplier-name">Nama Pemasok</Label>
+            <Input id="supplier-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-contact">Nama Kontak</Label>
+              <Input id="supplier-contact" value={form.contactName} onChange={(e) => update({ contactName: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-phone">No. WhatsApp</Label>
+              <Input id="supplier-phone" type="tel" placeholder="08xxxxxxxxxx" value={form.phone} onChange={(e) => update({ phone: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input id="supplier-email" type="email" value={form.email} onChange={(e) => update({ email: e.target.value })} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-terms">Tempo Pembayaran (hari)</Label>
+              <Input id="supplier-terms" type="number" min={0} value={form.paymentTermDays} onChange={(e) => update({ paymentTermDays: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="supplier-address">Alamat</Label>
+            <Input id="supplier-address" value={form.address} onChange={(e) => update({ address: e.target.value })} />
+          </div>
+          <Textarea placeholder="Catatan (opsional)" value={form.notes} onChange={(e) => update({ notes: e.target.value })} />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Batal</Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Simpan
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
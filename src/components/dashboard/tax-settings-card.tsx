@@ -0,0 +1,144 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader, Receipt, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { TaxSettings } from '@/lib/types';
+import { getTaxSettings, updateTaxSettings } from '@/lib/tax-settings';
+import { calculateTaxAndService } from '@/lib/tax';
+
+const exampleAmount = 100000;
+
+export function TaxSettingsCard({ storeId }: { storeId: string }) {
+  const [settings, setSettings] = React.useState<TaxSettings | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    getTaxSettings(storeId).then(setSettings);
+  }, [storeId]);
+
+  const update = (changes: Partial<TaxSettings>) => setSettings(s => s ? { ...s, ...changes } : null);
+
+  const handleSave = async () => {
+    if (!settings) return;
+    if (settings.taxRate < 0 || settings.taxRate > 100 || settings.serviceChargeRate < 0 || settings.serviceChargeRate > 100) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Tarif pajak dan biaya layanan harus antara 0 dan 100%.' });
+      return;
+    }
+    if (settings.taxEnabled && !settings.taxName.trim()) {
+      toast({ variant: 'destructive', title: 'Input Tidak Valid', description: 'Nama pajak harus diisi.' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateTaxSettings(storeId, { ...settings, taxName: settings.taxName.trim() });
+      toast({ title: 'Pengaturan Pajak Disimpan!' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Gagal Menyimpan', description: (error as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const example = settings ? calculateTaxAndService(exampleAmount, settings) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline tracking-wider">Pajak & Biaya Layanan</CardTitle>
+        <CardDescription>Dihitung otomatis saat checkout dan dicetak pada struk.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {settings ? (
+          <>
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center space-x-2">
+                <Switch id="tax-enabled" checked={settings.taxEnabled} onCheckedChange={(checked) => update({ taxEnabled: checked })} />
+                <Label htmlFor="tax-enabled">Kenakan Pajak</Label>
+              </div>
+              {settings.taxEnabled && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="tax-name">Nama Pajak</Label>
+                      <Input id="tax-name" placeholder="PB1 / PPN" value={settings.taxName} onChange={(e) => update({ taxName: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="tax-rate">Tarif (%)</Label>
+                      <Input id="tax-rate" type="number" min={0} max={100} step="0.01" value={settings.taxRate} onChange={(e) => update({ taxRate: Number(e.target.value) })} />
+                    </div>
+                  </div>
+                  <RadioGroup
+                    value={settings.taxInclusive ? 'inclusive' : 'exclusive'}
+                    onValueChange={(value) => update({ taxInclusive: value === 'inclusive' })}
+                    className="flex gap-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="exclusive" id="tax-exclusive" />
+                      <Label htmlFor="tax-exclusive" className="font-normal">Ditambahkan ke harga</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="inclusive" id="tax-inclusive" />
+                      <Label htmlFor="tax-inclusive" className="font-normal">Sudah termasuk dalam harga</Label>
+                    </div>
+                  </RadioGroup>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="tax-dine-in" checked={settings.taxDineInOnly} onCheckedChange={(checked) => update({ taxDineInOnly: checked })} />
+                    <Label htmlFor="tax-dine-in" className="font-normal">Hanya untuk makan di tempat</Label>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center space-x-2">
+                <Switch id="service-enabled" checked={settings.serviceChargeEnabled} onCheckedChange={(checked) => update({ serviceChargeEnabled: checked })} />
+                <Label htmlFor="service-enabled">Kenakan Biaya Layanan</Label>
+              </div>
+              {settings.serviceChargeEnabled && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="service-rate">Tarif (%)</Label>
+                    <Input id="service-rate" type="number" min={0} max={100} step="0.01" className="max-w-[200px]" value={settings.serviceChargeRate} onChange={(e) => update({ serviceChargeRate: Number(e.target.value) })} />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch id="service-dine-in" checked={settings.serviceChargeDineInOnly} onCheckedChange={(checked) => update({ serviceChargeDineInOnly: checked })} />
+                    <Label htmlFor="service-dine-in" className="font-normal">Hanya untuk makan di tempat</Label>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {example && (example.taxRate > 0 || example.serviceChargeRate > 0) && (
+              <div className="flex items-start gap-2 rounded-md bg-secondary/50 p-3 text-sm text-muted-foreground">
+                <Receipt className="mt-0.5 h-4 w-4 shrink-0" />
+                <p>
+                  Contoh: belanja Rp {exampleAmount.toLocaleString('id-ID')} makan di tempat
+                  {example.serviceChargeRate > 0 && <> + layanan Rp {example.serviceChargeAmount.toLocaleString('id-ID')}</>}
+                  {example.taxRate > 0 && <>{settings.taxInclusive ? ', termasuk' : ' +'} {settings.taxName} Rp {example.taxAmount.toLocaleString('id-ID')}</>}
+                  {' '}= <span className="font-semibold">Rp {example.totalAmount.toLocaleString('id-ID')}</span>
+                </p>
+              </div>
+            )}
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              <Save className="mr-2 h-4 w-4" />
+              Simpan Pengaturan Pajak
+            </Button>
+          </>
+        ) : (
+          <Skeleton className="h-40 w-full" />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { db } from '@/lib/firebase';
 import { collection, getDocs, query, orderBy, onSnapshot, Unsubscribe } from 'firebase/firestore';
 import { useAuth } from '@/contexts/auth-context';
 import { useToast } from '@/hooks/use-toast';
+import { getOfflineSnapshot, saveOfflineSnapshot } from '@/lib/offline-store';
 import type { User, RedemptionOption, Product, Store, Customer, Transaction, PendingOrder, Table, ChallengePeriod, TransactionFeeSettings } from '@/lib/types';
 
 // Default settings, defined on the client-side to avoid server imports.
@@ -38,6 +39,15 @@ interface DashboardContextType {
 
 const DashboardContext = createContext<DashboardContextType | undefined>(undefined);
 
+// What the POS needs to keep selling when the connection drops.
+type OfflineCatalog = {
+  products: Product[];
+  customers: Customer[];
+  users: User[];
+  redemptionOptions: RedemptionOption[];
+  feeSettings: TransactionFeeSettings;
+};
+
 // A new function to fetch settings from the API route
 async function fetchTransactionFeeSettings(): Promise<TransactionFeeSettings> {
     try {
@@ -110,12 +120,19 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
             storeId ? getDocs(query(challengePeriodsCollectionRef, orderBy('createdAt', 'desc'))) : Promise.resolve({ docs: [] }),
         ]);
 
+        const catalog: OfflineCatalog = {
+            products: productsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Product)),
+            customers: customersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer)),
+            users: usersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as User)),
+            redemptionOptions: redemptionOptionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RedemptionOption)),
+            feeSettings: feeSettingsData,
+        };
         setStores(storesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Store)));
-        setProducts(productsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Product)));
-        setUsers(usersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as User)));
-        setCustomers(customersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Customer)));
+        setProducts(catalog.products);
+        setUsers(catalog.users);
+        setCustomers(catalog.customers);
         setTables(tablesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Table)));
-        setRedemptionOptions(redemptionOptionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as RedemptionOption)));
+        setRedemptionOptions(catalog.redemptionOptions);
         setChallengePeriods(challengePeriodsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ChallengePeriod)));
         setFeeSettings(feeSettingsData);
         
@@ -123,13 +140,34 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
             refreshPradanaTokenBalance();
         }
 
+        if (storeId) {
+            saveOfflineSnapshot(storeId, 'catalog', catalog).catch(error => {
+                console.error("Error caching catalog for offline use: ", error);
+            });
+        }
+
     } catch (error) {
         console.error("Error fetching static dashboard data: ", error);
-        toast({
-            variant: 'destructive',
-            title: 'Gagal Memuat Data Statis',
-            description: 'Terjadi kesalahan saat mengambil data dasar. Beberapa fitur mungkin tidak berfungsi.'
-        });
+        const cachedCatalog = activeStore
+            ? await getOfflineSnapshot<OfflineCatalog>(activeStore.id, 'catalog').catch(() => null)
+            : null;
+        if (cachedCatalog) {
+            setProducts(cachedCatalog.value.products);
+            setCustomers(cachedCatalog.value.customers);
+            setUsers(cachedCatalog.value.users);
+            setRedemptionOptions(cachedCatalog.value.redemptionOptions);
+            setFeeSettings(cachedCatalog.value.feeSettings);
+            toast({
+                title: 'Mode Offline',
+                description: `Tidak dapat terhubung ke server. Menggunakan data tersimpan dari ${new Date(cachedCatalog.savedAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}.`,
+            });
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Gagal Memuat Data Statis',
+                description: 'Terjadi kesalahan saat mengambil data dasar. Beberapa fitur mungkin tidak berfungsi.'
+            });
+        }
     } finally {
         setIsLoading(false);
     }
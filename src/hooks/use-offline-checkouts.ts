@@ -0,0 +1,82 @@
+import * as React from 'react';
+import { auth } from '@/lib/firebase';
+import { getQueuedCheckouts } from '@/lib/offline-store';
+import { syncQueuedCheckouts, type OfflineSyncResult } from '@/lib/offline-checkouts';
+import type { QueuedCheckout } from '@/lib/types';
+
+// Connectivity events are missed when the router is up but the internet behind it isn't,
+// so queued sales are also retried on a timer.
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Tracks whether the browser is online and keeps a store's offline checkout queue in
+ * sync: queued sales are replayed when the hook mounts, when the connection comes back
+ * and periodically while any are waiting. `onSynced` is called after each replay that
+ * accepted or rejected at least one sale.
+ */
+export function useOfflineCheckouts(storeId: string | undefined, onSynced: (result: OfflineSyncResult) => void) {
+  const [isOnline, setIsOnline] = React.useState(true);
+  const [queue, setQueue] = React.useState<QueuedCheckout[]>([]);
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const isSyncingRef = React.useRef(false);
+
+  const onSyncedRef = React.useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refreshQueue = React.useCallback(async () => {
+    if (!storeId) return;
+    try {
+      setQueue(await getQueuedCheckouts(storeId));
+    } catch (error) {
+      console.error('Error reading offline checkout queue:', error);
+    }
+  }, [storeId]);
+
+  const sync = React.useCallback(async (includeFailed = false) => {
+    if (!storeId || isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const idToken = await auth.currentUser?.getIdToken();
+      if (!idToken) return;
+      const result = await syncQueuedCheckouts(storeId, idToken, includeFailed);
+      if (result.synced.length > 0 || result.failed.length > 0) {
+        onSyncedRef.current(result);
+      }
+    } catch (error) {
+      console.error('Error syncing offline checkouts:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+  }, [storeId, refreshQueue]);
+
+  React.useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  React.useEffect(() => {
+    refreshQueue().then(() => sync());
+  }, [refreshQueue, sync]);
+
+  const hasQueued = queue.some(entry => entry.status === 'queued');
+  React.useEffect(() => {
+    if (!hasQueued) return;
+    const interval = setInterval(() => sync(), SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasQueued, sync]);
+
+  return { isOnline, queue, isSyncing, sync, refreshQueue };
+}
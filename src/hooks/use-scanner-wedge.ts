@@ -0,0 +1,67 @@
+import * as React from 'react';
+
+// USB barcode scanners "type" a whole code with only a few milliseconds between keys,
+// far faster than anyone types by hand.
+const MAX_SCAN_KEY_INTERVAL_MS = 50;
+const MIN_SCAN_LENGTH = 4;
+
+type ScannerWedgeOptions = {
+  enabled: boolean;
+  onScan: (code: string) => void;
+  onKey?: (event: KeyboardEvent, isInTextField: boolean) => void;
+};
+
+function isTextField(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Captures codes typed by keyboard-wedge barcode scanners anywhere on the page, without
+ * a focused input. A burst of fast keystrokes ending in Enter is reported to `onScan`;
+ * every other key is passed to `onKey` so callers can layer hotkeys on top.
+ * Keys typed into text fields are never treated as part of a scan.
+ */
+export function useScannerWedge({ enabled, onScan, onKey }: ScannerWedgeOptions) {
+  const bufferRef = React.useRef('');
+  const lastKeyTimeRef = React.useRef(0);
+
+  // Keep the latest callbacks without re-binding the listener on every render.
+  const onScanRef = React.useRef(onScan);
+  const onKeyRef = React.useRef(onKey);
+  onScanRef.current = onScan;
+  onKeyRef.current = onKey;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const inTextField = isTextField(event.target);
+      if (!inTextField && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        const now = Date.now();
+        const isBurst = now - lastKeyTimeRef.current <= MAX_SCAN_KEY_INTERVAL_MS;
+        lastKeyTimeRef.current = now;
+
+        if (event.key === 'Enter') {
+          const code = bufferRef.current;
+          bufferRef.current = '';
+          if (isBurst && code.length >= MIN_SCAN_LENGTH) {
+            event.preventDefault();
+            onScanRef.current(code);
+            return;
+          }
+        } else if (event.key.length === 1) {
+          bufferRef.current = isBurst ? bufferRef.current + event.key : event.key;
+        }
+      }
+
+      onKeyRef.current?.(event, inTextField);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      bufferRef.current = '';
+    };
+  }, [enabled]);
+}
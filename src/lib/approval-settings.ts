@@ -0,0 +1,59 @@
+'use client';
+
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { defaultApprovalSettings } from './approvals';
+import type { ApprovalLog, ApprovalSettings } from './types';
+
+/**
+ * Fetches the approval policy of a specific store from Firestore.
+ * @param storeId The ID of the store.
+ * @returns The store's specific settings, or default settings if not found.
+ */
+export async function getApprovalSettings(storeId: string): Promise<ApprovalSettings> {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        const docSnap = await getDoc(storeDocRef);
+
+        if (docSnap.exists()) {
+            const storeData = docSnap.data();
+            // Merge store settings with defaults to ensure all fields are present
+            return { ...defaultApprovalSettings, ...storeData.approvalSettings };
+        } else {
+            console.warn(`Store with ID ${storeId} not found. Using default approval settings.`);
+            return defaultApprovalSettings;
+        }
+    } catch (error) {
+        console.error("Error fetching approval settings:", error);
+        return defaultApprovalSettings;
+    }
+}
+
+/**
+ * Updates or creates the approval policy of a specific store in Firestore.
+ * @param storeId The ID of the store to update.
+ * @param newSettings An object containing the settings to update.
+ */
+export async function updateApprovalSettings(storeId: string, newSettings: Partial<ApprovalSettings>) {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        await setDoc(storeDocRef, {
+            approvalSettings: newSettings
+        }, { merge: true });
+
+        console.log(`Approval settings updated for store ${storeId}.`);
+    } catch (error) {
+        console.error(`Error updating approval settings for store ${storeId}:`, error);
+        throw error; // Re-throw the error to be handled by the caller
+    }
+}
+
+/**
+ * Fetches a store's approval audit log, newest first.
+ * @param storeId The ID of the store.
+ * @param maxResults How many to fetch.
+ */
+export async function getApprovalLogs(storeId: string, maxResults = 50): Promise<ApprovalLog[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'approvalLogs'), orderBy('createdAt', 'desc'), limit(maxResults)));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ApprovalLog));
+}
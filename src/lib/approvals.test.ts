@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { defaultApprovalSettings, getCheckoutApprovalRequests, matchApprovals } from './approvals';
+import type { ApprovalRequest, ApprovalSettings } from './types';
+
+const strictSettings: ApprovalSettings = {
+  ...defaultApprovalSettings,
+  discountThresholdPercent: 10,
+  pointsRedemption: true,
+};
+
+describe('getCheckoutApprovalRequests', () => {
+  it('asks for nothing under the default policy', () => {
+    expect(getCheckoutApprovalRequests({
+      items: [{ productId: 'kaos', productName: 'Kaos', price: 10000, quantity: 2, discountType: 'percent', discountValue: 50 }],
+      discountAmount: 5000,
+      discountableAmount: 10000,
+      pointsRedeemed: 100,
+    }, defaultApprovalSettings)).toEqual([]);
+  });
+
+  it('always asks for price overrides', () => {
+    const requests = getCheckoutApprovalRequests({
+      items: [{ productId: 'kaos', productName: 'Kaos', price: 8000, originalPrice: 10000, quantity: 1 }],
+      discountAmount: 0,
+      discountableAmount: 8000,
+      pointsRedeemed: 0,
+    }, defaultApprovalSettings);
+    expect(requests).toStrictEqual([{
+      action: 'price-override',
+      details: {
+        description: 'Ubah harga Kaos dari Rp 10.000 ke Rp 8.000',
+        productId: 'kaos',
+        productName: 'Kaos',
+        originalPrice: 10000,
+        newPrice: 8000,
+      },
+    }]);
+  });
+
+  it('asks for line and cart discounts above the threshold and for redeemed points', () => {
+    const requests = getCheckoutApprovalRequests({
+      items: [
+        { productId: 'kaos', productName: 'Kaos', price: 10000, quantity: 2, discountType: 'percent', discountValue: 15 },
+        { productId: 'topi', productName: 'Topi', price: 20000, quantity: 1, discountType: 'percent', discountValue: 10 },
+      ],
+      discountAmount: 5000,
+      discountableAmount: 35000,
+      pointsRedeemed: 1500,
+    }, strictSettings);
+    expect(requests.map(request => request.details.description)).toEqual([
+      'Diskon 15% (Rp 3.000) untuk Kaos',
+      'Diskon keranjang 14.29% (Rp 5.000)',
+      'Tukar 1.500 poin',
+    ]);
+  });
+});
+
+describe('matchApprovals', () => {
+  const kaosDiscount = (discountPercent: number): ApprovalRequest => ({
+    action: 'discount',
+    details: { description: 'Diskon', productId: 'kaos', discountPercent },
+  });
+
+  it('lets an approval cover a smaller discount or fewer points', () => {
+    const approvals = [
+      { id: 'a1', ...kaosDiscount(20) },
+      { id: 'a2', action: 'points-redemption' as const, details: { description: 'Tukar poin', points: 2000 } },
+    ];
+    const { used, missing } = matchApprovals([
+      kaosDiscount(15),
+      { action: 'points-redemption', details: { description: 'Tukar poin', points: 1500 } },
+    ], approvals);
+    expect(used.map(approval => approval.id)).toEqual(['a1', 'a2']);
+    expect(missing).toEqual([]);
+  });
+
+  it('spends each approval on one need only', () => {
+    const { used, missing } = matchApprovals([kaosDiscount(15), kaosDiscount(15)], [{ id: 'a1', ...kaosDiscount(20) }]);
+    expect(used).toHaveLength(1);
+    expect(missing).toEqual([kaosDiscount(15)]);
+  });
+
+  it('does not cover a bigger discount, another product or another price', () => {
+    const priceOverride: ApprovalRequest = { action: 'price-override', details: { description: 'Ubah harga', productId: 'kaos', newPrice: 8000 } };
+    const { missing } = matchApprovals([
+      kaosDiscount(25),
+      { action: 'discount', details: { description: 'Diskon', productId: 'topi', discountPercent: 5 } },
+      { ...priceOverride, details: { ...priceOverride.details, newPrice: 7000 } },
+    ], [kaosDiscount(20), priceOverride]);
+    expect(missing).toHaveLength(3);
+  });
+
+  it('never reuses line voids or no-sales', () => {
+    const lineVoid: ApprovalRequest = { action: 'line-void', details: { description: 'Hapus Kaos', productId: 'kaos' } };
+    expect(matchApprovals([lineVoid], [lineVoid]).missing).toEqual([lineVoid]);
+  });
+});
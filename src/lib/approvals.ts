@@ -0,0 +1,142 @@
+import { calculateLineDiscount, getLineGrossAmount } from './line-items';
+import type { ApprovalAction, ApprovalDetails, ApprovalRequest, ApprovalSettings, TransactionItem } from './types';
+
+// Nothing needs a PIN until an admin sets a policy, and cashiers keep catalog prices.
+export const defaultApprovalSettings: ApprovalSettings = {
+  discountThresholdPercent: null,
+  lineVoids: false,
+  priceOverrides: false,
+  pointsRedemption: false,
+  noSale: false,
+};
+
+export const approvalActionLabels: Record<ApprovalAction, string> = {
+  'discount': 'Diskon',
+  'line-void': 'Hapus Item',
+  'price-override': 'Ubah Harga',
+  'points-redemption': 'Tukar Poin',
+  'no-sale': 'Buka Laci',
+};
+
+// An approval is only good for the sale the cashier is ringing up.
+export const approvalValidityMinutes = 30;
+
+type ApprovalLine = Pick<TransactionItem, 'productId' | 'productName' | 'price' | 'originalPrice' | 'quantity' | 'discountType' | 'discountValue'>;
+
+export type CheckoutApprovalInput = {
+  items: ApprovalLine[];
+  discountAmount: number; // The cart discount in Rupiah
+  discountableAmount: number; // What the cart discount was taken from
+  pointsRedeemed: number;
+};
+
+function formatRp(amount: number) {
+  return `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+}
+
+// Rounded so the POS preview and the server agree on the same sale.
+function getDiscountPercent(amount: number, base: number): number {
+  return base > 0 ? Math.round((amount / base) * 10000) / 100 : 0;
+}
+
+/**
+ * Lists what on a sale needs an admin's PIN under a store's policy. Price overrides are
+ * always listed, since a cashier can only make them with approval.
+ */
+export function getCheckoutApprovalRequests(input: CheckoutApprovalInput, settings: ApprovalSettings): ApprovalRequest[] {
+  const requests: ApprovalRequest[] = [];
+  const threshold = settings.discountThresholdPercent;
+
+  input.items.forEach(item => {
+    if (item.originalPrice !== undefined) {
+      requests.push({
+        action: 'price-override',
+        details: {
+          description: `Ubah harga ${item.productName} dari ${formatRp(item.originalPrice)} ke ${formatRp(item.price)}`,
+          productId: item.productId,
+          productName: item.productName,
+          originalPrice: item.originalPrice,
+          newPrice: item.price,
+        },
+      });
+    }
+    const lineDiscount = calculateLineDiscount(item);
+    const linePercent = getDiscountPercent(lineDiscount, getLineGrossAmount(item));
+    if (threshold !== null && lineDiscount > 0 && linePercent > threshold) {
+      requests.push({
+        action: 'discount',
+        details: {
+          description: `Diskon ${linePercent}% (${formatRp(lineDiscount)}) untuk ${item.productName}`,
+          productId: item.productId,
+          productName: item.productName,
+          amount: lineDiscount,
+          discountPercent: linePercent,
+        },
+      });
+    }
+  });
+
+  const cartPercent = getDiscountPercent(input.discountAmount, input.discountableAmount);
+  if (threshold !== null && input.discountAmount > 0 && cartPercent > threshold) {
+    requests.push({
+      action: 'discount',
+      details: {
+        description: `Diskon keranjang ${cartPercent}% (${formatRp(input.discountAmount)})`,
+        amount: input.discountAmount,
+        discountPercent: cartPercent,
+      },
+    });
+  }
+
+  if (settings.pointsRedemption && input.pointsRedeemed > 0) {
+    requests.push({
+      action: 'points-redemption',
+      details: {
+        description: `Tukar ${input.pointsRedeemed.toLocaleString('id-ID')} poin`,
+        points: input.pointsRedeemed,
+      },
+    });
+  }
+
+  return requests;
+}
+
+/**
+ * Whether an approval given earlier allows what is being asked now. A discount approval
+ * also covers a smaller discount on the same line, and a redemption approval fewer points.
+ */
+function isApprovalCovering(approval: ApprovalRequest, request: ApprovalRequest): boolean {
+  if (approval.action !== request.action) return false;
+  const approved: ApprovalDetails = approval.details;
+  const requested: ApprovalDetails = request.details;
+  switch (request.action) {
+    case 'discount':
+      return approved.productId === requested.productId
+        && (approved.discountPercent ?? 0) >= (requested.discountPercent ?? 0);
+    case 'price-override':
+      return approved.productId === requested.productId && approved.newPrice === requested.newPrice;
+    case 'points-redemption':
+      return (approved.points ?? 0) >= (requested.points ?? 0);
+    default:
+      return false; // Line voids and no-sales are approved as they happen
+  }
+}
+
+/**
+ * Spends approvals on what needs approving, each approval on one need at most.
+ * @returns The approvals spent, and the needs nothing covered.
+ */
+export function matchApprovals<T extends ApprovalRequest>(needed: ApprovalRequest[], approvals: T[]): { used: T[]; missing: ApprovalRequest[] } {
+  const available = [...approvals];
+  const used: T[] = [];
+  const missing: ApprovalRequest[] = [];
+  needed.forEach(need => {
+    const index = available.findIndex(approval => isApprovalCovering(approval, need));
+    if (index === -1) {
+      missing.push(need);
+    } else {
+      used.push(...available.splice(index, 1));
+    }
+  });
+  return { used, missing };
+}
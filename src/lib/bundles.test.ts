@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { allocateBundleRevenue, expandBundleLines, formatBundleItems, getBundleStock, getTransactionBundleItems } from './bundles';
+import { makeProduct } from './test-fixtures';
+
+const nasi = makeProduct({ id: 'nasi', name: 'Nasi Goreng', stock: 7, price: 20000 });
+const kopi = makeProduct({ id: 'kopi', name: 'Kopi', unit: 'kg', stock: 1.1, price: 40000 });
+const paket = makeProduct({
+  id: 'paket',
+  name: 'Paket Hemat',
+  price: 28000,
+  bundleItems: [{ productId: 'nasi', quantity: 1 }, { productId: 'kopi', quantity: 0.25 }],
+});
+const products = [nasi, kopi, paket];
+
+describe('getTransactionBundleItems', () => {
+  it('copies each component with its current name, unit and price', () => {
+    expect(getTransactionBundleItems(paket, products)).toStrictEqual([
+      { productId: 'nasi', productName: 'Nasi Goreng', quantity: 1, price: 20000 },
+      { productId: 'kopi', productName: 'Kopi', quantity: 0.25, unit: 'kg', price: 40000 },
+    ]);
+  });
+
+  it('rejects a missing component or one with variants', () => {
+    expect(() => getTransactionBundleItems(paket, [nasi])).toThrow('sudah tidak tersedia');
+    const latte = makeProduct({ id: 'kopi', name: 'Latte', variants: [{ id: 'large', name: 'Large', priceDelta: 0 }] });
+    expect(() => getTransactionBundleItems(paket, [nasi, latte])).toThrow('tidak dapat menjadi isi paket');
+  });
+});
+
+describe('expandBundleLines', () => {
+  it('replaces bundle lines with their components times the bundles sold', () => {
+    const bundleItems = getTransactionBundleItems(paket, products);
+    expect(expandBundleLines([
+      { productId: 'paket', quantity: 3, bundleItems },
+      { productId: 'nasi', quantity: 1 },
+    ])).toStrictEqual([
+      { productId: 'nasi', quantity: 3 },
+      { productId: 'kopi', quantity: 0.75 },
+      { productId: 'nasi', quantity: 1 },
+    ]);
+  });
+});
+
+describe('getBundleStock', () => {
+  it('counts the whole bundles the scarcest component can make', () => {
+    // 1.1 kg of coffee makes four 0.25 kg portions.
+    expect(getBundleStock(paket, products)).toBe(4);
+  });
+
+  it('leaves out stock already reserved by other cart lines', () => {
+    expect(getBundleStock(paket, products, [{ productId: 'nasi', quantity: 5 }])).toBe(2);
+    expect(getBundleStock(paket, products, [{ productId: 'nasi', quantity: 9 }])).toBe(0);
+  });
+});
+
+describe('allocateBundleRevenue', () => {
+  it('splits revenue by component value and gives the remainder to the last', () => {
+    const item = { quantity: 2, bundleItems: getTransactionBundleItems(paket, products) };
+    // Catalog value 20000 + 10000 per bundle, so two thirds go to the rice.
+    expect(allocateBundleRevenue(item, 55001)).toStrictEqual([
+      { productId: 'nasi', productName: 'Nasi Goreng', quantity: 2, unit: undefined, revenue: 36667 },
+      { productId: 'kopi', productName: 'Kopi', quantity: 0.5, unit: 'kg', revenue: 18334 },
+    ]);
+  });
+
+  it('shares equally when no component has a price', () => {
+    const bundleItems = [
+      { productId: 'a', productName: 'A', quantity: 1, price: 0 },
+      { productId: 'b', productName: 'B', quantity: 1, price: 0 },
+    ];
+    expect(allocateBundleRevenue({ quantity: 1, bundleItems }, 10000).map(share => share.revenue)).toEqual([5000, 5000]);
+  });
+});
+
+describe('formatBundleItems', () => {
+  it('lists pieces with an x and weighed components with their unit', () => {
+    expect(formatBundleItems({ bundleItems: getTransactionBundleItems(paket, products) })).toBe('1x Nasi Goreng, 0,25 kg Kopi');
+  });
+});
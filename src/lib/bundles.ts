@@ -0,0 +1,109 @@
+import { formatQuantity, getItemUnit, roundQuantity } from './units';
+import type { Product, ReceiptItem, TransactionBundleItem, TransactionItem } from './types';
+
+// A quantity drawn from a product's stock, as a sold line or a bundle component.
+export type StockLine = {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+};
+
+/**
+ * Whether a product is a bundle sold from its components' stock.
+ */
+export function isBundleProduct(product: Pick<Product, 'bundleItems'>): boolean {
+  return (product.bundleItems?.length || 0) > 0;
+}
+
+/**
+ * Describes a bundle's components as they are sold, with their current names and prices.
+ * @param bundle The bundle product.
+ * @param products The store's products, which must include every component.
+ * @throws Error with a user-facing message if a component is missing or can't be bundled.
+ */
+export function getTransactionBundleItems(bundle: Product, products: Product[]): TransactionBundleItem[] {
+  return (bundle.bundleItems || []).map(bundleItem => {
+    const component = products.find(product => product.id === bundleItem.productId);
+    if (!component) {
+      throw new Error(`Isi paket ${bundle.name} sudah tidak tersedia.`);
+    }
+    if (isBundleProduct(component) || (component.variants?.length || 0) > 0) {
+      throw new Error(`${component.name} tidak dapat menjadi isi paket ${bundle.name}.`);
+    }
+    return {
+      productId: component.id,
+      productName: component.name,
+      quantity: bundleItem.quantity,
+      ...getItemUnit(component),
+      price: component.price,
+    };
+  });
+}
+
+/**
+ * Turns sold lines into the stock they draw on: bundle lines are replaced by their
+ * components, multiplied by the number of bundles sold.
+ */
+export function expandBundleLines(items: (StockLine & { bundleItems?: Pick<TransactionBundleItem, 'productId' | 'quantity' | 'unit'>[] })[]): StockLine[] {
+  return items.flatMap(item => item.bundleItems && item.bundleItems.length > 0
+    ? item.bundleItems.map(bundleItem => ({
+      productId: bundleItem.productId,
+      quantity: roundQuantity(bundleItem.quantity * item.quantity, bundleItem.unit),
+    }))
+    : [{ productId: item.productId, ...(item.variantId && { variantId: item.variantId }), quantity: item.quantity }]);
+}
+
+/**
+ * Returns how many whole bundles the components' stock can still make.
+ * @param bundle The bundle product.
+ * @param products The store's products.
+ * @param reservedLines Stock already claimed, e.g. by other cart lines.
+ */
+export function getBundleStock(bundle: Pick<Product, 'bundleItems'>, products: Product[], reservedLines: StockLine[] = []): number {
+  const counts = (bundle.bundleItems || []).map(bundleItem => {
+    const component = products.find(product => product.id === bundleItem.productId);
+    if (!component || bundleItem.quantity <= 0) return 0;
+    const reserved = reservedLines
+      .filter(line => line.productId === bundleItem.productId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return Math.floor(roundQuantity((component.stock || 0) - reserved, component.unit) / bundleItem.quantity);
+  });
+  return counts.length > 0 ? Math.max(0, Math.min(...counts)) : 0;
+}
+
+/**
+ * Splits what a bundle line earned across its components, in proportion to the
+ * components' catalog value. Components without a price share equally when none has one.
+ * @param item The bundle line.
+ * @param revenue The line's revenue in Rupiah, e.g. after its line discount.
+ * @returns Each component's quantity sold and share of the revenue; the last component takes the rounding remainder.
+ */
+export function allocateBundleRevenue(item: Pick<TransactionItem, 'quantity' | 'bundleItems'>, revenue: number) {
+  const bundleItems = item.bundleItems || [];
+  const values = bundleItems.map(bundleItem => bundleItem.price * bundleItem.quantity);
+  const totalValue = values.reduce((sum, value) => sum + value, 0);
+
+  let allocated = 0;
+  return bundleItems.map((bundleItem, index) => {
+    const isLast = index === bundleItems.length - 1;
+    const share = totalValue > 0 ? values[index] / totalValue : 1 / bundleItems.length;
+    const componentRevenue = isLast ? revenue - allocated : Math.round(revenue * share);
+    allocated += componentRevenue;
+    return {
+      productId: bundleItem.productId,
+      productName: bundleItem.productName,
+      quantity: roundQuantity(bundleItem.quantity * item.quantity, bundleItem.unit),
+      unit: bundleItem.unit,
+      revenue: componentRevenue,
+    };
+  });
+}
+
+/**
+ * Formats the contents of one bundle, e.g. "1x Nasi Goreng, 0,25 kg Kopi".
+ */
+export function formatBundleItems(item: Pick<ReceiptItem, 'bundleItems'>): string {
+  return (item.bundleItems || [])
+    .map(bundleItem => `${formatQuantity(bundleItem.quantity, bundleItem.unit)}${bundleItem.unit ? '' : 'x'} ${bundleItem.productName}`)
+    .join(', ');
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { collection, doc, getDoc, getDocs, limit, onSnapshot, orderBy, query, setDoc, where, type Unsubscribe } from 'firebase/firestore';
+import { db } from './firebase';
+import { defaultReceiptSettings } from './receipt-settings';
+import type { CustomerDisplayState, RedemptionOption } from './types';
+
+/**
+ * Writes what a POS is showing to its customer-facing display.
+ * Each cashier has their own display document, keyed by their UID.
+ * @param storeId The ID of the store.
+ * @param state The display state, without its timestamp.
+ */
+export async function publishCustomerDisplay(storeId: string, state: Omit<CustomerDisplayState, 'updatedAt'>): Promise<void> {
+    await setDoc(doc(db, 'stores', storeId, 'customerDisplays', state.staffId), {
+        ...state,
+        updatedAt: new Date().toISOString(),
+    });
+}
+
+/**
+ * Listens to a customer display document in real time.
+ * @param storeId The ID of the store.
+ * @param staffId The cashier whose POS to mirror, or null to follow whichever POS was updated last.
+ * @param onChange Called with the latest state, or null before any POS has written one.
+ * @returns A function that stops listening.
+ */
+export function subscribeToCustomerDisplay(
+    storeId: string,
+    staffId: string | null,
+    onChange: (state: CustomerDisplayState | null) => void
+): Unsubscribe {
+    if (staffId) {
+        return onSnapshot(doc(db, 'stores', storeId, 'customerDisplays', staffId), (docSnap) => {
+            onChange(docSnap.exists() ? docSnap.data() as CustomerDisplayState : null);
+        });
+    }
+    const latestQuery = query(collection(db, 'stores', storeId, 'customerDisplays'), orderBy('updatedAt', 'desc'), limit(1));
+    return onSnapshot(latestQuery, (snapshot) => {
+        onChange(snapshot.empty ? null : snapshot.docs[0].data() as CustomerDisplayState);
+    });
+}
+
+/**
+ * Fetches what the display rotates through between transactions.
+ * @param storeId The ID of the store.
+ * @returns The store name, its receipt promo text and its active redemption options.
+ */
+export async function getCustomerDisplayPromotions(storeId: string): Promise<{ storeName: string; promoText: string; redemptionOptions: RedemptionOption[] }> {
+    const [storeDoc, optionsSnapshot] = await Promise.all([
+        getDoc(doc(db, 'stores', storeId)),
+        getDocs(query(collection(db, 'stores', storeId, 'redemptionOptions'), where('isActive', '==', true))),
+    ]);
+    const storeData = storeDoc.exists() ? storeDoc.data() : {};
+    return {
+        storeName: storeData.name || '',
+        promoText: { ...defaultReceiptSettings, ...storeData.receiptSettings }.promoText,
+        redemptionOptions: optionsSnapshot.docs.map(optionDoc => ({ id: optionDoc.id, ...optionDoc.data() } as RedemptionOption)),
+    };
+}
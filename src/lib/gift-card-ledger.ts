@@ -0,0 +1,44 @@
+'use client';
+
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { normalizeGiftCardCode } from './gift-cards';
+import type { GiftCard, GiftCardMovement } from './types';
+
+/**
+ * Looks up a gift card or store credit by its code, as typed or scanned.
+ * @param storeId The ID of the store.
+ * @param code The card code.
+ * @returns The card, or null if the store has no card with this code.
+ */
+export async function getGiftCard(storeId: string, code: string): Promise<GiftCard | null> {
+    const normalizedCode = normalizeGiftCardCode(code);
+    if (!normalizedCode) return null;
+    const docSnap = await getDoc(doc(db, 'stores', storeId, 'giftCards', normalizedCode));
+    return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as GiftCard) : null;
+}
+
+/**
+ * Fetches the gift cards and store credit held by a customer, newest first.
+ * @param storeId The ID of the store.
+ * @param customerId The ID of the customer.
+ */
+export async function getCustomerGiftCards(storeId: string, customerId: string): Promise<GiftCard[]> {
+    // Sorted here rather than in the query, which would need a composite index.
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'giftCards'), where('customerId', '==', customerId)));
+    return snapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as GiftCard))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Fetches every balance movement on the cards of a customer, newest first.
+ * @param storeId The ID of the store.
+ * @param customerId The ID of the customer.
+ */
+export async function getCustomerGiftCardMovements(storeId: string, customerId: string): Promise<GiftCardMovement[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'giftCardMovements'), where('customerId', '==', customerId)));
+    return snapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as GiftCardMovement))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
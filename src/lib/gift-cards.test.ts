@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getGiftCardExpiry, getGiftCardRedemptions, getGiftCardUnavailableReason, normalizeGiftCardCode } from './gift-cards';
+
+describe('normalizeGiftCardCode', () => {
+  it('matches codes typed in lowercase or with other separators', () => {
+    expect(normalizeGiftCardCode('abcd efgh-jklm')).toBe('ABCD-EFGH-JKLM');
+    expect(normalizeGiftCardCode('ABCD--EFGHJKLM ')).toBe('ABCD-EFGH-JKLM');
+    expect(normalizeGiftCardCode('')).toBe('');
+  });
+});
+
+describe('getGiftCardExpiry', () => {
+  it('adds the expiry months, or leaves cards without one', () => {
+    expect(getGiftCardExpiry(new Date('2025-01-31T03:00:00.000Z'), 1)).toBe('2025-02-28T03:00:00.000Z');
+    expect(getGiftCardExpiry(new Date('2025-01-31T03:00:00.000Z'), 0)).toBeUndefined();
+  });
+});
+
+describe('getGiftCardUnavailableReason', () => {
+  const card = { code: 'ABCD-EFGH-JKLM', status: 'active' as const, balance: 50000, expiresAt: '2025-06-01T00:00:00.000Z' };
+  const at = new Date('2025-03-01T00:00:00.000Z');
+
+  it('accepts an active card with a balance', () => {
+    expect(getGiftCardUnavailableReason(card, at)).toBeNull();
+  });
+
+  it('explains why a card can not pay', () => {
+    expect(getGiftCardUnavailableReason({ ...card, status: 'pending' }, at)).toContain('belum aktif');
+    expect(getGiftCardUnavailableReason({ ...card, status: 'void' }, at)).toContain('sudah dibatalkan');
+    expect(getGiftCardUnavailableReason(card, new Date(card.expiresAt))).toContain('kedaluwarsa');
+    expect(getGiftCardUnavailableReason({ ...card, balance: 0 }, at)).toContain('sudah habis');
+  });
+});
+
+describe('getGiftCardRedemptions', () => {
+  it('totals tenders per card and ignores other payment methods', () => {
+    expect(getGiftCardRedemptions([
+      { method: 'GiftCard', amount: 20000, giftCardCode: 'abcd-efgh-jklm' },
+      { method: 'Cash', amount: 5000 },
+      { method: 'GiftCard', amount: 10000, giftCardCode: 'ABCDEFGHJKLM' },
+      { method: 'GiftCard', amount: 7000, giftCardCode: 'WXYZ-2345-6789' },
+    ])).toStrictEqual([
+      { code: 'ABCD-EFGH-JKLM', amount: 30000 },
+      { code: 'WXYZ-2345-6789', amount: 7000 },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { addMonths } from 'date-fns';
+import type { GiftCard, GiftCardMovementType, GiftCardType, PaymentTender, Transaction } from './types';
+
+export const giftCardTypeLabels: Record<GiftCardType, string> = {
+  'gift-card': 'Gift Card',
+  'store-credit': 'Kredit Toko',
+};
+
+export const giftCardMovementLabels: Record<GiftCardMovementType, string> = {
+  issue: 'Diterbitkan',
+  redeem: 'Dipakai',
+  reversal: 'Dikembalikan',
+  void: 'Dibatalkan',
+};
+
+/**
+ * Normalizes a typed or scanned code to the stored "ABCD-EFGH-JKLM" form, so
+ * lowercase input and missing or extra separators still match.
+ */
+export function normalizeGiftCardCode(input: string): string {
+  const characters = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return (characters.match(/.{1,4}/g) || []).join('-');
+}
+
+/**
+ * Returns when a card issued now expires, or undefined when cards never expire.
+ * @param issuedAt When the card is issued.
+ * @param expiryMonths The store's giftCardExpiryMonths setting.
+ */
+export function getGiftCardExpiry(issuedAt: Date, expiryMonths: number): string | undefined {
+  return expiryMonths > 0 ? addMonths(issuedAt, expiryMonths).toISOString() : undefined;
+}
+
+/**
+ * Explains why a card can't be used for payment, or returns null when it can.
+ * @param card The gift card.
+ * @param at The moment of payment.
+ */
+export function getGiftCardUnavailableReason(card: Pick<GiftCard, 'code' | 'status' | 'balance' | 'expiresAt'>, at: Date = new Date()): string | null {
+  if (card.status === 'pending') return `Gift card ${card.code} belum aktif karena penjualannya belum dibayar.`;
+  if (card.status === 'void') return `Gift card ${card.code} sudah dibatalkan.`;
+  if (card.expiresAt && new Date(card.expiresAt).getTime() <= at.getTime()) return `Gift card ${card.code} sudah kedaluwarsa.`;
+  if (card.balance <= 0) return `Saldo gift card ${card.code} sudah habis.`;
+  return null;
+}
+
+/**
+ * Returns what a transaction charged for gift cards it sold. That part of the total is
+ * a prepaid balance, not a sale of goods, so points, fees and refunds leave it out.
+ */
+export function getGiftCardSalesAmount(transaction: Pick<Transaction, 'giftCardSales'>): number {
+  return (transaction.giftCardSales || []).reduce((sum, sale) => sum + sale.amount, 0);
+}
+
+/**
+ * Totals the gift card tenders of a payment per card, since the same card may be
+ * entered on more than one tender.
+ */
+export function getGiftCardRedemptions(payments: PaymentTender[]): { code: string; amount: number }[] {
+  const redemptions: { code: string; amount: number }[] = [];
+  payments.filter(tender => tender.method === 'GiftCard' && tender.giftCardCode).forEach(tender => {
+    const code = normalizeGiftCardCode(tender.giftCardCode!);
+    const existing = redemptions.find(redemption => redemption.code === code);
+    if (existing) {
+      existing.amount += tender.amount;
+    } else {
+      redemptions.push({ code, amount: tender.amount });
+    }
+  });
+  return redemptions;
+}
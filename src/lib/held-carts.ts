@@ -0,0 +1,73 @@
+'use client';
+
+import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from './firebase';
+import type { HeldCart } from './types';
+
+/**
+ * Parks a cart in the store's heldCarts collection.
+ * @param storeId The ID of the store.
+ * @param cart The cart to hold, without its ID and timestamps.
+ * @param expiryMinutes How long the cart can be recalled before it is discarded.
+ * @returns The ID of the new held cart.
+ */
+export async function holdCart(
+    storeId: string,
+    cart: Omit<HeldCart, 'id' | 'storeId' | 'createdAt' | 'expiresAt'>,
+    expiryMinutes: number
+): Promise<string> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + expiryMinutes * 60 * 1000);
+
+    // Firestore rejects undefined fields, so optional ones are only written when set.
+    const docRef = await addDoc(collection(db, 'stores', storeId, 'heldCarts'), {
+        storeId,
+        staffId: cart.staffId,
+        staffName: cart.staffName,
+        items: cart.items,
+        discountType: cart.discountType,
+        discountValue: cart.discountValue,
+        ...(cart.customerId && { customerId: cart.customerId, customerName: cart.customerName || '' }),
+        ...(cart.notes && { notes: cart.notes }),
+        ...(cart.giftCardSales?.length && { giftCardSales: cart.giftCardSales }),
+        createdAt: now.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+    });
+    return docRef.id;
+}
+
+/**
+ * Fetches the held carts of a store that have not expired yet, newest first.
+ * Expired carts found along the way are deleted.
+ * @param storeId The ID of the store.
+ */
+export async function getHeldCarts(storeId: string): Promise<HeldCart[]> {
+    const heldCartsQuery = query(collection(db, 'stores', storeId, 'heldCarts'), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(heldCartsQuery);
+    const now = new Date().toISOString();
+
+    const heldCarts: HeldCart[] = [];
+    const expiredDeletes: Promise<void>[] = [];
+    snapshot.docs.forEach(docSnap => {
+        const heldCart = { id: docSnap.id, ...docSnap.data() } as HeldCart;
+        if (heldCart.expiresAt <= now) {
+            expiredDeletes.push(deleteDoc(docSnap.ref));
+        } else {
+            heldCarts.push(heldCart);
+        }
+    });
+
+    await Promise.all(expiredDeletes).catch(error => {
+        console.error("Error deleting expired held carts:", error);
+    });
+    return heldCarts;
+}
+
+/**
+ * Removes a held cart, e.g. after it has been recalled into the POS.
+ * @param storeId The ID of the store.
+ * @param heldCartId The ID of the held cart.
+ */
+export async function deleteHeldCart(storeId: string, heldCartId: string) {
+    await deleteDoc(doc(db, 'stores', storeId, 'heldCarts', heldCartId));
+}
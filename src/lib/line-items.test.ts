@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applyLineAdjustments, calculateLineDiscount, getLineKey, getLineTotal } from './line-items';
+import type { TransactionItem } from './types';
+
+const coffee: TransactionItem = { productId: 'kopi', productName: 'Kopi Susu', quantity: 2, price: 18000 };
+
+describe('getLineKey', () => {
+  it('keeps variants apart and ignores the order modifiers were picked in', () => {
+    const sugar = { groupId: 'g', groupName: 'Gula', optionId: 'less', optionName: 'Sedikit', priceDelta: 0 };
+    const ice = { groupId: 'i', groupName: 'Es', optionId: 'no-ice', optionName: 'Tanpa Es', priceDelta: 0 };
+    expect(getLineKey({ productId: 'kopi', modifiers: [sugar, ice] })).toBe(getLineKey({ productId: 'kopi', modifiers: [ice, sugar] }));
+    expect(getLineKey({ productId: 'kopi', variantId: 'large' })).not.toBe(getLineKey({ productId: 'kopi' }));
+  });
+});
+
+describe('calculateLineDiscount', () => {
+  it('takes a percentage of the line, capped at 100%', () => {
+    expect(calculateLineDiscount({ ...coffee, discountType: 'percent', discountValue: 10 })).toBe(3600);
+    expect(calculateLineDiscount({ ...coffee, discountType: 'percent', discountValue: 150 })).toBe(36000);
+  });
+
+  it('rounds a percentage to whole Rupiah', () => {
+    // 7.5% of 18,333 is 1,374.975.
+    expect(calculateLineDiscount({ quantity: 1, price: 18333, discountType: 'percent', discountValue: 7.5 })).toBe(1375);
+  });
+
+  it('applies a nominal discount to the whole line, never beyond its amount', () => {
+    expect(calculateLineDiscount({ ...coffee, discountType: 'nominal', discountValue: 5000 })).toBe(5000);
+    expect(calculateLineDiscount({ ...coffee, discountType: 'nominal', discountValue: 50000 })).toBe(36000);
+  });
+});
+
+describe('getLineTotal', () => {
+  it('rounds weighed lines to whole Rupiah before discounting', () => {
+    expect(getLineTotal({ price: 125, quantity: 0.333, discountType: 'nominal', discountValue: 2 })).toBe(40);
+  });
+});
+
+describe('applyLineAdjustments', () => {
+  it('keeps the catalog price when an override is overridden back to it', () => {
+    const overridden = applyLineAdjustments(coffee, 18000, { priceOverride: 15000 });
+    expect(overridden).toMatchObject({ price: 15000, originalPrice: 18000 });
+    expect(applyLineAdjustments(overridden, 18000, { priceOverride: 18000 })).not.toHaveProperty('originalPrice');
+  });
+
+  it('removes cleared adjustments instead of leaving them undefined', () => {
+    const adjusted = applyLineAdjustments(coffee, 18000, { discountValue: 10, notes: '  tanpa gula ' });
+    expect(adjusted).toMatchObject({ discountType: 'percent', discountValue: 10, notes: 'tanpa gula' });
+
+    expect(applyLineAdjustments(adjusted, 18000, { discountValue: 0, notes: ' ' })).toStrictEqual(coffee);
+  });
+});
@@ -0,0 +1,76 @@
+import type { TransactionItem } from './types';
+
+type LineAdjustments = Pick<TransactionItem, 'discountType' | 'discountValue' | 'notes'> & {
+  priceOverride?: number;
+};
+
+/**
+ * Identifies a cart line. Lines of the same product with different variants or
+ * modifiers are kept apart.
+ */
+export function getLineKey(item: Pick<TransactionItem, 'productId' | 'variantId' | 'modifiers'>): string {
+  const optionIds = (item.modifiers || []).map(modifier => modifier.optionId).sort();
+  return [item.productId, item.variantId || '', ...optionIds].join('|');
+}
+
+/**
+ * Returns a cart line's amount before its line discount, rounded to whole Rupiah
+ * since weighed quantities can produce fractions.
+ */
+export function getLineGrossAmount(item: Pick<TransactionItem, 'price' | 'quantity'>): number {
+  return Math.round(item.price * item.quantity);
+}
+
+/**
+ * Calculates the discount of a single cart line in whole Rupiah.
+ * Percent discounts are capped at 100%, nominal discounts apply to the whole
+ * line and never exceed its gross amount.
+ */
+export function calculateLineDiscount(item: Pick<TransactionItem, 'price' | 'quantity' | 'discountType' | 'discountValue'>): number {
+  const grossAmount = getLineGrossAmount(item);
+  const discountValue = item.discountValue || 0;
+  if (discountValue <= 0) return 0;
+  if (item.discountType === 'nominal') {
+    return Math.min(discountValue, grossAmount);
+  }
+  return Math.round((grossAmount * Math.min(discountValue, 100)) / 100);
+}
+
+/**
+ * Returns what a cart line contributes to the subtotal, after its line discount.
+ */
+export function getLineTotal(item: Pick<TransactionItem, 'price' | 'quantity' | 'discountType' | 'discountValue'>): number {
+  return getLineGrossAmount(item) - calculateLineDiscount(item);
+}
+
+/**
+ * Applies a price override, line discount and notes to a cart line.
+ * Cleared adjustments are removed rather than set to undefined, since Firestore
+ * rejects undefined fields.
+ * @param item The cart line to update.
+ * @param catalogPrice The product's current catalog price.
+ * @param adjustments The new adjustments for the line.
+ */
+export function applyLineAdjustments(item: TransactionItem, catalogPrice: number, adjustments: LineAdjustments): TransactionItem {
+  const isOverridden = adjustments.priceOverride !== undefined && adjustments.priceOverride !== catalogPrice;
+  const trimmedNotes = adjustments.notes?.trim();
+
+  const updated: TransactionItem = { ...item, price: isOverridden ? adjustments.priceOverride! : catalogPrice };
+  delete updated.originalPrice;
+  delete updated.discountType;
+  delete updated.discountValue;
+  delete updated.discountAmount;
+  delete updated.notes;
+
+  if (isOverridden) {
+    updated.originalPrice = catalogPrice;
+  }
+  if ((adjustments.discountValue || 0) > 0) {
+    updated.discountType = adjustments.discountType || 'percent';
+    updated.discountValue = adjustments.discountValue;
+  }
+  if (trimmedNotes) {
+    updated.notes = trimmedNotes;
+  }
+  return updated;
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { deleteQueuedCheckout, getOfflineSnapshot, getQueuedCheckouts, putQueuedCheckout, saveOfflineSnapshot } from './offline-store';
+import type { CheckoutOfflineContext, CheckoutRequest, QueuedCheckout, Transaction } from './types';
+
+const DEVICE_CODE_STORAGE_KEY = 'chika-pos-device-code';
+
+/**
+ * Generates the ID a checkout is stored under. The POS sends it with every checkout, so
+ * a sale whose response was lost can be queued and replayed without being recorded twice.
+ */
+export function createCheckoutClientId(): string {
+    return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Tells a request that never got an answer apart from one the server rejected.
+ * fetch only rejects, with a TypeError, when the network fails.
+ */
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError;
+}
+
+// Identifies this counter in provisional receipt numbers, so two devices never hand out the same one.
+function getDeviceCode(): string {
+    let deviceCode = localStorage.getItem(DEVICE_CODE_STORAGE_KEY);
+    if (!deviceCode) {
+        deviceCode = crypto.randomUUID().slice(0, 4).toUpperCase();
+        localStorage.setItem(DEVICE_CODE_STORAGE_KEY, deviceCode);
+    }
+    return deviceCode;
+}
+
+async function nextProvisionalReceiptNumber(storeId: string): Promise<string> {
+    const counter = await getOfflineSnapshot<number>(storeId, 'offlineReceiptCounter');
+    const next = (counter?.value || 0) + 1;
+    await saveOfflineSnapshot(storeId, 'offlineReceiptCounter', next);
+    return `OFF-${getDeviceCode()}-${String(next).padStart(4, '0')}`;
+}
+
+/**
+ * Queues a checkout that couldn't reach the server, to be replayed once the connection is back.
+ * @param request The checkout request, with its clientId.
+ * @param receipt The sale as previewed by the POS, printed as the provisional receipt.
+ * @param staffId The UID of the cashier.
+ * @returns The queued entry; its receipt carries the provisional receipt number.
+ */
+export async function queueOfflineCheckout(
+    request: CheckoutRequest & { clientId: string },
+    receipt: Transaction,
+    staffId: string
+): Promise<QueuedCheckout> {
+    const offline: CheckoutOfflineContext = {
+        provisionalReceiptNumber: await nextProvisionalReceiptNumber(request.storeId),
+        soldAt: receipt.createdAt,
+    };
+    const entry: QueuedCheckout = {
+        id: request.clientId,
+        storeId: request.storeId,
+        staffId,
+        request: { ...request, offline },
+        receipt: { ...receipt, offlineSync: offline },
+        status: 'queued',
+        createdAt: new Date().toISOString(),
+    };
+    await putQueuedCheckout(entry);
+    return entry;
+}
+
+export type OfflineSyncResult = {
+    synced: Transaction[];
+    failed: QueuedCheckout[];
+};
+
+/**
+ * Replays the store's queued checkouts through /api/checkout, oldest first, and stops at
+ * the first sign that the server can't be reached. Accepted sales leave the queue; a sale
+ * the server rejects is kept as 'failed' with the reason and is only replayed again when
+ * asked to, since the same request would be rejected again.
+ * @param storeId The ID of the store.
+ * @param idToken The cashier's Firebase ID token.
+ * @param includeFailed Whether to replay entries that failed before as well.
+ */
+export async function syncQueuedCheckouts(storeId: string, idToken: string, includeFailed = false): Promise<OfflineSyncResult> {
+    const entries = await getQueuedCheckouts(storeId);
+    const result: OfflineSyncResult = { synced: [], failed: [] };
+
+    for (const entry of entries) {
+        if (entry.status === 'failed' && !includeFailed) continue;
+
+        let response: Response;
+        try {
+            response = await fetch('/api/checkout', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${idToken}`,
+                },
+                body: JSON.stringify(entry.request),
+            });
+        } catch (error) {
+            if (isNetworkError(error)) break;
+            throw error;
+        }
+
+        if (response.ok) {
+            result.synced.push(await response.json());
+            await deleteQueuedCheckout(entry.id);
+            continue;
+        }
+        // An expired session or a server error says nothing about the sale itself.
+        if (response.status === 401 || response.status >= 500) break;
+
+        const errorResult = await response.json().catch(() => ({}));
+        const failedEntry: QueuedCheckout = {
+            ...entry,
+            status: 'failed',
+            error: errorResult.error || `Ditolak server (${response.status}).`,
+        };
+        await putQueuedCheckout(failedEntry);
+        result.failed.push(failedEntry);
+    }
+
+    return result;
+}
+
+/**
+ * Records that an admin has dealt with the sync conflicts of an offline sale.
+ * @param storeId The ID of the store.
+ * @param transactionId The ID of the transaction.
+ * @param reviewerId The UID of the admin.
+ */
+export async function markOfflineConflictsReviewed(storeId: string, transactionId: string, reviewerId: string) {
+    await updateDoc(doc(db, 'stores', storeId, 'transactions', transactionId), {
+        'offlineSync.conflictsReviewedAt': new Date().toISOString(),
+        'offlineSync.conflictsReviewedBy': reviewerId,
+    });
+}
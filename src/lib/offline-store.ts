@@ -0,0 +1,90 @@
+'use client';
+
+import type { QueuedCheckout } from './types';
+
+const DB_NAME = 'chika-pos-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const CHECKOUT_QUEUE = 'checkoutQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openOfflineDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+                    db.createObjectStore(SNAPSHOTS);
+                }
+                if (!db.objectStoreNames.contains(CHECKOUT_QUEUE)) {
+                    db.createObjectStore(CHECKOUT_QUEUE, { keyPath: 'id' }).createIndex('storeId', 'storeId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Runs a single request against an object store and resolves with its result once
+ * the transaction has committed.
+ */
+async function runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    const db = await openOfflineDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Keeps a copy of data the POS needs when the connection drops, such as the catalog
+ * or the store's settings. A newer snapshot replaces the previous one.
+ * @param storeId The ID of the store.
+ * @param key What the snapshot holds, e.g. 'catalog'.
+ * @param value The data; it must be structured-cloneable.
+ */
+export async function saveOfflineSnapshot<T>(storeId: string, key: string, value: T): Promise<void> {
+    await runRequest(SNAPSHOTS, 'readwrite', store => store.put({ value, savedAt: new Date().toISOString() }, `${storeId}:${key}`));
+}
+
+/**
+ * Reads the last snapshot saved under a key.
+ * @returns The data and when it was saved, or null if nothing was saved yet.
+ */
+export async function getOfflineSnapshot<T>(storeId: string, key: string): Promise<{ value: T; savedAt: string } | null> {
+    const snapshot = await runRequest<{ value: T; savedAt: string } | undefined>(SNAPSHOTS, 'readonly', store => store.get(`${storeId}:${key}`));
+    return snapshot || null;
+}
+
+export async function putQueuedCheckout(entry: QueuedCheckout): Promise<void> {
+    await runRequest(CHECKOUT_QUEUE, 'readwrite', store => store.put(entry));
+}
+
+export async function deleteQueuedCheckout(id: string): Promise<void> {
+    await runRequest(CHECKOUT_QUEUE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Fetches the checkouts of a store still waiting on this device, oldest first, so
+ * they are replayed in the order they were sold.
+ * @param storeId The ID of the store.
+ */
+export async function getQueuedCheckouts(storeId: string): Promise<QueuedCheckout[]> {
+    const entries = await runRequest<QueuedCheckout[]>(CHECKOUT_QUEUE, 'readonly', store => store.index('storeId').getAll(storeId));
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { formatTenders, getTransactionPayments, isPaidTransaction, summarizeTenders } from './payments';
+
+describe('getTransactionPayments', () => {
+  it('returns the recorded tenders', () => {
+    const payments = [{ method: 'Cash' as const, amount: 30000 }, { method: 'QRIS' as const, amount: 20000 }];
+    expect(getTransactionPayments({ payments, paymentMethod: 'Split', totalAmount: 50000 })).toEqual(payments);
+  });
+
+  it('treats a transaction from before split payments as one tender for the total', () => {
+    expect(getTransactionPayments({ paymentMethod: 'Card', totalAmount: 45000 })).toEqual([{ method: 'Card', amount: 45000 }]);
+  });
+});
+
+describe('isPaidTransaction', () => {
+  it('leaves out sales waiting for or cancelled before payment', () => {
+    expect(isPaidTransaction({ status: 'Selesai' })).toBe(true);
+    expect(isPaidTransaction({ status: 'Menunggu Pembayaran' })).toBe(false);
+    expect(isPaidTransaction({ status: 'Dibatalkan' })).toBe(false);
+  });
+});
+
+describe('summarizeTenders', () => {
+  it('gives change on the cash part of a split payment', () => {
+    const summary = summarizeTenders([{ method: 'Cash', amount: 30000 }, { method: 'Card', amount: 20000 }], 50000, 50000);
+    expect(summary).toEqual({ paidAmount: 50000, cashAmount: 30000, remainingAmount: 0, changeAmount: 20000 });
+  });
+
+  it('reports what is still due', () => {
+    expect(summarizeTenders([{ method: 'QRIS', amount: 15000 }], 40000).remainingAmount).toBe(25000);
+  });
+
+  it('ignores rounding noise below one sen', () => {
+    const summary = summarizeTenders([{ method: 'Cash', amount: 0.1 + 0.2 }], 0.3, 0.3);
+    expect(summary.remainingAmount).toBe(0);
+    expect(summary.changeAmount).toBe(0);
+  });
+});
+
+describe('formatTenders', () => {
+  it('lists each tender with its label and gift card code', () => {
+    expect(formatTenders([
+      { method: 'Cash', amount: 50000 },
+      { method: 'GiftCard', amount: 20000, giftCardCode: 'GC-1234' },
+    ])).toBe('Tunai: Rp 50.000, Gift Card GC-1234: Rp 20.000');
+  });
+});
@@ -0,0 +1,65 @@
+import type { PaymentMethod, PaymentTender, Transaction } from './types';
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  Cash: 'Tunai',
+  Card: 'Kartu',
+  QRIS: 'QRIS',
+  GiftCard: 'Gift Card',
+};
+
+// Amounts are in Rupiah; anything below one sen is treated as rounding noise.
+const EPSILON = 0.01;
+
+/**
+ * Returns the tenders of a transaction.
+ * Transactions recorded before split payments only carry `paymentMethod`,
+ * so they are treated as a single tender covering the full total.
+ */
+export function getTransactionPayments(transaction: Pick<Transaction, 'payments' | 'paymentMethod' | 'totalAmount'>): PaymentTender[] {
+  if (transaction.payments && transaction.payments.length > 0) {
+    return transaction.payments;
+  }
+  const method = transaction.paymentMethod === 'Split' ? 'Cash' : transaction.paymentMethod;
+  return [{ method, amount: transaction.totalAmount }];
+}
+
+/**
+ * Whether a transaction has been paid and counts towards sales.
+ * Sales still waiting for a dynamic QRIS payment, and those whose QRIS expired
+ * or was cancelled, are kept for the record but never counted as revenue.
+ */
+export function isPaidTransaction(transaction: Pick<Transaction, 'status'>): boolean {
+  return transaction.status !== 'Menunggu Pembayaran' && transaction.status !== 'Dibatalkan';
+}
+
+/**
+ * Summarises a list of tenders against the amount due.
+ * @param tenders The tenders entered by the cashier.
+ * @param totalAmount The amount the customer has to pay.
+ * @param cashTendered The cash physically handed over, if any.
+ * @returns The amount paid, the amount still due, the cash portion of the bill and the change due.
+ */
+export function summarizeTenders(tenders: PaymentTender[], totalAmount: number, cashTendered?: number) {
+  const paidAmount = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  const cashAmount = tenders
+    .filter(tender => tender.method === 'Cash')
+    .reduce((sum, tender) => sum + tender.amount, 0);
+  const remainingAmount = totalAmount - paidAmount;
+  const changeAmount = cashTendered !== undefined ? cashTendered - cashAmount : 0;
+
+  return {
+    paidAmount,
+    cashAmount,
+    remainingAmount: Math.abs(remainingAmount) < EPSILON ? 0 : remainingAmount,
+    changeAmount: Math.abs(changeAmount) < EPSILON ? 0 : changeAmount,
+  };
+}
+
+/**
+ * Formats tenders as a single line, e.g. "Tunai: Rp 50.000, QRIS: Rp 20.000".
+ */
+export function formatTenders(tenders: PaymentTender[]): string {
+  return tenders
+    .map(tender => `${paymentMethodLabels[tender.method]}${tender.giftCardCode ? ` ${tender.giftCardCode}` : ''}: Rp ${tender.amount.toLocaleString('id-ID')}`)
+    .join(', ');
+}
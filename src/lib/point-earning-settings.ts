@@ -5,11 +5,13 @@ import { db } from './firebase';
 
 export type PointEarningSettings = {
     rpPerPoint: number;
+    rpPerRedeemedPoint: number;
 };
 
 // Default settings if a store doesn't have any defined.
 export const defaultPointEarningSettings: PointEarningSettings = {
     rpPerPoint: 10000, // Default: 1 point for every Rp 10.000 spent
+    rpPerRedeemedPoint: 0, // Default: points can only be redeemed through redemption options
 };
 
 /**
@@ -0,0 +1,56 @@
+'use client';
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import type { PosSettings } from './types';
+
+// Default settings if a store doesn't have any defined.
+export const defaultPosSettings: PosSettings = {
+    heldCartExpiryMinutes: 240, // Default: held carts are kept for 4 hours
+    scaleBarcodeValue: 'weight', // Default: scale labels carry the weight in grams
+    dynamicQrisEnabled: false, // Default: QRIS is the store's static QR, confirmed by the cashier
+    giftCardExpiryMonths: 12, // Default: gift cards and store credit expire a year after issue
+};
+
+/**
+ * Fetches POS settings for a specific store from Firestore.
+ * @param storeId The ID of the store.
+ * @returns The store's specific POS settings, or default settings if not found.
+ */
+export async function getPosSettings(storeId: string): Promise<PosSettings> {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        const docSnap = await getDoc(storeDocRef);
+
+        if (docSnap.exists()) {
+            const storeData = docSnap.data();
+            // Merge store settings with defaults to ensure all fields are present
+            return { ...defaultPosSettings, ...storeData.posSettings };
+        } else {
+            console.warn(`Store with ID ${storeId} not found. Using default POS settings.`);
+            return defaultPosSettings;
+        }
+    } catch (error) {
+        console.error("Error fetching POS settings:", error);
+        return defaultPosSettings;
+    }
+}
+
+/**
+ * Updates or creates POS settings for a specific store in Firestore.
+ * @param storeId The ID of the store to update.
+ * @param newSettings An object containing the settings to update.
+ */
+export async function updatePosSettings(storeId: string, newSettings: Partial<PosSettings>) {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        await setDoc(storeDocRef, {
+            posSettings: newSettings
+        }, { merge: true });
+
+        console.log(`POS settings updated for store ${storeId}.`);
+    } catch (error) {
+        console.error(`Error updating POS settings for store ${storeId}:`, error);
+        throw error; // Re-throw the error to be handled by the caller
+    }
+}
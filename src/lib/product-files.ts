@@ -0,0 +1,97 @@
+'use client';
+
+import Papa from 'papaparse';
+import { productFileColumns, toProductFileRows } from './product-import';
+import type { Product } from './types';
+
+export type ProductFileFormat = 'csv' | 'xlsx';
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+// ExcelJS is only loaded when a spreadsheet is actually read or written.
+async function loadExcelJS() {
+    return (await import('exceljs')).default;
+}
+
+/**
+ * Reads the rows of a CSV or Excel file, keyed by the header row. Only the first sheet of
+ * a workbook is read.
+ * @param file A .csv or .xlsx file.
+ */
+export async function readProductFile(file: File): Promise<Record<string, unknown>[]> {
+    if (file.name.toLowerCase().endsWith('.csv')) {
+        return new Promise((resolve, reject) => {
+            Papa.parse<Record<string, unknown>>(file, {
+                header: true,
+                skipEmptyLines: 'greedy',
+                complete: (results) => resolve(results.data),
+                error: reject,
+            });
+        });
+    }
+    if (!file.name.toLowerCase().endsWith('.xlsx')) {
+        throw new Error('Format file harus .csv atau .xlsx.');
+    }
+
+    const ExcelJS = await loadExcelJS();
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, columnNumber) => {
+        headers[columnNumber] = cell.text.trim();
+    });
+    const rows: Record<string, unknown>[] = [];
+    sheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+        const record: Record<string, unknown> = {};
+        row.eachCell((cell, columnNumber) => {
+            const header = headers[columnNumber];
+            if (!header) return;
+            // Numbers are kept as numbers; anything else, formulas and links included, as shown.
+            // Barcodes are always read as shown, so a barcode stored as a number keeps its leading zeros.
+            const isBarcode = header.replace(/\s/g, '').toLowerCase() === 'barcode';
+            record[header] = typeof cell.value === 'number' && !isBarcode ? cell.value : cell.text;
+        });
+        rows.push(record);
+    });
+    return rows;
+}
+
+/**
+ * Downloads products in the import file format, so the file can be edited and imported back.
+ * @param products The products to export.
+ * @param format The file format.
+ * @param filename The file name, without extension.
+ */
+export async function downloadProductFile(products: Product[], format: ProductFileFormat, filename: string) {
+    const rows = toProductFileRows(products);
+    if (format === 'csv') {
+        const csv = Papa.unparse({ fields: [...productFileColumns], data: rows.map(row => productFileColumns.map(column => row[column])) });
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${filename}.csv`);
+        return;
+    }
+
+    const ExcelJS = await loadExcelJS();
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Produk');
+    sheet.columns = productFileColumns.map(column => ({ header: column, key: column, width: column === 'name' || column === 'imageUrl' ? 40 : 16 }));
+    sheet.getRow(1).font = { bold: true };
+    // Barcodes are text, so leading zeros survive the round trip.
+    sheet.getColumn('barcode').numFmt = '@';
+    sheet.addRows(rows);
+    const buffer = await workbook.xlsx.writeBuffer();
+    downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${filename}.xlsx`);
+}
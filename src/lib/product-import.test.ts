@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount, parseNumber, toProductChanges, toProductFileRecords, toProductFileRows, validateProductImport } from './product-import';
+import { makeProduct } from './test-fixtures';
+
+const kaos = makeProduct({ id: 'kaos', name: 'Kaos Polos', category: 'Pakaian', stock: 12, price: 75000, costPrice: 40000, attributes: { brand: 'Pradana', barcode: '0089001' } });
+const topi = makeProduct({ id: 'topi', name: 'Topi', category: 'Aksesoris', stock: 4, price: 50000, attributes: { brand: 'Pradana', barcode: '0089002' } });
+const latte = makeProduct({
+  id: 'latte',
+  name: 'Latte',
+  stock: 30,
+  attributes: { brand: 'Kedai' },
+  variants: [{ id: 'large', name: 'Large', priceDelta: 5000, stock: 30, barcode: '0089003' }],
+});
+const products = [kaos, topi, latte];
+
+function makeRecord(overrides: Record<string, unknown>) {
+  return { name: 'Kaos Polos', category: 'pakaian', price: '75000', brand: 'Pradana', ...overrides };
+}
+
+describe('parseNumber', () => {
+  it('reads Indonesian thousands separators and decimal commas', () => {
+    expect(parseNumber('1.500.000')).toBe(1500000);
+    expect(parseNumber('1.500,5')).toBe(1500.5);
+    expect(parseNumber('Rp 75.000,00')).toBe(75000);
+    expect(parseNumber('2,5')).toBe(2.5);
+  });
+
+  it('reads a single dot as a decimal point', () => {
+    expect(parseNumber('1.500')).toBe(1.5);
+    expect(parseNumber('15000.5')).toBe(15000.5);
+  });
+
+  it('keeps numbers, skips blanks and flags text', () => {
+    expect(parseNumber(42)).toBe(42);
+    expect(parseNumber('  ')).toBeUndefined();
+    expect(parseNumber(null)).toBeUndefined();
+    expect(parseNumber('dua')).toBeNaN();
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads a dot followed by three digits as a thousands separator', () => {
+    expect(parseAmount('15.000')).toBe(15000);
+    expect(parseAmount('Rp 7.500')).toBe(7500);
+    expect(parseAmount('1.500.000')).toBe(1500000);
+  });
+
+  it('reads everything else as parseNumber does', () => {
+    expect(parseAmount('15000.5')).toBe(15000.5);
+    expect(parseAmount('2,5')).toBe(2.5);
+    expect(parseAmount(15000)).toBe(15000);
+    expect(parseAmount('')).toBeUndefined();
+  });
+});
+
+describe('toProductFileRecords', () => {
+  it('matches headers regardless of case and spacing', () => {
+    expect(toProductFileRecords([{ 'Cost Price': '1000', NAME: 'Kaos', extra: 'x' }])).toEqual([{ costPrice: '1000', name: 'Kaos' }]);
+  });
+});
+
+describe('validateProductImport', () => {
+  it('matches rows on id first and on barcode only without one', () => {
+    const rows = validateProductImport([
+      makeRecord({ id: 'kaos', barcode: '' }),
+      makeRecord({ name: 'Topi Baru', category: 'Aksesoris', barcode: '0089002' }),
+      makeRecord({ name: 'Kemeja', barcode: '0089009' }),
+    ], products);
+    expect(rows.map(row => [row.rowNumber, row.existingProduct?.id, row.errors])).toEqual([
+      [2, 'kaos', []],
+      [3, 'topi', []],
+      [4, undefined, []],
+    ]);
+    expect(rows[0].data).toStrictEqual({ name: 'Kaos Polos', category: 'Pakaian', price: 75000, brand: 'Pradana', barcode: '' });
+  });
+
+  it('reads prices typed with a thousands separator', () => {
+    const [row] = validateProductImport([makeRecord({ price: '15.000', costPrice: '9.500' })], products);
+    expect(row.errors).toEqual([]);
+    expect(row.data).toMatchObject({ price: 15000, costPrice: 9500 });
+  });
+
+  it('rejects unknown and repeated ids', () => {
+    const rows = validateProductImport([makeRecord({ id: 'hilang' }), makeRecord({ id: 'kaos' }), makeRecord({ id: 'kaos' })], products);
+    expect(rows[0].errors).toEqual(['Produk dengan id hilang tidak ditemukan. Kosongkan id untuk menambah produk baru.']);
+    expect(rows[1].errors).toEqual([]);
+    expect(rows[2].errors).toEqual(['Id kaos sudah dipakai di baris 3.']);
+  });
+
+  it('rejects barcodes taken by another product, a variant or an earlier row', () => {
+    const rows = validateProductImport([
+      makeRecord({ id: 'kaos', barcode: '0089002' }),
+      makeRecord({ name: 'Es Kopi', barcode: '0089003' }),
+      makeRecord({ name: 'Kemeja', barcode: '0089009' }),
+      makeRecord({ name: 'Kemeja Putih', barcode: '0089009' }),
+    ], products);
+    expect(rows.map(row => row.errors)).toEqual([
+      ['Barcode 0089002 sudah dipakai Topi.'],
+      ['Barcode 0089003 milik varian Large dari Latte.'],
+      [],
+      ['Barcode 0089009 sudah dipakai di baris 4.'],
+    ]);
+  });
+
+  it('checks required fields and values', () => {
+    const [row] = validateProductImport([{ name: 'K', category: 'Sembako', price: '-1', costPrice: 'abc', brand: '', imageUrl: 'ftp://x', stock: '1,5' }], products);
+    expect(row.errors).toEqual([
+      'Nama harus minimal 2 karakter.',
+      expect.stringContaining('Kategori harus salah satu dari'),
+      'Harga harus berupa angka 0 atau lebih.',
+      'Harga pokok harus berupa angka 0 atau lebih.',
+      'Merek harus minimal 2 karakter.',
+      'URL gambar harus diawali http:// atau https://.',
+      'Stok harus berupa bilangan bulat 0 atau lebih.',
+    ]);
+  });
+
+  it('refuses to change the stock of a product tracked per variant', () => {
+    const latteRecord = makeRecord({ id: 'latte', name: 'Latte', category: 'Lainnya', brand: 'Kedai' });
+    const [unchanged] = validateProductImport([{ ...latteRecord, stock: '30' }], products);
+    expect(unchanged.errors).toEqual([]);
+    expect(unchanged.data.stock).toBeUndefined();
+    const [changed] = validateProductImport([{ ...latteRecord, stock: '25' }], products);
+    expect(changed.errors).toEqual(['Stok Latte tidak dapat diubah lewat impor karena dihitung per varian.']);
+  });
+});
+
+describe('toProductChanges', () => {
+  it('leaves blank optional fields alone', () => {
+    expect(toProductChanges({ name: 'Kaos Polos', category: 'Pakaian', price: 80000, brand: 'Pradana', barcode: '' })).toStrictEqual({
+      name: 'Kaos Polos',
+      category: 'Pakaian',
+      price: 80000,
+      'attributes.brand': 'Pradana',
+    });
+  });
+});
+
+describe('toProductFileRows', () => {
+  it('exports rows that import back onto the same products unchanged', () => {
+    const rows = toProductFileRows(products);
+    expect(rows.map(row => row.id)).toEqual(['kaos', 'latte', 'topi']);
+    expect(rows[0]).toStrictEqual({
+      id: 'kaos',
+      name: 'Kaos Polos',
+      category: 'Pakaian',
+      price: 75000,
+      costPrice: 40000,
+      stock: 12,
+      brand: 'Pradana',
+      barcode: '0089001',
+      imageUrl: '',
+    });
+    const imported = validateProductImport(toProductFileRecords(rows), products);
+    expect(imported.map(row => [row.existingProduct?.id, row.errors])).toEqual([['kaos', []], ['latte', []], ['topi', []]]);
+  });
+});
@@ -0,0 +1,217 @@
+import { isBundleProduct } from './bundles';
+import { findProductByBarcode } from './product-options';
+import { isValidQuantity, roundQuantity } from './units';
+import { productCategories, type Product, type ProductCategory } from './types';
+
+// The columns of an import or export file, in order. Exported catalogs import back as they are:
+// the id column ties each row to its product, and is left blank for new products.
+export const productFileColumns = ['id', 'name', 'category', 'price', 'costPrice', 'stock', 'brand', 'barcode', 'imageUrl'] as const;
+
+export type ProductFileColumn = (typeof productFileColumns)[number];
+
+export type ProductFileRecord = Record<ProductFileColumn, string | number>;
+
+// The fields an import row writes. Optional fields left blank keep an existing product's value.
+export type ProductImportData = {
+  name: string;
+  category: ProductCategory;
+  price: number;
+  costPrice?: number;
+  stock?: number;
+  brand: string;
+  barcode: string;
+  imageUrl?: string;
+};
+
+export type ProductImportRow = {
+  rowNumber: number; // As shown in a spreadsheet, the header being row 1
+  data: ProductImportData;
+  existingProduct?: Product; // Updated in place when the id, or without one the barcode, matches; otherwise a new product is added
+  errors: string[];
+};
+
+function getText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Reads a number typed either plainly ("15000.5") or the Indonesian way ("15.000,5"). Dots
+ * are only read as thousands separators where they can't be a decimal point, as in
+ * "1.500.000" or "1.500,00", so "1.500" is one and a half.
+ * Returns undefined for an empty cell and NaN for anything else that isn't a number.
+ */
+export function parseNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const text = getText(value).replace(/\s|Rp/gi, '');
+  if (!text) return undefined;
+  const isGrouped = /^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text) && (text.includes(',') || text.split('.').length > 2);
+  const normalized = isGrouped
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(',', '.');
+  return Number(normalized);
+}
+
+/**
+ * Reads a Rupiah amount like parseNumber, except that a single dot followed by exactly three
+ * digits, as in "15.000", is a thousands separator: prices don't come in thousandths of a Rupiah.
+ */
+export function parseAmount(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const text = getText(value).replace(/\s|Rp/gi, '');
+  return /^-?\d{1,3}\.\d{3}$/.test(text) ? Number(text.replace('.', '')) : parseNumber(text);
+}
+
+/**
+ * Maps rows read from a file onto the known columns. Headers are matched regardless of
+ * case and spacing; unknown columns are ignored.
+ */
+export function toProductFileRecords(rows: Record<string, unknown>[]): Partial<Record<ProductFileColumn, unknown>>[] {
+  return rows.map(row => {
+    const record: Partial<Record<ProductFileColumn, unknown>> = {};
+    Object.entries(row).forEach(([header, value]) => {
+      const column = productFileColumns.find(candidate => candidate.toLowerCase() === header.replace(/\s/g, '').toLowerCase());
+      if (column) record[column] = value;
+    });
+    return record;
+  });
+}
+
+/**
+ * Validates the rows of an import file and matches them to existing products by id, or by
+ * barcode for rows without one. Rows with errors are reported and left out of the import.
+ * @param records The rows, from toProductFileRecords.
+ * @param products The store's current products.
+ */
+export function validateProductImport(records: Partial<Record<ProductFileColumn, unknown>>[], products: Product[]): ProductImportRow[] {
+  const seenIds = new Map<string, number>();
+  const seenBarcodes = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const id = getText(record.id);
+    const name = getText(record.name);
+    const brand = getText(record.brand);
+    const barcode = getText(record.barcode);
+    const imageUrl = getText(record.imageUrl);
+    const categoryText = getText(record.category);
+    const category = productCategories.find(candidate => candidate.toLowerCase() === categoryText.toLowerCase());
+    const price = parseAmount(record.price);
+    const costPrice = parseAmount(record.costPrice);
+    const stock = parseNumber(record.stock);
+
+    if (name.length < 2) errors.push('Nama harus minimal 2 karakter.');
+    if (!category) errors.push(`Kategori harus salah satu dari: ${productCategories.join(', ')}.`);
+    if (price === undefined || !Number.isFinite(price) || price < 0) errors.push('Harga harus berupa angka 0 atau lebih.');
+    if (costPrice !== undefined && (!Number.isFinite(costPrice) || costPrice < 0)) errors.push('Harga pokok harus berupa angka 0 atau lebih.');
+    if (brand.length < 2) errors.push('Merek harus minimal 2 karakter.');
+    if (imageUrl && !/^https?:\/\//i.test(imageUrl)) errors.push('URL gambar harus diawali http:// atau https://.');
+
+    let existingProduct: Product | undefined;
+    if (id) {
+      const duplicateRow = seenIds.get(id);
+      if (duplicateRow) errors.push(`Id ${id} sudah dipakai di baris ${duplicateRow}.`);
+      seenIds.set(id, duplicateRow || rowNumber);
+      existingProduct = products.find(product => product.id === id);
+      if (!existingProduct) errors.push(`Produk dengan id ${id} tidak ditemukan. Kosongkan id untuk menambah produk baru.`);
+    }
+    if (barcode) {
+      const duplicateRow = seenBarcodes.get(barcode);
+      if (duplicateRow) errors.push(`Barcode ${barcode} sudah dipakai di baris ${duplicateRow}.`);
+      seenBarcodes.set(barcode, duplicateRow || rowNumber);
+      const match = findProductByBarcode(products, barcode);
+      if (match?.variant) {
+        errors.push(`Barcode ${barcode} milik varian ${match.variant.name} dari ${match.product.name}.`);
+      } else if (match && existingProduct && match.product.id !== existingProduct.id) {
+        errors.push(`Barcode ${barcode} sudah dipakai ${match.product.name}.`);
+      }
+      if (!id) existingProduct = match && !match.variant ? match.product : undefined;
+    }
+
+    // Bundles take their stock from their components, and tracked variants hold their own.
+    const ownsStock = !existingProduct || (!isBundleProduct(existingProduct)
+      && !(existingProduct.variants || []).some(variant => variant.stock !== undefined));
+    if (stock !== undefined) {
+      const unit = existingProduct?.unit;
+      if (!Number.isFinite(stock) || stock < 0 || (stock > 0 && !isValidQuantity(stock, unit))) {
+        errors.push(unit && unit !== 'pcs' ? 'Stok harus berupa angka 0 atau lebih.' : 'Stok harus berupa bilangan bulat 0 atau lebih.');
+      } else if (!ownsStock && roundQuantity(stock, unit) !== existingProduct!.stock) {
+        errors.push(`Stok ${existingProduct!.name} tidak dapat diubah lewat impor karena ${isBundleProduct(existingProduct!) ? 'mengikuti isi paketnya' : 'dihitung per varian'}.`);
+      }
+    }
+
+    return {
+      rowNumber,
+      data: {
+        name,
+        category: category || 'Lainnya',
+        price: price || 0,
+        ...(costPrice !== undefined && { costPrice }),
+        ...(stock !== undefined && ownsStock && { stock }),
+        brand,
+        barcode,
+        ...(imageUrl && { imageUrl }),
+      },
+      ...(existingProduct && { existingProduct }),
+      errors,
+    };
+  });
+}
+
+/**
+ * Builds a new product from an import row. Products imported without an image get a
+ * placeholder showing their name until one is uploaded.
+ */
+export function toNewProduct(data: ProductImportData): Omit<Product, 'id'> {
+  return {
+    name: data.name,
+    category: data.category,
+    description: '',
+    price: data.price,
+    costPrice: data.costPrice ?? 0,
+    unit: 'pcs',
+    stock: data.stock ?? 0,
+    supplierId: '',
+    imageUrl: data.imageUrl || `https://placehold.co/400x400.png?text=${encodeURIComponent(data.name)}`,
+    imageHint: '',
+    attributes: {
+      brand: data.brand,
+      barcode: data.barcode,
+    },
+  };
+}
+
+/**
+ * Returns the fields an import row changes on the product it matched.
+ */
+export function toProductChanges(data: ProductImportData): Partial<Pick<Product, 'stock'>> & Record<string, unknown> {
+  return {
+    name: data.name,
+    category: data.category,
+    price: data.price,
+    'attributes.brand': data.brand,
+    ...(data.barcode && { 'attributes.barcode': data.barcode }),
+    ...(data.costPrice !== undefined && { costPrice: data.costPrice }),
+    ...(data.stock !== undefined && { stock: data.stock }),
+    ...(data.imageUrl && { imageUrl: data.imageUrl }),
+  };
+}
+
+/**
+ * Lays out products in the import file format.
+ */
+export function toProductFileRows(products: Product[]): ProductFileRecord[] {
+  return [...products]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(product => ({
+      id: product.id,
+      name: product.name,
+      category: product.category,
+      price: product.price,
+      costPrice: product.costPrice || 0,
+      stock: product.stock || 0,
+      brand: product.attributes.brand,
+      barcode: product.attributes.barcode || '',
+      imageUrl: product.imageUrl || '',
+    }));
+}
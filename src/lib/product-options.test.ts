@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { findProductByBarcode, getAvailableStock, resolveProductSelection } from './product-options';
+import type { Product } from './types';
+
+const latte: Product = {
+  id: 'latte',
+  name: 'Latte',
+  category: 'Lainnya',
+  stock: 30,
+  price: 25000,
+  costPrice: 9000,
+  supplierId: '',
+  imageUrl: '',
+  imageHint: '',
+  attributes: { brand: 'Kedai', barcode: '8990001' },
+  variantLabel: 'Ukuran',
+  variants: [
+    { id: 'regular', name: 'Regular', priceDelta: 0, stock: 20, barcode: '8990002' },
+    { id: 'large', name: 'Large', priceDelta: 5000, stock: 10 },
+  ],
+  modifierGroups: [
+    { id: 'milk', name: 'Susu', required: true, multiple: false, options: [{ id: 'oat', name: 'Oat', priceDelta: 6000 }, { id: 'fresh', name: 'Fresh', priceDelta: 0 }] },
+    { id: 'extra', name: 'Tambahan', required: false, multiple: true, options: [{ id: 'shot', name: 'Extra Shot', priceDelta: 4000 }, { id: 'syrup', name: 'Sirup', priceDelta: 3000 }] },
+  ],
+};
+
+describe('resolveProductSelection', () => {
+  it('prices the variant and every chosen modifier', () => {
+    const selection = resolveProductSelection(latte, 'large', ['oat', 'shot', 'syrup']);
+    expect(selection.unitPrice).toBe(25000 + 5000 + 6000 + 4000 + 3000);
+    expect(selection.modifiers.map(modifier => modifier.optionName)).toEqual(['Oat', 'Extra Shot', 'Sirup']);
+  });
+
+  it('asks for the variant and required groups', () => {
+    expect(() => resolveProductSelection(latte, undefined, ['oat'])).toThrow('Pilih Ukuran untuk Latte.');
+    expect(() => resolveProductSelection(latte, 'regular')).toThrow('Pilih Susu untuk Latte.');
+  });
+
+  it('rejects two options of a single-choice group and options of another product', () => {
+    expect(() => resolveProductSelection(latte, 'regular', ['oat', 'fresh'])).toThrow('Hanya satu pilihan Susu');
+    expect(() => resolveProductSelection(latte, 'regular', ['fresh', 'boba'])).toThrow('tidak valid');
+  });
+});
+
+describe('getAvailableStock', () => {
+  it('uses a variant stock of its own, otherwise the product stock', () => {
+    expect(getAvailableStock(latte, 'large')).toBe(10);
+    expect(getAvailableStock({ stock: 7, variants: [{ id: 'a', name: 'A', priceDelta: 0 }] }, 'a')).toBe(7);
+  });
+});
+
+describe('findProductByBarcode', () => {
+  it('tells a variant barcode from the product barcode', () => {
+    expect(findProductByBarcode([latte], '8990002')).toMatchObject({ product: latte, variant: { id: 'regular' } });
+    expect(findProductByBarcode([latte], '8990001')).toEqual({ product: latte });
+    expect(findProductByBarcode([latte], '000')).toBeUndefined();
+  });
+});
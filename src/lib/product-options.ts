@@ -0,0 +1,94 @@
+import type { Product, ProductVariant, ReceiptItem, SelectedModifier } from './types';
+
+export type ProductSelection = {
+  variant?: ProductVariant;
+  modifiers: SelectedModifier[];
+  unitPrice: number;
+};
+
+/**
+ * Whether a product needs the cashier or customer to pick options before it can be sold.
+ */
+export function hasProductOptions(product: Pick<Product, 'variants' | 'modifierGroups'>): boolean {
+  return (product.variants?.length || 0) > 0 || (product.modifierGroups?.length || 0) > 0;
+}
+
+/**
+ * Resolves a variant and modifier choice against a product and prices it.
+ * @param product The product being sold.
+ * @param variantId The chosen variant, required when the product has variants.
+ * @param modifierOptionIds The chosen modifier options across all groups.
+ * @returns The chosen variant, the chosen modifiers and the resulting unit price.
+ * @throws Error with a user-facing message if the selection is incomplete or invalid.
+ */
+export function resolveProductSelection(product: Product, variantId?: string, modifierOptionIds: string[] = []): ProductSelection {
+  const variants = product.variants || [];
+  let variant: ProductVariant | undefined;
+  if (variants.length > 0) {
+    variant = variants.find(v => v.id === variantId);
+    if (!variant) {
+      throw new Error(`Pilih ${product.variantLabel || 'varian'} untuk ${product.name}.`);
+    }
+  } else if (variantId) {
+    throw new Error(`${product.name} tidak memiliki varian.`);
+  }
+
+  const modifiers: SelectedModifier[] = [];
+  const remainingIds = new Set(modifierOptionIds);
+  for (const group of product.modifierGroups || []) {
+    const chosen = group.options.filter(option => remainingIds.has(option.id));
+    chosen.forEach(option => remainingIds.delete(option.id));
+
+    if (group.required && chosen.length === 0) {
+      throw new Error(`Pilih ${group.name} untuk ${product.name}.`);
+    }
+    if (!group.multiple && chosen.length > 1) {
+      throw new Error(`Hanya satu pilihan ${group.name} yang diperbolehkan.`);
+    }
+    chosen.forEach(option => modifiers.push({
+      groupId: group.id,
+      groupName: group.name,
+      optionId: option.id,
+      optionName: option.name,
+      priceDelta: option.priceDelta,
+    }));
+  }
+  if (remainingIds.size > 0) {
+    throw new Error(`Pilihan tambahan untuk ${product.name} tidak valid.`);
+  }
+
+  const unitPrice = product.price
+    + (variant?.priceDelta || 0)
+    + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0);
+  return { variant, modifiers, unitPrice };
+}
+
+/**
+ * Returns the stock available for a product or one of its variants.
+ * Variants without their own stock share the product's stock.
+ */
+export function getAvailableStock(product: Pick<Product, 'stock' | 'variants'>, variantId?: string): number {
+  const variant = product.variants?.find(v => v.id === variantId);
+  return variant?.stock ?? product.stock;
+}
+
+/**
+ * Finds the product, and variant if any, that a scanned barcode belongs to.
+ */
+export function findProductByBarcode(products: Product[], barcode: string): { product: Product; variant?: ProductVariant } | undefined {
+  for (const product of products) {
+    const variant = product.variants?.find(v => v.barcode && v.barcode === barcode);
+    if (variant) return { product, variant };
+    if (product.attributes.barcode === barcode) return { product };
+  }
+  return undefined;
+}
+
+/**
+ * Formats the chosen variant and modifiers of an item, e.g. "Large, Extra Shot".
+ */
+export function formatItemOptions(item: Pick<ReceiptItem, 'variantName' | 'modifiers'>): string {
+  return [item.variantName, ...(item.modifiers || []).map(modifier => modifier.optionName)]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { describePromotionRule, evaluatePromotions, isPromotionRuleActive } from './promotion-engine';
+import type { PromotionRule } from './types';
+
+function makeRule(overrides: Partial<PromotionRule>): PromotionRule {
+  return {
+    id: 'rule',
+    name: 'Promo',
+    type: 'category-discount',
+    isActive: true,
+    discountType: 'percent',
+    discountValue: 10,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const happyHour = makeRule({
+  id: 'happy',
+  name: 'Happy Hour',
+  type: 'happy-hour',
+  discountValue: 20,
+  schedule: { days: [1, 2, 3, 4, 5], startTime: '15:00', endTime: '17:00' },
+});
+const clothing = makeRule({ id: 'pakaian', name: 'Diskon Pakaian', category: 'Pakaian' });
+const buyTwoGetOne = makeRule({ id: 'b2g1', name: 'Beli 2 Gratis 1', type: 'buy-x-get-y', discountValue: 100, buyQuantity: 2, getQuantity: 1, productIds: ['kaos', 'kemeja'] });
+const minSpend = makeRule({ id: 'min', name: 'Belanja Hemat', type: 'min-spend', discountType: 'nominal', discountValue: 5000, minSpend: 40000 });
+
+const products = [
+  { id: 'kaos', category: 'Pakaian' as const },
+  { id: 'kemeja', category: 'Pakaian' as const },
+  { id: 'topi', category: 'Aksesoris' as const },
+];
+
+// Friday 7 March 2025, 15:30 in Jakarta.
+const fridayAfternoon = new Date('2025-03-07T08:30:00Z');
+
+describe('isPromotionRuleActive', () => {
+  it('reads the schedule on the store clock', () => {
+    expect(isPromotionRuleActive(happyHour, fridayAfternoon)).toBe(true);
+    expect(isPromotionRuleActive(happyHour, new Date('2025-03-07T07:30:00Z'))).toBe(false);
+    expect(isPromotionRuleActive(happyHour, new Date('2025-03-08T08:30:00Z'))).toBe(false);
+    expect(isPromotionRuleActive({ ...happyHour, isActive: false }, fridayAfternoon)).toBe(false);
+  });
+
+  it('handles windows past midnight and inclusive end dates', () => {
+    const lateNight = makeRule({ type: 'happy-hour', schedule: { days: [], startTime: '22:00', endTime: '02:00' } });
+    // 01:30 on Saturday in Jakarta.
+    expect(isPromotionRuleActive(lateNight, new Date('2025-03-07T18:30:00Z'))).toBe(true);
+    expect(isPromotionRuleActive({ ...lateNight, endDate: '2025-03-07' }, new Date('2025-03-07T18:30:00Z'))).toBe(false);
+    expect(isPromotionRuleActive({ ...lateNight, endDate: '2025-03-07' }, new Date('2025-03-07T15:30:00Z'))).toBe(true);
+  });
+});
+
+describe('describePromotionRule', () => {
+  it('summarises the discount, scope and schedule', () => {
+    expect(describePromotionRule(happyHour)).toBe('Diskon 20% · Sen, Sel, Rab, Kam, Jum 15:00-17:00');
+    expect(describePromotionRule(buyTwoGetOne)).toBe('Beli 2 gratis 1 · 2 produk');
+    expect(describePromotionRule(minSpend)).toBe('Diskon Rp 5.000 untuk belanja min. Rp 40.000');
+  });
+});
+
+describe('evaluatePromotions', () => {
+  const items = [
+    { productId: 'kaos', quantity: 3, price: 10000 },
+    { productId: 'topi', quantity: 1, price: 20000 },
+  ];
+
+  it('gives each line its best item promotion, then a min-spend on what is left', () => {
+    const result = evaluatePromotions([clothing, buyTwoGetOne, minSpend], items, products, fridayAfternoon);
+    expect(result.lineDiscounts).toEqual([10000, 0]);
+    expect(result.discountAmount).toBe(15000);
+    expect(result.appliedPromotions).toStrictEqual([
+      { ruleId: 'b2g1', name: 'Beli 2 Gratis 1', type: 'buy-x-get-y', amount: 10000 },
+      { ruleId: 'min', name: 'Belanja Hemat', type: 'min-spend', amount: 5000 },
+    ]);
+  });
+
+  it('measures the min-spend after item promotions', () => {
+    const result = evaluatePromotions([buyTwoGetOne, { ...minSpend, minSpend: 45000 }], items, products, fridayAfternoon);
+    expect(result.discountAmount).toBe(10000);
+    expect(result.appliedPromotions.map(promotion => promotion.ruleId)).toEqual(['b2g1']);
+  });
+
+  it('makes the cheapest units across lines the free ones', () => {
+    const result = evaluatePromotions([buyTwoGetOne], [
+      { productId: 'kaos', quantity: 2, price: 10000 },
+      { productId: 'kemeja', quantity: 1, price: 15000 },
+    ], products, fridayAfternoon);
+    expect(result.lineDiscounts).toEqual([10000, 0]);
+  });
+
+  it('spreads the free units over lines from the cheapest up', () => {
+    const result = evaluatePromotions([buyTwoGetOne], [
+      { productId: 'kemeja', quantity: 5, price: 15000 },
+      { productId: 'kaos', quantity: 1, price: 10000 },
+    ], products, fridayAfternoon);
+    expect(result.lineDiscounts).toEqual([15000, 10000]);
+  });
+
+  it('counts free units without listing them one by one', () => {
+    const result = evaluatePromotions([buyTwoGetOne], [{ productId: 'kaos', quantity: 3e9, price: 1000 }], products, fridayAfternoon);
+    expect(result.lineDiscounts).toEqual([1e12]);
+  });
+
+  it('leaves out lines the cashier discounted by hand', () => {
+    const result = evaluatePromotions([happyHour], [
+      { productId: 'kaos', quantity: 1, price: 10000, discountType: 'percent', discountValue: 5 },
+      { productId: 'topi', quantity: 1, price: 20000 },
+    ], products, fridayAfternoon);
+    expect(result.lineDiscounts).toEqual([0, 4000]);
+  });
+});
@@ -0,0 +1,200 @@
+import { getLineTotal } from './line-items';
+import type { AppliedPromotion, Product, PromotionRule, PromotionRuleType, TransactionItem } from './types';
+
+// Schedules and promotion dates follow the store's clock, wherever the code runs.
+const PROMOTION_TIME_ZONE = 'Asia/Jakarta';
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const promotionRuleTypeLabels: Record<PromotionRuleType, string> = {
+  'happy-hour': 'Happy Hour',
+  'buy-x-get-y': 'Beli X Gratis Y',
+  'category-discount': 'Diskon Kategori',
+  'min-spend': 'Minimal Belanja',
+};
+
+export const promotionDayLabels = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+type PromotionLine = Pick<TransactionItem, 'productId' | 'quantity' | 'unit' | 'price' | 'originalPrice' | 'discountType' | 'discountValue'>;
+
+export type PromotionResult = {
+  lineDiscounts: number[]; // Item promotion per cart line, in Rupiah
+  discountAmount: number; // Item and order promotions together
+  appliedPromotions: AppliedPromotion[];
+};
+
+function getStoreClock(at: Date) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: PROMOTION_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+    day: weekdays.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Whether a rule is switched on and inside its date range and schedule at the given moment.
+ */
+export function isPromotionRuleActive(rule: PromotionRule, at: Date = new Date()): boolean {
+  if (!rule.isActive) return false;
+  const clock = getStoreClock(at);
+  if (rule.startDate && clock.date < rule.startDate) return false;
+  if (rule.endDate && clock.date > rule.endDate) return false;
+  if (rule.schedule) {
+    const { days, startTime, endTime } = rule.schedule;
+    if (days.length > 0 && !days.includes(clock.day)) return false;
+    const isInWindow = startTime <= endTime
+      ? clock.time >= startTime && clock.time < endTime
+      : clock.time >= startTime || clock.time < endTime;
+    if (!isInWindow) return false;
+  }
+  return true;
+}
+
+/**
+ * Describes when and on what a rule applies, e.g. "Diskon 20% · Makanan · Sen-Jum 15:00-17:00".
+ */
+export function describePromotionRule(rule: PromotionRule): string {
+  const discount = rule.discountType === 'nominal'
+    ? `Rp ${rule.discountValue.toLocaleString('id-ID')}`
+    : `${rule.discountValue}%`;
+  const parts = rule.type === 'buy-x-get-y'
+    ? [`Beli ${rule.buyQuantity} gratis ${rule.getQuantity}${rule.discountValue < 100 ? ` (diskon ${rule.discountValue}%)` : ''}`]
+    : rule.type === 'min-spend'
+      ? [`Diskon ${discount} untuk belanja min. Rp ${(rule.minSpend || 0).toLocaleString('id-ID')}`]
+      : [`Diskon ${discount}${rule.discountType === 'nominal' ? ' per item' : ''}`];
+  if (rule.category) parts.push(rule.category);
+  if (rule.productIds?.length) parts.push(`${rule.productIds.length} produk`);
+  if (rule.schedule) {
+    const days = rule.schedule.days.length > 0
+      ? [...rule.schedule.days].sort().map(day => promotionDayLabels[day]).join(', ')
+      : 'Setiap hari';
+    parts.push(`${days} ${rule.schedule.startTime}-${rule.schedule.endTime}`);
+  }
+  return parts.join(' · ');
+}
+
+function isInScope(rule: PromotionRule, item: PromotionLine, products: Pick<Product, 'id' | 'category'>[]): boolean {
+  if (rule.productIds?.length && !rule.productIds.includes(item.productId)) return false;
+  if (rule.category) {
+    const product = products.find(p => p.id === item.productId);
+    if (product?.category !== rule.category) return false;
+  }
+  return true;
+}
+
+// What an item-level rule takes off each cart line, before lines pick their best rule.
+function getItemRuleDiscounts(rule: PromotionRule, items: PromotionLine[], lineTotals: number[], eligible: boolean[]): number[] {
+  if (rule.type === 'buy-x-get-y') {
+    const buyQuantity = rule.buyQuantity || 0;
+    const getQuantity = rule.getQuantity || 0;
+    const discounts = items.map(() => 0);
+    if (buyQuantity < 1 || getQuantity < 1) return discounts;
+
+    // Only whole units count; the cheapest units in the combined eligible lines are the free ones.
+    const lines = items.flatMap((item, index) => eligible[index] && !item.unit && Number.isInteger(item.quantity) && item.quantity > 0
+      ? [{ index, quantity: item.quantity, unitPrice: lineTotals[index] / item.quantity }]
+      : []);
+    lines.sort((a, b) => a.unitPrice - b.unitPrice);
+    const unitCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+    let freeCount = Math.floor(unitCount / (buyQuantity + getQuantity)) * getQuantity;
+    const percent = Math.min(rule.discountValue, 100);
+    for (const line of lines) {
+      if (freeCount === 0) break;
+      const freeQuantity = Math.min(line.quantity, freeCount);
+      discounts[line.index] += (line.unitPrice * freeQuantity * percent) / 100;
+      freeCount -= freeQuantity;
+    }
+    return discounts.map(Math.round);
+  }
+
+  return items.map((item, index) => {
+    if (!eligible[index]) return 0;
+    if (rule.discountType === 'nominal') {
+      return Math.min(Math.round(rule.discountValue * item.quantity), lineTotals[index]);
+    }
+    return Math.round((lineTotals[index] * Math.min(rule.discountValue, 100)) / 100);
+  });
+}
+
+/**
+ * Works out which automatic promotions a cart gets. Each line takes the single item
+ * promotion (happy hour, category discount, buy X get Y) that saves the most, then the
+ * best min-spend promotion applies to what is left. Lines the cashier already re-priced
+ * or discounted by hand are left out of item promotions.
+ * @param rules The store's promotion rules; inactive and out-of-schedule rules are skipped.
+ * @param items The cart lines.
+ * @param products The store's products, used for category rules.
+ * @param at The moment of the sale.
+ */
+export function evaluatePromotions(
+  rules: PromotionRule[],
+  items: PromotionLine[],
+  products: Pick<Product, 'id' | 'category'>[],
+  at: Date = new Date()
+): PromotionResult {
+  const activeRules = rules.filter(rule => isPromotionRuleActive(rule, at));
+  const lineTotals = items.map(getLineTotal);
+  const lineDiscounts = items.map(() => 0);
+  const lineRules: (PromotionRule | null)[] = items.map(() => null);
+
+  activeRules.filter(rule => rule.type !== 'min-spend').forEach(rule => {
+    const eligible = items.map(item =>
+      item.originalPrice === undefined && !item.discountValue && isInScope(rule, item, products)
+    );
+    getItemRuleDiscounts(rule, items, lineTotals, eligible).forEach((discount, index) => {
+      if (discount > lineDiscounts[index]) {
+        lineDiscounts[index] = discount;
+        lineRules[index] = rule;
+      }
+    });
+  });
+
+  const appliedPromotions: AppliedPromotion[] = [];
+  lineRules.forEach((rule, index) => {
+    if (!rule) return;
+    const applied = appliedPromotions.find(promotion => promotion.ruleId === rule.id);
+    if (applied) {
+      applied.amount += lineDiscounts[index];
+    } else {
+      appliedPromotions.push({ ruleId: rule.id, name: rule.name, type: rule.type, amount: lineDiscounts[index] });
+    }
+  });
+
+  const itemDiscount = lineDiscounts.reduce((sum, discount) => sum + discount, 0);
+  const remaining = lineTotals.reduce((sum, total) => sum + total, 0) - itemDiscount;
+  const orderPromotion = activeRules
+    .filter(rule => rule.type === 'min-spend' && remaining > 0 && remaining >= (rule.minSpend || 0))
+    .map(rule => ({
+      rule,
+      amount: rule.discountType === 'nominal'
+        ? Math.min(rule.discountValue, remaining)
+        : Math.round((remaining * Math.min(rule.discountValue, 100)) / 100),
+    }))
+    .sort((a, b) => b.amount - a.amount)[0];
+  if (orderPromotion && orderPromotion.amount > 0) {
+    appliedPromotions.push({
+      ruleId: orderPromotion.rule.id,
+      name: orderPromotion.rule.name,
+      type: orderPromotion.rule.type,
+      amount: orderPromotion.amount,
+    });
+  }
+
+  return {
+    lineDiscounts,
+    discountAmount: itemDiscount + (orderPromotion?.amount || 0),
+    appliedPromotions,
+  };
+}
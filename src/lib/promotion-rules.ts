@@ -0,0 +1,49 @@
+'use client';
+
+import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import type { PromotionRule } from './types';
+
+/**
+ * Fetches all promotion rules of a store, newest first. Inactive rules are included
+ * so they can be managed; evaluation skips them.
+ * @param storeId The ID of the store.
+ */
+export async function getPromotionRules(storeId: string): Promise<PromotionRule[]> {
+    const rulesQuery = query(collection(db, 'stores', storeId, 'promotionRules'), orderBy('createdAt', 'desc'));
+    const snapshot = await getDocs(rulesQuery);
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as PromotionRule));
+}
+
+/**
+ * Adds a promotion rule to the store.
+ * @param storeId The ID of the store.
+ * @param rule The rule without its ID and creation time. Optional fields must be omitted, not undefined.
+ * @returns The ID of the new rule.
+ */
+export async function addPromotionRule(storeId: string, rule: Omit<PromotionRule, 'id' | 'createdAt'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'stores', storeId, 'promotionRules'), {
+        ...rule,
+        createdAt: new Date().toISOString(),
+    });
+    return docRef.id;
+}
+
+/**
+ * Switches a promotion rule on or off.
+ * @param storeId The ID of the store.
+ * @param ruleId The ID of the rule.
+ * @param isActive Whether the rule should apply at checkout.
+ */
+export async function setPromotionRuleActive(storeId: string, ruleId: string, isActive: boolean) {
+    await updateDoc(doc(db, 'stores', storeId, 'promotionRules', ruleId), { isActive });
+}
+
+/**
+ * Deletes a promotion rule. Transactions keep the name it was applied under.
+ * @param storeId The ID of the store.
+ * @param ruleId The ID of the rule.
+ */
+export async function deletePromotionRule(storeId: string, ruleId: string) {
+    await deleteDoc(doc(db, 'stores', storeId, 'promotionRules', ruleId));
+}
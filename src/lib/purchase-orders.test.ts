@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatPurchaseOrderNumber, getAverageCostPrice, getPurchaseOrderTotal, getRemainingQuantity, isPurchaseOrderOpen } from './purchase-orders';
+
+describe('formatPurchaseOrderNumber', () => {
+  it('pads the counter to four digits', () => {
+    expect(formatPurchaseOrderNumber(12)).toBe('PO-0012');
+    expect(formatPurchaseOrderNumber(12345)).toBe('PO-12345');
+  });
+});
+
+describe('getPurchaseOrderTotal', () => {
+  it('rounds the ordered cost to whole Rupiah', () => {
+    expect(getPurchaseOrderTotal([{ quantity: 10, unitCost: 8000 }, { quantity: 2.5, unitCost: 11333 }])).toBe(108333);
+  });
+});
+
+describe('getRemainingQuantity', () => {
+  it('returns what is still to be delivered', () => {
+    expect(getRemainingQuantity({ quantity: 24, receivedQuantity: 10 })).toBe(14);
+    expect(getRemainingQuantity({ quantity: 5, receivedQuantity: 1.2, unit: 'kg' })).toBe(3.8);
+  });
+
+  it('never goes below zero for an over-delivered line', () => {
+    expect(getRemainingQuantity({ quantity: 10, receivedQuantity: 12 })).toBe(0);
+  });
+});
+
+describe('isPurchaseOrderOpen', () => {
+  it('accepts goods until the order is received or cancelled', () => {
+    expect(isPurchaseOrderOpen({ status: 'ordered' })).toBe(true);
+    expect(isPurchaseOrderOpen({ status: 'partial' })).toBe(true);
+    expect(isPurchaseOrderOpen({ status: 'received' })).toBe(false);
+    expect(isPurchaseOrderOpen({ status: 'cancelled' })).toBe(false);
+  });
+});
+
+describe('getAverageCostPrice', () => {
+  it('weights the old and new cost by quantity', () => {
+    expect(getAverageCostPrice(10, 8000, 30, 9000)).toBe(8750);
+  });
+
+  it('takes the new cost when there is no stock left', () => {
+    expect(getAverageCostPrice(-3, 8000, 10, 9500)).toBe(9500);
+  });
+});
@@ -0,0 +1,76 @@
+import { formatQuantity, formatUnitPrice, roundQuantity } from './units';
+import type { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from './types';
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draf',
+  ordered: 'Dipesan',
+  partial: 'Diterima Sebagian',
+  received: 'Diterima',
+  cancelled: 'Dibatalkan',
+};
+
+/**
+ * Formats a store's n-th purchase order number, e.g. "PO-0012".
+ */
+export function formatPurchaseOrderNumber(counter: number): string {
+  return `PO-${String(counter).padStart(4, '0')}`;
+}
+
+/**
+ * Returns what a purchase order is expected to cost at its ordered quantities.
+ */
+export function getPurchaseOrderTotal(items: Pick<PurchaseOrderItem, 'quantity' | 'unitCost'>[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0));
+}
+
+/**
+ * Returns how much of a line is still to be delivered.
+ */
+export function getRemainingQuantity(item: Pick<PurchaseOrderItem, 'quantity' | 'receivedQuantity' | 'unit'>): number {
+  return Math.max(0, roundQuantity(item.quantity - item.receivedQuantity, item.unit));
+}
+
+/**
+ * Whether goods can still be received against a purchase order.
+ */
+export function isPurchaseOrderOpen(order: Pick<PurchaseOrder, 'status'>): boolean {
+  return order.status === 'draft' || order.status === 'ordered' || order.status === 'partial';
+}
+
+/**
+ * Averages a product's cost price with the cost of newly received goods, weighted by
+ * quantity. Stock already below zero carries no cost, so the new cost is taken as is.
+ * @param stock The product's stock before the goods arrive.
+ * @param costPrice The product's cost price before the goods arrive.
+ * @param quantity The quantity received.
+ * @param unitCost What the received goods cost per unit.
+ * @returns The new cost price, in whole Rupiah.
+ */
+export function getAverageCostPrice(stock: number, costPrice: number, quantity: number, unitCost: number): number {
+  if (stock <= 0) return Math.round(unitCost);
+  return Math.round((stock * costPrice + quantity * unitCost) / (stock + quantity));
+}
+
+/**
+ * Writes a purchase order as a WhatsApp message to the supplier.
+ * @param order The purchase order.
+ * @param storeName The name of the ordering store.
+ */
+export function formatPurchaseOrderMessage(order: PurchaseOrder, storeName: string): string {
+  const lines = order.items.map(item => {
+    const name = item.variantName ? `${item.productName} (${item.variantName})` : item.productName;
+    return `- ${name}: ${formatQuantity(item.quantity, item.unit)} x Rp ${formatUnitPrice(item.unitCost, item.unit)}`;
+  });
+  return [
+    `Halo, kami dari ${storeName} ingin memesan barang berikut:`,
+    '',
+    `No. Pesanan: ${order.number}`,
+    ...lines,
+    '',
+    `Perkiraan Total: Rp ${order.totalCost.toLocaleString('id-ID')}`,
+    ...(order.expectedAt ? [`Diharapkan tiba: ${new Date(order.expectedAt).toLocaleDateString('id-ID', { dateStyle: 'long' })}`] : []),
+    ...(order.notes ? ['', `Catatan: ${order.notes}`] : []),
+    '',
+    'Mohon konfirmasi ketersediaan barang. Terima kasih!',
+  ].join('\n');
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { addDoc, collection, deleteDoc, deleteField, doc, getDocs, orderBy, query, runTransaction, updateDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { formatPurchaseOrderNumber, getPurchaseOrderTotal } from './purchase-orders';
+import type { PurchaseOrder, Supplier } from './types';
+
+export type SupplierInput = Omit<Supplier, 'id' | 'createdAt'>;
+
+export type PurchaseOrderInput = Pick<PurchaseOrder, 'supplierId' | 'supplierName' | 'items'> & Partial<Pick<PurchaseOrder, 'notes' | 'expectedAt'>>;
+
+/**
+ * Fetches a store's suppliers, by name.
+ * @param storeId The ID of the store.
+ */
+export async function getSuppliers(storeId: string): Promise<Supplier[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'suppliers'), orderBy('name')));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Supplier));
+}
+
+/**
+ * Adds a supplier to the store.
+ * @param storeId The ID of the store.
+ * @param supplier The supplier. Optional fields must be omitted, not undefined.
+ * @returns The ID of the new supplier.
+ */
+export async function addSupplier(storeId: string, supplier: SupplierInput): Promise<string> {
+    const docRef = await addDoc(collection(db, 'stores', storeId, 'suppliers'), {
+        ...supplier,
+        createdAt: new Date().toISOString(),
+    });
+    return docRef.id;
+}
+
+/**
+ * Saves changes to a supplier. Purchase orders keep the name they were placed under.
+ * @param storeId The ID of the store.
+ * @param supplierId The ID of the supplier.
+ * @param supplier The supplier's details.
+ */
+export async function updateSupplier(storeId: string, supplierId: string, supplier: SupplierInput) {
+    await updateDoc(doc(db, 'stores', storeId, 'suppliers', supplierId), supplier);
+}
+
+/**
+ * Deletes a supplier. Its purchase orders are kept.
+ * @param storeId The ID of the store.
+ * @param supplierId The ID of the supplier.
+ */
+export async function deleteSupplier(storeId: string, supplierId: string) {
+    await deleteDoc(doc(db, 'stores', storeId, 'suppliers', supplierId));
+}
+
+/**
+ * Fetches a store's purchase orders, newest first.
+ * @param storeId The ID of the store.
+ */
+export async function getPurchaseOrders(storeId: string): Promise<PurchaseOrder[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'purchaseOrders'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as PurchaseOrder));
+}
+
+/**
+ * Creates a draft purchase order with the store's next PO number.
+ * @param storeId The ID of the store.
+ * @param input The supplier and lines. Optional fields must be omitted, not undefined.
+ * @param createdBy The UID of the admin placing the order.
+ * @returns The new purchase order.
+ */
+export async function createPurchaseOrder(storeId: string, input: PurchaseOrderInput, createdBy: string): Promise<PurchaseOrder> {
+    const storeRef = doc(db, 'stores', storeId);
+    const orderRef = doc(collection(db, 'stores', storeId, 'purchaseOrders'));
+    return runTransaction(db, async (transaction) => {
+        const storeSnap = await transaction.get(storeRef);
+        const counter = (storeSnap.data()?.purchaseOrderCounter || 0) + 1;
+        const order: PurchaseOrder = {
+            id: orderRef.id,
+            storeId,
+            number: formatPurchaseOrderNumber(counter),
+            ...input,
+            status: 'draft',
+            totalCost: getPurchaseOrderTotal(input.items),
+            receipts: [],
+            createdBy,
+            createdAt: new Date().toISOString(),
+        };
+        transaction.update(storeRef, { purchaseOrderCounter: counter });
+        transaction.set(orderRef, order);
+        return order;
+    });
+}
+
+/**
+ * Saves changes to a purchase order that hasn't been sent yet.
+ * @param storeId The ID of the store.
+ * @param purchaseOrderId The ID of the draft.
+ * @param input The supplier and lines. Optional fields must be omitted, not undefined.
+ */
+export async function updatePurchaseOrderDraft(storeId: string, purchaseOrderId: string, input: PurchaseOrderInput) {
+    await updateDoc(doc(db, 'stores', storeId, 'purchaseOrders', purchaseOrderId), {
+        // Fields left out of the input were cleared on the form.
+        notes: deleteField(),
+        expectedAt: deleteField(),
+        ...input,
+        totalCost: getPurchaseOrderTotal(input.items),
+    });
+}
+
+/**
+ * Cancels a purchase order. Goods already received stay in stock.
+ * @param storeId The ID of the store.
+ * @param purchaseOrderId The ID of the purchase order.
+ */
+export async function cancelPurchaseOrder(storeId: string, purchaseOrderId: string) {
+    await updateDoc(doc(db, 'stores', storeId, 'purchaseOrders', purchaseOrderId), { status: 'cancelled' });
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { defaultReceiptNumberSettings } from './receipt-numbers';
+import type { ReceiptNumberSettings, ReceiptNumberVoid } from './types';
+
+/**
+ * Fetches the receipt number format of a specific store from Firestore.
+ * @param storeId The ID of the store.
+ * @returns The store's specific settings, or default settings if not found.
+ */
+export async function getReceiptNumberSettings(storeId: string): Promise<ReceiptNumberSettings> {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        const docSnap = await getDoc(storeDocRef);
+
+        if (docSnap.exists()) {
+            const storeData = docSnap.data();
+            // Merge store settings with defaults to ensure all fields are present
+            return { ...defaultReceiptNumberSettings, ...storeData.receiptNumberSettings };
+        } else {
+            console.warn(`Store with ID ${storeId} not found. Using default receipt number settings.`);
+            return defaultReceiptNumberSettings;
+        }
+    } catch (error) {
+        console.error("Error fetching receipt number settings:", error);
+        return defaultReceiptNumberSettings;
+    }
+}
+
+/**
+ * Updates or creates the receipt number format of a specific store in Firestore.
+ * Sales already recorded keep the number they were printed with.
+ * @param storeId The ID of the store to update.
+ * @param newSettings An object containing the settings to update.
+ */
+export async function updateReceiptNumberSettings(storeId: string, newSettings: Partial<ReceiptNumberSettings>) {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        await setDoc(storeDocRef, {
+            receiptNumberSettings: newSettings
+        }, { merge: true });
+
+        console.log(`Receipt number settings updated for store ${storeId}.`);
+    } catch (error) {
+        console.error(`Error updating receipt number settings for store ${storeId}:`, error);
+        throw error; // Re-throw the error to be handled by the caller
+    }
+}
+
+/**
+ * Fetches the receipt numbers a store issued to sales that were cancelled before being paid, newest first.
+ * @param storeId The ID of the store.
+ * @param maxResults How many to fetch.
+ */
+export async function getReceiptNumberVoids(storeId: string, maxResults = 50): Promise<ReceiptNumberVoid[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'receiptNumberVoids'), orderBy('createdAt', 'desc'), limit(maxResults)));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as ReceiptNumberVoid));
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultReceiptNumberSettings,
+  formatReceiptNumber,
+  getReceiptNumberLabel,
+  getReceiptNumberPeriodKey,
+  getReceiptNumberSettingsError,
+} from './receipt-numbers';
+import type { ReceiptNumberSettings } from './types';
+
+const invoiceSettings: ReceiptNumberSettings = {
+  format: 'INV/{outlet}/{yyyyMMdd}/{seq}',
+  outletCode: 'PST',
+  reset: 'daily',
+  sequenceDigits: 4,
+  counterShards: 1,
+};
+
+// 1 March 2025, 01:30 in Jakarta, still 28 February in UTC.
+const earlyMorning = new Date('2025-02-28T18:30:00Z');
+
+describe('getReceiptNumberPeriodKey', () => {
+  it('starts a new period on the store clock', () => {
+    expect(getReceiptNumberPeriodKey('daily', earlyMorning)).toBe('20250301');
+    expect(getReceiptNumberPeriodKey('monthly', earlyMorning)).toBe('202503');
+    expect(getReceiptNumberPeriodKey('never', earlyMorning)).toBe('all');
+  });
+});
+
+describe('formatReceiptNumber', () => {
+  it('fills the outlet, date and padded sequence', () => {
+    expect(formatReceiptNumber(invoiceSettings, 42, earlyMorning)).toBe('INV/PST/20250301/0042');
+    expect(formatReceiptNumber({ ...invoiceSettings, format: '{yy}{MM}{dd}-{seq}' }, 7, earlyMorning)).toBe('250301-0007');
+  });
+
+  it('keeps the bare zero-padded counter by default', () => {
+    expect(formatReceiptNumber(defaultReceiptNumberSettings, 123, earlyMorning)).toBe('000123');
+  });
+
+  it('does not cut a sequence longer than its digits', () => {
+    expect(formatReceiptNumber({ ...invoiceSettings, sequenceDigits: 2 }, 1234, earlyMorning)).toBe('INV/PST/20250301/1234');
+  });
+});
+
+describe('getReceiptNumberSettingsError', () => {
+  it('accepts the default and a dated daily format', () => {
+    expect(getReceiptNumberSettingsError(defaultReceiptNumberSettings)).toBeNull();
+    expect(getReceiptNumberSettingsError(invoiceSettings)).toBeNull();
+  });
+
+  it('requires the reset period to show in the number', () => {
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, format: '{yyyy}{MM}-{seq}' })).toContain('Reset harian');
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, reset: 'monthly', format: '{yyyy}{MM}-{seq}' })).toBeNull();
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, reset: 'monthly', format: '{MM}-{seq}' })).toContain('Reset bulanan');
+  });
+
+  it('rejects a format without a sequence or with bad settings', () => {
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, format: 'INV/{yyyyMMdd}' })).toContain('{seq}');
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, outletCode: '' })).toContain('kode outlet');
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, outletCode: 'PST/1' })).toContain('Kode outlet');
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, sequenceDigits: 0 })).toContain('digit');
+    expect(getReceiptNumberSettingsError({ ...invoiceSettings, counterShards: 11 })).toContain('shard');
+  });
+});
+
+describe('getReceiptNumberLabel', () => {
+  it('prefers the formatted number and falls back to the bare counter', () => {
+    expect(getReceiptNumberLabel({ receiptNumber: 42, formattedReceiptNumber: 'INV/PST/20250301/0042' })).toBe('INV/PST/20250301/0042');
+    expect(getReceiptNumberLabel({ receiptNumber: 42 })).toBe('000042');
+  });
+
+  it('shows the provisional number until an offline sale is synced', () => {
+    const offlineSync = { provisionalReceiptNumber: 'OFF-KSR1-0003' };
+    expect(getReceiptNumberLabel({ receiptNumber: 0, offlineSync })).toBe('OFF-KSR1-0003');
+    expect(getReceiptNumberLabel({
+      receiptNumber: 43,
+      formattedReceiptNumber: 'INV/PST/20250301/0043',
+      offlineSync: { ...offlineSync, syncedAt: '2025-03-01T02:00:00.000Z' },
+    })).toBe('INV/PST/20250301/0043');
+  });
+});
@@ -0,0 +1,129 @@
+import type { ReceiptNumberReset, ReceiptNumberSettings, ReceiptNumberVoidReason, ReceiptTransaction } from './types';
+
+// Numbering periods follow the store's clock, wherever the code runs.
+const RECEIPT_NUMBER_TIME_ZONE = 'Asia/Jakarta';
+
+// Reproduces the bare, zero-padded counter used before formats were configurable, spread
+// over a few counter shards so concurrent checkouts don't contend on one document.
+export const defaultReceiptNumberSettings: ReceiptNumberSettings = {
+  format: '{seq}',
+  outletCode: '',
+  reset: 'never',
+  sequenceDigits: 6,
+  counterShards: 4,
+};
+
+export const maxReceiptCounterShards = 10;
+
+export const receiptNumberResetLabels: Record<ReceiptNumberReset, string> = {
+  never: 'Tidak Pernah',
+  daily: 'Harian',
+  monthly: 'Bulanan',
+};
+
+export const receiptNumberTokens: { token: string; description: string }[] = [
+  { token: '{outlet}', description: 'Kode outlet' },
+  { token: '{yyyy}', description: 'Tahun, mis. 2025' },
+  { token: '{yy}', description: 'Tahun 2 digit' },
+  { token: '{MM}', description: 'Bulan' },
+  { token: '{dd}', description: 'Tanggal' },
+  { token: '{yyyyMMdd}', description: 'Tanggal lengkap' },
+  { token: '{seq}', description: 'Nomor urut' },
+];
+
+export const receiptNumberVoidReasonLabels: Record<ReceiptNumberVoidReason, string> = {
+  'qris-expired': 'QRIS kedaluwarsa',
+  'qris-cancelled': 'QRIS dibatalkan',
+  'qris-unavailable': 'QRIS gagal dibuat',
+  void: 'Transaksi di-void',
+};
+
+function getDateParts(at: Date) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: RECEIPT_NUMBER_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+  return { yyyy: parts.year, MM: parts.month, dd: parts.day };
+}
+
+/**
+ * Names the numbering period a moment falls in. Each period has its own counter, so
+ * the sequence starts again at 1 whenever the key changes.
+ */
+export function getReceiptNumberPeriodKey(reset: ReceiptNumberReset, at: Date): string {
+  if (reset === 'never') return 'all';
+  const { yyyy, MM, dd } = getDateParts(at);
+  return reset === 'daily' ? `${yyyy}${MM}${dd}` : `${yyyy}${MM}`;
+}
+
+/**
+ * Fills a receipt number format, e.g. "INV/{outlet}/{yyyyMMdd}/{seq}" becomes "INV/PST/20250301/0042".
+ * @param settings The store's numbering settings.
+ * @param sequence The number within the period.
+ * @param at When the sale was made.
+ */
+export function formatReceiptNumber(settings: ReceiptNumberSettings, sequence: number, at: Date): string {
+  const { yyyy, MM, dd } = getDateParts(at);
+  const values: Record<string, string> = {
+    outlet: settings.outletCode,
+    yyyyMMdd: `${yyyy}${MM}${dd}`,
+    yyyy,
+    yy: yyyy.slice(2),
+    MM,
+    dd,
+    seq: String(sequence).padStart(settings.sequenceDigits, '0'),
+  };
+  return settings.format.replace(/\{(outlet|yyyyMMdd|yyyy|yy|MM|dd|seq)\}/g, (_, token: string) => values[token]);
+}
+
+/**
+ * Checks that a format yields numbers that stay unique under its reset option.
+ * @returns Why the settings can't be used, or null if they can.
+ */
+export function getReceiptNumberSettingsError(settings: ReceiptNumberSettings): string | null {
+  const { format, outletCode, reset, sequenceDigits, counterShards } = settings;
+  if (!format.includes('{seq}')) {
+    return 'Format harus memuat {seq}.';
+  }
+  if (format.length > 60) {
+    return 'Format maksimal 60 karakter.';
+  }
+  const hasYear = format.includes('{yyyy}') || format.includes('{yy}') || format.includes('{yyyyMMdd}');
+  const hasMonth = format.includes('{MM}') || format.includes('{yyyyMMdd}');
+  const hasDay = format.includes('{dd}') || format.includes('{yyyyMMdd}');
+  // The sequence starts again each period, so the period must show in the number.
+  if (reset === 'monthly' && !(hasYear && hasMonth)) {
+    return 'Reset bulanan memerlukan tahun dan bulan pada format, mis. {yyyy}{MM}.';
+  }
+  if (reset === 'daily' && !(hasYear && hasMonth && hasDay)) {
+    return 'Reset harian memerlukan tanggal lengkap pada format, mis. {yyyyMMdd}.';
+  }
+  if (format.includes('{outlet}') && !outletCode.trim()) {
+    return 'Isi kode outlet atau hapus {outlet} dari format.';
+  }
+  if (!/^[A-Za-z0-9-]{0,10}$/.test(outletCode)) {
+    return 'Kode outlet hanya boleh huruf, angka, atau tanda hubung (maks. 10 karakter).';
+  }
+  if (!Number.isInteger(sequenceDigits) || sequenceDigits < 1 || sequenceDigits > 10) {
+    return 'Jumlah digit nomor urut harus antara 1 dan 10.';
+  }
+  if (!Number.isInteger(counterShards) || counterShards < 1 || counterShards > maxReceiptCounterShards) {
+    return `Jumlah shard penghitung harus antara 1 dan ${maxReceiptCounterShards}.`;
+  }
+  return null;
+}
+
+/**
+ * The receipt number as printed. Transactions recorded before formats were configurable
+ * only have the bare counter, and sales still queued offline only have their provisional number.
+ */
+export function getReceiptNumberLabel(transaction: Pick<ReceiptTransaction, 'receiptNumber' | 'formattedReceiptNumber' | 'offlineSync'>): string {
+  if (transaction.offlineSync && !transaction.offlineSync.syncedAt) {
+    return transaction.offlineSync.provisionalReceiptNumber;
+  }
+  return transaction.formattedReceiptNumber || String(transaction.receiptNumber).padStart(6, '0');
+}
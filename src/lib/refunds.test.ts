@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRefund, getRemainingRefundLines } from './refunds';
+import type { Transaction } from './types';
+
+function makeTransaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 'trx-1',
+    receiptNumber: 1,
+    storeId: 'store',
+    customerId: 'cust',
+    customerName: 'Sari',
+    staffId: 'kasir',
+    createdAt: '2025-03-01T10:00:00.000Z',
+    subtotal: 50000,
+    discountAmount: 10000,
+    totalAmount: 40000,
+    paymentMethod: 'Cash',
+    pointsEarned: 40,
+    pointsRedeemed: 0,
+    items: [
+      { productId: 'kaos', productName: 'Kaos', quantity: 3, price: 10000 },
+      { productId: 'topi', productName: 'Topi', quantity: 1, price: 20000 },
+    ],
+    status: 'Selesai',
+    ...overrides,
+  };
+}
+
+describe('calculateRefund', () => {
+  it('refunds a line at its share of what was actually paid', () => {
+    const refund = calculateRefund(makeTransaction({}), [{ lineIndex: 0, quantity: 1 }], 100);
+    // The order discount takes 20% off every line.
+    expect(refund.items[0].amount).toBe(8000);
+    expect(refund).toMatchObject({ amount: 8000, pointsReversed: 8, feeRefunded: 20, isFinal: false });
+  });
+
+  it('settles what is left of points and fee on the final refund', () => {
+    const transaction = makeTransaction({
+      refundSummary: { refundedQuantities: [1, 0], amount: 8000, pointsReversed: 8, pointsRestored: 0, feeRefunded: 20, refundIds: ['r1'] },
+    });
+    const refund = calculateRefund(transaction, getRemainingRefundLines(transaction), 100);
+    expect(refund).toMatchObject({ amount: 32000, pointsReversed: 32, feeRefunded: 80, isFinal: true });
+  });
+
+  it('absorbs rounding from earlier partial refunds in the last one', () => {
+    const items = [{ productId: 'kaos', productName: 'Kaos', quantity: 3, price: 10000 }];
+    const first = calculateRefund(makeTransaction({ items, subtotal: 30000, totalAmount: 20000 }), [{ lineIndex: 0, quantity: 1 }], 0);
+    expect(first.amount).toBe(6667);
+
+    const last = calculateRefund(makeTransaction({
+      items,
+      subtotal: 30000,
+      totalAmount: 20000,
+      refundSummary: { refundedQuantities: [2], amount: 13334, pointsReversed: 0, pointsRestored: 0, feeRefunded: 0, refundIds: ['r1', 'r2'] },
+    }), [{ lineIndex: 0, quantity: 1 }], 0);
+    expect(last.amount).toBe(6666);
+    expect(last.items[0].amount).toBe(6666);
+  });
+
+  it('leaves gift cards sold on the sale out of the refund', () => {
+    const transaction = makeTransaction({ totalAmount: 90000, giftCardSales: [{ code: 'GC-1', amount: 50000 }] });
+    expect(calculateRefund(transaction, getRemainingRefundLines(transaction), 0).amount).toBe(40000);
+  });
+
+  it('rejects returning more than is left', () => {
+    const transaction = makeTransaction({
+      refundSummary: { refundedQuantities: [3, 0], amount: 24000, pointsReversed: 24, pointsRestored: 0, feeRefunded: 60, refundIds: ['r1'] },
+    });
+    expect(() => calculateRefund(transaction, [{ lineIndex: 0, quantity: 1 }], 100)).toThrow('melebihi sisa');
+    expect(() => calculateRefund(transaction, [], 100)).toThrow('Pilih minimal satu item');
+  });
+});
+
+describe('getRemainingRefundLines', () => {
+  it('lists only what has not been returned yet', () => {
+    const transaction = makeTransaction({
+      refundSummary: { refundedQuantities: [1, 1], amount: 24000, pointsReversed: 24, pointsRestored: 0, feeRefunded: 60, refundIds: ['r1'] },
+    });
+    expect(getRemainingRefundLines(transaction)).toEqual([{ lineIndex: 0, quantity: 2 }]);
+  });
+});
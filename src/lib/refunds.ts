@@ -0,0 +1,121 @@
+import { getLineGrossAmount } from './line-items';
+import { getGiftCardSalesAmount } from './gift-cards';
+import { isValidQuantity, roundQuantity } from './units';
+import type { RefundItem, Transaction, TransactionItem, TransactionRefundSummary } from './types';
+
+export type RefundLine = {
+  lineIndex: number;
+  quantity: number;
+};
+
+export type RefundCalculation = {
+  items: RefundItem[];
+  amount: number;
+  pointsReversed: number;
+  pointsRestored: number;
+  feeRefunded: number;
+  isFinal: boolean; // Nothing is left to refund on the transaction afterwards
+};
+
+export const emptyRefundSummary = (transaction: Pick<Transaction, 'items'>): TransactionRefundSummary => ({
+  refundedQuantities: transaction.items.map(() => 0),
+  amount: 0,
+  pointsReversed: 0,
+  pointsRestored: 0,
+  feeRefunded: 0,
+  refundIds: [],
+});
+
+/**
+ * Returns how much of a transaction line can still be returned.
+ */
+export function getRefundableQuantity(transaction: Pick<Transaction, 'items' | 'refundSummary'>, lineIndex: number): number {
+  const item = transaction.items[lineIndex];
+  if (!item) return 0;
+  const refunded = transaction.refundSummary?.refundedQuantities[lineIndex] || 0;
+  return roundQuantity(item.quantity - refunded, item.unit);
+}
+
+/**
+ * Lists every line with its full remaining quantity, i.e. what a void returns.
+ */
+export function getRemainingRefundLines(transaction: Pick<Transaction, 'items' | 'refundSummary'>): RefundLine[] {
+  return transaction.items
+    .map((_, lineIndex) => ({ lineIndex, quantity: getRefundableQuantity(transaction, lineIndex) }))
+    .filter(line => line.quantity > 0);
+}
+
+/**
+ * Works out what a return gives back.
+ * Each line is refunded at its share of what the customer actually paid, so order
+ * discounts, points redemptions, service charge and tax are spread over the lines.
+ * Points and the token fee are reversed in proportion to the amount refunded; the
+ * final refund settles whatever is left so rounding never accumulates. Gift cards sold
+ * on the transaction are not part of the refund; their balance stays on the card.
+ * @param transaction The original transaction, with any earlier refunds.
+ * @param lines The lines and quantities being returned.
+ * @param transactionFee The token fee charged for the transaction.
+ * @throws Error if a line does not exist or more is returned than is left.
+ */
+export function calculateRefund(transaction: Transaction, lines: RefundLine[], transactionFee: number): RefundCalculation {
+  const previous = transaction.refundSummary || emptyRefundSummary(transaction);
+  const returnedQuantities = transaction.items.map(() => 0);
+
+  lines.forEach(line => {
+    const item = transaction.items[line.lineIndex];
+    if (!item) {
+      throw new Error('Item yang dikembalikan tidak ditemukan pada transaksi.');
+    }
+    if (!isValidQuantity(line.quantity, item.unit)) {
+      throw new Error(`Jumlah pengembalian tidak valid untuk ${item.productName}.`);
+    }
+    returnedQuantities[line.lineIndex] = roundQuantity(returnedQuantities[line.lineIndex] + line.quantity, item.unit);
+    if (returnedQuantities[line.lineIndex] > getRefundableQuantity(transaction, line.lineIndex)) {
+      throw new Error(`Jumlah pengembalian ${item.productName} melebihi sisa yang dapat dikembalikan.`);
+    }
+  });
+  if (lines.length === 0) {
+    throw new Error('Pilih minimal satu item untuk dikembalikan.');
+  }
+
+  const goodsAmount = transaction.totalAmount - getGiftCardSalesAmount(transaction);
+  // Item promotions stay with their line; order-level discounts are shared through the ratio.
+  const getLineNet = (item: TransactionItem) => getLineGrossAmount(item) - (item.discountAmount || 0) - (item.promotionDiscountAmount || 0);
+  const netSubtotal = transaction.items.reduce((sum, item) => sum + getLineNet(item), 0);
+  const payableRatio = netSubtotal > 0 ? goodsAmount / netSubtotal : 0;
+  const items: RefundItem[] = lines.map(line => {
+    const item = transaction.items[line.lineIndex];
+    const lineNet = getLineNet(item);
+    return {
+      lineIndex: line.lineIndex,
+      productId: item.productId,
+      productName: item.productName,
+      ...(item.variantId && { variantId: item.variantId, variantName: item.variantName || '' }),
+      quantity: line.quantity,
+      ...(item.unit && { unit: item.unit }),
+      amount: Math.round((lineNet * line.quantity / item.quantity) * payableRatio),
+    };
+  });
+
+  const remainingAmount = goodsAmount - previous.amount;
+  const isFinal = transaction.items.every((item, index) =>
+    roundQuantity((previous.refundedQuantities[index] || 0) + returnedQuantities[index], item.unit) >= item.quantity
+  );
+
+  let amount = Math.min(items.reduce((sum, item) => sum + item.amount, 0), remainingAmount);
+  if (isFinal) {
+    // Absorb rounding from earlier partial refunds in the last line.
+    items[items.length - 1].amount += remainingAmount - items.reduce((sum, item) => sum + item.amount, 0);
+    amount = remainingAmount;
+  }
+
+  const share = goodsAmount > 0 ? amount / goodsAmount : 0;
+  return {
+    items,
+    amount,
+    pointsReversed: isFinal ? transaction.pointsEarned - previous.pointsReversed : Math.floor(transaction.pointsEarned * share),
+    pointsRestored: isFinal ? transaction.pointsRedeemed - previous.pointsRestored : Math.floor(transaction.pointsRedeemed * share),
+    feeRefunded: isFinal ? transactionFee - previous.feeRefunded : transactionFee * share,
+    isFinal,
+  };
+}
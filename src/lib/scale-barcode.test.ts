@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseScaleBarcode } from './scale-barcode';
+import { makeProduct } from './test-fixtures';
+
+describe('parseScaleBarcode', () => {
+  const rice = makeProduct({
+    id: 'beras',
+    name: 'Beras',
+    stock: 50,
+    price: 14000,
+    costPrice: 11000,
+    unit: 'kg',
+    attributes: { brand: 'Lokal', barcode: '12345' },
+  });
+
+  it('reads the weight in grams as kilograms', () => {
+    expect(parseScaleBarcode([rice], '2112345003504', 'weight')).toEqual({ product: rice, quantity: 0.35 });
+  });
+
+  it('works out the quantity from an embedded price', () => {
+    expect(parseScaleBarcode([rice], '2112345425009', 'price')).toEqual({ product: rice, quantity: 3.036 });
+  });
+
+  it('keeps grams as they are for products sold by the gram', () => {
+    const saffron = makeProduct({ ...rice, id: 'saffron', unit: 'gram', attributes: { brand: 'Lokal', barcode: '00001' } });
+    expect(parseScaleBarcode([saffron], '2100001007508', 'weight')).toEqual({ product: saffron, quantity: 750 });
+  });
+
+  it('ignores a wrong check digit and products sold by the piece', () => {
+    expect(parseScaleBarcode([rice], '2112345003505', 'weight')).toBeUndefined();
+    expect(parseScaleBarcode([makeProduct({ ...rice, unit: 'pcs' })], '2112345003504', 'weight')).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import type { PosSettings, Product } from './types';
+import { isFractionalUnit, roundQuantity } from './units';
+
+// Scale labels use the GS1 in-store prefixes 20-29: 2 prefix digits, a 5 digit item code
+// (matched against the product barcode), a 5 digit value and the EAN-13 check digit.
+const SCALE_BARCODE_PATTERN = /^(2\d)(\d{5})(\d{5})\d$/;
+
+function hasValidEan13CheckDigit(barcode: string): boolean {
+  const digits = barcode.split('').map(Number);
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+}
+
+/**
+ * Reads a price- or weight-embedded EAN-13 label printed by a shop scale.
+ * The value is grams when `scaleBarcodeValue` is 'weight' and Rupiah when it is 'price'.
+ * @param products The store's products.
+ * @param barcode The scanned code.
+ * @param scaleBarcodeValue What the value digits encode for this store.
+ * @returns The product and the quantity to add in its unit, or undefined if the code is not a scale label for a weighed product.
+ */
+export function parseScaleBarcode(
+  products: Product[],
+  barcode: string,
+  scaleBarcodeValue: PosSettings['scaleBarcodeValue']
+): { product: Product; quantity: number } | undefined {
+  const match = SCALE_BARCODE_PATTERN.exec(barcode);
+  if (!match || !hasValidEan13CheckDigit(barcode)) return undefined;
+
+  const [, prefix, itemCode, valueDigits] = match;
+  const product = products.find(p =>
+    isFractionalUnit(p.unit) && (p.attributes.barcode === itemCode || p.attributes.barcode === prefix + itemCode)
+  );
+  if (!product) return undefined;
+
+  const value = Number(valueDigits);
+  let quantity: number;
+  if (scaleBarcodeValue === 'price') {
+    if (product.price <= 0) return undefined;
+    quantity = value / product.price;
+  } else if (product.unit === 'gram') {
+    quantity = value;
+  } else {
+    // Litres are weighed like kilograms, which is close enough for the liquids sold this way.
+    quantity = value / 1000;
+  }
+
+  quantity = roundQuantity(quantity, product.unit);
+  return quantity > 0 ? { product, quantity } : undefined;
+}
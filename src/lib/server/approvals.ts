@@ -0,0 +1,252 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getFirebaseAdmin } from './firebase-admin';
+import { approvalValidityMinutes, matchApprovals } from '../approvals';
+import type { ApprovalAction, ApprovalDetails, ApprovalLog, ApprovalRequest } from '../types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const PIN_PATTERN = /^[0-9]{4,6}$/;
+const PIN_KEY_LENGTH = 32;
+// A wrong PIN this many times in a row locks the cashier out of approvals for a while,
+// so a 4-digit PIN can't be guessed at the counter.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+const MAX_REQUESTS_PER_APPROVAL = 20;
+
+const approvalActions: ApprovalAction[] = ['discount', 'line-void', 'price-override', 'points-redemption', 'no-sale'];
+const numericDetailKeys = ['quantity', 'amount', 'discountPercent', 'originalPrice', 'newPrice', 'points'] as const;
+
+// approvalPins/{uid}, read only here. Kept off the user doc, which every signed-in client can
+// read, so the hash can't be taken away and brute-forced past the lockout.
+type ApprovalPin = {
+  pinHash: string;
+  updatedAt: string; // ISO 8601
+};
+
+// stores/{storeId}/approvalLockouts/{uid}
+type ApprovalLockout = {
+  failedAttempts: number;
+  lockedUntil?: string; // ISO 8601
+};
+
+/**
+ * An error raised while setting a PIN or approving an action.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class ApprovalError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ApprovalError';
+    this.status = status;
+    Object.setPrototypeOf(this, ApprovalError.prototype);
+  }
+}
+
+export type ApproveActionsRequest = {
+  storeId: string;
+  pin: string;
+  requests: ApprovalRequest[];
+};
+
+function parseApprovalDetails(value: unknown): ApprovalDetails {
+  const data = (value || {}) as Record<string, unknown>;
+  if (typeof data.description !== 'string' || !data.description.trim()) {
+    throw new ApprovalError('Keterangan persetujuan diperlukan.');
+  }
+  const details: ApprovalDetails = { description: data.description.trim().slice(0, 200) };
+  if (typeof data.productId === 'string') details.productId = data.productId;
+  if (typeof data.productName === 'string') details.productName = data.productName.slice(0, 100);
+  numericDetailKeys.forEach(key => {
+    if (data[key] === undefined) return;
+    const number = Number(data[key]);
+    if (!Number.isFinite(number)) {
+      throw new ApprovalError('Nilai persetujuan tidak valid.');
+    }
+    details[key] = number;
+  });
+  return details;
+}
+
+/**
+ * Validates the shape of an approval request body.
+ * @throws ApprovalError if the body is malformed.
+ */
+export function parseApproveActionsRequest(body: unknown): ApproveActionsRequest {
+  const data = (body || {}) as Partial<ApproveActionsRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string') {
+    throw new ApprovalError('storeId diperlukan.');
+  }
+  if (typeof data.pin !== 'string' || !data.pin) {
+    throw new ApprovalError('PIN admin diperlukan.');
+  }
+  if (!Array.isArray(data.requests) || data.requests.length === 0 || data.requests.length > MAX_REQUESTS_PER_APPROVAL) {
+    throw new ApprovalError('Daftar tindakan yang perlu disetujui tidak valid.');
+  }
+  const requests = data.requests.map(request => {
+    if (!approvalActions.includes(request?.action)) {
+      throw new ApprovalError(`Jenis persetujuan tidak valid: ${request?.action}`);
+    }
+    return { action: request.action, details: parseApprovalDetails(request.details) };
+  });
+  return { storeId: data.storeId, pin: data.pin, requests };
+}
+
+/**
+ * Validates the shape of a set-PIN request body.
+ * @throws ApprovalError if the PIN isn't 4 to 6 digits.
+ */
+export function parseApprovalPin(body: unknown): string {
+  const pin = (body as { pin?: unknown } | null)?.pin;
+  if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) {
+    throw new ApprovalError('PIN harus 4 sampai 6 digit angka.');
+  }
+  return pin;
+}
+
+async function hashApprovalPin(pin: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(pin, salt, PIN_KEY_LENGTH);
+  return `scrypt:${salt}:${key.toString('hex')}`;
+}
+
+async function verifyApprovalPin(pin: string, pinHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = pinHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const key = await scryptAsync(pin, salt, PIN_KEY_LENGTH);
+  const expected = Buffer.from(hash, 'hex');
+  return expected.length === key.length && timingSafeEqual(expected, key);
+}
+
+/**
+ * Sets the PIN an admin approves cashier actions with. Only the hash is stored.
+ * @param uid The admin setting their own PIN.
+ * @throws ApprovalError if the user isn't an admin.
+ */
+export async function setApprovalPin(uid: string, pin: string): Promise<{ approvalPinUpdatedAt: string }> {
+  const { db, admin } = getFirebaseAdmin();
+  const { FieldValue } = admin.firestore;
+  const userRef = db.collection('users').doc(uid);
+  const userDoc = await userRef.get();
+  if (!userDoc.exists) {
+    throw new ApprovalError('Pengguna tidak ditemukan.', 404);
+  }
+  if (userDoc.data()?.role !== 'admin') {
+    throw new ApprovalError('Hanya admin yang dapat mengatur PIN persetujuan.', 403);
+  }
+  const approvalPin: ApprovalPin = { pinHash: await hashApprovalPin(pin), updatedAt: new Date().toISOString() };
+  const batch = db.batch();
+  batch.set(db.collection('approvalPins').doc(uid), approvalPin);
+  // Hashes used to be kept on the user doc; setting a new PIN clears one left there.
+  batch.update(userRef, { approvalPinUpdatedAt: approvalPin.updatedAt, approvalPinHash: FieldValue.delete() });
+  await batch.commit();
+  return { approvalPinUpdatedAt: approvalPin.updatedAt };
+}
+
+/**
+ * Approves a cashier's actions with the PIN of one of the store's admins and records each
+ * one in the audit log. Whichever admin the PIN belongs to is recorded as the approver.
+ * @param request The validated request.
+ * @param requesterId The UID of the cashier asking for approval.
+ * @returns The recorded approvals, in the order they were requested.
+ * @throws ApprovalError if the PIN is wrong or the cashier is locked out.
+ */
+export async function approveActions(request: ApproveActionsRequest, requesterId: string): Promise<ApprovalLog[]> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const lockoutRef = storeRef.collection('approvalLockouts').doc(requesterId);
+
+  const [storeDoc, requesterDoc, lockoutDoc] = await Promise.all([
+    storeRef.get(),
+    db.collection('users').doc(requesterId).get(),
+    lockoutRef.get(),
+  ]);
+  if (!storeDoc.exists) {
+    throw new ApprovalError('Toko tidak ditemukan.', 404);
+  }
+  const lockout = lockoutDoc.exists ? lockoutDoc.data() as ApprovalLockout : null;
+  if (lockout?.lockedUntil && new Date(lockout.lockedUntil) > new Date()) {
+    throw new ApprovalError(`Terlalu banyak PIN salah. Coba lagi setelah ${new Date(lockout.lockedUntil).toLocaleTimeString('id-ID', { timeZone: 'Asia/Jakarta', hour: '2-digit', minute: '2-digit' })}.`, 429);
+  }
+
+  const adminUids: string[] = storeDoc.data()?.adminUids || [];
+  const [adminDocs, pinDocs] = adminUids.length > 0
+    ? await Promise.all([
+      db.getAll(...adminUids.map(uid => db.collection('users').doc(uid))),
+      db.getAll(...adminUids.map(uid => db.collection('approvalPins').doc(uid))),
+    ])
+    : [[], []];
+  const admins = adminDocs
+    .map((adminDoc, index) => ({ adminDoc, pinHash: (pinDocs[index].data() as ApprovalPin | undefined)?.pinHash }))
+    .filter(({ adminDoc, pinHash }) => adminDoc.exists && pinHash && adminDoc.data()?.status !== 'inactive');
+  if (admins.length === 0) {
+    throw new ApprovalError('Belum ada admin toko yang mengatur PIN persetujuan.', 412);
+  }
+
+  const matches = await Promise.all(admins.map(({ pinHash }) => verifyApprovalPin(request.pin, pinHash!)));
+  const approver = admins.find((_, index) => matches[index])?.adminDoc;
+
+  if (!approver) {
+    const failedAttempts = (lockout?.lockedUntil ? 0 : lockout?.failedAttempts || 0) + 1;
+    const isLocked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+    const newLockout: ApprovalLockout = isLocked
+      ? { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString() }
+      : { failedAttempts };
+    await lockoutRef.set(newLockout);
+    throw new ApprovalError(isLocked
+      ? `PIN salah ${MAX_FAILED_ATTEMPTS} kali. Persetujuan dikunci selama ${LOCKOUT_MINUTES} menit.`
+      : `PIN salah. Sisa percobaan: ${MAX_FAILED_ATTEMPTS - failedAttempts}.`, 403);
+  }
+
+  const batch = db.batch();
+  const createdAt = new Date().toISOString();
+  const logs = request.requests.map(approvalRequest => {
+    const logRef = storeRef.collection('approvalLogs').doc();
+    const log: ApprovalLog = {
+      id: logRef.id,
+      storeId: request.storeId,
+      action: approvalRequest.action,
+      details: approvalRequest.details,
+      requestedBy: requesterId,
+      requestedByName: requesterDoc.data()?.name || '',
+      approvedBy: approver.id,
+      approvedByName: approver.data()?.name || '',
+      createdAt,
+    };
+    batch.set(logRef, log);
+    return log;
+  });
+  if (lockout) {
+    batch.delete(lockoutRef);
+  }
+  await batch.commit();
+  return logs;
+}
+
+/**
+ * Matches what a sale needs approved with the approvals the cashier brought along. An
+ * approval only counts if it was given to this cashier shortly before the sale and
+ * hasn't been spent on another sale.
+ * @param needed What the sale needs approved.
+ * @param approvals The approval logs named in the checkout request.
+ * @param staffId The cashier of the sale.
+ * @param soldAt When the sale was made.
+ * @param transactionId The sale, so a retried checkout can reuse its own approvals.
+ * @returns The approvals spent, and the needs nothing covered.
+ */
+export function matchCheckoutApprovals(
+  needed: ApprovalRequest[],
+  approvals: ApprovalLog[],
+  staffId: string,
+  soldAt: Date,
+  transactionId: string
+): { used: ApprovalLog[]; missing: ApprovalRequest[] } {
+  const earliest = soldAt.getTime() - approvalValidityMinutes * 60 * 1000;
+  return matchApprovals(needed, approvals.filter(approval =>
+    approval.requestedBy === staffId
+    && (!approval.transactionId || approval.transactionId === transactionId)
+    && new Date(approval.createdAt).getTime() >= earliest
+  ));
+}
@@ -0,0 +1,43 @@
+import { randomInt } from 'crypto';
+import { getFirebaseAdmin } from './firebase-admin';
+
+// Checkouts are spread over this many tally documents, so a busy store's sales don't all
+// write the same document.
+const TALLY_SHARDS = 10;
+
+// stores/{storeId}/checkoutTallies/{index}. The settleCheckoutTallies function folds these
+// into the store doc every few minutes.
+type CheckoutTally = {
+  pendingFee: number; // Transaction fees not yet deducted from pradanaTokenBalance
+  pendingSales: number; // Sales not yet added to transactionCounter
+};
+
+/**
+ * Charges a sale's transaction fee and counts the sale on one of the store's tally shards
+ * rather than on the store document, which every checkout would otherwise contend on.
+ * @param transaction The checkout's Firestore transaction.
+ * @param storeRef The store of the sale.
+ * @param transactionFee The fee charged on the sale.
+ */
+export function recordCheckoutTally(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  transactionFee: number
+) {
+  const { admin } = getFirebaseAdmin();
+  const { FieldValue } = admin.firestore;
+  const tallyRef = storeRef.collection('checkoutTallies').doc(String(randomInt(TALLY_SHARDS)));
+  transaction.set(tallyRef, {
+    pendingFee: FieldValue.increment(transactionFee),
+    pendingSales: FieldValue.increment(1),
+  }, { merge: true });
+}
+
+/**
+ * Sums the fees charged since the tallies were last settled, which the store's token
+ * balance doesn't reflect yet.
+ */
+export async function getPendingTransactionFees(storeRef: FirebaseFirestore.DocumentReference): Promise<number> {
+  const snapshot = await storeRef.collection('checkoutTallies').get();
+  return snapshot.docs.reduce((sum, tallyDoc) => sum + ((tallyDoc.data() as Partial<CheckoutTally>).pendingFee || 0), 0);
+}
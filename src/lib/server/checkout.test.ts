@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { CheckoutError, calculateTransactionFee, parseCheckoutRequest, resolvePayments } from './checkout';
+import type { TransactionFeeSettings } from '../types';
+
+const feeSettings: TransactionFeeSettings = {
+  tokenValueRp: 1000,
+  feePercentage: 0.005,
+  minFeeRp: 500,
+  maxFeeRp: 2500,
+  aiUsageFee: 1,
+  newStoreBonusTokens: 50,
+  aiBusinessPlanFee: 5,
+  aiSessionFee: 1,
+  aiSessionDurationMinutes: 30,
+  catalogMonthlyFee: 0,
+  catalogSixMonthFee: 0,
+  catalogYearlyFee: 0,
+};
+
+const sale = {
+  storeId: 'toko',
+  items: [{ productId: 'kopi', quantity: 2 }],
+  paymentMethod: 'Cash',
+};
+
+describe('calculateTransactionFee', () => {
+  it('charges the percentage of the total in tokens', () => {
+    expect(calculateTransactionFee(200000, feeSettings)).toBe(1);
+  });
+
+  it('keeps the fee between the minimum and maximum', () => {
+    expect(calculateTransactionFee(10000, feeSettings)).toBe(0.5);
+    expect(calculateTransactionFee(5000000, feeSettings)).toBe(2.5);
+  });
+});
+
+describe('parseCheckoutRequest', () => {
+  it('fills in the defaults and drops a walk-in customer', () => {
+    expect(parseCheckoutRequest({ ...sale, customerId: 'N/A' })).toMatchObject({
+      storeId: 'toko',
+      customerId: undefined,
+      items: [{ productId: 'kopi', quantity: 2 }],
+      orderType: 'dine-in',
+      discountType: 'percent',
+      discountValue: 0,
+      pointsToRedeem: 0,
+      paymentMethod: 'Cash',
+    });
+  });
+
+  it('ignores prices sent by the client and trims line notes', () => {
+    const request = parseCheckoutRequest({
+      ...sale,
+      totalAmount: 1,
+      items: [{ productId: 'kopi', quantity: 1, price: 1, notes: '  tanpa gula  ', discountValue: 0 }],
+    });
+    expect(request).not.toHaveProperty('totalAmount');
+    expect(request.items).toEqual([{ productId: 'kopi', quantity: 1, notes: 'tanpa gula' }]);
+  });
+
+  it('rejects an empty cart and unknown payment methods', () => {
+    expect(() => parseCheckoutRequest({ ...sale, items: [] })).toThrow('Keranjang kosong.');
+    expect(() => parseCheckoutRequest({ ...sale, paymentMethod: 'Barter' })).toThrow('Metode pembayaran tidak valid.');
+  });
+
+  it('rejects missing, negative and oversized quantities', () => {
+    for (const quantity of [undefined, -1, 0, 3e9]) {
+      expect(() => parseCheckoutRequest({ ...sale, items: [{ productId: 'kopi', quantity }] })).toThrow(CheckoutError);
+    }
+  });
+
+  it('rejects gift cards on an offline sale', () => {
+    const offline = { provisionalReceiptNumber: 'OFF-1', soldAt: '2024-05-01T08:00:00.000Z' };
+    expect(() => parseCheckoutRequest({
+      ...sale,
+      clientId: 'abcdefghij12',
+      offline,
+      paymentMethod: 'GiftCard',
+      payments: [{ method: 'GiftCard', amount: 10000, giftCardCode: 'GC-1234' }],
+    })).toThrow('Gift card tidak dapat digunakan pada transaksi offline.');
+  });
+
+  it('removes duplicate approvals', () => {
+    expect(parseCheckoutRequest({ ...sale, approvalIds: ['a', 'a', 'b'] }).approvalIds).toEqual(['a', 'b']);
+  });
+});
+
+describe('resolvePayments', () => {
+  it('settles the whole total with the payment method when there are no tenders', () => {
+    const request = parseCheckoutRequest({ ...sale, paymentMethod: 'QRIS' });
+    expect(resolvePayments(request, 36000)).toEqual({ paymentMethod: 'QRIS', payments: [{ method: 'QRIS', amount: 36000 }] });
+  });
+
+  it('gives change on the cash part of a split payment', () => {
+    const request = parseCheckoutRequest({
+      ...sale,
+      payments: [{ method: 'Cash', amount: 20000 }, { method: 'Card', amount: 16000 }],
+      cashTendered: 50000,
+    });
+    expect(resolvePayments(request, 36000)).toMatchObject({ paymentMethod: 'Split', cashTendered: 50000, changeAmount: 30000 });
+  });
+
+  it('rejects tenders that do not add up to the total', () => {
+    const request = parseCheckoutRequest({ ...sale, payments: [{ method: 'Cash', amount: 20000 }] });
+    expect(() => resolvePayments(request, 36000)).toThrow(expect.objectContaining({ status: 409 }));
+  });
+
+  it('rejects cash that does not cover the cash part', () => {
+    const request = parseCheckoutRequest({ ...sale, cashTendered: 30000 });
+    expect(() => resolvePayments(request, 36000)).toThrow('Uang diterima kurang dari bagian tunai');
+  });
+
+  it('rejects tendered cash on a sale paid without cash', () => {
+    const request = parseCheckoutRequest({ ...sale, paymentMethod: 'Card', cashTendered: 50000 });
+    expect(() => resolvePayments(request, 36000)).toThrow('Uang diterima hanya berlaku untuk pembayaran tunai.');
+  });
+});
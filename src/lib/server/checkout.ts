@@ -0,0 +1,657 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { getTransactionFeeSettings } from './app-settings';
+import { summarizeTenders } from '../payments';
+import { calculateLineDiscount, getLineGrossAmount } from '../line-items';
+import { resolveProductSelection, type ProductSelection } from '../product-options';
+import { expandBundleLines, getTransactionBundleItems, isBundleProduct } from '../bundles';
+import { calculateTaxAndService, defaultTaxSettings } from '../tax';
+import { evaluatePromotions } from '../promotion-engine';
+import { formatQuantity, getItemUnit, isValidQuantity, roundQuantity } from '../units';
+import { getGiftCardRedemptions, getGiftCardUnavailableReason, normalizeGiftCardCode } from '../gift-cards';
+import { defaultGiftCardExpiryMonths, getGiftCardRef, issueGiftCard, recordGiftCardMovement } from './gift-cards';
+import { claimReceiptNumber } from './receipt-numbers';
+import { getPendingTransactionFees, recordCheckoutTally } from './checkout-tallies';
+import { matchCheckoutApprovals } from './approvals';
+import { updateProductStock } from './stock-movements';
+import { defaultApprovalSettings, getCheckoutApprovalRequests } from '../approvals';
+import type { ApprovalLog, ApprovalSettings, CheckoutRequest, GiftCard, OfflineSyncConflict, PaymentMethod, PaymentTender, Product, ProductBundleItem, PromotionRule, RedemptionOption, Transaction, TransactionItem, TransactionFeeSettings } from '../types';
+
+// Mirrors the client-side default in point-earning-settings.ts.
+const defaultRpPerPoint = 10000;
+
+const paymentMethods: PaymentMethod[] = ['Cash', 'Card', 'QRIS', 'GiftCard'];
+
+// Far above any real sale, in grams too; larger quantities are rejected before anything is priced.
+const MAX_LINE_QUANTITY = 1000000;
+
+/**
+ * An error raised while validating or processing a checkout.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class CheckoutError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+    this.status = status;
+    Object.setPrototypeOf(this, CheckoutError.prototype);
+  }
+}
+
+/**
+ * Calculates the Pradana Token fee for a transaction total.
+ * @param totalAmount The final amount paid by the customer, in Rupiah.
+ * @param feeSettings The platform-wide transaction fee settings.
+ * @returns The fee in tokens.
+ */
+export function calculateTransactionFee(totalAmount: number, feeSettings: TransactionFeeSettings): number {
+  const feeFromPercentage = totalAmount * feeSettings.feePercentage;
+  const feeCappedAtMin = Math.max(feeFromPercentage, feeSettings.minFeeRp);
+  const feeCappedAtMax = Math.min(feeCappedAtMin, feeSettings.maxFeeRp);
+  return feeCappedAtMax / feeSettings.tokenValueRp;
+}
+
+/**
+ * Validates the shape of a checkout request body.
+ * Prices, fees and points are never accepted from the client.
+ * @throws CheckoutError if the body is malformed.
+ */
+export function parseCheckoutRequest(body: unknown): CheckoutRequest {
+  const data = (body || {}) as Partial<CheckoutRequest>;
+
+  if (!data.storeId || typeof data.storeId !== 'string') {
+    throw new CheckoutError('storeId diperlukan.');
+  }
+  if (data.giftCardSales !== undefined) {
+    if (!Array.isArray(data.giftCardSales) || data.giftCardSales.some(sale => !Number.isInteger(sale?.amount) || sale.amount <= 0)) {
+      throw new CheckoutError('Nominal gift card tidak valid.');
+    }
+  }
+  if (!Array.isArray(data.items) || (data.items.length === 0 && !data.giftCardSales?.length)) {
+    throw new CheckoutError('Keranjang kosong.');
+  }
+  for (const item of data.items) {
+    if (!item?.productId || typeof item.productId !== 'string') {
+      throw new CheckoutError('Item keranjang tidak valid.');
+    }
+    // Whole units are enforced per product once its unit of measure is known.
+    if (!isValidQuantity(item.quantity, 'kg') || item.quantity > MAX_LINE_QUANTITY) {
+      throw new CheckoutError(`Jumlah tidak valid untuk produk ${item.productId}.`);
+    }
+    if (item.variantId !== undefined && typeof item.variantId !== 'string') {
+      throw new CheckoutError(`Varian tidak valid untuk produk ${item.productId}.`);
+    }
+    if (item.modifierOptionIds !== undefined && (!Array.isArray(item.modifierOptionIds) || item.modifierOptionIds.some(id => typeof id !== 'string'))) {
+      throw new CheckoutError(`Pilihan tambahan tidak valid untuk produk ${item.productId}.`);
+    }
+    if (item.priceOverride !== undefined && !(Number(item.priceOverride) >= 0)) {
+      throw new CheckoutError(`Harga tidak valid untuk produk ${item.productId}.`);
+    }
+    if (item.discountType !== undefined && !['percent', 'nominal'].includes(item.discountType)) {
+      throw new CheckoutError(`Tipe diskon tidak valid untuk produk ${item.productId}.`);
+    }
+    if (item.discountValue !== undefined && !(Number(item.discountValue) >= 0)) {
+      throw new CheckoutError(`Diskon tidak valid untuk produk ${item.productId}.`);
+    }
+  }
+  if (!paymentMethods.includes(data.paymentMethod as PaymentMethod)) {
+    throw new CheckoutError('Metode pembayaran tidak valid.');
+  }
+  if (data.payments !== undefined) {
+    if (!Array.isArray(data.payments) || data.payments.length === 0) {
+      throw new CheckoutError('Rincian pembayaran tidak valid.');
+    }
+    for (const tender of data.payments) {
+      if (!paymentMethods.includes(tender?.method) || !(Number(tender.amount) > 0)) {
+        throw new CheckoutError('Rincian pembayaran tidak valid.');
+      }
+      if (tender.method === 'GiftCard' && (typeof tender.giftCardCode !== 'string' || !normalizeGiftCardCode(tender.giftCardCode))) {
+        throw new CheckoutError('Masukkan kode gift card untuk pembayaran dengan gift card.');
+      }
+    }
+  }
+  // A gift card tender needs its code, which only travels on the tender itself.
+  if (data.paymentMethod === 'GiftCard' && !data.payments?.length) {
+    throw new CheckoutError('Masukkan kode gift card untuk pembayaran dengan gift card.');
+  }
+  if (data.cashTendered !== undefined && !(Number(data.cashTendered) >= 0)) {
+    throw new CheckoutError('Jumlah uang diterima tidak valid.');
+  }
+  if (data.orderType !== undefined && !['dine-in', 'takeaway'].includes(data.orderType)) {
+    throw new CheckoutError('Jenis pesanan tidak valid.');
+  }
+  if (data.discountType !== undefined && !['percent', 'nominal'].includes(data.discountType)) {
+    throw new CheckoutError('Tipe diskon tidak valid.');
+  }
+  if (data.clientId !== undefined && (typeof data.clientId !== 'string' || !/^[A-Za-z0-9_-]{10,64}$/.test(data.clientId))) {
+    throw new CheckoutError('ID transaksi tidak valid.');
+  }
+  if (data.offline !== undefined) {
+    const { provisionalReceiptNumber, soldAt } = data.offline || {};
+    if (!data.clientId || typeof provisionalReceiptNumber !== 'string' || provisionalReceiptNumber.length > 40 ||
+        typeof soldAt !== 'string' || Number.isNaN(Date.parse(soldAt)) || Date.parse(soldAt) > Date.now() + 5 * 60 * 1000) {
+      throw new CheckoutError('Data transaksi offline tidak valid.');
+    }
+    // Card balances can't be checked at an offline counter.
+    if (data.giftCardSales?.length || data.paymentMethod === 'GiftCard' || data.payments?.some(tender => tender.method === 'GiftCard')) {
+      throw new CheckoutError('Gift card tidak dapat digunakan pada transaksi offline.');
+    }
+  }
+
+  const discountValue = Number(data.discountValue) || 0;
+  const pointsToRedeem = Number(data.pointsToRedeem) || 0;
+  if (discountValue < 0 || pointsToRedeem < 0) {
+    throw new CheckoutError('Diskon dan poin tidak boleh negatif.');
+  }
+  if (data.approvalIds !== undefined && (!Array.isArray(data.approvalIds) || data.approvalIds.length > 20 ||
+      data.approvalIds.some(approvalId => !approvalId || typeof approvalId !== 'string'))) {
+    throw new CheckoutError('Data persetujuan admin tidak valid.');
+  }
+
+  return {
+    storeId: data.storeId,
+    customerId: data.customerId && data.customerId !== 'N/A' ? data.customerId : undefined,
+    items: data.items.map(item => ({
+      productId: item.productId,
+      ...(item.variantId && { variantId: item.variantId }),
+      ...(item.modifierOptionIds && item.modifierOptionIds.length > 0 && { modifierOptionIds: item.modifierOptionIds }),
+      quantity: item.quantity,
+      ...(item.priceOverride !== undefined && { priceOverride: Number(item.priceOverride) }),
+      ...(Number(item.discountValue) > 0 && { discountType: item.discountType || 'percent', discountValue: Number(item.discountValue) }),
+      ...(typeof item.notes === 'string' && item.notes.trim() !== '' && { notes: item.notes.trim().slice(0, 200) }),
+    })),
+    ...(data.giftCardSales?.length && { giftCardSales: data.giftCardSales.map(sale => ({ amount: sale.amount })) }),
+    orderType: data.orderType || 'dine-in',
+    discountType: data.discountType || 'percent',
+    discountValue,
+    pointsToRedeem: Math.floor(pointsToRedeem),
+    redemptionOptionId: typeof data.redemptionOptionId === 'string' && data.redemptionOptionId ? data.redemptionOptionId : undefined,
+    paymentMethod: data.paymentMethod as PaymentMethod,
+    payments: data.payments?.map(tender => ({
+      method: tender.method,
+      amount: Number(tender.amount),
+      ...(tender.method === 'GiftCard' && { giftCardCode: normalizeGiftCardCode(tender.giftCardCode!) }),
+    })),
+    cashTendered: data.cashTendered !== undefined ? Number(data.cashTendered) : undefined,
+    ...(data.clientId && { clientId: data.clientId }),
+    ...(data.offline && {
+      offline: {
+        provisionalReceiptNumber: data.offline.provisionalReceiptNumber,
+        soldAt: new Date(data.offline.soldAt).toISOString(),
+      },
+    }),
+    ...(data.approvalIds?.length && { approvalIds: Array.from(new Set(data.approvalIds)) }),
+  };
+}
+
+/**
+ * Resolves the tenders for a checkout against the server-computed total.
+ * A request without split tenders is settled entirely with its paymentMethod.
+ * @throws CheckoutError if the tenders don't add up to the total or the cash handed over is short.
+ */
+export function resolvePayments(request: CheckoutRequest, totalAmount: number) {
+  const payments: PaymentTender[] = request.payments && request.payments.length > 0
+    ? request.payments
+    : [{ method: request.paymentMethod, amount: totalAmount }];
+
+  const { remainingAmount, cashAmount, changeAmount } = summarizeTenders(payments, totalAmount, request.cashTendered);
+  if (remainingAmount !== 0) {
+    throw new CheckoutError(`Total pembayaran tidak sesuai dengan total transaksi (Rp ${totalAmount.toLocaleString('id-ID')}).`, 409);
+  }
+  if (request.cashTendered !== undefined && cashAmount === 0) {
+    throw new CheckoutError('Uang diterima hanya berlaku untuk pembayaran tunai.');
+  }
+  if (changeAmount < 0) {
+    throw new CheckoutError(`Uang diterima kurang dari bagian tunai (Rp ${cashAmount.toLocaleString('id-ID')}).`);
+  }
+
+  const paymentMethod: Transaction['paymentMethod'] = payments.length > 1 ? 'Split' : payments[0].method;
+  const cashDetails = request.cashTendered !== undefined ? { cashTendered: request.cashTendered, changeAmount } : {};
+  return { paymentMethod, payments, ...cashDetails };
+}
+
+/**
+ * Determines which points are redeemed and how much they are worth.
+ * A redemption option fixes both the points and the value; otherwise points are
+ * converted at the store's rpPerRedeemedPoint rate.
+ * @throws CheckoutError if the option is unavailable or direct conversion is disabled.
+ */
+function resolveRedemption(
+  request: CheckoutRequest,
+  optionDoc: FirebaseFirestore.DocumentSnapshot | null,
+  rpPerRedeemedPoint: number
+): { pointsRedeemed: number; value: number; option?: RedemptionOption } {
+  if (optionDoc) {
+    if (!optionDoc.exists) {
+      throw new CheckoutError('Opsi penukaran poin tidak ditemukan.', 404);
+    }
+    const option = { id: optionDoc.id, ...optionDoc.data() } as RedemptionOption;
+    if (!option.isActive) {
+      throw new CheckoutError(`Promo "${option.description}" sedang tidak aktif.`);
+    }
+    return { pointsRedeemed: option.pointsRequired, value: option.value, option };
+  }
+
+  if (request.pointsToRedeem > 0 && rpPerRedeemedPoint <= 0) {
+    throw new CheckoutError('Penukaran poin langsung tidak diaktifkan untuk toko ini.');
+  }
+  return { pointsRedeemed: request.pointsToRedeem, value: request.pointsToRedeem * rpPerRedeemedPoint };
+}
+
+/**
+ * Verifies that a user is allowed to ring up sales for a store.
+ * Cashiers must belong to the store; admins must be listed in its adminUids.
+ * @returns Whether the user administers the store.
+ * @throws CheckoutError if the user has no access to the store.
+ */
+export async function assertStoreMember(uid: string, storeId: string): Promise<{ isStoreAdmin: boolean }> {
+  const { db } = getFirebaseAdmin();
+  const [userDoc, storeDoc] = await Promise.all([
+    db.collection('users').doc(uid).get(),
+    db.collection('stores').doc(storeId).get(),
+  ]);
+
+  if (!userDoc.exists || !storeDoc.exists) {
+    throw new CheckoutError('Pengguna atau toko tidak ditemukan.', 404);
+  }
+
+  const user = userDoc.data();
+  const adminUids: string[] = storeDoc.data()?.adminUids || [];
+  const isMember = user?.storeId === storeId || adminUids.includes(uid);
+
+  if (!isMember || user?.status === 'inactive') {
+    throw new CheckoutError('Anda tidak memiliki akses ke toko ini.', 403);
+  }
+
+  return { isStoreAdmin: adminUids.includes(uid) || user?.role === 'admin' };
+}
+
+/**
+ * Re-prices a cart from the store's product catalog and records the sale.
+ * Stock, customer points, the store's token balance and the receipt counter are
+ * all updated in a single Firestore transaction. A sale with a QRIS tender in a store
+ * using dynamic QRIS is recorded as 'Menunggu Pembayaran' until the payment settles.
+ *
+ * A replayed offline sale already happened at the counter, so it is recorded even when
+ * stock, points or the token balance fall short; each shortfall is kept as a conflict
+ * for the admin to review. A request whose clientId was already recorded returns the stored
+ * transaction, so a checkout retried after a dropped connection is never recorded twice.
+ *
+ * Price overrides, and whatever else the store's approval policy names, must come with
+ * an admin's approval unless the cashier administers the store, offline replays included.
+ * Each approval is spent on this sale.
+ * @param request The validated checkout request.
+ * @param staffId The UID of the cashier performing the checkout.
+ * @param member Whether the cashier administers the store.
+ * @returns The stored transaction.
+ */
+export async function processCheckout(request: CheckoutRequest, staffId: string, member: { isStoreAdmin: boolean }): Promise<Transaction> {
+  const { db, admin } = getFirebaseAdmin();
+  const { FieldValue } = admin.firestore;
+  const feeSettings = await getTransactionFeeSettings();
+
+  const storeRef = db.collection('stores').doc(request.storeId);
+  // Each product is read once, even when it appears on several lines.
+  const productIds = Array.from(new Set(request.items.map(item => item.productId)));
+  const productRefs = productIds.map(productId => storeRef.collection('products').doc(productId));
+  const customerRef = request.customerId ? storeRef.collection('customers').doc(request.customerId) : null;
+  const redemptionOptionRef = request.redemptionOptionId ? storeRef.collection('redemptionOptions').doc(request.redemptionOptionId) : null;
+  const approvalRefs = (request.approvalIds || []).map(approvalId => storeRef.collection('approvalLogs').doc(approvalId));
+  const newTransactionRef = request.clientId
+    ? storeRef.collection('transactions').doc(request.clientId)
+    : storeRef.collection('transactions').doc();
+
+  // The store doc only holds settings and the token balance here, so it is read outside the
+  // transaction: checkouts running side by side would otherwise all contend on it.
+  const [storeDoc, pendingTransactionFees] = await Promise.all([storeRef.get(), getPendingTransactionFees(storeRef)]);
+  if (!storeDoc.exists) {
+    throw new CheckoutError('Toko tidak ditemukan.', 404);
+  }
+  const storeData = storeDoc.data() || {};
+
+  return db.runTransaction(async (transaction) => {
+    if (request.clientId) {
+      const existingDoc = await transaction.get(newTransactionRef);
+      if (existingDoc.exists) {
+        return existingDoc.data() as Transaction;
+      }
+    }
+    const conflicts: OfflineSyncConflict[] = [];
+
+    const productDocs = productRefs.length > 0 ? await transaction.getAll(...productRefs) : [];
+    // Bundles sell from their components' stock, so components not on the cart are read too.
+    const componentIds = Array.from(new Set(productDocs.flatMap(productDoc =>
+      ((productDoc.data()?.bundleItems || []) as ProductBundleItem[]).map(bundleItem => bundleItem.productId)
+    ))).filter(productId => !productIds.includes(productId));
+    const componentDocs = componentIds.length > 0
+      ? await transaction.getAll(...componentIds.map(productId => storeRef.collection('products').doc(productId)))
+      : [];
+    const customerDoc = customerRef ? await transaction.get(customerRef) : null;
+    const redemptionOptionDoc = redemptionOptionRef ? await transaction.get(redemptionOptionRef) : null;
+    const approvalDocs = approvalRefs.length > 0 ? await transaction.getAll(...approvalRefs) : [];
+    const openShiftSnapshot = await transaction.get(
+      storeRef.collection('shifts').where('staffId', '==', staffId).where('status', '==', 'open').limit(1)
+    );
+    const promotionRulesSnapshot = await transaction.get(storeRef.collection('promotionRules').where('isActive', '==', true));
+    const giftCardRedemptions = getGiftCardRedemptions(request.payments || []);
+    const giftCardDocs = giftCardRedemptions.length > 0
+      ? await transaction.getAll(...giftCardRedemptions.map(redemption => getGiftCardRef(storeRef, redemption.code)))
+      : [];
+
+    if (customerRef && !customerDoc?.exists) {
+      if (!request.offline) {
+        throw new CheckoutError('Pelanggan tidak ditemukan.', 404);
+      }
+      conflicts.push({ type: 'customer', message: 'Pelanggan sudah dihapus; transaksi dicatat sebagai tamu tanpa poin.' });
+    }
+
+    // 1. Re-price every line from the catalog and check stock
+    const productsById = new Map<string, Product>();
+    productDocs.forEach((productDoc, index) => {
+      if (!productDoc.exists) {
+        throw new CheckoutError(`Produk ${productIds[index]} tidak ditemukan.`, 404);
+      }
+      productsById.set(productDoc.id, { id: productDoc.id, ...productDoc.data() } as Product);
+    });
+    componentDocs.forEach(componentDoc => {
+      if (componentDoc.exists) {
+        productsById.set(componentDoc.id, { id: componentDoc.id, ...componentDoc.data() } as Product);
+      }
+    });
+
+    const items: TransactionItem[] = request.items.map(requestItem => {
+      const product = productsById.get(requestItem.productId)!;
+      let selection: ProductSelection;
+      let bundleItems: TransactionItem['bundleItems'];
+      try {
+        selection = resolveProductSelection(product, requestItem.variantId, requestItem.modifierOptionIds);
+        bundleItems = isBundleProduct(product) ? getTransactionBundleItems(product, Array.from(productsById.values())) : undefined;
+      } catch (error) {
+        throw new CheckoutError((error as Error).message);
+      }
+
+      if (!isValidQuantity(requestItem.quantity, product.unit)) {
+        throw new CheckoutError(`Jumlah tidak valid untuk produk ${product.name}.`);
+      }
+
+      const catalogPrice = selection.unitPrice;
+      const isOverridden = requestItem.priceOverride !== undefined && requestItem.priceOverride !== catalogPrice;
+      const item: TransactionItem = {
+        productId: requestItem.productId,
+        productName: product.name,
+        ...(selection.variant && { variantId: selection.variant.id, variantName: selection.variant.name }),
+        ...(selection.modifiers.length > 0 && { modifiers: selection.modifiers }),
+        quantity: requestItem.quantity,
+        ...getItemUnit(product),
+        price: isOverridden ? requestItem.priceOverride! : catalogPrice,
+        ...(isOverridden && { originalPrice: catalogPrice }),
+        ...(!!requestItem.discountValue && { discountType: requestItem.discountType, discountValue: requestItem.discountValue }),
+        ...(requestItem.notes && { notes: requestItem.notes }),
+        ...(bundleItems && { bundleItems }),
+      };
+      const discountAmount = calculateLineDiscount(item);
+      return discountAmount > 0 ? { ...item, discountAmount } : item;
+    });
+
+    // Automatic promotions are evaluated here at the moment of sale; the POS only previews them.
+    const promotionRules = promotionRulesSnapshot.docs.map(ruleDoc => ({ id: ruleDoc.id, ...ruleDoc.data() } as PromotionRule));
+    const soldAt = request.offline ? new Date(request.offline.soldAt) : new Date();
+    const promotions = evaluatePromotions(promotionRules, items, Array.from(productsById.values()), soldAt);
+    promotions.lineDiscounts.forEach((promotionDiscountAmount, index) => {
+      if (promotionDiscountAmount > 0) {
+        items[index] = { ...items[index], promotionDiscountAmount };
+      }
+    });
+
+    // Lines of the same product (e.g. different variants or notes) draw on the same stock, and so
+    // do bundles sharing a component. A bundle keeps no stock of its own.
+    const stockLines = expandBundleLines(items);
+    const stockedProductIds = Array.from(new Set(stockLines.map(line => line.productId)));
+    const stockUpdates = stockedProductIds.map(productId => {
+      const product = productsById.get(productId)!;
+      const productItems = stockLines.filter(line => line.productId === productId);
+      const quantity = roundQuantity(productItems.reduce((sum, item) => sum + item.quantity, 0), product.unit);
+      if ((product.stock || 0) < quantity) {
+        if (!request.offline) {
+          throw new CheckoutError(`Stok tidak cukup untuk ${product.name}.`, 409);
+        }
+        conflicts.push({
+          type: 'stock',
+          message: `Terjual ${formatQuantity(quantity, product.unit)} ${product.name}, stok tercatat ${formatQuantity(product.stock || 0, product.unit)}; stok disetel ke 0.`,
+        });
+      }
+
+      const tracksVariantStock = (product.variants || []).some(variant => variant.stock !== undefined);
+      const variants = tracksVariantStock ? product.variants!.map(variant => {
+        if (variant.stock === undefined) return variant;
+        const variantQuantity = productItems
+          .filter(item => item.variantId === variant.id)
+          .reduce((sum, item) => sum + item.quantity, 0);
+        if (variant.stock < variantQuantity) {
+          if (!request.offline) {
+            throw new CheckoutError(`Stok tidak cukup untuk ${product.name} (${variant.name}).`, 409);
+          }
+          conflicts.push({
+            type: 'stock',
+            message: `Terjual ${formatQuantity(variantQuantity, product.unit)} ${product.name} (${variant.name}), stok tercatat ${formatQuantity(variant.stock, product.unit)}; stok disetel ke 0.`,
+          });
+        }
+        return { ...variant, stock: Math.max(0, roundQuantity(variant.stock - variantQuantity, product.unit)) };
+      }) : undefined;
+
+      // Stock was read in this transaction, so it is written as a value rather than an increment
+      // to keep fractional stock rounded to the unit's precision.
+      return { productId, stock: Math.max(0, roundQuantity((product.stock || 0) - quantity, product.unit)), variants };
+    });
+
+    // 2. Line discounts and promotions, then the manual discount on what remains
+    const lineDiscountAmount = items.reduce((total, item) => total + (item.discountAmount || 0), 0);
+    const subtotal = items.reduce((total, item) => total + getLineGrossAmount(item), 0) - lineDiscountAmount;
+    const promotionDiscountAmount = Math.min(promotions.discountAmount, subtotal);
+    const discountableAmount = subtotal - promotionDiscountAmount;
+    const requestedDiscount = request.discountType === 'percent'
+      ? Math.round((discountableAmount * Math.min(request.discountValue, 100)) / 100)
+      : request.discountValue;
+    const discountAmount = Math.min(requestedDiscount, discountableAmount);
+
+    // 3. Points redemption, applied after the manual discount
+    const customerData = customerDoc?.data();
+    const customerPoints = customerData?.loyaltyPoints || 0;
+    const pointSettings = storeData.pointEarningSettings || {};
+    const requestedRedemption = resolveRedemption(request, redemptionOptionDoc, pointSettings.rpPerRedeemedPoint || 0);
+
+    if (requestedRedemption.pointsRedeemed > 0 && !customerData) {
+      if (!request.offline) {
+        throw new CheckoutError('Penukaran poin memerlukan pelanggan terdaftar.');
+      }
+      conflicts.push({
+        type: 'points',
+        message: `Ditukar ${requestedRedemption.pointsRedeemed} poin tanpa pelanggan terdaftar; penukaran poin dibatalkan.`,
+      });
+    }
+    // Points only have value on a customer's balance.
+    const redemption = customerData ? requestedRedemption : { pointsRedeemed: 0, value: 0 };
+    if (redemption.pointsRedeemed > customerPoints && customerData) {
+      if (!request.offline) {
+        throw new CheckoutError(`Pelanggan hanya memiliki ${customerPoints} poin.`);
+      }
+      conflicts.push({
+        type: 'points',
+        message: `Ditukar ${redemption.pointsRedeemed} poin, saldo pelanggan tinggal ${customerPoints} poin; saldo disetel ke 0.`,
+      });
+    }
+    const redemptionDiscountAmount = Math.min(redemption.value, discountableAmount - discountAmount);
+
+    // Cashier actions the store wants an admin to approve. Offline replays are held to the same
+    // policy: `offline` is only the client's word, and approvals can't be given without the server.
+    const approvalSettings: ApprovalSettings = { ...defaultApprovalSettings, ...storeData.approvalSettings };
+    const neededApprovals = member.isStoreAdmin ? [] : getCheckoutApprovalRequests({
+      items,
+      discountAmount,
+      discountableAmount,
+      pointsRedeemed: redemption.pointsRedeemed,
+    }, approvalSettings);
+    if (!approvalSettings.priceOverrides && neededApprovals.some(need => need.action === 'price-override')) {
+      throw new CheckoutError('Hanya admin yang dapat mengubah harga produk.', 403);
+    }
+    const approvals = approvalDocs
+      .filter(approvalDoc => approvalDoc.exists)
+      .map(approvalDoc => ({ id: approvalDoc.id, ...approvalDoc.data() } as ApprovalLog));
+    const matchedApprovals = matchCheckoutApprovals(neededApprovals, approvals, staffId, soldAt, newTransactionRef.id);
+    if (matchedApprovals.missing.length > 0) {
+      throw new CheckoutError(`Perlu persetujuan admin: ${matchedApprovals.missing.map(need => need.details.description).join('; ')}.`, 403);
+    }
+
+    // 4. Service charge and tax on the discounted amount, then gift cards sold on top, fee and payments
+    const netAmount = Math.max(0, discountableAmount - discountAmount - redemptionDiscountAmount);
+    const taxSettings = { ...defaultTaxSettings, ...storeData.taxSettings };
+    const taxBreakdown = calculateTaxAndService(netAmount, taxSettings, request.orderType);
+    const giftCardSalesAmount = (request.giftCardSales || []).reduce((sum, sale) => sum + sale.amount, 0);
+    const totalAmount = taxBreakdown.totalAmount + giftCardSalesAmount;
+    // The fee is charged on goods; a gift card pays its share when it is spent.
+    const transactionFee = items.length > 0 ? calculateTransactionFee(taxBreakdown.totalAmount, feeSettings) : 0;
+    const paymentDetails = resolvePayments(request, totalAmount);
+
+    const giftCards = giftCardDocs.map((giftCardDoc, index) => {
+      if (!giftCardDoc.exists) {
+        throw new CheckoutError(`Gift card ${giftCardRedemptions[index].code} tidak ditemukan.`, 404);
+      }
+      const giftCard = giftCardDoc.data() as GiftCard;
+      const unavailableReason = getGiftCardUnavailableReason(giftCard);
+      if (unavailableReason) {
+        throw new CheckoutError(unavailableReason, 409);
+      }
+      if (giftCard.balance < giftCardRedemptions[index].amount) {
+        throw new CheckoutError(`Saldo gift card ${giftCard.code} hanya Rp ${giftCard.balance.toLocaleString('id-ID')}.`, 409);
+      }
+      return giftCard;
+    });
+    const giftCardTenderAmount = giftCardRedemptions.reduce((sum, redemption) => sum + redemption.amount, 0);
+    if (giftCardSalesAmount > 0 && giftCardTenderAmount > taxBreakdown.totalAmount) {
+      throw new CheckoutError('Gift card tidak dapat digunakan untuk membeli gift card.');
+    }
+    // With dynamic QRIS the sale is held until the provider confirms the QRIS tender. An offline
+    // counter can only take the static QR, which the cashier has already confirmed.
+    const awaitsQrisPayment = !request.offline && !!storeData.posSettings?.dynamicQrisEnabled && paymentDetails.payments.some(tender => tender.method === 'QRIS');
+
+    // Fees of recent sales are only deducted from the balance once their tallies are settled.
+    const currentTokenBalance = (storeData.pradanaTokenBalance || 0) - pendingTransactionFees;
+    if (currentTokenBalance < transactionFee) {
+      if (!request.offline) {
+        throw new CheckoutError(`Saldo Token Toko Tidak Cukup. Sisa: ${currentTokenBalance.toFixed(2)}, Dibutuhkan: ${transactionFee.toFixed(2)}`, 402);
+      }
+      // The fee is still owed, so the balance goes negative until the next top-up.
+      conflicts.push({
+        type: 'token-fee',
+        message: `Biaya ${transactionFee.toFixed(2)} token melebihi saldo ${currentTokenBalance.toFixed(2)}; saldo token menjadi minus.`,
+      });
+    }
+
+    const rpPerPoint = pointSettings.rpPerPoint || defaultRpPerPoint;
+    const pointsEarned = customerData ? Math.floor(taxBreakdown.totalAmount / rpPerPoint) : 0;
+
+    const claimedReceiptNumber = await claimReceiptNumber(transaction, storeRef, storeData, soldAt);
+
+    // 5. Writes
+    claimedReceiptNumber.write();
+    recordCheckoutTally(transaction, storeRef, transactionFee);
+    // Only a store's very first sale writes the store doc.
+    if (!storeData.firstTransactionDate && !storeData.transactionCounter) {
+      transaction.update(storeRef, { firstTransactionDate: FieldValue.serverTimestamp() });
+    }
+
+    matchedApprovals.used.forEach(approval => {
+      transaction.update(storeRef.collection('approvalLogs').doc(approval.id), { transactionId: newTransactionRef.id });
+    });
+
+    stockUpdates.forEach(({ productId, stock, variants }) => {
+      updateProductStock(transaction, storeRef, productsById.get(productId)!, {
+        stock,
+        ...(variants && { variants }),
+      }, { type: 'sale', transactionId: newTransactionRef.id, staffId });
+    });
+
+    if (customerDoc && customerData) {
+      transaction.update(customerDoc.ref, { loyaltyPoints: Math.max(0, customerPoints + pointsEarned - redemption.pointsRedeemed) });
+    }
+
+    giftCards.forEach((giftCard, index) => {
+      const balanceAfter = giftCard.balance - giftCardRedemptions[index].amount;
+      transaction.update(getGiftCardRef(storeRef, giftCard.code), { balance: balanceAfter });
+      recordGiftCardMovement(transaction, storeRef, {
+        code: giftCard.code,
+        type: 'redeem',
+        amount: -giftCardRedemptions[index].amount,
+        balanceAfter,
+        ...(giftCard.customerId && { customerId: giftCard.customerId }),
+        transactionId: newTransactionRef.id,
+        staffId,
+      });
+    });
+    // Cards sold on a sale held for QRIS only become usable once it is paid.
+    const giftCardSales = (request.giftCardSales || []).map(sale => {
+      const giftCard = issueGiftCard(transaction, storeRef, {
+        type: 'gift-card',
+        status: awaitsQrisPayment ? 'pending' : 'active',
+        amount: sale.amount,
+        ...(customerDoc && customerData && { customerId: customerDoc.id, customerName: customerData.name }),
+        expiryMonths: storeData.posSettings?.giftCardExpiryMonths ?? defaultGiftCardExpiryMonths,
+        transactionId: newTransactionRef.id,
+        staffId,
+      });
+      return { code: giftCard.code, amount: sale.amount };
+    });
+
+    const transactionData: Transaction = {
+      id: newTransactionRef.id,
+      receiptNumber: claimedReceiptNumber.receiptNumber,
+      formattedReceiptNumber: claimedReceiptNumber.formattedReceiptNumber,
+      storeId: request.storeId,
+      customerId: customerDoc?.id || 'N/A',
+      customerName: customerData?.name || 'Guest',
+      staffId,
+      ...(!openShiftSnapshot.empty && { shiftId: openShiftSnapshot.docs[0].id }),
+      createdAt: soldAt.toISOString(),
+      subtotal,
+      lineDiscountAmount,
+      ...(promotions.appliedPromotions.length > 0 && {
+        promotionDiscountAmount,
+        appliedPromotions: promotions.appliedPromotions,
+      }),
+      discountAmount,
+      redemptionDiscountAmount,
+      ...(redemption.option ? { redemptionOptionId: redemption.option.id, redemptionDescription: redemption.option.description } : {}),
+      orderType: request.orderType || 'dine-in',
+      ...(taxBreakdown.serviceChargeRate > 0 && {
+        serviceChargeAmount: taxBreakdown.serviceChargeAmount,
+        serviceChargeRate: taxBreakdown.serviceChargeRate,
+      }),
+      ...(taxBreakdown.taxRate > 0 && {
+        taxAmount: taxBreakdown.taxAmount,
+        taxRate: taxBreakdown.taxRate,
+        taxName: taxSettings.taxName,
+        taxInclusive: taxSettings.taxInclusive,
+      }),
+      totalAmount,
+      ...paymentDetails,
+      pointsEarned,
+      pointsRedeemed: redemption.pointsRedeemed,
+      transactionFee,
+      items,
+      ...(giftCardSales.length > 0 && { giftCardSales }),
+      status: awaitsQrisPayment ? 'Menunggu Pembayaran' : 'Selesai',
+      ...(request.offline && {
+        offlineSync: {
+          provisionalReceiptNumber: request.offline.provisionalReceiptNumber,
+          soldAt: request.offline.soldAt,
+          syncedAt: new Date().toISOString(),
+          ...(conflicts.length > 0 && { conflicts }),
+        },
+      }),
+    };
+    transaction.set(newTransactionRef, transactionData);
+
+    return transactionData;
+  });
+}
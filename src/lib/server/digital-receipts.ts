@@ -0,0 +1,212 @@
+import { randomBytes } from 'crypto';
+import { getFirebaseAdmin } from './firebase-admin';
+import { getReceiptNumberLabel } from '../receipt-numbers';
+import { isPaidTransaction } from '../payments';
+import { formatWhatsappNumber } from '../utils';
+import type { Customer, DigitalReceipt, DigitalReceiptView, ReceiptItem, ReceiptTransaction, Transaction, TransactionItem } from '../types';
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+/**
+ * An error raised while sharing or opening a digital receipt.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class DigitalReceiptError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'DigitalReceiptError';
+    this.status = status;
+    Object.setPrototypeOf(this, DigitalReceiptError.prototype);
+  }
+}
+
+export type SendDigitalReceiptRequest = {
+  storeId: string;
+  transactionId: string;
+};
+
+/**
+ * Validates the shape of a send-receipt request body.
+ * @throws DigitalReceiptError if the body is malformed.
+ */
+export function parseSendDigitalReceiptRequest(body: unknown): SendDigitalReceiptRequest {
+  const data = (body || {}) as Partial<SendDigitalReceiptRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.transactionId || typeof data.transactionId !== 'string') {
+    throw new DigitalReceiptError('storeId dan transactionId diperlukan.');
+  }
+  return { storeId: data.storeId, transactionId: data.transactionId };
+}
+
+function formatDigitalReceiptMessage(sale: Transaction, storeName: string, url: string): string {
+  return [
+    `Halo ${sale.customerName}, terima kasih telah berbelanja di ${storeName}!`,
+    '',
+    `Nota: ${getReceiptNumberLabel(sale)}`,
+    `Total: Rp ${sale.totalAmount.toLocaleString('id-ID')}`,
+    ...(sale.pointsEarned > 0 ? [`Poin didapat: +${sale.pointsEarned}`] : []),
+    '',
+    `Lihat struk digital Anda: ${url}`,
+  ].join('\n');
+}
+
+/**
+ * Shares a paid sale's receipt as a /struk link and queues it for the customer on WhatsApp.
+ * A sale keeps the same link however often its receipt is sent.
+ * @param request The validated request.
+ * @param origin The origin the link points to, e.g. "https://pos.example.com".
+ * @returns The link and the number it was sent to.
+ * @throws DigitalReceiptError if the sale isn't paid or its customer has no phone number.
+ */
+export async function sendDigitalReceipt(request: SendDigitalReceiptRequest, origin: string): Promise<{ url: string; sentTo: string }> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const transactionRef = storeRef.collection('transactions').doc(request.transactionId);
+
+  const transactionDoc = await transactionRef.get();
+  if (!transactionDoc.exists) {
+    throw new DigitalReceiptError('Transaksi tidak ditemukan.', 404);
+  }
+  const sale = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+  if (!isPaidTransaction(sale)) {
+    throw new DigitalReceiptError('Struk hanya dapat dikirim untuk transaksi yang sudah dibayar.', 409);
+  }
+  if (sale.customerId === 'N/A') {
+    throw new DigitalReceiptError('Struk digital hanya dapat dikirim ke pelanggan terdaftar.', 412);
+  }
+  const [customerDoc, storeDoc] = await Promise.all([
+    storeRef.collection('customers').doc(sale.customerId).get(),
+    storeRef.get(),
+  ]);
+  const customer = customerDoc.data() as Customer | undefined;
+  const phone = formatWhatsappNumber(customer?.phone || '');
+  if (!phone) {
+    throw new DigitalReceiptError(`Pelanggan "${sale.customerName}" tidak memiliki nomor WhatsApp.`, 412);
+  }
+
+  // Created in a transaction so two cashiers sending the same receipt end up with one link.
+  const token = await db.runTransaction(async (transaction) => {
+    const currentDoc = await transaction.get(transactionRef);
+    const existingToken = currentDoc.data()?.digitalReceiptToken;
+    if (existingToken) return existingToken as string;
+
+    const newToken = randomBytes(16).toString('base64url');
+    const digitalReceipt: DigitalReceipt = {
+      token: newToken,
+      storeId: request.storeId,
+      transactionId: request.transactionId,
+      createdAt: new Date().toISOString(),
+    };
+    transaction.create(db.collection('digitalReceipts').doc(newToken), digitalReceipt);
+    transaction.update(transactionRef, { digitalReceiptToken: newToken });
+    return newToken;
+  });
+
+  const url = `${origin}/struk/${token}`;
+  await db.collection('whatsappQueue').add({
+    to: phone,
+    storeId: request.storeId,
+    message: formatDigitalReceiptMessage(sale, storeDoc.data()?.name || '', url),
+    createdAt: new Date().toISOString(),
+  });
+
+  return { url, sentTo: phone };
+}
+
+function toReceiptItem(item: TransactionItem): ReceiptItem {
+  return {
+    productName: item.productName,
+    variantName: item.variantName,
+    modifiers: item.modifiers?.map(modifier => ({ optionName: modifier.optionName })),
+    bundleItems: item.bundleItems?.map(bundleItem => ({ productName: bundleItem.productName, quantity: bundleItem.quantity, unit: bundleItem.unit })),
+    quantity: item.quantity,
+    unit: item.unit,
+    price: item.price,
+    originalPrice: item.originalPrice,
+    discountType: item.discountType,
+    discountValue: item.discountValue,
+    discountAmount: item.discountAmount,
+  };
+}
+
+// Copies only what the receipt prints, leaving out the ids, fees and notes kept on the sale.
+function toReceiptTransaction(sale: Transaction): ReceiptTransaction {
+  return {
+    receiptNumber: sale.receiptNumber,
+    formattedReceiptNumber: sale.formattedReceiptNumber,
+    createdAt: sale.createdAt,
+    customerName: sale.customerName,
+    items: sale.items.map(toReceiptItem),
+    giftCardSales: sale.giftCardSales,
+    subtotal: sale.subtotal,
+    appliedPromotions: sale.appliedPromotions,
+    discountAmount: sale.discountAmount,
+    redemptionDescription: sale.redemptionDescription,
+    redemptionDiscountAmount: sale.redemptionDiscountAmount,
+    serviceChargeAmount: sale.serviceChargeAmount,
+    serviceChargeRate: sale.serviceChargeRate,
+    taxName: sale.taxName,
+    taxRate: sale.taxRate,
+    taxAmount: sale.taxAmount,
+    taxInclusive: sale.taxInclusive,
+    totalAmount: sale.totalAmount,
+    paymentMethod: sale.paymentMethod,
+    payments: sale.payments,
+    cashTendered: sale.cashTendered,
+    changeAmount: sale.changeAmount,
+    pointsEarned: sale.pointsEarned,
+    pointsRedeemed: sale.pointsRedeemed,
+    ...(sale.offlineSync && {
+      offlineSync: {
+        provisionalReceiptNumber: sale.offlineSync.provisionalReceiptNumber,
+        syncedAt: sale.offlineSync.syncedAt,
+      },
+    }),
+  };
+}
+
+/**
+ * Looks up the receipt behind a /struk token. Anyone with the link may open it, so only
+ * what is printed on the paper receipt is returned.
+ * @throws DigitalReceiptError if the token is unknown.
+ */
+export async function getDigitalReceiptView(token: string): Promise<DigitalReceiptView> {
+  if (!TOKEN_PATTERN.test(token)) {
+    throw new DigitalReceiptError('Struk tidak ditemukan.', 404);
+  }
+  const { db } = getFirebaseAdmin();
+  const receiptDoc = await db.collection('digitalReceipts').doc(token).get();
+  if (!receiptDoc.exists) {
+    throw new DigitalReceiptError('Struk tidak ditemukan.', 404);
+  }
+  const { storeId, transactionId } = receiptDoc.data() as DigitalReceipt;
+  const storeRef = db.collection('stores').doc(storeId);
+  const [storeDoc, transactionDoc] = await Promise.all([
+    storeRef.get(),
+    storeRef.collection('transactions').doc(transactionId).get(),
+  ]);
+  if (!storeDoc.exists || !transactionDoc.exists) {
+    throw new DigitalReceiptError('Struk tidak ditemukan.', 404);
+  }
+
+  const storeData = storeDoc.data() || {};
+  const sale = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+  const staffDoc = await db.collection('users').doc(sale.staffId).get();
+  const receiptSettings = storeData.receiptSettings || {};
+  const isCatalogActive = !!storeData.catalogSlug && !!storeData.catalogSubscriptionExpiry
+    && new Date(storeData.catalogSubscriptionExpiry) > new Date();
+
+  return {
+    storeName: storeData.name || '',
+    // A store that never set up its receipt is headed with its own name rather than the sample text.
+    receiptSettings: {
+      headerText: receiptSettings.headerText ?? [storeData.name, storeData.location].filter(Boolean).join('\n'),
+      footerText: receiptSettings.footerText ?? 'Terima kasih telah berbelanja!',
+      promoText: receiptSettings.promoText ?? '',
+    },
+    ...(isCatalogActive && { catalogSlug: storeData.catalogSlug }),
+    staffName: staffDoc.data()?.name || '',
+    transaction: toReceiptTransaction(sale),
+  };
+}
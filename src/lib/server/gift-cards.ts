@@ -0,0 +1,90 @@
+import { randomInt } from 'crypto';
+import { getGiftCardExpiry, normalizeGiftCardCode } from '../gift-cards';
+import type { GiftCard, GiftCardMovement, GiftCardStatus, GiftCardType } from '../types';
+
+// Letters and digits that can't be mistaken for one another when read aloud or typed.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+
+// Mirrors the client-side default in pos-settings.ts.
+export const defaultGiftCardExpiryMonths = 12;
+
+function generateGiftCardCode(): string {
+  const characters = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]);
+  return normalizeGiftCardCode(characters.join(''));
+}
+
+export function getGiftCardRef(storeRef: FirebaseFirestore.DocumentReference, code: string) {
+  return storeRef.collection('giftCards').doc(normalizeGiftCardCode(code));
+}
+
+/**
+ * Writes an entry to the store's gift card ledger. Every balance change goes through
+ * here so the history of a card always adds up to its balance.
+ */
+export function recordGiftCardMovement(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  movement: Omit<GiftCardMovement, 'id' | 'createdAt'>
+) {
+  const movementRef = storeRef.collection('giftCardMovements').doc();
+  transaction.set(movementRef, {
+    id: movementRef.id,
+    ...movement,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export type GiftCardIssue = {
+  type: GiftCardType;
+  status: Exclude<GiftCardStatus, 'void'>;
+  amount: number;
+  customerId?: string;
+  customerName?: string;
+  expiryMonths: number;
+  transactionId?: string;
+  refundId?: string;
+  staffId: string;
+};
+
+/**
+ * Creates a gift card with a fresh code and records its issue in the ledger. The card
+ * is created rather than set, so the Firestore transaction fails instead of overwriting
+ * an existing card on the unlikely event of a code collision.
+ * @returns The new card.
+ */
+export function issueGiftCard(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  issue: GiftCardIssue
+): GiftCard {
+  const code = generateGiftCardCode();
+  const now = new Date();
+  const expiresAt = getGiftCardExpiry(now, issue.expiryMonths);
+  const card: GiftCard = {
+    id: code,
+    code,
+    type: issue.type,
+    status: issue.status,
+    initialBalance: issue.amount,
+    balance: issue.amount,
+    ...(issue.customerId && { customerId: issue.customerId, customerName: issue.customerName || '' }),
+    ...(expiresAt && { expiresAt }),
+    ...(issue.transactionId && { transactionId: issue.transactionId }),
+    ...(issue.refundId && { refundId: issue.refundId }),
+    staffId: issue.staffId,
+    createdAt: now.toISOString(),
+  };
+  transaction.create(getGiftCardRef(storeRef, code), card);
+  recordGiftCardMovement(transaction, storeRef, {
+    code,
+    type: 'issue',
+    amount: issue.amount,
+    balanceAfter: issue.amount,
+    ...(issue.customerId && { customerId: issue.customerId }),
+    ...(issue.transactionId && { transactionId: issue.transactionId }),
+    ...(issue.refundId && { refundId: issue.refundId }),
+    staffId: issue.staffId,
+  });
+  return card;
+}
@@ -0,0 +1,93 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { PaymentError, type QrisPaymentAdapter, type QrisPaymentEvent } from './payments';
+
+/**
+ * Computes the CRC16-CCITT (0xFFFF) checksum that closes every QRIS payload (tag 63).
+ */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+  }
+  return (crc & 0xffff).toString(16).toUpperCase().padStart(4, '0');
+}
+
+function tlv(tag: string, value: string): string {
+  return `${tag}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+/**
+ * Builds a dynamic QRIS (EMVCo) payload for an amount.
+ * The merchant details are placeholders; real providers return their own payload.
+ */
+function buildQrisPayload(amount: number, reference: string): string {
+  const payload = [
+    tlv('00', '01'),
+    tlv('01', '12'), // Dynamic, single-use QR
+    tlv('26', tlv('00', 'ID.CO.QRIS.WWW') + tlv('01', '936000000000000001') + tlv('02', 'MOCKCHIKAPOS')),
+    tlv('52', '5499'),
+    tlv('53', '360'), // Rupiah
+    tlv('54', String(Math.round(amount))),
+    tlv('58', 'ID'),
+    tlv('59', 'CHIKA POS MOCK'),
+    tlv('60', 'JAKARTA'),
+    tlv('62', tlv('05', reference.slice(0, 25))),
+  ].join('') + '6304';
+  return payload + crc16(payload);
+}
+
+function getWebhookSecret(): string | undefined {
+  return process.env.QRIS_WEBHOOK_SECRET;
+}
+
+/**
+ * Signs a mock webhook body the way the mock provider would, for local testing.
+ */
+export function signMockWebhook(rawBody: string): string {
+  return createHmac('sha256', getWebhookSecret() || '').update(rawBody).digest('hex');
+}
+
+/**
+ * A local stand-in for a QRIS provider.
+ * It issues a real QRIS payload that banking apps will refuse, never settles on its own,
+ * and accepts webhooks signed with QRIS_WEBHOOK_SECRET in the `x-callback-signature` header.
+ * Payments are confirmed through /api/payments/qris/simulate instead.
+ */
+export const mockQrisAdapter: QrisPaymentAdapter = {
+  name: 'mock',
+
+  async createCharge({ reference, amount, expiresAt }) {
+    return {
+      providerReference: `MOCK-${randomUUID()}`,
+      qrString: buildQrisPayload(amount, reference),
+      expiresAt,
+    };
+  },
+
+  async getChargeStatus() {
+    return 'pending';
+  },
+
+  parseWebhook(rawBody, headers) {
+    const secret = getWebhookSecret();
+    const signature = headers.get('x-callback-signature') || '';
+    const expected = signMockWebhook(rawBody);
+    if (!secret || signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new PaymentError('Tanda tangan webhook tidak valid.', 401);
+    }
+
+    const body = JSON.parse(rawBody) as Partial<QrisPaymentEvent>;
+    if (!body.paymentId || !['paid', 'expired', 'cancelled'].includes(body.status as string)) {
+      throw new PaymentError('Payload webhook tidak valid.');
+    }
+    return {
+      paymentId: body.paymentId,
+      status: body.status as QrisPaymentEvent['status'],
+      ...(typeof body.amount === 'number' && { amount: body.amount }),
+      ...(typeof body.paidAt === 'string' && { paidAt: body.paidAt }),
+    };
+  },
+};
@@ -0,0 +1,357 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { getRestockUpdate } from './refunds';
+import { mockQrisAdapter } from './mock-qris-adapter';
+import { getGiftCardRef, recordGiftCardMovement } from './gift-cards';
+import { recordReceiptNumberVoid } from './receipt-numbers';
+import { updateProductStock } from './stock-movements';
+import { getTransactionPayments } from '../payments';
+import { expandBundleLines } from '../bundles';
+import { getGiftCardRedemptions } from '../gift-cards';
+import type { GiftCard, Product, QrisPayment, QrisPaymentStatus, ReceiptNumberVoidReason, Transaction, TransactionQrisPayment } from '../types';
+
+// How long a customer has to scan and pay a dynamic QR.
+const QRIS_EXPIRY_MINUTES = 15;
+
+/**
+ * An error raised while creating or settling a QRIS payment.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class PaymentError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PaymentError';
+    this.status = status;
+    Object.setPrototypeOf(this, PaymentError.prototype);
+  }
+}
+
+export type QrisChargeRequest = {
+  reference: string; // Our qrisPayments document ID, echoed back by the provider
+  amount: number;
+  expiresAt: string; // ISO 8601
+};
+
+export type QrisCharge = {
+  providerReference: string;
+  qrString: string;
+  expiresAt: string; // ISO 8601, as granted by the provider
+};
+
+// A settled payment reported by a provider, through its webhook or a status check.
+export type QrisPaymentEvent = {
+  paymentId: string;
+  status: Exclude<QrisPaymentStatus, 'pending'>;
+  amount?: number;
+  paidAt?: string;
+};
+
+/**
+ * What a QRIS provider integration must implement.
+ * Adapters only talk to the provider; recording the outcome is left to this module.
+ */
+export interface QrisPaymentAdapter {
+  name: string;
+  createCharge(request: QrisChargeRequest): Promise<QrisCharge>;
+  getChargeStatus(providerReference: string): Promise<QrisPaymentStatus>;
+  /**
+   * Verifies and parses a webhook call.
+   * @throws PaymentError with status 401 if the signature doesn't match.
+   */
+  parseWebhook(rawBody: string, headers: Headers): QrisPaymentEvent;
+}
+
+const qrisAdapters: Record<string, QrisPaymentAdapter> = {
+  [mockQrisAdapter.name]: mockQrisAdapter,
+};
+
+export type QrisPaymentRequest = {
+  storeId: string;
+  transactionId: string;
+};
+
+/**
+ * Validates the body of the POS's QRIS status, cancel and simulate requests.
+ * @throws PaymentError if the body is malformed.
+ */
+export function parseQrisPaymentRequest(body: unknown): QrisPaymentRequest {
+  const data = (body || {}) as Partial<QrisPaymentRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.transactionId || typeof data.transactionId !== 'string') {
+    throw new PaymentError('storeId dan transactionId diperlukan.');
+  }
+  return { storeId: data.storeId, transactionId: data.transactionId };
+}
+
+/**
+ * Returns the adapter for a provider, by default the one named in QRIS_PROVIDER.
+ * @throws PaymentError if no adapter is registered under that name.
+ */
+export function getQrisAdapter(name: string = process.env.QRIS_PROVIDER || mockQrisAdapter.name): QrisPaymentAdapter {
+  const adapter = qrisAdapters[name];
+  if (!adapter) {
+    throw new PaymentError(`Penyedia QRIS "${name}" tidak dikenal.`, 500);
+  }
+  return adapter;
+}
+
+/**
+ * Issues a dynamic QR for a transaction that is waiting for QRIS payment.
+ * Only the QRIS tender is charged, so split payments work the same way.
+ * @param transaction A transaction with status 'Menunggu Pembayaran'.
+ * @returns The transaction with its qrisPayment attached.
+ */
+export async function createQrisPaymentForTransaction(transaction: Transaction): Promise<Transaction> {
+  const { db } = getFirebaseAdmin();
+  const adapter = getQrisAdapter();
+  const amount = getTransactionPayments(transaction)
+    .filter(tender => tender.method === 'QRIS')
+    .reduce((sum, tender) => sum + tender.amount, 0);
+
+  const paymentRef = db.collection('qrisPayments').doc();
+  const charge = await adapter.createCharge({
+    reference: paymentRef.id,
+    amount,
+    expiresAt: new Date(Date.now() + QRIS_EXPIRY_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  const payment: QrisPayment = {
+    id: paymentRef.id,
+    storeId: transaction.storeId,
+    transactionId: transaction.id,
+    provider: adapter.name,
+    providerReference: charge.providerReference,
+    amount,
+    qrString: charge.qrString,
+    status: 'pending',
+    expiresAt: charge.expiresAt,
+    createdAt: new Date().toISOString(),
+  };
+  const qrisPayment: TransactionQrisPayment = {
+    id: payment.id,
+    provider: payment.provider,
+    amount,
+    qrString: payment.qrString,
+    status: payment.status,
+    expiresAt: payment.expiresAt,
+  };
+
+  const batch = db.batch();
+  batch.set(paymentRef, payment);
+  batch.update(db.collection('stores').doc(transaction.storeId).collection('transactions').doc(transaction.id), { qrisPayment });
+  await batch.commit();
+
+  return { ...transaction, qrisPayment };
+}
+
+/**
+ * Reads what releasing a held sale needs and returns the writes that put back the stock,
+ * points, gift card balances and token fee it took at checkout, void the cards it sold and
+ * record the receipt number it leaves unused. Firestore transactions require every read to
+ * come before the first write, so the caller applies the writes once it is done reading.
+ */
+async function prepareRelease(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  sale: Transaction,
+  reason: ReceiptNumberVoidReason
+): Promise<() => void> {
+  const { admin } = getFirebaseAdmin();
+  const { FieldValue } = admin.firestore;
+  const stockLines = expandBundleLines(sale.items);
+  const productIds = Array.from(new Set(stockLines.map(line => line.productId)));
+  const productDocs = productIds.length > 0
+    ? await transaction.getAll(...productIds.map(productId => storeRef.collection('products').doc(productId)))
+    : [];
+  const customerDoc = sale.customerId !== 'N/A'
+    ? await transaction.get(storeRef.collection('customers').doc(sale.customerId))
+    : null;
+  const giftCardRedemptions = getGiftCardRedemptions(getTransactionPayments(sale));
+  const giftCardDocs = giftCardRedemptions.length > 0
+    ? await transaction.getAll(...giftCardRedemptions.map(redemption => getGiftCardRef(storeRef, redemption.code)))
+    : [];
+
+  return () => {
+    productDocs.forEach(productDoc => {
+      if (!productDoc.exists) return;
+      const product = { id: productDoc.id, ...productDoc.data() } as Product;
+      updateProductStock(transaction, storeRef, product, getRestockUpdate(product, stockLines), {
+        type: 'sale',
+        transactionId: sale.id,
+        note: 'Penjualan dibatalkan sebelum dibayar.',
+        staffId: sale.staffId,
+      });
+    });
+    if (customerDoc?.exists) {
+      const customerPoints = customerDoc.data()?.loyaltyPoints || 0;
+      transaction.update(customerDoc.ref, {
+        loyaltyPoints: Math.max(0, customerPoints - sale.pointsEarned + sale.pointsRedeemed),
+      });
+    }
+    if (sale.transactionFee) {
+      transaction.update(storeRef, { pradanaTokenBalance: FieldValue.increment(sale.transactionFee) });
+    }
+    giftCardDocs.forEach((giftCardDoc, index) => {
+      if (!giftCardDoc.exists) return;
+      const giftCard = giftCardDoc.data() as GiftCard;
+      const balanceAfter = giftCard.balance + giftCardRedemptions[index].amount;
+      transaction.update(giftCardDoc.ref, { balance: balanceAfter });
+      recordGiftCardMovement(transaction, storeRef, {
+        code: giftCard.code,
+        type: 'reversal',
+        amount: giftCardRedemptions[index].amount,
+        balanceAfter,
+        ...(giftCard.customerId && { customerId: giftCard.customerId }),
+        transactionId: sale.id,
+        staffId: sale.staffId,
+      });
+    });
+    (sale.giftCardSales || []).forEach(giftCardSale => {
+      transaction.update(getGiftCardRef(storeRef, giftCardSale.code), { status: 'void', balance: 0 });
+      recordGiftCardMovement(transaction, storeRef, {
+        code: giftCardSale.code,
+        type: 'void',
+        amount: -giftCardSale.amount,
+        balanceAfter: 0,
+        ...(sale.customerId !== 'N/A' && { customerId: sale.customerId }),
+        transactionId: sale.id,
+        staffId: sale.staffId,
+      });
+    });
+    recordReceiptNumberVoid(transaction, storeRef, sale, reason);
+  };
+}
+
+/**
+ * Cancels a held sale for which no QR could be issued.
+ */
+export async function releaseUnpaidTransaction(storeId: string, transactionId: string): Promise<void> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(storeId);
+  const transactionRef = storeRef.collection('transactions').doc(transactionId);
+
+  await db.runTransaction(async (transaction) => {
+    const transactionDoc = await transaction.get(transactionRef);
+    const sale = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+    if (!transactionDoc.exists || sale.status !== 'Menunggu Pembayaran') return;
+    const release = await prepareRelease(transaction, storeRef, sale, 'qris-unavailable');
+    transaction.update(transactionRef, { status: 'Dibatalkan' });
+    release();
+  });
+}
+
+/**
+ * Records the outcome of a QRIS payment.
+ * A paid charge completes its transaction and activates the gift cards it sold; an expired
+ * or cancelled one cancels it and puts back what was taken at checkout. Events for a payment that
+ * is no longer pending are ignored, so provider retries are harmless.
+ * @returns The transaction after the event was applied.
+ * @throws PaymentError if the payment is unknown or the paid amount doesn't match.
+ */
+export async function applyQrisPaymentEvent(event: QrisPaymentEvent): Promise<Transaction> {
+  const { db } = getFirebaseAdmin();
+  const paymentRef = db.collection('qrisPayments').doc(event.paymentId);
+
+  return db.runTransaction(async (transaction) => {
+    const paymentDoc = await transaction.get(paymentRef);
+    if (!paymentDoc.exists) {
+      throw new PaymentError('Pembayaran QRIS tidak ditemukan.', 404);
+    }
+    const payment = paymentDoc.data() as QrisPayment;
+    const storeRef = db.collection('stores').doc(payment.storeId);
+    const transactionRef = storeRef.collection('transactions').doc(payment.transactionId);
+    const transactionDoc = await transaction.get(transactionRef);
+    if (!transactionDoc.exists) {
+      throw new PaymentError('Transaksi untuk pembayaran ini tidak ditemukan.', 404);
+    }
+    const sale = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+
+    if (payment.status !== 'pending' || sale.status !== 'Menunggu Pembayaran') {
+      return sale;
+    }
+    if (event.status === 'paid' && event.amount !== undefined && event.amount !== payment.amount) {
+      throw new PaymentError(`Nominal pembayaran (Rp ${event.amount.toLocaleString('id-ID')}) tidak sesuai tagihan.`, 409);
+    }
+
+    const isReleased = event.status !== 'paid';
+    const release = isReleased
+      ? await prepareRelease(transaction, storeRef, sale, event.status === 'expired' ? 'qris-expired' : 'qris-cancelled')
+      : null;
+
+    const paidAt = event.paidAt || new Date().toISOString();
+    transaction.update(paymentRef, {
+      status: event.status,
+      ...(event.status === 'paid' && { paidAt }),
+    });
+
+    const status: Transaction['status'] = isReleased ? 'Dibatalkan' : 'Selesai';
+    const qrisPayment: TransactionQrisPayment = { ...sale.qrisPayment!, status: event.status };
+    transaction.update(transactionRef, { status, qrisPayment });
+
+    release?.();
+    if (!isReleased) {
+      (sale.giftCardSales || []).forEach(giftCardSale => {
+        transaction.update(getGiftCardRef(storeRef, giftCardSale.code), { status: 'active' });
+      });
+    }
+
+    return { ...sale, status, qrisPayment };
+  });
+}
+
+/**
+ * Looks up a store's transaction that is waiting for QRIS payment.
+ * @throws PaymentError if the transaction doesn't exist or has no QRIS payment.
+ */
+async function getQrisTransaction(storeId: string, transactionId: string): Promise<Transaction & { qrisPayment: TransactionQrisPayment }> {
+  const { db } = getFirebaseAdmin();
+  const transactionDoc = await db.collection('stores').doc(storeId).collection('transactions').doc(transactionId).get();
+  if (!transactionDoc.exists) {
+    throw new PaymentError('Transaksi tidak ditemukan.', 404);
+  }
+  const sale = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+  if (!sale.qrisPayment) {
+    throw new PaymentError('Transaksi ini tidak dibayar dengan QRIS dinamis.');
+  }
+  return sale as Transaction & { qrisPayment: TransactionQrisPayment };
+}
+
+/**
+ * Asks the provider for the status of a pending QRIS payment, for when a webhook is
+ * late or lost. A charge past its expiry that the provider still reports as pending is
+ * treated as expired.
+ * @returns The transaction, updated if the payment settled.
+ */
+export async function refreshQrisPaymentStatus(storeId: string, transactionId: string): Promise<Transaction> {
+  const { db } = getFirebaseAdmin();
+  const sale = await getQrisTransaction(storeId, transactionId);
+  if (sale.qrisPayment.status !== 'pending') return sale;
+
+  const paymentDoc = await db.collection('qrisPayments').doc(sale.qrisPayment.id).get();
+  const payment = paymentDoc.data() as QrisPayment;
+  let status = await getQrisAdapter(payment.provider).getChargeStatus(payment.providerReference);
+  if (status === 'pending' && new Date(payment.expiresAt).getTime() <= Date.now()) {
+    status = 'expired';
+  }
+  return status === 'pending' ? sale : applyQrisPaymentEvent({ paymentId: payment.id, status });
+}
+
+/**
+ * Cancels a QRIS payment the customer won't complete, releasing its transaction.
+ */
+export async function cancelQrisPayment(storeId: string, transactionId: string): Promise<Transaction> {
+  const sale = await getQrisTransaction(storeId, transactionId);
+  return applyQrisPaymentEvent({ paymentId: sale.qrisPayment.id, status: 'cancelled' });
+}
+
+/**
+ * Confirms a mock QRIS payment as if the customer had paid.
+ * @throws PaymentError if the payment was issued by a real provider.
+ */
+export async function simulateQrisPayment(storeId: string, transactionId: string): Promise<Transaction> {
+  const sale = await getQrisTransaction(storeId, transactionId);
+  if (sale.qrisPayment.provider !== mockQrisAdapter.name) {
+    throw new PaymentError('Simulasi pembayaran hanya tersedia untuk penyedia QRIS uji coba.', 403);
+  }
+  return applyQrisPaymentEvent({ paymentId: sale.qrisPayment.id, status: 'paid', amount: sale.qrisPayment.amount });
+}
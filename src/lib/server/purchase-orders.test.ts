@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { PurchaseOrderError, parseReceivePurchaseOrderRequest } from './purchase-orders';
+
+const delivery = {
+  storeId: 'toko',
+  purchaseOrderId: 'po-1',
+  items: [{ lineIndex: 0, quantity: '12', unitCost: '8500' }],
+};
+
+describe('parseReceivePurchaseOrderRequest', () => {
+  it('reads quantities and costs as numbers and trims the note', () => {
+    expect(parseReceivePurchaseOrderRequest({ ...delivery, note: '  Kardus penyok  ' })).toEqual({
+      storeId: 'toko',
+      purchaseOrderId: 'po-1',
+      items: [{ lineIndex: 0, quantity: 12, unitCost: 8500 }],
+      note: 'Kardus penyok',
+    });
+  });
+
+  it('rejects a delivery without items or with an empty quantity', () => {
+    expect(() => parseReceivePurchaseOrderRequest({ ...delivery, items: [] })).toThrow(PurchaseOrderError);
+    expect(() => parseReceivePurchaseOrderRequest({ ...delivery, items: [{ lineIndex: 0, quantity: 0, unitCost: 8500 }] }))
+      .toThrow('Barang yang diterima tidak valid.');
+  });
+
+  it('rejects the same line twice', () => {
+    const items = [{ lineIndex: 1, quantity: 2, unitCost: 0 }, { lineIndex: 1, quantity: 3, unitCost: 0 }];
+    expect(() => parseReceivePurchaseOrderRequest({ ...delivery, items })).toThrow('Setiap baris pesanan hanya boleh diisi sekali.');
+  });
+});
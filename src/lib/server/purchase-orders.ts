@@ -0,0 +1,204 @@
+import { randomUUID } from 'crypto';
+import { getFirebaseAdmin } from './firebase-admin';
+import { updateProductStock } from './stock-movements';
+import { formatPurchaseOrderMessage, getAverageCostPrice, getRemainingQuantity, isPurchaseOrderOpen } from '../purchase-orders';
+import { formatQuantity, isValidQuantity, roundQuantity } from '../units';
+import { formatWhatsappNumber } from '../utils';
+import type { Product, PurchaseOrder, PurchaseOrderReceipt, Supplier } from '../types';
+
+/**
+ * An error raised while receiving or sending a purchase order.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class PurchaseOrderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+    this.status = status;
+    Object.setPrototypeOf(this, PurchaseOrderError.prototype);
+  }
+}
+
+export type ReceivePurchaseOrderRequest = {
+  storeId: string;
+  purchaseOrderId: string;
+  items: PurchaseOrderReceipt['items'];
+  note?: string;
+};
+
+/**
+ * Validates the shape of a receiving request body. Quantities are checked against the
+ * order once it is read.
+ * @throws PurchaseOrderError if the body is malformed.
+ */
+export function parseReceivePurchaseOrderRequest(body: unknown): ReceivePurchaseOrderRequest {
+  const data = (body || {}) as Partial<ReceivePurchaseOrderRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.purchaseOrderId || typeof data.purchaseOrderId !== 'string') {
+    throw new PurchaseOrderError('storeId dan purchaseOrderId diperlukan.');
+  }
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    throw new PurchaseOrderError('Isi minimal satu barang yang diterima.');
+  }
+  const items = data.items.map(line => {
+    const quantity = Number(line?.quantity);
+    const unitCost = Number(line?.unitCost);
+    if (!Number.isInteger(line?.lineIndex) || line.lineIndex < 0 || !(quantity > 0) || !Number.isFinite(unitCost) || unitCost < 0) {
+      throw new PurchaseOrderError('Barang yang diterima tidak valid.');
+    }
+    return { lineIndex: line.lineIndex, quantity, unitCost };
+  });
+  if (new Set(items.map(line => line.lineIndex)).size !== items.length) {
+    throw new PurchaseOrderError('Setiap baris pesanan hanya boleh diisi sekali.');
+  }
+  const note = typeof data.note === 'string' ? data.note.trim().slice(0, 200) : '';
+  return {
+    storeId: data.storeId,
+    purchaseOrderId: data.purchaseOrderId,
+    items,
+    ...(note && { note }),
+  };
+}
+
+/**
+ * Records a delivery against a purchase order. The delivered goods are added to stock and
+ * entered in the stock ledger, each product's cost price is averaged with what the goods
+ * cost, and the order becomes 'partial' or 'received', all in one Firestore transaction.
+ * @param request The validated request.
+ * @param staffId The UID of the admin receiving the goods.
+ * @returns The updated purchase order.
+ * @throws PurchaseOrderError if the order is closed or a line is over-delivered.
+ */
+export async function receivePurchaseOrder(request: ReceivePurchaseOrderRequest, staffId: string): Promise<PurchaseOrder> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const orderRef = storeRef.collection('purchaseOrders').doc(request.purchaseOrderId);
+
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      throw new PurchaseOrderError('Pesanan pembelian tidak ditemukan.', 404);
+    }
+    const order = { id: orderDoc.id, ...orderDoc.data() } as PurchaseOrder;
+    if (!isPurchaseOrderOpen(order)) {
+      throw new PurchaseOrderError(`Pesanan ${order.number} sudah ditutup.`, 409);
+    }
+
+    request.items.forEach(line => {
+      const item = order.items[line.lineIndex];
+      if (!item) {
+        throw new PurchaseOrderError('Baris pesanan tidak ditemukan.');
+      }
+      if (!isValidQuantity(line.quantity, item.unit)) {
+        throw new PurchaseOrderError(`Jumlah ${item.productName} tidak sesuai satuannya.`);
+      }
+      const remaining = getRemainingQuantity(item);
+      if (line.quantity > remaining) {
+        throw new PurchaseOrderError(`${item.productName} hanya tersisa ${formatQuantity(remaining, item.unit)} untuk diterima.`, 409);
+      }
+    });
+
+    // Each product is read once, even when several of its variants are delivered.
+    const productIds = Array.from(new Set(request.items.map(line => order.items[line.lineIndex].productId)));
+    const productDocs = await transaction.getAll(...productIds.map(productId => storeRef.collection('products').doc(productId)));
+    productDocs.forEach((productDoc, index) => {
+      if (!productDoc.exists) {
+        const item = order.items.find(candidate => candidate.productId === productIds[index])!;
+        throw new PurchaseOrderError(`Produk ${item.productName} sudah dihapus.`, 409);
+      }
+    });
+
+    // Writes
+    productDocs.forEach(productDoc => {
+      const product = { id: productDoc.id, ...productDoc.data() } as Product;
+      const lines = request.items.filter(line => order.items[line.lineIndex].productId === product.id);
+      let stock = product.stock || 0;
+      let costPrice = product.costPrice || 0;
+      let variants = product.variants;
+      lines.forEach(line => {
+        const item = order.items[line.lineIndex];
+        costPrice = getAverageCostPrice(stock, costPrice, line.quantity, line.unitCost);
+        stock = roundQuantity(stock + line.quantity, product.unit);
+        // A variant that stopped tracking its own stock is received into the product's stock.
+        variants = variants?.map(variant => variant.id === item.variantId && variant.stock !== undefined
+          ? { ...variant, stock: roundQuantity(variant.stock + line.quantity, product.unit) }
+          : variant);
+      });
+      updateProductStock(transaction, storeRef, product, {
+        stock,
+        ...(variants && { variants }),
+      }, { type: 'receiving', purchaseOrderId: order.id, note: `${order.number} · ${order.supplierName}`, staffId });
+      transaction.update(productDoc.ref, { costPrice });
+    });
+
+    const items = order.items.map((item, index) => {
+      const line = request.items.find(candidate => candidate.lineIndex === index);
+      return line ? { ...item, receivedQuantity: roundQuantity(item.receivedQuantity + line.quantity, item.unit) } : item;
+    });
+    const receivedAt = new Date().toISOString();
+    const receipt: PurchaseOrderReceipt = {
+      id: randomUUID(),
+      items: request.items,
+      ...(request.note && { note: request.note }),
+      staffId,
+      receivedAt,
+    };
+    const isComplete = items.every(item => getRemainingQuantity(item) === 0);
+    const updates: Pick<PurchaseOrder, 'items' | 'receipts' | 'status'> & Partial<Pick<PurchaseOrder, 'receivedAt'>> = {
+      items,
+      receipts: [...(order.receipts || []), receipt],
+      status: isComplete ? 'received' : 'partial',
+      ...(isComplete && { receivedAt }),
+    };
+    transaction.update(orderRef, updates);
+    return { ...order, ...updates };
+  });
+}
+
+/**
+ * Queues a purchase order for the supplier on WhatsApp. A draft is marked as ordered
+ * once it has been sent.
+ * @param storeId The ID of the store.
+ * @param purchaseOrderId The ID of the purchase order.
+ * @returns The updated purchase order and the number it was sent to.
+ * @throws PurchaseOrderError if the order is closed or the supplier has no phone number.
+ */
+export async function sendPurchaseOrder(storeId: string, purchaseOrderId: string): Promise<{ order: PurchaseOrder; sentTo: string }> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(storeId);
+  const orderRef = storeRef.collection('purchaseOrders').doc(purchaseOrderId);
+
+  const orderDoc = await orderRef.get();
+  if (!orderDoc.exists) {
+    throw new PurchaseOrderError('Pesanan pembelian tidak ditemukan.', 404);
+  }
+  const order = { id: orderDoc.id, ...orderDoc.data() } as PurchaseOrder;
+  if (!isPurchaseOrderOpen(order)) {
+    throw new PurchaseOrderError(`Pesanan ${order.number} sudah ditutup.`, 409);
+  }
+  const [supplierDoc, storeDoc] = await Promise.all([
+    storeRef.collection('suppliers').doc(order.supplierId).get(),
+    storeRef.get(),
+  ]);
+  const supplier = supplierDoc.data() as Supplier | undefined;
+  const phone = formatWhatsappNumber(supplier?.phone || '');
+  if (!phone) {
+    throw new PurchaseOrderError(`Pemasok "${order.supplierName}" tidak memiliki nomor WhatsApp.`, 412);
+  }
+
+  const sentAt = new Date().toISOString();
+  await db.collection('whatsappQueue').add({
+    to: phone,
+    storeId,
+    message: formatPurchaseOrderMessage(order, storeDoc.data()?.name || ''),
+    createdAt: sentAt,
+  });
+  const updates: Pick<PurchaseOrder, 'sentAt' | 'status'> = {
+    sentAt,
+    status: order.status === 'draft' ? 'ordered' : order.status,
+  };
+  await orderRef.update(updates);
+
+  return { order: { ...order, ...updates }, sentTo: phone };
+}
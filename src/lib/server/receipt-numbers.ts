@@ -0,0 +1,102 @@
+import { randomInt } from 'crypto';
+import { defaultReceiptNumberSettings, formatReceiptNumber, getReceiptNumberPeriodKey } from '../receipt-numbers';
+import type { ReceiptNumberSettings, ReceiptNumberVoid, Transaction } from '../types';
+
+// How many numbers a shard takes from its period's counter at once. Only every this many
+// checkouts on a shard touches the shared counter document.
+const BLOCK_SIZE = 20;
+
+// stores/{storeId}/receiptCounters/{periodKey}
+type ReceiptCounter = {
+  allocated: number; // Highest number handed out to a shard so far
+};
+
+// stores/{storeId}/receiptCounters/{periodKey}/shards/{index}
+type ReceiptCounterShard = {
+  next: number;
+  end: number; // Last number of the block this shard holds
+};
+
+export type ClaimedReceiptNumber = {
+  receiptNumber: number;
+  formattedReceiptNumber: string;
+  write: () => void;
+};
+
+/**
+ * Reads what the next receipt number of a sale needs and returns it, with the write that
+ * claims it. Firestore transactions require every read to come before the first write, so
+ * the caller applies the write once it is done reading.
+ *
+ * Numbers come from a counter per numbering period, split into shards that each hold a
+ * block of numbers so concurrent checkouts rarely write the same document. With a single
+ * shard the numbers follow checkout order without gaps; with more, they stay unique but
+ * shards hand out their blocks side by side, and numbers left in a block when the period
+ * ends are never used.
+ * @param transaction The checkout's Firestore transaction.
+ * @param storeRef The store of the sale.
+ * @param storeData The store document.
+ * @param soldAt When the sale was made, which decides its period.
+ */
+export async function claimReceiptNumber(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  storeData: FirebaseFirestore.DocumentData,
+  soldAt: Date
+): Promise<ClaimedReceiptNumber> {
+  const settings: ReceiptNumberSettings = { ...defaultReceiptNumberSettings, ...storeData.receiptNumberSettings };
+  const periodKey = getReceiptNumberPeriodKey(settings.reset, soldAt);
+  const counterRef = storeRef.collection('receiptCounters').doc(periodKey);
+  const shardRef = counterRef.collection('shards').doc(String(randomInt(Math.max(1, settings.counterShards))));
+
+  const shardDoc = await transaction.get(shardRef);
+  const shard = shardDoc.exists ? shardDoc.data() as ReceiptCounterShard : null;
+  if (shard && shard.next <= shard.end) {
+    return {
+      receiptNumber: shard.next,
+      formattedReceiptNumber: formatReceiptNumber(settings, shard.next, soldAt),
+      write: () => transaction.update(shardRef, { next: shard.next + 1 }),
+    };
+  }
+
+  const counterDoc = await transaction.get(counterRef);
+  // A series that never resets carries on from the numbers issued before receipt formats existed.
+  const allocated = counterDoc.exists
+    ? (counterDoc.data() as ReceiptCounter).allocated
+    : periodKey === 'all' ? storeData.transactionCounter || 0 : 0;
+  const receiptNumber = allocated + 1;
+  return {
+    receiptNumber,
+    formattedReceiptNumber: formatReceiptNumber(settings, receiptNumber, soldAt),
+    write: () => {
+      const counter: ReceiptCounter = { allocated: allocated + BLOCK_SIZE };
+      const newShard: ReceiptCounterShard = { next: receiptNumber + 1, end: counter.allocated };
+      transaction.set(counterRef, counter);
+      transaction.set(shardRef, newShard);
+    },
+  };
+}
+
+/**
+ * Records that a sale's receipt number was issued but never became a sale, or that the
+ * sale was voided afterwards, so the gap it leaves in the sequence can be accounted for.
+ */
+export function recordReceiptNumberVoid(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  sale: Transaction,
+  reason: ReceiptNumberVoid['reason']
+) {
+  const voidRef = storeRef.collection('receiptNumberVoids').doc(sale.id);
+  const receiptNumberVoid: ReceiptNumberVoid = {
+    id: voidRef.id,
+    transactionId: sale.id,
+    receiptNumber: sale.receiptNumber,
+    ...(sale.formattedReceiptNumber && { formattedReceiptNumber: sale.formattedReceiptNumber }),
+    reason,
+    amount: sale.totalAmount,
+    staffId: sale.staffId,
+    createdAt: new Date().toISOString(),
+  };
+  transaction.set(voidRef, receiptNumberVoid);
+}
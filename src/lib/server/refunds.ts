@@ -0,0 +1,266 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { getTransactionFeeSettings } from './app-settings';
+import { calculateTransactionFee } from './checkout';
+import { defaultGiftCardExpiryMonths, issueGiftCard } from './gift-cards';
+import { updateProductStock } from './stock-movements';
+import { recordReceiptNumberVoid } from './receipt-numbers';
+import { calculateRefund, emptyRefundSummary, getRemainingRefundLines, type RefundCalculation, type RefundLine } from '../refunds';
+import { expandBundleLines } from '../bundles';
+import { roundQuantity } from '../units';
+import type { PaymentMethod, Product, Refund, Transaction } from '../types';
+
+// 'GiftCard' refunds the amount as store credit on a new card.
+const paymentMethods: PaymentMethod[] = ['Cash', 'Card', 'QRIS', 'GiftCard'];
+
+/**
+ * An error raised while validating or recording a refund.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+    Object.setPrototypeOf(this, RefundError.prototype);
+  }
+}
+
+export type RefundRequest = {
+  storeId: string;
+  transactionId: string;
+  type: Refund['type'];
+  items: RefundLine[]; // Ignored for a void, which returns everything still left
+  reason: string;
+  paymentMethod: PaymentMethod;
+  restock: boolean;
+};
+
+/**
+ * Validates the shape of a refund request body.
+ * Amounts, points and fees are never accepted from the client.
+ * @throws RefundError if the body is malformed.
+ */
+export function parseRefundRequest(body: unknown): RefundRequest {
+  const data = (body || {}) as Partial<RefundRequest>;
+
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.transactionId || typeof data.transactionId !== 'string') {
+    throw new RefundError('storeId dan transactionId diperlukan.');
+  }
+  if (data.type !== 'void' && data.type !== 'return') {
+    throw new RefundError('Jenis pengembalian tidak valid.');
+  }
+  if (data.type === 'return') {
+    if (!Array.isArray(data.items) || data.items.length === 0) {
+      throw new RefundError('Pilih minimal satu item untuk dikembalikan.');
+    }
+    for (const line of data.items) {
+      if (!Number.isInteger(line?.lineIndex) || line.lineIndex < 0 || !(Number(line.quantity) > 0)) {
+        throw new RefundError('Item pengembalian tidak valid.');
+      }
+    }
+  }
+  if (!paymentMethods.includes(data.paymentMethod as PaymentMethod)) {
+    throw new RefundError('Metode pengembalian dana tidak valid.');
+  }
+  if (typeof data.reason !== 'string' || data.reason.trim() === '') {
+    throw new RefundError('Alasan pengembalian harus diisi.');
+  }
+
+  return {
+    storeId: data.storeId,
+    transactionId: data.transactionId,
+    type: data.type,
+    items: data.type === 'return' ? data.items!.map(line => ({ lineIndex: line.lineIndex, quantity: Number(line.quantity) })) : [],
+    reason: data.reason.trim().slice(0, 500),
+    paymentMethod: data.paymentMethod as PaymentMethod,
+    restock: data.restock !== false,
+  };
+}
+
+/**
+ * Works out a product's stock once returned items are put back on the shelf.
+ * Variant stock is only touched for variants that track it.
+ * @param product The product as read in the current Firestore transaction.
+ * @param items The returned lines; lines of other products are ignored.
+ */
+export function getRestockUpdate(product: Product, items: { productId: string; variantId?: string; quantity: number }[]): Pick<Product, 'stock'> & Partial<Pick<Product, 'variants'>> {
+  const productItems = items.filter(item => item.productId === product.id);
+  const quantity = productItems.reduce((sum, item) => sum + item.quantity, 0);
+  const variants = product.variants?.map(variant => {
+    if (variant.stock === undefined) return variant;
+    const variantQuantity = productItems
+      .filter(item => item.variantId === variant.id)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    return variantQuantity > 0 ? { ...variant, stock: roundQuantity(variant.stock + variantQuantity, product.unit) } : variant;
+  });
+  return {
+    stock: roundQuantity((product.stock || 0) + quantity, product.unit),
+    ...(variants && { variants }),
+  };
+}
+
+/**
+ * Finds the shift whose drawer pays a refund back: the sale's own shift while it is still
+ * open, otherwise the shift open on the sale's cashier, otherwise the approving admin's.
+ */
+async function getRefundShiftId(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  original: Transaction,
+  staffId: string
+): Promise<string | undefined> {
+  const shiftsRef = storeRef.collection('shifts');
+  if (original.shiftId) {
+    const shiftDoc = await transaction.get(shiftsRef.doc(original.shiftId));
+    if (shiftDoc.exists && shiftDoc.data()?.status === 'open') return shiftDoc.id;
+  }
+  for (const uid of Array.from(new Set([original.staffId, staffId]))) {
+    const openShiftSnapshot = await transaction.get(shiftsRef.where('staffId', '==', uid).where('status', '==', 'open').limit(1));
+    if (!openShiftSnapshot.empty) return openShiftSnapshot.docs[0].id;
+  }
+  return undefined;
+}
+
+/**
+ * Records a void or partial return against a transaction.
+ * The refund record, restocked products, the customer's points, the store's token
+ * balance and the transaction's running refund totals are all written in a single
+ * Firestore transaction, so a transaction can never be refunded twice over. A refund
+ * as store credit also issues the credit card in that transaction, and a void records the
+ * gap it leaves in the receipt numbers.
+ * @param request The validated refund request.
+ * @param staffId The UID of the admin approving the refund.
+ * @returns The stored refund.
+ */
+export async function processRefund(request: RefundRequest, staffId: string): Promise<Refund> {
+  const { db, admin } = getFirebaseAdmin();
+  const { FieldValue } = admin.firestore;
+  const feeSettings = await getTransactionFeeSettings();
+
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const transactionRef = storeRef.collection('transactions').doc(request.transactionId);
+
+  return db.runTransaction(async (transaction) => {
+    const transactionDoc = await transaction.get(transactionRef);
+    if (!transactionDoc.exists) {
+      throw new RefundError('Transaksi tidak ditemukan.', 404);
+    }
+    const original = { id: transactionDoc.id, ...transactionDoc.data() } as Transaction;
+    if (original.status === 'Menunggu Pembayaran' || original.status === 'Dibatalkan') {
+      throw new RefundError('Transaksi yang belum dibayar atau dibatalkan tidak dapat dikembalikan.', 409);
+    }
+
+    const lines = request.type === 'void' ? getRemainingRefundLines(original) : request.items;
+    if (lines.length === 0) {
+      throw new RefundError('Transaksi ini sudah dikembalikan seluruhnya.', 409);
+    }
+
+    // Transactions recorded before the fee was stored fall back to the current fee settings.
+    const transactionFee = original.transactionFee ?? calculateTransactionFee(original.totalAmount, feeSettings);
+    let refund: RefundCalculation;
+    try {
+      refund = calculateRefund(original, lines, transactionFee);
+    } catch (error) {
+      throw new RefundError((error as Error).message);
+    }
+
+    // Each product is read once, even when several of its lines are returned. Returned
+    // bundles go back on the shelf as their components.
+    const restockLines = request.restock
+      ? expandBundleLines(refund.items.map(item => ({ ...item, bundleItems: original.items[item.lineIndex].bundleItems })))
+      : [];
+    const productIds = Array.from(new Set(restockLines.map(line => line.productId)));
+    const productRefs = productIds.map(productId => storeRef.collection('products').doc(productId));
+    const productDocs = productRefs.length > 0 ? await transaction.getAll(...productRefs) : [];
+    const customerRef = original.customerId !== 'N/A' ? storeRef.collection('customers').doc(original.customerId) : null;
+    const customerDoc = customerRef ? await transaction.get(customerRef) : null;
+    const shiftId = await getRefundShiftId(transaction, storeRef, original, staffId);
+    const storeDoc = request.paymentMethod === 'GiftCard' ? await transaction.get(storeRef) : null;
+
+    // Writes
+    const refundRef = storeRef.collection('refunds').doc();
+    productDocs.forEach(productDoc => {
+      // A product deleted since the sale has nothing to restock.
+      if (!productDoc.exists) return;
+      const product = { id: productDoc.id, ...productDoc.data() } as Product;
+      updateProductStock(transaction, storeRef, product, getRestockUpdate(product, restockLines), {
+        type: 'refund',
+        transactionId: original.id,
+        refundId: refundRef.id,
+        staffId,
+      });
+    });
+
+    if (customerDoc?.exists && (refund.pointsReversed > 0 || refund.pointsRestored > 0)) {
+      const customerPoints = customerDoc.data()?.loyaltyPoints || 0;
+      // Points already spent elsewhere can't be taken back below zero.
+      transaction.update(customerDoc.ref, {
+        loyaltyPoints: Math.max(0, customerPoints - refund.pointsReversed + refund.pointsRestored),
+      });
+    }
+
+    if (refund.feeRefunded > 0) {
+      transaction.update(storeRef, { pradanaTokenBalance: FieldValue.increment(refund.feeRefunded) });
+    }
+
+    const storeCredit = storeDoc && refund.amount > 0
+      ? issueGiftCard(transaction, storeRef, {
+        type: 'store-credit',
+        status: 'active',
+        amount: refund.amount,
+        ...(customerDoc?.exists && { customerId: customerDoc.id, customerName: original.customerName }),
+        expiryMonths: storeDoc.data()?.posSettings?.giftCardExpiryMonths ?? defaultGiftCardExpiryMonths,
+        refundId: refundRef.id,
+        staffId,
+      })
+      : null;
+    const previous = original.refundSummary || emptyRefundSummary(original);
+    const refundedQuantities = original.items.map((item, index) => roundQuantity(
+      (previous.refundedQuantities[index] || 0) + refund.items
+        .filter(refundItem => refundItem.lineIndex === index)
+        .reduce((sum, refundItem) => sum + refundItem.quantity, 0),
+      item.unit
+    ));
+    transaction.update(transactionRef, {
+      refundSummary: {
+        refundedQuantities,
+        amount: previous.amount + refund.amount,
+        pointsReversed: previous.pointsReversed + refund.pointsReversed,
+        pointsRestored: previous.pointsRestored + refund.pointsRestored,
+        feeRefunded: previous.feeRefunded + refund.feeRefunded,
+        refundIds: [...previous.refundIds, refundRef.id],
+      },
+    });
+
+    const refundData: Refund = {
+      id: refundRef.id,
+      storeId: request.storeId,
+      transactionId: original.id,
+      receiptNumber: original.receiptNumber,
+      ...(original.formattedReceiptNumber && { formattedReceiptNumber: original.formattedReceiptNumber }),
+      customerId: original.customerId,
+      customerName: original.customerName,
+      type: request.type,
+      items: refund.items,
+      amount: refund.amount,
+      paymentMethod: request.paymentMethod,
+      ...(storeCredit && { giftCardCode: storeCredit.code }),
+      restocked: request.restock,
+      pointsReversed: refund.pointsReversed,
+      pointsRestored: refund.pointsRestored,
+      feeRefunded: refund.feeRefunded,
+      reason: request.reason,
+      staffId,
+      ...(shiftId && { shiftId }),
+      createdAt: new Date().toISOString(),
+    };
+    transaction.set(refundRef, refundData);
+    if (request.type === 'void') {
+      recordReceiptNumberVoid(transaction, storeRef, original, 'void');
+    }
+
+    return refundData;
+  });
+}
@@ -0,0 +1,111 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { calculateShiftCash, formatShiftReportMessage } from '../shift-report';
+import type { Refund, Shift, Transaction } from '../types';
+
+/**
+ * An error raised while closing a shift.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class ShiftError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ShiftError';
+    this.status = status;
+    Object.setPrototypeOf(this, ShiftError.prototype);
+  }
+}
+
+export type CloseShiftRequest = {
+  storeId: string;
+  shiftId: string;
+  countedCash: number;
+  closingNotes?: string;
+};
+
+/**
+ * Validates the shape of a close-shift request body.
+ * @throws ShiftError if the body is malformed.
+ */
+export function parseCloseShiftRequest(body: unknown): CloseShiftRequest {
+  const data = (body || {}) as Partial<CloseShiftRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.shiftId || typeof data.shiftId !== 'string') {
+    throw new ShiftError('storeId dan shiftId diperlukan.');
+  }
+  if (!(Number(data.countedCash) >= 0)) {
+    throw new ShiftError('Jumlah kas dihitung tidak valid.');
+  }
+  return {
+    storeId: data.storeId,
+    shiftId: data.shiftId,
+    countedCash: Number(data.countedCash),
+    ...(typeof data.closingNotes === 'string' && data.closingNotes.trim() !== '' && { closingNotes: data.closingNotes.trim().slice(0, 500) }),
+  };
+}
+
+/**
+ * Closes a shift: totals its transactions and cash refunds, records the counted cash and variance,
+ * and queues the shift report for the store's admin WhatsApp group.
+ * @param request The validated close request.
+ * @param uid The UID of the user closing the shift.
+ * @param member Whether that user administers the store; admins may close any cashier's shift.
+ * @returns The closed shift.
+ */
+export async function closeShift(request: CloseShiftRequest, uid: string, member: { isStoreAdmin: boolean }): Promise<Shift> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const shiftRef = storeRef.collection('shifts').doc(request.shiftId);
+
+  const closedShift = await db.runTransaction(async (transaction) => {
+    const shiftDoc = await transaction.get(shiftRef);
+    if (!shiftDoc.exists) {
+      throw new ShiftError('Shift tidak ditemukan.', 404);
+    }
+    const shift = { id: shiftDoc.id, ...shiftDoc.data() } as Shift;
+    if (shift.status !== 'open') {
+      throw new ShiftError('Shift ini sudah ditutup.', 409);
+    }
+    if (shift.staffId !== uid && !member.isStoreAdmin) {
+      throw new ShiftError('Anda hanya dapat menutup shift Anda sendiri.', 403);
+    }
+
+    const transactionsSnapshot = await transaction.get(storeRef.collection('transactions').where('shiftId', '==', shift.id));
+    const transactions = transactionsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Transaction));
+    const refundsSnapshot = await transaction.get(storeRef.collection('refunds').where('shiftId', '==', shift.id));
+    const refunds = refundsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Refund));
+    const summary = calculateShiftCash(shift, transactions, refunds);
+
+    const closingData = {
+      status: 'closed' as const,
+      closedAt: new Date().toISOString(),
+      closedBy: uid,
+      transactionCount: summary.transactionCount,
+      totalSales: summary.totalSales,
+      cashSales: summary.cashSales,
+      cashRefunds: summary.cashRefunds,
+      expectedCash: summary.expectedCash,
+      countedCash: request.countedCash,
+      variance: request.countedCash - summary.expectedCash,
+      ...(request.closingNotes && { closingNotes: request.closingNotes }),
+    };
+    transaction.update(shiftRef, closingData);
+    return { ...shift, ...closingData };
+  });
+
+  // The report is a notification; a failure to queue it must not reopen the shift.
+  try {
+    const storeDoc = await storeRef.get();
+    await db.collection('whatsappQueue').add({
+      to: 'admin_group',
+      isGroup: true,
+      storeId: request.storeId,
+      message: formatShiftReportMessage(closedShift, storeDoc.data()?.name || ''),
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`Error queueing shift report for shift ${closedShift.id}:`, error);
+  }
+
+  return closedShift;
+}
@@ -0,0 +1,120 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { updateProductStock } from './stock-movements';
+import { getStockCountReport } from '../stock-counts';
+import { roundQuantity } from '../units';
+import type { Product, StockCount, StockCountEntry } from '../types';
+
+/**
+ * An error raised while posting a stock count.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class StockCountError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'StockCountError';
+    this.status = status;
+    Object.setPrototypeOf(this, StockCountError.prototype);
+  }
+}
+
+export type PostStockCountRequest = {
+  storeId: string;
+  stockCountId: string;
+};
+
+/**
+ * Validates the shape of a post stock count request body.
+ * @throws StockCountError if the body is malformed.
+ */
+export function parsePostStockCountRequest(body: unknown): PostStockCountRequest {
+  const data = (body || {}) as Partial<PostStockCountRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.stockCountId || typeof data.stockCountId !== 'string') {
+    throw new StockCountError('storeId dan stockCountId diperlukan.');
+  }
+  return { storeId: data.storeId, stockCountId: data.stockCountId };
+}
+
+/**
+ * Approves a stock count and adjusts every counted item by its variance, in one transaction.
+ * The variance is applied to the current stock rather than overwriting it, so sales made
+ * while the count was going on stay deducted.
+ * @param request The validated request.
+ * @param staffId The UID of the admin approving the count.
+ * @returns The posted stock count.
+ * @throws StockCountError if the count is no longer open.
+ */
+export async function postStockCount(request: PostStockCountRequest, staffId: string): Promise<StockCount> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const countRef = storeRef.collection('stockCounts').doc(request.stockCountId);
+
+  return db.runTransaction(async (transaction) => {
+    const countDoc = await transaction.get(countRef);
+    if (!countDoc.exists) {
+      throw new StockCountError('Stok opname tidak ditemukan.', 404);
+    }
+    const stockCount = { id: countDoc.id, ...countDoc.data() } as StockCount;
+    if (stockCount.status !== 'counting') {
+      throw new StockCountError(`Stok opname "${stockCount.name}" sudah ${stockCount.status === 'posted' ? 'diposting' : 'dibatalkan'}.`, 409);
+    }
+    const entriesSnapshot = await transaction.get(countRef.collection('entries'));
+    const entries = entriesSnapshot.docs.map(entryDoc => entryDoc.data() as StockCountEntry);
+    if (entries.length === 0) {
+      throw new StockCountError('Belum ada barang yang dihitung.');
+    }
+
+    const { lines, summary } = getStockCountReport(stockCount.items, entries);
+    const varianceLines = lines.filter(line => line.variance !== 0);
+    const productIds = [...new Set(varianceLines.map(line => line.item.productId))];
+    const productDocs = productIds.length > 0
+      ? await transaction.getAll(...productIds.map(productId => storeRef.collection('products').doc(productId)))
+      : [];
+
+    productDocs.forEach(productDoc => {
+      // A product deleted during the count has no stock left to correct.
+      if (!productDoc.exists) return;
+      const product = { id: productDoc.id, ...productDoc.data() } as Product;
+      const productLines = varianceLines.filter(line => line.item.productId === product.id);
+      let variants = product.variants;
+      let stock = product.stock || 0;
+      productLines.forEach(({ item, variance }) => {
+        const variant = variants?.find(candidate => candidate.id === item.variantId);
+        if (item.variantId && variant?.stock !== undefined) {
+          const variantStock = Math.max(0, roundQuantity(variant.stock + variance, product.unit));
+          stock = roundQuantity(stock + variantStock - variant.stock, product.unit);
+          variants = variants!.map(candidate => candidate.id === variant.id ? { ...candidate, stock: variantStock } : candidate);
+        } else if (!item.variantId) {
+          stock = Math.max(0, roundQuantity(stock + variance, product.unit));
+        }
+      });
+      if (stock === (product.stock || 0) && variants === product.variants) return;
+
+      updateProductStock(transaction, storeRef, product, {
+        stock,
+        ...(variants !== product.variants && { variants }),
+      }, {
+        type: 'adjustment',
+        staffId,
+        stockCountId: stockCount.id,
+        note: `Stok opname: ${stockCount.name}`,
+      });
+    });
+
+    const posted: StockCount = {
+      ...stockCount,
+      status: 'posted',
+      postedBy: staffId,
+      postedAt: new Date().toISOString(),
+      summary,
+    };
+    transaction.update(countRef, {
+      status: posted.status,
+      postedBy: posted.postedBy,
+      postedAt: posted.postedAt,
+      summary,
+    });
+    return posted;
+  });
+}
@@ -0,0 +1,195 @@
+import { getFirebaseAdmin } from './firebase-admin';
+import { getStockChangeMovements, sumStockMovements, type StockMovementDraft } from '../stock-movements';
+import { isBundleProduct } from '../bundles';
+import { formatQuantity, isValidQuantity, roundQuantity } from '../units';
+import type { Product, StockMovement, StockMovementType } from '../types';
+
+// Sales and refunds are recorded by checkout and refunds; these are entered by hand.
+export type ManualStockMovementType = Extract<StockMovementType, 'receiving' | 'adjustment' | 'waste' | 'transfer'>;
+
+const manualTypes: ManualStockMovementType[] = ['receiving', 'adjustment', 'waste', 'transfer'];
+
+/**
+ * An error raised while adjusting or reconciling stock.
+ * `status` is the HTTP status the API route should respond with.
+ */
+export class StockMovementError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'StockMovementError';
+    this.status = status;
+    Object.setPrototypeOf(this, StockMovementError.prototype);
+  }
+}
+
+function recordStockMovements(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  movements: StockMovementDraft[]
+): StockMovement[] {
+  const createdAt = new Date().toISOString();
+  return movements.map(movement => {
+    const movementRef = storeRef.collection('stockMovements').doc();
+    const stockMovement: StockMovement = { id: movementRef.id, ...movement, createdAt };
+    transaction.set(movementRef, stockMovement);
+    return stockMovement;
+  });
+}
+
+/**
+ * Writes a product's new stock and enters the change in the store's stock ledger. Every
+ * stock change on the server goes through here so a product's history always adds up to
+ * its stock.
+ * @param product The product as read in the current Firestore transaction.
+ * @param update The product's stock, and variants if they changed, after the change.
+ * @param source What caused the change.
+ * @returns The recorded movements.
+ */
+export function updateProductStock(
+  transaction: FirebaseFirestore.Transaction,
+  storeRef: FirebaseFirestore.DocumentReference,
+  product: Product,
+  update: Pick<Product, 'stock'> & Partial<Pick<Product, 'variants'>>,
+  source: Parameters<typeof getStockChangeMovements>[2]
+): StockMovement[] {
+  transaction.update(storeRef.collection('products').doc(product.id), {
+    stock: update.stock,
+    ...(update.variants && { variants: update.variants }),
+  });
+  return recordStockMovements(transaction, storeRef, getStockChangeMovements(product, update, source));
+}
+
+export type StockAdjustmentRequest = {
+  storeId: string;
+  productId: string;
+  variantId?: string; // Required when the product tracks stock per variant
+  type: ManualStockMovementType;
+  quantity: number; // Positive when stock goes up; receiving only adds and waste only removes
+  note: string;
+};
+
+/**
+ * Validates the shape of a stock adjustment request body.
+ * @throws StockMovementError if the body is malformed.
+ */
+export function parseStockAdjustmentRequest(body: unknown): StockAdjustmentRequest {
+  const data = (body || {}) as Partial<StockAdjustmentRequest>;
+  if (!data.storeId || typeof data.storeId !== 'string' || !data.productId || typeof data.productId !== 'string') {
+    throw new StockMovementError('storeId dan productId diperlukan.');
+  }
+  if (data.variantId !== undefined && typeof data.variantId !== 'string') {
+    throw new StockMovementError('variantId tidak valid.');
+  }
+  if (!manualTypes.includes(data.type as ManualStockMovementType)) {
+    throw new StockMovementError('Jenis perubahan stok tidak valid.');
+  }
+  const quantity = Number(data.quantity);
+  if (!Number.isFinite(quantity) || quantity === 0) {
+    throw new StockMovementError('Jumlah perubahan stok harus diisi.');
+  }
+  if ((data.type === 'receiving' && quantity < 0) || (data.type === 'waste' && quantity > 0)) {
+    throw new StockMovementError(data.type === 'receiving' ? 'Penerimaan hanya dapat menambah stok.' : 'Barang rusak hanya dapat mengurangi stok.');
+  }
+  const note = typeof data.note === 'string' ? data.note.trim().slice(0, 200) : '';
+  if ((data.type === 'adjustment' || data.type === 'transfer') && !note) {
+    throw new StockMovementError(data.type === 'transfer' ? 'Tujuan atau asal transfer harus diisi.' : 'Alasan penyesuaian harus diisi.');
+  }
+  return {
+    storeId: data.storeId,
+    productId: data.productId,
+    ...(data.variantId && { variantId: data.variantId }),
+    type: data.type as ManualStockMovementType,
+    quantity,
+    note,
+  };
+}
+
+/**
+ * Records stock received, written off, transferred or corrected by hand.
+ * @param request The validated request.
+ * @param staffId The UID of the admin making the change.
+ * @returns The recorded movements.
+ * @throws StockMovementError if the product can't take the change.
+ */
+export async function adjustStock(request: StockAdjustmentRequest, staffId: string): Promise<StockMovement[]> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(request.storeId);
+  const productRef = storeRef.collection('products').doc(request.productId);
+
+  return db.runTransaction(async (transaction) => {
+    const productDoc = await transaction.get(productRef);
+    if (!productDoc.exists) {
+      throw new StockMovementError('Produk tidak ditemukan.', 404);
+    }
+    const product = { id: productDoc.id, ...productDoc.data() } as Product;
+    if (isBundleProduct(product)) {
+      throw new StockMovementError('Stok paket mengikuti stok produk isinya.', 409);
+    }
+    if (!isValidQuantity(Math.abs(request.quantity), product.unit)) {
+      throw new StockMovementError(`Jumlah tidak sesuai satuan ${product.name}.`);
+    }
+
+    const tracksVariantStock = (product.variants || []).some(variant => variant.stock !== undefined);
+    const variant = product.variants?.find(candidate => candidate.id === request.variantId);
+    if (tracksVariantStock && variant?.stock === undefined) {
+      throw new StockMovementError(`Pilih varian ${product.name} yang stoknya diubah.`);
+    }
+
+    const stock = roundQuantity((product.stock || 0) + request.quantity, product.unit);
+    const variantStock = variant?.stock !== undefined ? roundQuantity(variant.stock + request.quantity, product.unit) : undefined;
+    if (stock < 0 || (variantStock !== undefined && variantStock < 0)) {
+      const available = variantStock !== undefined ? variant!.stock! : product.stock || 0;
+      throw new StockMovementError(`Stok ${product.name} hanya ${formatQuantity(available, product.unit)}.`, 409);
+    }
+
+    return updateProductStock(transaction, storeRef, product, {
+      stock,
+      ...(variantStock !== undefined && {
+        variants: product.variants!.map(candidate => candidate.id === variant!.id ? { ...candidate, stock: variantStock } : candidate),
+      }),
+    }, {
+      type: request.type,
+      staffId,
+      ...(request.note && { note: request.note }),
+    });
+  });
+}
+
+/**
+ * Enters whatever a product's ledger is missing to add up to its stock, without touching the
+ * stock itself. Products added before the ledger existed start out this way.
+ * @param storeId The ID of the store.
+ * @param productId The ID of the product.
+ * @param staffId The UID of the admin reconciling the product.
+ * @returns The recorded movement, or null when the ledger already adds up.
+ */
+export async function reconcileProductStock(storeId: string, productId: string, staffId: string): Promise<StockMovement | null> {
+  const { db } = getFirebaseAdmin();
+  const storeRef = db.collection('stores').doc(storeId);
+  const productRef = storeRef.collection('products').doc(productId);
+
+  return db.runTransaction(async (transaction) => {
+    const productDoc = await transaction.get(productRef);
+    if (!productDoc.exists) {
+      throw new StockMovementError('Produk tidak ditemukan.', 404);
+    }
+    const product = { id: productDoc.id, ...productDoc.data() } as Product;
+    const movementsSnapshot = await transaction.get(storeRef.collection('stockMovements').where('productId', '==', productId));
+    const ledgerStock = sumStockMovements(movementsSnapshot.docs.map(movementDoc => movementDoc.data() as StockMovement), product.unit);
+    const quantity = roundQuantity((product.stock || 0) - ledgerStock, product.unit);
+    if (quantity === 0) return null;
+
+    const [movement] = recordStockMovements(transaction, storeRef, [{
+      productId: product.id,
+      productName: product.name,
+      type: 'adjustment',
+      quantity,
+      stockAfter: product.stock || 0,
+      note: `Rekonsiliasi: riwayat ${formatQuantity(ledgerStock, product.unit)}, stok tercatat ${formatQuantity(product.stock || 0, product.unit)}.`,
+      staffId,
+    }]);
+    return movement;
+  });
+}
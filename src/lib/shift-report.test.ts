@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { calculateShiftCash } from './shift-report';
+import type { Refund, Transaction } from './types';
+
+function makeTransaction(overrides: Partial<Transaction>): Transaction {
+  return {
+    id: 'trx',
+    receiptNumber: 1,
+    storeId: 'store',
+    customerId: 'N/A',
+    customerName: 'Pelanggan Umum',
+    staffId: 'kasir',
+    createdAt: '2025-03-10T03:00:00.000Z',
+    subtotal: 0,
+    discountAmount: 0,
+    totalAmount: 0,
+    paymentMethod: 'Cash',
+    pointsEarned: 0,
+    pointsRedeemed: 0,
+    items: [],
+    status: 'Selesai',
+    ...overrides,
+  };
+}
+
+function makeRefund(overrides: Partial<Refund>): Refund {
+  return {
+    id: 'refund',
+    storeId: 'store',
+    transactionId: 'trx',
+    receiptNumber: 1,
+    customerId: 'N/A',
+    customerName: 'Pelanggan Umum',
+    type: 'return',
+    items: [],
+    amount: 0,
+    paymentMethod: 'Cash',
+    restocked: true,
+    pointsReversed: 0,
+    pointsRestored: 0,
+    feeRefunded: 0,
+    reason: 'Rusak',
+    staffId: 'admin',
+    createdAt: '2025-03-10T05:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const shift = {
+  openingFloat: 200000,
+  cashMovements: [
+    { id: 'm1', type: 'in' as const, amount: 50000, reason: 'Tambah kembalian', createdAt: '2025-03-10T02:00:00.000Z' },
+    { id: 'm2', type: 'out' as const, amount: 30000, reason: 'Beli es batu', createdAt: '2025-03-10T04:00:00.000Z' },
+  ],
+};
+
+describe('calculateShiftCash', () => {
+  it('adds cash sales and cash in, and takes out cash out and cash refunds', () => {
+    const summary = calculateShiftCash(
+      shift,
+      [
+        makeTransaction({ id: 'a', totalAmount: 45000, cashTendered: 50000, changeAmount: 5000 }),
+        makeTransaction({ id: 'b', totalAmount: 60000, paymentMethod: 'Card' }),
+      ],
+      [makeRefund({ amount: 15000 }), makeRefund({ amount: 60000, paymentMethod: 'Card' })]
+    );
+    expect(summary).toEqual({
+      transactionCount: 2,
+      totalSales: 105000,
+      cashSales: 45000,
+      cashRefunds: 15000,
+      cashIn: 50000,
+      cashOut: 30000,
+      expectedCash: 250000,
+    });
+  });
+
+  it('counts only the cash tenders of a split payment', () => {
+    const split = makeTransaction({
+      totalAmount: 80000,
+      paymentMethod: 'Split',
+      payments: [{ method: 'Cash', amount: 30000 }, { method: 'QRIS', amount: 50000 }],
+    });
+    expect(calculateShiftCash({ openingFloat: 0, cashMovements: [] }, [split]).cashSales).toBe(30000);
+  });
+
+  it('skips sales still waiting for or cancelled before payment', () => {
+    const summary = calculateShiftCash({ openingFloat: 100000, cashMovements: [] }, [
+      makeTransaction({ totalAmount: 25000, paymentMethod: 'QRIS', status: 'Menunggu Pembayaran' }),
+      makeTransaction({ totalAmount: 25000, paymentMethod: 'QRIS', status: 'Dibatalkan' }),
+    ]);
+    expect(summary).toMatchObject({ transactionCount: 0, totalSales: 0, expectedCash: 100000 });
+  });
+});
@@ -0,0 +1,75 @@
+import { getTransactionPayments, isPaidTransaction } from './payments';
+import type { Refund, Shift, Transaction } from './types';
+
+export type ShiftCashSummary = {
+  transactionCount: number;
+  totalSales: number;
+  cashSales: number;
+  cashRefunds: number;
+  cashIn: number;
+  cashOut: number;
+  expectedCash: number;
+};
+
+/**
+ * Works out how much cash should be in the drawer for a shift.
+ * Only the cash tenders of each transaction count; change handed back is not part
+ * of the tender, so it never enters the drawer. Cash refunds paid out during the
+ * shift come back out of it.
+ * @param shift The shift, with its opening float and cash movements.
+ * @param transactions The transactions recorded during the shift; unpaid and cancelled QRIS sales are skipped.
+ * @param refunds The refunds recorded during the shift.
+ */
+export function calculateShiftCash(
+  shift: Pick<Shift, 'openingFloat' | 'cashMovements'>,
+  transactions: Transaction[],
+  refunds: Refund[] = []
+): ShiftCashSummary {
+  const paidTransactions = transactions.filter(isPaidTransaction);
+  const cashSales = paidTransactions.reduce((total, transaction) =>
+    total + getTransactionPayments(transaction)
+      .filter(tender => tender.method === 'Cash')
+      .reduce((sum, tender) => sum + tender.amount, 0), 0);
+  const cashRefunds = refunds.filter(refund => refund.paymentMethod === 'Cash').reduce((sum, refund) => sum + refund.amount, 0);
+  const cashIn = shift.cashMovements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0);
+  const cashOut = shift.cashMovements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0);
+
+  return {
+    transactionCount: paidTransactions.length,
+    totalSales: paidTransactions.reduce((total, transaction) => total + transaction.totalAmount, 0),
+    cashSales,
+    cashRefunds,
+    cashIn,
+    cashOut,
+    expectedCash: shift.openingFloat + cashSales - cashRefunds + cashIn - cashOut,
+  };
+}
+
+/**
+ * Formats a closed shift as a WhatsApp message for the store's admin group.
+ */
+export function formatShiftReportMessage(shift: Shift, storeName: string): string {
+  const formatRp = (amount: number) => `Rp ${amount.toLocaleString('id-ID')}`;
+  const formatTime = (iso: string) => new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Jakarta' });
+  const variance = shift.variance || 0;
+  const varianceLabel = variance === 0 ? 'Sesuai' : variance > 0 ? 'Lebih' : 'Kurang';
+  const cashIn = shift.cashMovements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0);
+  const cashOut = shift.cashMovements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0);
+
+  return [
+    `*Laporan Tutup Shift*`,
+    `*${storeName}* - ${shift.staffName}`,
+    `${formatTime(shift.openedAt)} s/d ${formatTime(shift.closedAt || new Date().toISOString())}`,
+    '',
+    `- Transaksi: ${shift.transactionCount || 0} (${formatRp(shift.totalSales || 0)})`,
+    `- Modal Awal: ${formatRp(shift.openingFloat)}`,
+    `- Penjualan Tunai: ${formatRp(shift.cashSales || 0)}`,
+    ...(shift.cashRefunds ? [`- Refund Tunai: ${formatRp(shift.cashRefunds)}`] : []),
+    `- Kas Masuk: ${formatRp(cashIn)}`,
+    `- Kas Keluar: ${formatRp(cashOut)}`,
+    `- Kas Seharusnya: ${formatRp(shift.expectedCash || 0)}`,
+    `- Kas Dihitung: ${formatRp(shift.countedCash || 0)}`,
+    `- *Selisih: ${formatRp(variance)} (${varianceLabel})*`,
+    ...(shift.closingNotes ? ['', `Catatan: ${shift.closingNotes}`] : []),
+  ].join('\n');
+}
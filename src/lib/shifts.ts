@@ -0,0 +1,105 @@
+'use client';
+
+import { addDoc, arrayUnion, collection, doc, getDocs, limit, orderBy, query, updateDoc, where } from 'firebase/firestore';
+import { db } from './firebase';
+import type { CashMovement, Refund, Shift, Transaction } from './types';
+
+/**
+ * Fetches the shift a cashier currently has open in a store.
+ * @param storeId The ID of the store.
+ * @param staffId The UID of the cashier.
+ * @returns The open shift, or null if the cashier has none.
+ */
+export async function getOpenShift(storeId: string, staffId: string): Promise<Shift | null> {
+    const openShiftQuery = query(
+        collection(db, 'stores', storeId, 'shifts'),
+        where('staffId', '==', staffId),
+        where('status', '==', 'open'),
+        limit(1)
+    );
+    const snapshot = await getDocs(openShiftQuery);
+    if (snapshot.empty) return null;
+    return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as Shift;
+}
+
+/**
+ * Opens a new shift for a cashier.
+ * @param storeId The ID of the store.
+ * @param staff The cashier opening the shift.
+ * @param openingFloat The cash in the drawer at the start of the shift.
+ * @throws Error if the cashier already has an open shift.
+ */
+export async function openShift(storeId: string, staff: { id: string; name: string }, openingFloat: number): Promise<Shift> {
+    if (await getOpenShift(storeId, staff.id)) {
+        throw new Error('Anda masih memiliki shift yang terbuka.');
+    }
+    const shift: Omit<Shift, 'id'> = {
+        storeId,
+        staffId: staff.id,
+        staffName: staff.name,
+        status: 'open',
+        openedAt: new Date().toISOString(),
+        openingFloat,
+        cashMovements: [],
+    };
+    const docRef = await addDoc(collection(db, 'stores', storeId, 'shifts'), shift);
+    return { id: docRef.id, ...shift };
+}
+
+/**
+ * Records cash added to or taken out of the drawer during a shift.
+ * @param storeId The ID of the store.
+ * @param shiftId The ID of the open shift.
+ * @param movement The cash movement, without its ID and timestamp.
+ * @returns The stored movement.
+ */
+export async function addCashMovement(
+    storeId: string,
+    shiftId: string,
+    movement: Omit<CashMovement, 'id' | 'createdAt'>
+): Promise<CashMovement> {
+    const cashMovement: CashMovement = {
+        id: Math.random().toString(36).substring(2, 10),
+        type: movement.type,
+        amount: movement.amount,
+        reason: movement.reason,
+        createdAt: new Date().toISOString(),
+    };
+    await updateDoc(doc(db, 'stores', storeId, 'shifts', shiftId), {
+        cashMovements: arrayUnion(cashMovement),
+    });
+    return cashMovement;
+}
+
+/**
+ * Fetches the transactions recorded during a shift.
+ * @param storeId The ID of the store.
+ * @param shiftId The ID of the shift.
+ */
+export async function getShiftTransactions(storeId: string, shiftId: string): Promise<Transaction[]> {
+    const transactionsQuery = query(collection(db, 'stores', storeId, 'transactions'), where('shiftId', '==', shiftId));
+    const snapshot = await getDocs(transactionsQuery);
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Transaction));
+}
+
+/**
+ * Fetches the refunds recorded during a shift.
+ * @param storeId The ID of the store.
+ * @param shiftId The ID of the shift.
+ */
+export async function getShiftRefunds(storeId: string, shiftId: string): Promise<Refund[]> {
+    const refundsQuery = query(collection(db, 'stores', storeId, 'refunds'), where('shiftId', '==', shiftId));
+    const snapshot = await getDocs(refundsQuery);
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Refund));
+}
+
+/**
+ * Fetches a store's most recent shifts, newest first.
+ * @param storeId The ID of the store.
+ * @param maxShifts How many shifts to fetch.
+ */
+export async function getShifts(storeId: string, maxShifts = 100): Promise<Shift[]> {
+    const shiftsQuery = query(collection(db, 'stores', storeId, 'shifts'), orderBy('openedAt', 'desc'), limit(maxShifts));
+    const snapshot = await getDocs(shiftsQuery);
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as Shift));
+}
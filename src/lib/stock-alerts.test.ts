@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { getLowStockProducts, getSuggestedReorderQuantity, getWeeklySales, isLowStock } from './stock-alerts';
+import type { Transaction, TransactionItem } from './types';
+import { makeProduct } from './test-fixtures';
+
+function makeTransaction(createdAt: string, items: TransactionItem[], overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: createdAt,
+    receiptNumber: 1,
+    storeId: 'store',
+    customerId: 'cust',
+    customerName: 'Sari',
+    staffId: 'kasir',
+    createdAt,
+    subtotal: 0,
+    discountAmount: 0,
+    totalAmount: 0,
+    paymentMethod: 'Cash',
+    pointsEarned: 0,
+    pointsRedeemed: 0,
+    items,
+    status: 'Selesai',
+    ...overrides,
+  };
+}
+
+const now = new Date('2025-03-29T00:00:00.000Z');
+
+const transactions = [
+  makeTransaction('2025-03-10T03:00:00.000Z', [
+    { productId: 'kaos', productName: 'Kaos', quantity: 6, price: 10000 },
+    {
+      productId: 'paket',
+      productName: 'Paket Hemat',
+      quantity: 2,
+      price: 28000,
+      bundleItems: [
+        { productId: 'nasi', productName: 'Nasi Goreng', quantity: 1, price: 20000 },
+        { productId: 'kopi', productName: 'Kopi', quantity: 0.25, unit: 'kg', price: 40000 },
+      ],
+    },
+  ]),
+  makeTransaction('2025-03-20T03:00:00.000Z', [{ productId: 'kaos', productName: 'Kaos', quantity: 4, price: 10000 }], {
+    refundSummary: { refundedQuantities: [2], amount: 20000, pointsReversed: 0, pointsRestored: 0, feeRefunded: 0, refundIds: ['r1'] },
+  }),
+  makeTransaction('2025-03-21T03:00:00.000Z', [{ productId: 'kaos', productName: 'Kaos', quantity: 100, price: 10000 }], { status: 'Dibatalkan' }),
+  makeTransaction('2025-02-20T03:00:00.000Z', [{ productId: 'kaos', productName: 'Kaos', quantity: 50, price: 10000 }]),
+];
+
+describe('isLowStock', () => {
+  it('flags stock at or below the minimum', () => {
+    expect(isLowStock({ stock: 5, minStock: 5 })).toBe(true);
+    expect(isLowStock({ stock: 6, minStock: 5 })).toBe(false);
+  });
+
+  it('ignores products without a minimum and bundles', () => {
+    expect(isLowStock({ stock: 0 })).toBe(false);
+    expect(isLowStock({ stock: 0, minStock: 0 })).toBe(false);
+    expect(isLowStock({ stock: 0, minStock: 5, bundleItems: [{ productId: 'nasi', quantity: 1 }] })).toBe(false);
+  });
+});
+
+describe('getWeeklySales', () => {
+  it('averages paid sales net of refunds, counting bundles towards their components', () => {
+    const weeklySales = getWeeklySales(transactions, 4, now);
+    expect(Object.fromEntries(weeklySales)).toEqual({ kaos: 2, nasi: 0.5, kopi: 0.125 });
+  });
+});
+
+describe('getSuggestedReorderQuantity', () => {
+  it('orders enough to cover the period above the minimum', () => {
+    expect(getSuggestedReorderQuantity({ stock: 3, minStock: 5 }, 2)).toBe(10);
+    expect(getSuggestedReorderQuantity({ stock: 3, minStock: 5, reorderQuantity: 12 }, 2)).toBe(12);
+  });
+
+  it('rounds up to the step the unit is sold in', () => {
+    expect(getSuggestedReorderQuantity({ stock: 0.25, minStock: 0.5, unit: 'kg' }, 0.125)).toBe(0.8);
+    expect(getSuggestedReorderQuantity({ stock: 150, minStock: 500, unit: 'gram' }, 100)).toBe(800);
+  });
+
+  it('suggests the reorder quantity, or nothing, when stock already covers the period', () => {
+    expect(getSuggestedReorderQuantity({ stock: 50, minStock: 5 }, 2)).toBe(0);
+    expect(getSuggestedReorderQuantity({ stock: 50, minStock: 5, reorderQuantity: 24 }, 2)).toBe(24);
+  });
+});
+
+describe('getLowStockProducts', () => {
+  it('lists low products furthest below their minimum first', () => {
+    const products = [
+      makeProduct({ id: 'kaos', stock: 3, minStock: 5 }),
+      makeProduct({ id: 'nasi', stock: 1, minStock: 10 }),
+      makeProduct({ id: 'topi', stock: 20, minStock: 5 }),
+    ];
+    expect(getLowStockProducts(products, transactions, now).map(({ product, weeklySales, suggestedQuantity }) => [product.id, weeklySales, suggestedQuantity]))
+      .toEqual([['nasi', 0.5, 11], ['kaos', 2, 10]]);
+  });
+});
@@ -0,0 +1,76 @@
+import { expandBundleLines, isBundleProduct } from './bundles';
+import { isPaidTransaction } from './payments';
+import { getQuantityStep, roundQuantity } from './units';
+import type { Product, Transaction } from './types';
+
+// Sales velocity is averaged over this many weeks, and a reorder is sized to cover as many.
+export const SALES_VELOCITY_WEEKS = 4;
+
+export type LowStockProduct = {
+  product: Product;
+  weeklySales: number;
+  suggestedQuantity: number;
+};
+
+/**
+ * Whether a product is at or below its minimum stock. Bundles hold no stock of their own.
+ */
+export function isLowStock(product: Pick<Product, 'stock' | 'minStock' | 'bundleItems'>): boolean {
+  return !isBundleProduct(product) && (product.minStock || 0) > 0 && product.stock <= product.minStock!;
+}
+
+/**
+ * Returns the average quantity sold per week of each product over the last weeks, net of
+ * refunds. Bundle sales count towards their components.
+ * @param now The end of the period, defaults to the current time.
+ */
+export function getWeeklySales(
+  transactions: Transaction[],
+  weeks = SALES_VELOCITY_WEEKS,
+  now = new Date(),
+): Map<string, number> {
+  const since = new Date(now.getTime() - weeks * 7 * 24 * 60 * 60 * 1000).toISOString();
+  const sold = new Map<string, number>();
+  transactions
+    .filter(transaction => isPaidTransaction(transaction) && transaction.createdAt >= since)
+    .forEach(transaction => {
+      const refunded = transaction.refundSummary?.refundedQuantities || [];
+      const lines = transaction.items.map((item, index) => ({ ...item, quantity: item.quantity - (refunded[index] || 0) }));
+      expandBundleLines(lines).forEach(line => {
+        sold.set(line.productId, (sold.get(line.productId) || 0) + line.quantity);
+      });
+    });
+  sold.forEach((quantity, productId) => sold.set(productId, Math.max(0, quantity) / weeks));
+  return sold;
+}
+
+/**
+ * Suggests how much to order so the stock lasts the velocity period above its minimum,
+ * rounded up to what the unit is sold in. Never less than the product's reorder quantity.
+ * @param weeklySales The product's average sales per week, from getWeeklySales.
+ */
+export function getSuggestedReorderQuantity(
+  product: Pick<Product, 'stock' | 'minStock' | 'reorderQuantity' | 'unit'>,
+  weeklySales: number,
+  weeks = SALES_VELOCITY_WEEKS,
+): number {
+  const needed = weeklySales * weeks + (product.minStock || 0) - product.stock;
+  const step = getQuantityStep(product.unit);
+  const rounded = needed > 0 ? roundQuantity(Math.ceil(needed / step) * step, product.unit) : 0;
+  return Math.max(rounded, product.reorderQuantity || 0);
+}
+
+/**
+ * Lists the products at or below their minimum stock with a reorder suggestion, those
+ * furthest below their minimum first.
+ */
+export function getLowStockProducts(products: Product[], transactions: Transaction[], now = new Date()): LowStockProduct[] {
+  const weeklySales = getWeeklySales(transactions, SALES_VELOCITY_WEEKS, now);
+  return products
+    .filter(isLowStock)
+    .map(product => {
+      const productSales = weeklySales.get(product.id) || 0;
+      return { product, weeklySales: productSales, suggestedQuantity: getSuggestedReorderQuantity(product, productSales) };
+    })
+    .sort((a, b) => a.product.stock / a.product.minStock! - b.product.stock / b.product.minStock!);
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildStockCountItems, getStockCountItemKey, getStockCountReport } from './stock-counts';
+import { makeProduct } from './test-fixtures';
+
+const products = [
+  makeProduct({ id: 'topi', name: 'Topi', stock: 5, costPrice: 8000 }),
+  makeProduct({
+    id: 'latte',
+    name: 'Latte',
+    stock: 30,
+    costPrice: 9000,
+    variants: [
+      { id: 'regular', name: 'Regular', priceDelta: 0, stock: 20 },
+      { id: 'large', name: 'Large', priceDelta: 5000, stock: 10 },
+    ],
+  }),
+  makeProduct({ id: 'paket', name: 'Paket Hemat', bundleItems: [{ productId: 'topi', quantity: 1 }] }),
+  makeProduct({ id: 'kopi', name: 'Kopi', unit: 'kg', stock: 1.2, costPrice: 100000 }),
+];
+
+describe('buildStockCountItems', () => {
+  it('snapshots each product, or each tracked variant, and leaves out bundles', () => {
+    expect(buildStockCountItems(products)).toStrictEqual([
+      { key: 'kopi', productId: 'kopi', productName: 'Kopi', unit: 'kg', costPrice: 100000, expectedQuantity: 1.2 },
+      { key: 'latte__regular', productId: 'latte', productName: 'Latte', costPrice: 9000, variantId: 'regular', variantName: 'Regular', expectedQuantity: 20 },
+      { key: 'latte__large', productId: 'latte', productName: 'Latte', costPrice: 9000, variantId: 'large', variantName: 'Large', expectedQuantity: 10 },
+      { key: 'topi', productId: 'topi', productName: 'Topi', costPrice: 8000, expectedQuantity: 5 },
+    ]);
+  });
+});
+
+describe('getStockCountReport', () => {
+  it('values shortages and surpluses at cost and skips items nobody counted', () => {
+    const { lines, summary } = getStockCountReport(buildStockCountItems(products), [
+      { itemKey: 'kopi', countedQuantity: 1.05 },
+      { itemKey: getStockCountItemKey('latte', 'regular'), countedQuantity: 22 },
+      { itemKey: 'topi', countedQuantity: 5 },
+    ]);
+    expect(lines.map(line => [line.item.key, line.countedQuantity, line.variance, line.varianceValue])).toEqual([
+      ['kopi', 1.05, -0.15, -15000],
+      ['latte__regular', 22, 2, 18000],
+      ['latte__large', undefined, 0, 0],
+      ['topi', 5, 0, 0],
+    ]);
+    expect(summary).toStrictEqual({ countedItems: 3, varianceItems: 2, shortageValue: 15000, surplusValue: 18000 });
+  });
+
+  it('counts a count of zero as counted', () => {
+    const { lines, summary } = getStockCountReport(buildStockCountItems(products), [{ itemKey: 'topi', countedQuantity: 0 }]);
+    expect(lines[3]).toMatchObject({ countedQuantity: 0, variance: -5, varianceValue: -40000 });
+    expect(summary.countedItems).toBe(1);
+  });
+});
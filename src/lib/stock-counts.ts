@@ -0,0 +1,75 @@
+import { isBundleProduct } from './bundles';
+import { getItemUnit, roundQuantity } from './units';
+import type { Product, StockCountEntry, StockCountItem, StockCountStatus, StockCountSummary } from './types';
+
+export const stockCountStatusLabels: Record<StockCountStatus, string> = {
+  counting: 'Sedang Dihitung',
+  posted: 'Diposting',
+  cancelled: 'Dibatalkan',
+};
+
+export type StockCountReportLine = {
+  item: StockCountItem;
+  countedQuantity?: number; // Absent when the item hasn't been counted
+  variance: number; // Counted minus expected, 0 when not counted
+  varianceValue: number; // variance at the item's costPrice
+};
+
+/**
+ * Returns the key of a product or variant within a stock count.
+ */
+export function getStockCountItemKey(productId: string, variantId?: string): string {
+  return variantId ? `${productId}__${variantId}` : productId;
+}
+
+/**
+ * Takes the snapshot of expected stock a count starts from: one item per product, or per
+ * variant when stock is tracked per variant. Bundles hold no stock of their own and are left out.
+ */
+export function buildStockCountItems(products: Product[]): StockCountItem[] {
+  return products
+    .filter(product => !isBundleProduct(product))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(product => {
+      const base = { productId: product.id, productName: product.name, ...getItemUnit(product), costPrice: product.costPrice || 0 };
+      const variants = (product.variants || []).filter(variant => variant.stock !== undefined);
+      if (variants.length === 0) {
+        return [{ key: getStockCountItemKey(product.id), ...base, expectedQuantity: product.stock || 0 }];
+      }
+      return variants.map(variant => ({
+        key: getStockCountItemKey(product.id, variant.id),
+        ...base,
+        variantId: variant.id,
+        variantName: variant.name,
+        expectedQuantity: variant.stock!,
+      }));
+    });
+}
+
+/**
+ * Compares what was counted with the snapshot. Items nobody counted have no variance; they
+ * keep their stock when the count is posted.
+ */
+export function getStockCountReport(
+  items: StockCountItem[],
+  entries: Pick<StockCountEntry, 'itemKey' | 'countedQuantity'>[],
+): { lines: StockCountReportLine[]; summary: StockCountSummary } {
+  const counted = new Map(entries.map(entry => [entry.itemKey, entry.countedQuantity]));
+  const lines = items.map(item => {
+    const countedQuantity = counted.get(item.key);
+    const variance = countedQuantity === undefined ? 0 : roundQuantity(countedQuantity - item.expectedQuantity, item.unit);
+    return {
+      item,
+      ...(countedQuantity !== undefined && { countedQuantity }),
+      variance,
+      varianceValue: Math.round(variance * item.costPrice),
+    };
+  });
+  const summary: StockCountSummary = {
+    countedItems: lines.filter(line => line.countedQuantity !== undefined).length,
+    varianceItems: lines.filter(line => line.variance !== 0).length,
+    shortageValue: lines.reduce((sum, line) => sum + Math.max(0, -line.varianceValue), 0),
+    surplusValue: lines.reduce((sum, line) => sum + Math.max(0, line.varianceValue), 0),
+  };
+  return { lines, summary };
+}
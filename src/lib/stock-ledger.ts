@@ -0,0 +1,130 @@
+'use client';
+
+import { collection, doc, getDocs, query, runTransaction, where, writeBatch, type DocumentReference } from 'firebase/firestore';
+import { db } from './firebase';
+import { getStockChangeMovements, type StockMovementDraft } from './stock-movements';
+import { toNewProduct, toProductChanges, type ProductImportRow } from './product-import';
+import type { Product, StockMovement } from './types';
+
+type ProductStockFields = Pick<Product, 'stock'> & Partial<Pick<Product, 'variants'>>;
+
+function setStockMovements(
+    set: (ref: DocumentReference, data: StockMovement) => unknown,
+    storeId: string,
+    movements: StockMovementDraft[]
+) {
+    const createdAt = new Date().toISOString();
+    movements.forEach(movement => {
+        const movementRef = doc(collection(db, 'stores', storeId, 'stockMovements'));
+        set(movementRef, { id: movementRef.id, ...movement, createdAt });
+    });
+}
+
+/**
+ * Fetches a product's stock movements, newest first.
+ * @param storeId The ID of the store.
+ * @param productId The ID of the product.
+ */
+export async function getProductStockMovements(storeId: string, productId: string): Promise<StockMovement[]> {
+    // Sorted here rather than in the query, which would need a composite index.
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'stockMovements'), where('productId', '==', productId)));
+    return snapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as StockMovement))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Adds a product and enters its opening stock in the ledger.
+ * @param storeId The ID of the store.
+ * @param product The new product.
+ * @param staffId The UID of the user adding the product.
+ * @returns The ID of the new product.
+ */
+export async function addProductWithStock(storeId: string, product: Omit<Product, 'id'>, staffId: string): Promise<string> {
+    const productRef = doc(collection(db, 'stores', storeId, 'products'));
+    const batch = writeBatch(db);
+    batch.set(productRef, product);
+    setStockMovements(
+        (ref, data) => batch.set(ref, data),
+        storeId,
+        getStockChangeMovements({ id: productRef.id, name: product.name, unit: product.unit, stock: 0 }, product, { type: 'adjustment', note: 'Stok awal', staffId })
+    );
+    await batch.commit();
+    return productRef.id;
+}
+
+/**
+ * Saves changes to a product and enters any change to its stock in the ledger. The product is
+ * read in the same Firestore transaction, so a sale made while the form was open is counted.
+ * @param storeId The ID of the store.
+ * @param productId The ID of the product.
+ * @param changes The fields to update; stock and variants are only compared when given.
+ * @param staffId The UID of the user editing the product.
+ * @param note Why the stock changed, as shown in the ledger.
+ */
+export async function updateProductWithStock(
+    storeId: string,
+    productId: string,
+    changes: Partial<ProductStockFields> & Record<string, unknown>,
+    staffId: string,
+    note: string = 'Diubah dari formulir produk'
+): Promise<void> {
+    const productRef = doc(db, 'stores', storeId, 'products', productId);
+    await runTransaction(db, async (transaction) => {
+        const productSnap = await transaction.get(productRef);
+        if (!productSnap.exists()) {
+            throw new Error('Produk tidak ditemukan.');
+        }
+        const product = { id: productSnap.id, ...productSnap.data() } as Product;
+        transaction.update(productRef, changes);
+        setStockMovements(
+            (ref, data) => transaction.set(ref, data),
+            storeId,
+            getStockChangeMovements(product, {
+                stock: changes.stock ?? product.stock,
+                ...(changes.variants && { variants: changes.variants }),
+            }, { type: 'adjustment', note, staffId })
+        );
+    });
+}
+
+// Each batched import row takes at most two writes: the new product and its opening stock.
+const IMPORT_ROWS_PER_BATCH = 200;
+
+/**
+ * Adds and updates products from a checked import file, entering opening stock and stock
+ * changes in the ledger. Rows that set an existing product's stock are each written in their
+ * own Firestore transaction, like the product form, so a sale made since the file was checked
+ * is measured against rather than lost. The other rows are written in batches of
+ * IMPORT_ROWS_PER_BATCH.
+ * @param storeId The ID of the store.
+ * @param rows The rows to import, without errors.
+ * @param staffId The UID of the admin importing the file.
+ */
+export async function importProductsWithStock(storeId: string, rows: ProductImportRow[], staffId: string): Promise<void> {
+    const stockRows = rows.filter(row => row.existingProduct && row.data.stock !== undefined);
+    for (const { data, existingProduct } of stockRows) {
+        await updateProductWithStock(storeId, existingProduct!.id, toProductChanges(data), staffId, 'Impor produk');
+    }
+
+    const batchRows = rows.filter(row => !stockRows.includes(row));
+    for (let start = 0; start < batchRows.length; start += IMPORT_ROWS_PER_BATCH) {
+        const batch = writeBatch(db);
+        batchRows.slice(start, start + IMPORT_ROWS_PER_BATCH).forEach(({ data, existingProduct }) => {
+            if (existingProduct) {
+                // Leaves stock alone, so there is nothing to enter in the ledger.
+                batch.update(doc(db, 'stores', storeId, 'products', existingProduct.id), toProductChanges(data));
+                return;
+            }
+            const productRef = doc(collection(db, 'stores', storeId, 'products'));
+            const product = toNewProduct(data);
+            batch.set(productRef, product);
+            setStockMovements(
+                (ref, movement) => batch.set(ref, movement),
+                storeId,
+                getStockChangeMovements({ id: productRef.id, name: product.name, unit: product.unit, stock: 0 }, product, { type: 'adjustment', note: 'Stok awal', staffId })
+            );
+        });
+        await batch.commit();
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getStockChangeMovements, sumStockMovements } from './stock-movements';
+
+const sale = { type: 'sale' as const, staffId: 'kasir', transactionId: 'trx-1' };
+
+describe('getStockChangeMovements', () => {
+  it('enters the change in a product without variants', () => {
+    const product = { id: 'kaos', name: 'Kaos', stock: 10 };
+    expect(getStockChangeMovements(product, { stock: 8 }, sale)).toStrictEqual([
+      { productId: 'kaos', productName: 'Kaos', type: 'sale', staffId: 'kasir', transactionId: 'trx-1', quantity: -2, stockAfter: 8 },
+    ]);
+  });
+
+  it('enters nothing when the stock did not change', () => {
+    expect(getStockChangeMovements({ id: 'kaos', name: 'Kaos', stock: 10 }, { stock: 10 }, sale)).toEqual([]);
+  });
+
+  it('gives tracked variants their own entries', () => {
+    const product = {
+      id: 'latte',
+      name: 'Latte',
+      stock: 30,
+      variants: [
+        { id: 'regular', name: 'Regular', priceDelta: 0, stock: 20 },
+        { id: 'large', name: 'Large', priceDelta: 5000, stock: 10 },
+      ],
+    };
+    const movements = getStockChangeMovements(product, {
+      stock: 27,
+      variants: [{ ...product.variants[0], stock: 17 }, product.variants[1]],
+    }, sale);
+    expect(movements).toStrictEqual([
+      { productId: 'latte', productName: 'Latte', type: 'sale', staffId: 'kasir', transactionId: 'trx-1', variantId: 'regular', variantName: 'Regular', quantity: -3, stockAfter: 17 },
+    ]);
+  });
+
+  it('enters what the variants do not account for against the product', () => {
+    const product = { id: 'latte', name: 'Latte', stock: 25, variants: [{ id: 'large', name: 'Large', priceDelta: 0, stock: 10 }] };
+    const movements = getStockChangeMovements(product, { stock: 31, variants: [{ ...product.variants[0], stock: 12 }] }, { type: 'adjustment', staffId: 'admin' });
+    expect(movements.map(movement => [movement.variantId, movement.quantity])).toEqual([['large', 2], [undefined, 4]]);
+    expect(sumStockMovements(movements)).toBe(31 - 25);
+  });
+
+  it('rounds weighed quantities to the unit', () => {
+    const movements = getStockChangeMovements({ id: 'kopi', name: 'Kopi', unit: 'kg', stock: 1.1 }, { stock: 0.85 }, sale);
+    expect(movements[0].quantity).toBe(-0.25);
+  });
+});
+
+describe('sumStockMovements', () => {
+  it('reconciles a ledger to the stock it produced', () => {
+    expect(sumStockMovements([{ quantity: 24 }, { quantity: -3 }, { quantity: 5 }, { quantity: -1 }])).toBe(25);
+    expect(sumStockMovements([{ quantity: 1.1 }, { quantity: -0.25 }, { quantity: -0.35 }], 'kg')).toBe(0.5);
+    expect(sumStockMovements([])).toBe(0);
+  });
+});
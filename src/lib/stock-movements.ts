@@ -0,0 +1,55 @@
+import { roundQuantity } from './units';
+import type { Product, StockMovement, StockMovementType } from './types';
+
+export const stockMovementLabels: Record<StockMovementType, string> = {
+  sale: 'Penjualan',
+  refund: 'Pengembalian',
+  receiving: 'Penerimaan',
+  adjustment: 'Penyesuaian',
+  waste: 'Rusak/Terbuang',
+  transfer: 'Transfer',
+};
+
+export type StockMovementDraft = Omit<StockMovement, 'id' | 'createdAt'>;
+
+type StockChangeSource = Pick<StockMovement, 'type' | 'staffId'> & Partial<Pick<StockMovement, 'transactionId' | 'refundId' | 'purchaseOrderId' | 'stockCountId' | 'note'>>;
+
+/**
+ * Works out the ledger entries for a change to a product's stock, by comparing the product
+ * before and after. A variant that tracks its own stock gets an entry of its own, and
+ * whatever of the product's change the variants don't account for is entered against the
+ * product, so the entries always add up to the change in Product.stock.
+ * @param product The product before the change.
+ * @param update The product's stock, and variants if they changed, after the change.
+ * @param source What caused the change.
+ * @returns The entries to record, none when the stock didn't change.
+ */
+export function getStockChangeMovements(
+  product: Pick<Product, 'id' | 'name' | 'stock' | 'unit' | 'variants'>,
+  update: Pick<Product, 'stock'> & Partial<Pick<Product, 'variants'>>,
+  source: StockChangeSource
+): StockMovementDraft[] {
+  const base = { productId: product.id, productName: product.name, ...source };
+  const variantMovements: StockMovementDraft[] = (update.variants || []).flatMap(variant => {
+    if (variant.stock === undefined) return [];
+    const before = product.variants?.find(previous => previous.id === variant.id)?.stock || 0;
+    const quantity = roundQuantity(variant.stock - before, product.unit);
+    return quantity !== 0
+      ? [{ ...base, variantId: variant.id, variantName: variant.name, quantity, stockAfter: variant.stock }]
+      : [];
+  });
+  const variantsQuantity = variantMovements.reduce((sum, movement) => sum + movement.quantity, 0);
+  const rest = roundQuantity(update.stock - (product.stock || 0) - variantsQuantity, product.unit);
+  return rest !== 0
+    ? [...variantMovements, { ...base, quantity: rest, stockAfter: update.stock }]
+    : variantMovements;
+}
+
+/**
+ * Adds up a product's ledger, which should equal its current stock.
+ * @param movements The product's movements.
+ * @param unit The product's unit, to round fractional quantities.
+ */
+export function sumStockMovements(movements: Pick<StockMovement, 'quantity'>[], unit?: Product['unit']): number {
+  return roundQuantity(movements.reduce((sum, movement) => sum + movement.quantity, 0), unit);
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { arrayUnion, collection, doc, getDocs, increment, onSnapshot, orderBy, query, setDoc, updateDoc, type Unsubscribe } from 'firebase/firestore';
+import { db } from './firebase';
+import { buildStockCountItems } from './stock-counts';
+import type { Product, StockCount, StockCountEntry } from './types';
+
+/**
+ * Fetches a store's stock counts, newest first.
+ * @param storeId The ID of the store.
+ */
+export async function getStockCounts(storeId: string): Promise<StockCount[]> {
+    const snapshot = await getDocs(query(collection(db, 'stores', storeId, 'stockCounts'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() } as StockCount));
+}
+
+/**
+ * Starts a stock count, freezing the products' current stock as what the count is compared with.
+ * @param storeId The ID of the store.
+ * @param name The name of the count, e.g. "Stok Opname Oktober 2026".
+ * @param products The store's products.
+ * @param createdBy The UID of the admin starting the count.
+ * @returns The new stock count.
+ */
+export async function startStockCount(storeId: string, name: string, products: Product[], createdBy: string): Promise<StockCount> {
+    const countRef = doc(collection(db, 'stores', storeId, 'stockCounts'));
+    const stockCount: StockCount = {
+        id: countRef.id,
+        storeId,
+        name,
+        status: 'counting',
+        items: buildStockCountItems(products),
+        createdBy,
+        createdAt: new Date().toISOString(),
+    };
+    await setDoc(countRef, stockCount);
+    return stockCount;
+}
+
+/**
+ * Listens to a stock count and everything counted for it in real time, so everyone counting
+ * sees each other's progress.
+ * @param storeId The ID of the store.
+ * @param stockCountId The ID of the stock count.
+ * @param onCountChange Called with the latest stock count.
+ * @param onEntriesChange Called with all entries counted so far.
+ * @returns A function that stops listening.
+ */
+export function subscribeToStockCount(
+    storeId: string,
+    stockCountId: string,
+    onCountChange: (stockCount: StockCount) => void,
+    onEntriesChange: (entries: StockCountEntry[]) => void
+): Unsubscribe {
+    const countRef = doc(db, 'stores', storeId, 'stockCounts', stockCountId);
+    const unsubscribeCount = onSnapshot(countRef, (docSnap) => {
+        if (docSnap.exists()) onCountChange({ id: docSnap.id, ...docSnap.data() } as StockCount);
+    });
+    const unsubscribeEntries = onSnapshot(collection(countRef, 'entries'), (snapshot) => {
+        onEntriesChange(snapshot.docs.map(docSnap => docSnap.data() as StockCountEntry));
+    });
+    return () => {
+        unsubscribeCount();
+        unsubscribeEntries();
+    };
+}
+
+/**
+ * Records a quantity counted of an item. Scans add to the count so several staff can count
+ * the same item on different shelves; a manual entry replaces it.
+ * @param storeId The ID of the store.
+ * @param stockCountId The ID of the stock count.
+ * @param itemKey The key of the counted item.
+ * @param quantity The quantity to add, or the total when `replace` is set.
+ * @param staffId The UID of the staff member counting.
+ * @param replace Whether the quantity replaces what was counted so far.
+ */
+export async function recordStockCountEntry(
+    storeId: string,
+    stockCountId: string,
+    itemKey: string,
+    quantity: number,
+    staffId: string,
+    replace = false
+) {
+    await setDoc(doc(db, 'stores', storeId, 'stockCounts', stockCountId, 'entries', itemKey), {
+        itemKey,
+        countedQuantity: replace ? quantity : increment(quantity),
+        countedBy: arrayUnion(staffId),
+        updatedAt: new Date().toISOString(),
+    }, { merge: true });
+}
+
+/**
+ * Cancels a stock count without touching stock.
+ * @param storeId The ID of the store.
+ * @param stockCountId The ID of the stock count.
+ */
+export async function cancelStockCount(storeId: string, stockCountId: string) {
+    await updateDoc(doc(db, 'stores', storeId, 'stockCounts', stockCountId), {
+        status: 'cancelled',
+        cancelledAt: new Date().toISOString(),
+    });
+}
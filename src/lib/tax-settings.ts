@@ -0,0 +1,49 @@
+'use client';
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { defaultTaxSettings } from './tax';
+import type { TaxSettings } from './types';
+
+/**
+ * Fetches tax and service charge settings for a specific store from Firestore.
+ * @param storeId The ID of the store.
+ * @returns The store's specific tax settings, or default settings if not found.
+ */
+export async function getTaxSettings(storeId: string): Promise<TaxSettings> {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        const docSnap = await getDoc(storeDocRef);
+
+        if (docSnap.exists()) {
+            const storeData = docSnap.data();
+            // Merge store settings with defaults to ensure all fields are present
+            return { ...defaultTaxSettings, ...storeData.taxSettings };
+        } else {
+            console.warn(`Store with ID ${storeId} not found. Using default tax settings.`);
+            return defaultTaxSettings;
+        }
+    } catch (error) {
+        console.error("Error fetching tax settings:", error);
+        return defaultTaxSettings;
+    }
+}
+
+/**
+ * Updates or creates tax and service charge settings for a specific store in Firestore.
+ * @param storeId The ID of the store to update.
+ * @param newSettings An object containing the settings to update.
+ */
+export async function updateTaxSettings(storeId: string, newSettings: Partial<TaxSettings>) {
+    const storeDocRef = doc(db, 'stores', storeId);
+    try {
+        await setDoc(storeDocRef, {
+            taxSettings: newSettings
+        }, { merge: true });
+
+        console.log(`Tax settings updated for store ${storeId}.`);
+    } catch (error) {
+        console.error(`Error updating tax settings for store ${storeId}:`, error);
+        throw error; // Re-throw the error to be handled by the caller
+    }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateTaxAndService, defaultTaxSettings } from './tax';
+
+const restaurant = { ...defaultTaxSettings, taxEnabled: true, serviceChargeEnabled: true };
+
+describe('calculateTaxAndService', () => {
+  it('charges nothing by default', () => {
+    expect(calculateTaxAndService(100000, defaultTaxSettings).totalAmount).toBe(100000);
+  });
+
+  it('taxes the service charge along with the amount', () => {
+    expect(calculateTaxAndService(100000, restaurant)).toEqual({
+      serviceChargeAmount: 5000,
+      serviceChargeRate: 5,
+      taxAmount: 10500,
+      taxRate: 10,
+      totalAmount: 115500,
+    });
+  });
+
+  it('carves inclusive tax out of the amount', () => {
+    const breakdown = calculateTaxAndService(110000, { ...restaurant, serviceChargeEnabled: false, taxInclusive: true });
+    expect(breakdown.taxAmount).toBe(10000);
+    expect(breakdown.totalAmount).toBe(110000);
+  });
+
+  it('skips dine-in-only charges on takeaway orders', () => {
+    const breakdown = calculateTaxAndService(100000, { ...restaurant, taxDineInOnly: true }, 'takeaway');
+    expect(breakdown).toMatchObject({ serviceChargeAmount: 0, taxAmount: 0, totalAmount: 100000 });
+  });
+
+  it('rounds to whole Rupiah', () => {
+    expect(calculateTaxAndService(12345, { ...restaurant, serviceChargeEnabled: false }).taxAmount).toBe(1235);
+  });
+});
@@ -0,0 +1,56 @@
+import type { OrderType, TaxSettings } from './types';
+
+// Default settings if a store doesn't have any defined: no tax or service charge.
+export const defaultTaxSettings: TaxSettings = {
+  taxEnabled: false,
+  taxName: 'PB1',
+  taxRate: 10,
+  taxInclusive: false,
+  taxDineInOnly: false,
+  serviceChargeEnabled: false,
+  serviceChargeRate: 5,
+  serviceChargeDineInOnly: true,
+};
+
+export const orderTypeLabels: Record<OrderType, string> = {
+  'dine-in': 'Makan di Tempat',
+  'takeaway': 'Bawa Pulang',
+};
+
+export type TaxBreakdown = {
+  serviceChargeAmount: number;
+  serviceChargeRate: number;
+  taxAmount: number;
+  taxRate: number;
+  totalAmount: number;
+};
+
+/**
+ * Applies the service charge and tax to an amount that already has every discount deducted.
+ * The service charge is taxed as well. Inclusive tax is carved out of the amount rather
+ * than added to it. Amounts are rounded to whole Rupiah.
+ * @param netAmount The amount after line, manual and points discounts.
+ * @param settings The store's tax settings.
+ * @param orderType Whether the order is eaten in; takeaway skips dine-in-only charges.
+ */
+export function calculateTaxAndService(netAmount: number, settings: TaxSettings, orderType: OrderType = 'dine-in'): TaxBreakdown {
+  const isDineIn = orderType === 'dine-in';
+  const serviceChargeRate = settings.serviceChargeEnabled && (isDineIn || !settings.serviceChargeDineInOnly)
+    ? settings.serviceChargeRate
+    : 0;
+  const taxRate = settings.taxEnabled && (isDineIn || !settings.taxDineInOnly) ? settings.taxRate : 0;
+
+  const serviceChargeAmount = Math.round((netAmount * serviceChargeRate) / 100);
+  const taxableAmount = netAmount + serviceChargeAmount;
+  const taxAmount = settings.taxInclusive
+    ? Math.round((taxableAmount * taxRate) / (100 + taxRate))
+    : Math.round((taxableAmount * taxRate) / 100);
+
+  return {
+    serviceChargeAmount,
+    serviceChargeRate,
+    taxAmount,
+    taxRate,
+    totalAmount: settings.taxInclusive ? taxableAmount : taxableAmount + taxAmount,
+  };
+}
@@ -0,0 +1,21 @@
+import type { Product } from './types';
+
+/**
+ * Builds a product for tests: a plain, unstocked item with no price, variants or supplier,
+ * with the fields a test cares about given as overrides.
+ */
+export function makeProduct(overrides: Partial<Product>): Product {
+  return {
+    id: 'product',
+    name: 'Produk',
+    category: 'Lainnya',
+    stock: 0,
+    price: 0,
+    costPrice: 0,
+    supplierId: '',
+    imageUrl: '',
+    imageHint: '',
+    attributes: { brand: '' },
+    ...overrides,
+  };
+}
@@ -20,6 +20,7 @@ export type ProductCategory = (typeof productCategories)[number];
 
 export type PointEarningSettings = {
     rpPerPoint: number;
+    rpPerRedeemedPoint?: number; // Rupiah value of 1 point when redeemed directly; 0 disables direct redemption
 };
 
 export type ReceiptSettings = {
@@ -32,6 +33,92 @@ export type ReceiptSettings = {
 
 export type NotificationSettings = {
   dailySummaryEnabled: boolean;
+  lowStockDigestEnabled?: boolean; // Daily WhatsApp list of low-stock products, on unless false
+};
+
+export type TaxSettings = {
+  taxEnabled: boolean;
+  taxName: string; // e.g. "PPN" or "PB1"
+  taxRate: number; // Percent
+  taxInclusive: boolean; // Prices already include tax
+  taxDineInOnly: boolean;
+  serviceChargeEnabled: boolean;
+  serviceChargeRate: number; // Percent
+  serviceChargeDineInOnly: boolean;
+};
+
+export type OrderType = 'dine-in' | 'takeaway';
+
+export type PosSettings = {
+  heldCartExpiryMinutes: number; // Held carts older than this are discarded
+  scaleBarcodeValue: 'weight' | 'price'; // What the 5 value digits of a scale label (EAN-13 prefix 20-29) encode
+  dynamicQrisEnabled: boolean; // QRIS tenders get a per-transaction QR and wait for the provider to confirm payment
+  giftCardExpiryMonths: number; // Validity of new gift cards and store credit; 0 means they never expire
+};
+
+export type ReceiptNumberReset = 'never' | 'daily' | 'monthly';
+
+export type ReceiptNumberSettings = {
+  format: string; // e.g. "INV/{outlet}/{yyyyMMdd}/{seq}"
+  outletCode: string; // Fills {outlet}
+  reset: ReceiptNumberReset; // When {seq} starts again at 1
+  sequenceDigits: number; // {seq} is zero-padded to this many digits
+  counterShards: number; // 1 keeps numbers in checkout order; more spread a busy store's checkouts over several counters
+};
+
+// A receipt number that was issued but never became a sale, stored in stores/{storeId}/receiptNumberVoids.
+export type ReceiptNumberVoidReason = 'qris-expired' | 'qris-cancelled' | 'qris-unavailable' | 'void';
+
+export type ReceiptNumberVoid = {
+  id: string;
+  transactionId: string;
+  receiptNumber: number;
+  formattedReceiptNumber?: string;
+  reason: ReceiptNumberVoidReason;
+  amount: number;
+  staffId: string; // The cashier of the voided sale
+  createdAt: string; // ISO 8601
+};
+
+export type ApprovalAction = 'discount' | 'line-void' | 'price-override' | 'points-redemption' | 'no-sale';
+
+// Which POS actions of a cashier need an admin's PIN. Store admins never need approval.
+export type ApprovalSettings = {
+  discountThresholdPercent: number | null; // Line or cart discounts above this need approval; null never asks
+  lineVoids: boolean; // Removing a line from the cart
+  priceOverrides: boolean; // When off, only admins can override prices
+  pointsRedemption: boolean;
+  noSale: boolean; // Opening the cash drawer without a sale
+};
+
+// The values an approval was given for, kept in the audit log.
+export type ApprovalDetails = {
+  description: string; // e.g. "Diskon 25% untuk Kopi Susu"
+  productId?: string;
+  productName?: string;
+  quantity?: number;
+  amount?: number; // Rupiah involved
+  discountPercent?: number;
+  originalPrice?: number;
+  newPrice?: number;
+  points?: number;
+};
+
+export type ApprovalRequest = {
+  action: ApprovalAction;
+  details: ApprovalDetails;
+};
+
+// An admin's PIN approval of a cashier's action, stored in stores/{storeId}/approvalLogs.
+export type ApprovalLog = ApprovalRequest & {
+  id: string;
+  storeId: string;
+  requestedBy: string;
+  requestedByName: string;
+  approvedBy: string;
+  approvedByName: string;
+  transactionId?: string; // The sale the approval was spent on
+  createdAt: string; // ISO 8601
 };
 
 export type Store = {
@@ -42,11 +129,16 @@ export type Store = {
   receiptSettings?: ReceiptSettings;
   pointEarningSettings?: PointEarningSettings;
   notificationSettings?: NotificationSettings;
-  pradanaTokenBalance: number;
+  posSettings?: PosSettings;
+  taxSettings?: TaxSettings;
+  receiptNumberSettings?: ReceiptNumberSettings;
+  approvalSettings?: ApprovalSettings;
+  pradanaTokenBalance: number; // Checkout fees are deducted when stores/{storeId}/checkoutTallies are settled
   adminUids: string[];
   createdAt: string;
   firstTransactionDate?: string | null;
-  transactionCounter?: number;
+  transactionCounter?: number; // Sales recorded so far, settled from stores/{storeId}/checkoutTallies every few minutes; receipt numbers come from stores/{storeId}/receiptCounters
+  purchaseOrderCounter?: number; // Purchase orders numbered so far
   referralCode?: string;
   catalogSlug?: string;
   catalogSubscriptionExpiry?: string;
@@ -62,6 +154,7 @@ export type User = {
   whatsapp?: string;
   status: 'active' | 'inactive';
   storeId?: string; // Optional: Cashiers are tied to one store
+  approvalPinUpdatedAt?: string; // ISO 8601; admins only, the PIN hash itself is kept in approvalPins/{uid}
 };
 
 export type Product = {
@@ -69,10 +162,13 @@ export type Product = {
   name: string;
   category: ProductCategory;
   description?: string;
-  stock: number;
-  price: number;
+  stock: number; // In `unit`, may be fractional for weighed units
+  price: number; // Per `unit`
   costPrice: number;
-  supplierId: string;
+  unit?: UnitOfMeasure; // Defaults to 'pcs'
+  supplierId: string; // '' when the product has no supplier
+  minStock?: number; // Stock is low at or below this level; 0 or unset turns the alert off
+  reorderQuantity?: number; // Usual order size, the least a reorder suggestion asks for
   imageUrl: string;
   imageHint: string;
   attributes: {
@@ -80,6 +176,174 @@ export type Product = {
     barcode?: string;
     [key: string]: string | number | boolean | null;
   };
+  variantLabel?: string; // e.g. "Ukuran"
+  variants?: ProductVariant[]; // When present, one variant must be chosen at sale time
+  modifierGroups?: ProductModifierGroup[];
+  bundleItems?: ProductBundleItem[]; // When present, the product is a bundle ("Paket") sold from its components' stock
+};
+
+// A component of a bundle product. Components are regular products without variants.
+export type ProductBundleItem = {
+  productId: string;
+  quantity: number; // In the component's unit, per bundle
+};
+
+export const unitsOfMeasure = ['pcs', 'kg', 'gram', 'liter'] as const;
+
+export type UnitOfMeasure = (typeof unitsOfMeasure)[number];
+
+export type ProductVariant = {
+  id: string;
+  name: string;
+  priceDelta: number; // Added to Product.price
+  stock?: number; // Tracked per variant when set; Product.stock then holds the sum
+  barcode?: string;
+};
+
+// 'sale' with a positive quantity puts back the stock of a sale released before it was paid.
+export type StockMovementType = 'sale' | 'refund' | 'receiving' | 'adjustment' | 'waste' | 'transfer';
+
+// One change to a product's stock, stored in stores/{storeId}/stockMovements. A product's
+// movements add up to its stock.
+export type StockMovement = {
+  id: string;
+  productId: string;
+  productName: string;
+  variantId?: string; // Set when the change was to a variant that tracks its own stock
+  variantName?: string;
+  type: StockMovementType;
+  quantity: number; // In the product's unit, positive when stock goes up
+  stockAfter: number; // The variant's stock when variantId is set, otherwise the product's
+  transactionId?: string;
+  refundId?: string;
+  purchaseOrderId?: string;
+  stockCountId?: string;
+  note?: string;
+  staffId: string;
+  createdAt: string; // ISO 8601
+};
+
+// stores/{storeId}/suppliers
+export type Supplier = {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string; // WhatsApp number purchase orders are sent to
+  email?: string;
+  address?: string;
+  paymentTermDays: number; // 0 pays on delivery
+  notes?: string;
+  createdAt: string; // ISO 8601
+};
+
+// 'partial' has had some, but not all, of its goods delivered.
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partial' | 'received' | 'cancelled';
+
+export type PurchaseOrderItem = {
+  productId: string;
+  productName: string;
+  variantId?: string; // Set for a variant that tracks its own stock
+  variantName?: string;
+  unit?: UnitOfMeasure;
+  quantity: number; // Ordered, in `unit`
+  receivedQuantity: number;
+  unitCost: number; // Expected cost per `unit`, in Rupiah
+};
+
+// One delivery against a purchase order.
+export type PurchaseOrderReceipt = {
+  id: string;
+  items: { lineIndex: number; quantity: number; unitCost: number }[]; // lineIndex into PurchaseOrder.items
+  note?: string;
+  staffId: string;
+  receivedAt: string; // ISO 8601
+};
+
+// stores/{storeId}/purchaseOrders
+export type PurchaseOrder = {
+  id: string;
+  storeId: string;
+  number: string; // e.g. "PO-0012"
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  items: PurchaseOrderItem[];
+  totalCost: number; // Expected, at the ordered quantities
+  notes?: string;
+  expectedAt?: string; // ISO 8601 date the goods are expected
+  receipts: PurchaseOrderReceipt[];
+  createdBy: string;
+  createdAt: string; // ISO 8601
+  sentAt?: string; // Last sent to the supplier on WhatsApp
+  receivedAt?: string; // When the last of the goods arrived
+};
+
+export type StockCountStatus = 'counting' | 'posted' | 'cancelled';
+
+// A product, or one of its stock-tracked variants, as it stood when the count started.
+export type StockCountItem = {
+  key: string; // From getStockCountItemKey, also the ID of its entry
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  unit?: UnitOfMeasure;
+  expectedQuantity: number; // Stock at the start of the count
+  costPrice: number;
+};
+
+// What was counted of one item, in stores/{storeId}/stockCounts/{stockCountId}/entries. Kept
+// apart from the count so several staff can count at the same time.
+export type StockCountEntry = {
+  itemKey: string;
+  countedQuantity: number;
+  countedBy: string[]; // UIDs of everyone who counted the item
+  updatedAt: string; // ISO 8601
+};
+
+export type StockCountSummary = {
+  countedItems: number;
+  varianceItems: number; // Counted items whose count differed from the snapshot
+  shortageValue: number; // At costPrice, positive
+  surplusValue: number;
+};
+
+// A stock opname session, stored in stores/{storeId}/stockCounts.
+export type StockCount = {
+  id: string;
+  storeId: string;
+  name: string; // e.g. "Stok Opname Oktober 2026"
+  status: StockCountStatus;
+  items: StockCountItem[];
+  createdBy: string;
+  createdAt: string; // ISO 8601, when the snapshot was taken
+  postedBy?: string; // The admin who approved the adjustments
+  postedAt?: string;
+  summary?: StockCountSummary; // Set when posted
+  cancelledAt?: string;
+};
+
+export type ProductModifierOption = {
+  id: string;
+  name: string;
+  priceDelta: number;
+};
+
+export type ProductModifierGroup = {
+  id: string;
+  name: string; // e.g. "Topping"
+  options: ProductModifierOption[];
+  required: boolean; // At least one option must be chosen
+  multiple: boolean; // More than one option may be chosen
+};
+
+// The variant and modifier options chosen for a sold item.
+export type SelectedModifier = {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
 };
 
 export type Customer = {
@@ -93,36 +357,384 @@ export type Customer = {
   avatarUrl: string;
 };
 
-export type TransactionStatus = 'Selesai' | 'Diproses';
+// 'Menunggu Pembayaran' holds a dynamic QRIS sale until the provider confirms it; an expired or
+// cancelled payment moves it to 'Dibatalkan' with its stock, points and fee released.
+export type TransactionStatus = 'Selesai' | 'Diproses' | 'Menunggu Pembayaran' | 'Dibatalkan';
+
+export type PaymentMethod = 'Cash' | 'Card' | 'QRIS' | 'GiftCard';
+
+export type PaymentTender = {
+  method: PaymentMethod;
+  amount: number; // Portion of totalAmount settled with this tender
+  giftCardCode?: string; // Required for 'GiftCard' tenders
+};
 
 export type Transaction = {
   id: string;
-  receiptNumber: number;
+  receiptNumber: number; // Sequence within the numbering period
+  formattedReceiptNumber?: string; // As printed; absent on transactions recorded before receipt number formats
   storeId: string;
   customerId: string;
   customerName: string;
   staffId: string;
+  shiftId?: string; // The cashier's open shift at checkout, if any
   createdAt: string; // ISO 8601
-  subtotal: number;
-  discountAmount: number;
-  totalAmount: number; // subtotal - discountAmount
-  paymentMethod: 'Cash' | 'Card' | 'QRIS';
+  subtotal: number; // Sum of line totals, after line discounts
+  lineDiscountAmount?: number; // Sum of per-line discounts, already deducted from subtotal
+  promotionDiscountAmount?: number; // Automatic promotions, deducted before the manual discount
+  appliedPromotions?: AppliedPromotion[];
+  discountAmount: number; // Manual discount only
+  redemptionDiscountAmount?: number; // Discount from redeemed points
+  redemptionOptionId?: string;
+  redemptionDescription?: string;
+  orderType?: OrderType;
+  serviceChargeAmount?: number;
+  serviceChargeRate?: number;
+  taxAmount?: number; // Included in totalAmount either way; only added on top when tax is exclusive
+  taxRate?: number;
+  taxName?: string;
+  taxInclusive?: boolean;
+  totalAmount: number; // subtotal - promotionDiscountAmount - discountAmount - redemptionDiscountAmount + serviceChargeAmount (+ taxAmount when exclusive) + gift card sales
+  paymentMethod: PaymentMethod | 'Split';
+  payments?: PaymentTender[]; // Absent on transactions recorded before split payments
+  cashTendered?: number; // Cash handed over by the customer
+  changeAmount?: number;
   pointsEarned: number;
   pointsRedeemed: number;
+  transactionFee?: number; // Pradana Tokens deducted from the store for this sale
   items: TransactionItem[];
+  giftCardSales?: TransactionGiftCardSale[]; // Gift cards sold, outside of items, tax, points and fee
   status: TransactionStatus;
+  refundSummary?: TransactionRefundSummary; // Running totals of all refunds against this transaction
+  qrisPayment?: TransactionQrisPayment; // Only on sales paid with dynamic QRIS
+  offlineSync?: TransactionOfflineSync; // Only on sales taken while the POS was offline
+  digitalReceiptToken?: string; // Set once the receipt has been shared as a /struk link
   generatedFollowUpText?: string;
 };
 
+// A public link to a transaction's receipt, stored in the root digitalReceipts collection
+// under its token, so /struk/[token] can find it without knowing the store.
+export type DigitalReceipt = {
+  token: string;
+  storeId: string;
+  transactionId: string;
+  createdAt: string; // ISO 8601
+};
+
+// What /struk/[token] shows: the printed receipt and nothing the store keeps to itself.
+export type DigitalReceiptView = {
+  storeName: string;
+  receiptSettings: Pick<ReceiptSettings, 'headerText' | 'footerText' | 'promoText'>;
+  catalogSlug?: string; // Only while the store's catalog subscription is active
+  staffName: string;
+  transaction: ReceiptTransaction;
+};
+
+// What a receipt prints of a sale line, without product ids, notes or bundle prices.
+export type ReceiptItem = Pick<TransactionItem,
+  'productName' | 'variantName' | 'quantity' | 'unit' | 'price' | 'originalPrice' | 'discountType' | 'discountValue' | 'discountAmount'
+> & {
+  modifiers?: Pick<SelectedModifier, 'optionName'>[];
+  bundleItems?: Pick<TransactionBundleItem, 'productName' | 'quantity' | 'unit'>[];
+};
+
+// What a receipt prints of a sale, and all a /struk link reveals of it.
+export type ReceiptTransaction = Pick<Transaction,
+  'receiptNumber' | 'formattedReceiptNumber' | 'createdAt' | 'customerName' | 'giftCardSales'
+  | 'subtotal' | 'appliedPromotions' | 'discountAmount' | 'redemptionDescription' | 'redemptionDiscountAmount'
+  | 'serviceChargeAmount' | 'serviceChargeRate' | 'taxName' | 'taxRate' | 'taxAmount' | 'taxInclusive' | 'totalAmount'
+  | 'paymentMethod' | 'payments' | 'cashTendered' | 'changeAmount' | 'pointsEarned' | 'pointsRedeemed'
+> & {
+  items: ReceiptItem[];
+  offlineSync?: Pick<TransactionOfflineSync, 'provisionalReceiptNumber' | 'syncedAt'>;
+};
+
+export type OfflineSyncConflictType = 'stock' | 'points' | 'customer' | 'token-fee';
+
+// Something that no longer held when an offline sale reached the server. The sale is
+// recorded anyway, since the goods and money already changed hands at the counter.
+export type OfflineSyncConflict = {
+  type: OfflineSyncConflictType;
+  message: string;
+};
+
+export type TransactionOfflineSync = {
+  provisionalReceiptNumber: string; // Printed on the receipt handed over while offline
+  soldAt: string; // ISO 8601; createdAt is set to this too
+  syncedAt?: string; // ISO 8601; absent only on the provisional receipt printed while offline
+  conflicts?: OfflineSyncConflict[];
+  conflictsReviewedAt?: string; // ISO 8601, set once an admin has dealt with the conflicts
+  conflictsReviewedBy?: string;
+};
+
+export type QrisPaymentStatus = 'pending' | 'paid' | 'expired' | 'cancelled';
+
+// A dynamic QRIS charge, stored in the root qrisPayments collection so provider webhooks can find it by ID.
+export type QrisPayment = {
+  id: string;
+  storeId: string;
+  transactionId: string;
+  provider: string; // Name of the payment adapter that issued the charge
+  providerReference: string;
+  amount: number; // The QRIS tender, which may be less than the total on a split payment
+  qrString: string; // EMVCo QRIS payload to render as a QR code
+  status: QrisPaymentStatus;
+  expiresAt: string; // ISO 8601
+  createdAt: string; // ISO 8601
+  paidAt?: string;
+};
+
+export type TransactionGiftCardSale = {
+  code: string;
+  amount: number;
+};
+
+export type GiftCardType = 'gift-card' | 'store-credit';
+
+// 'pending' while the sale that sold the card waits for QRIS payment; 'void' once that sale is cancelled.
+export type GiftCardStatus = 'pending' | 'active' | 'void';
+
+// A prepaid balance, sold at the POS or issued as store credit for a refund.
+// Stored in stores/{storeId}/giftCards with the code as document ID.
+export type GiftCard = {
+  id: string; // Same as code
+  code: string; // e.g. "ABCD-EFGH-JKLM"
+  type: GiftCardType;
+  status: GiftCardStatus;
+  initialBalance: number;
+  balance: number;
+  customerId?: string;
+  customerName?: string;
+  expiresAt?: string; // ISO 8601; absent when the card never expires
+  transactionId?: string; // The sale that sold the card
+  refundId?: string; // The refund that issued the store credit
+  staffId: string;
+  createdAt: string; // ISO 8601
+};
+
+// 'reversal' gives back a balance held by a sale that was cancelled before it was paid.
+export type GiftCardMovementType = 'issue' | 'redeem' | 'reversal' | 'void';
+
+// One change to a gift card's balance, stored in stores/{storeId}/giftCardMovements.
+export type GiftCardMovement = {
+  id: string;
+  code: string;
+  type: GiftCardMovementType;
+  amount: number; // Positive when the balance goes up
+  balanceAfter: number;
+  customerId?: string; // The card's customer, so a customer's history can be listed
+  transactionId?: string;
+  refundId?: string;
+  staffId: string;
+  createdAt: string; // ISO 8601
+};
+
+export type TransactionQrisPayment = Pick<QrisPayment, 'id' | 'provider' | 'amount' | 'qrString' | 'status' | 'expiresAt'>;
+
+export type TransactionRefundSummary = {
+  refundedQuantities: number[]; // Per line of Transaction.items
+  amount: number;
+  pointsReversed: number;
+  pointsRestored: number;
+  feeRefunded: number;
+  refundIds: string[];
+};
+
+export type RefundItem = {
+  lineIndex: number; // Index of the line in Transaction.items
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string;
+  quantity: number;
+  unit?: UnitOfMeasure;
+  amount: number; // The line's share of what the customer paid, in Rupiah
+};
+
+// A void or partial return of a transaction, stored in stores/{storeId}/refunds.
+export type Refund = {
+  id: string;
+  storeId: string;
+  transactionId: string;
+  receiptNumber: number;
+  formattedReceiptNumber?: string;
+  customerId: string;
+  customerName: string;
+  type: 'void' | 'return'; // A void refunds everything still left on the transaction
+  items: RefundItem[];
+  amount: number; // Paid back to the customer
+  paymentMethod: PaymentMethod;
+  restocked: boolean;
+  pointsReversed: number; // Earned points taken back from the customer
+  pointsRestored: number; // Redeemed points given back to the customer
+  feeRefunded: number; // Pradana Tokens returned to the store
+  giftCardCode?: string; // Store credit issued when paymentMethod is 'GiftCard'
+  reason: string;
+  staffId: string; // The admin who approved and recorded the refund
+  shiftId?: string; // The shift whose drawer paid it back: the sale's, if still open, else one open on its cashier or the admin
+  createdAt: string; // ISO 8601
+};
+
+export type CashMovement = {
+  id: string;
+  type: 'in' | 'out';
+  amount: number;
+  reason: string;
+  createdAt: string; // ISO 8601
+};
+
+// A cashier's cash-drawer session, stored in stores/{storeId}/shifts.
+export type Shift = {
+  id: string;
+  storeId: string;
+  staffId: string;
+  staffName: string;
+  status: 'open' | 'closed';
+  openedAt: string; // ISO 8601
+  openingFloat: number; // Cash in the drawer when the shift started
+  cashMovements: CashMovement[]; // Cash added or taken out outside of sales
+  closedAt?: string;
+  closedBy?: string;
+  // Set when the shift is closed
+  transactionCount?: number;
+  totalSales?: number;
+  cashSales?: number; // Cash tenders of the shift's transactions, change already given back
+  cashRefunds?: number; // Cash paid back for refunds recorded during the shift
+  expectedCash?: number; // openingFloat + cashSales - cashRefunds + cash in - cash out
+  countedCash?: number;
+  variance?: number; // countedCash - expectedCash; negative means the drawer is short
+  closingNotes?: string;
+};
+
 export type TransactionItem = {
     productId: string;
     productName: string;
-    quantity: number;
+    quantity: number; // In `unit`, may be fractional for weighed units
+    unit?: UnitOfMeasure; // Only set for units other than 'pcs'
+    variantId?: string;
+    variantName?: string;
+    modifiers?: SelectedModifier[];
+    price: number; // Unit price actually charged, including variant and modifier deltas and any price override
+    originalPrice?: number; // Catalog price, only set when the price was overridden
+    discountType?: 'percent' | 'nominal'; // Line discount, nominal is per line not per unit
+    discountValue?: number;
+    discountAmount?: number; // Line discount in Rupiah, computed at checkout
+    promotionDiscountAmount?: number; // This line's share of item promotions, not deducted from subtotal
+    notes?: string;
+    bundleItems?: TransactionBundleItem[]; // Components of a bundle line, as they were at checkout
+}
+
+// A bundle component as sold. Its catalog price is kept to split the bundle's revenue.
+export type TransactionBundleItem = {
+    productId: string;
+    productName: string;
+    quantity: number; // Per bundle
+    unit?: UnitOfMeasure;
     price: number;
 }
 
 export type CartItem = TransactionItem;
 
+// A cart parked by a cashier, stored in stores/{storeId}/heldCarts.
+export type HeldCart = {
+  id: string;
+  storeId: string;
+  staffId: string;
+  staffName: string;
+  items: CartItem[];
+  giftCardSales?: CheckoutGiftCardSale[];
+  customerId?: string;
+  customerName?: string;
+  discountType: 'percent' | 'nominal';
+  discountValue: number;
+  notes?: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type CustomerDisplayItem = {
+  name: string;
+  options?: string; // Variant and modifiers, as printed on the receipt
+  quantity: number;
+  unit?: UnitOfMeasure;
+  lineTotal: number;
+};
+
+// 'paid' is shown briefly after checkout, before the display falls back to promos.
+export type CustomerDisplayStatus = 'idle' | 'cart' | 'awaiting-payment' | 'paid';
+
+// What a POS mirrors to the customer-facing display, stored in stores/{storeId}/customerDisplays/{staffId}.
+export type CustomerDisplayState = {
+  staffId: string;
+  staffName: string;
+  status: CustomerDisplayStatus;
+  items: CustomerDisplayItem[];
+  subtotal: number;
+  discountAmount: number; // Manual and points discounts together
+  serviceChargeAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  paymentMethod: Transaction['paymentMethod'];
+  customerName?: string;
+  pointsEarned?: number;
+  changeAmount?: number;
+  qrString?: string; // The dynamic QRIS to scan while a sale waits for payment
+  updatedAt: string; // ISO 8601
+};
+
+// Body of POST /api/checkout. Prices, fees and points are computed on the server.
+export type CheckoutRequestItem = {
+  productId: string;
+  variantId?: string;
+  modifierOptionIds?: string[];
+  quantity: number;
+  priceOverride?: number; // From a cashier, only with a 'price-override' approval
+  discountType?: 'percent' | 'nominal';
+  discountValue?: number;
+  notes?: string;
+};
+
+export type CheckoutGiftCardSale = {
+  amount: number; // Balance loaded on the new card, in Rupiah
+};
+
+export type CheckoutRequest = {
+  storeId: string;
+  customerId?: string;
+  items: CheckoutRequestItem[]; // May be empty when gift cards are sold
+  giftCardSales?: CheckoutGiftCardSale[];
+  discountType: 'percent' | 'nominal';
+  discountValue: number;
+  pointsToRedeem: number; // Converted at rpPerRedeemedPoint; ignored when redemptionOptionId is set
+  redemptionOptionId?: string;
+  orderType?: OrderType;
+  paymentMethod: PaymentMethod;
+  payments?: PaymentTender[]; // Split payment; when omitted, paymentMethod settles the full total
+  cashTendered?: number;
+  clientId?: string; // Generated by the POS and used as the transaction ID, so a retried checkout is never recorded twice
+  offline?: CheckoutOfflineContext; // Set when a sale queued while offline is replayed; requires clientId
+  approvalIds?: string[]; // Approval logs covering the actions on this sale that need an admin's PIN
+};
+
+export type CheckoutOfflineContext = {
+  provisionalReceiptNumber: string;
+  soldAt: string; // ISO 8601
+};
+
+export type QueuedCheckoutStatus = 'queued' | 'failed';
+
+// A checkout taken while offline, kept in the device's IndexedDB until the server accepts it.
+export type QueuedCheckout = {
+  id: string; // Same as request.clientId
+  storeId: string;
+  staffId: string;
+  request: CheckoutRequest & { clientId: string; offline: CheckoutOfflineContext };
+  receipt: Transaction; // The provisional transaction printed at the counter
+  status: QueuedCheckoutStatus;
+  error?: string; // Why the server rejected the last replay
+  createdAt: string; // ISO 8601
+};
+
 export type PendingOrder = {
   id: string;
   storeId: string;
@@ -143,6 +755,43 @@ export type RedemptionOption = {
   isActive: boolean;
 };
 
+export const promotionRuleTypes = ['happy-hour', 'buy-x-get-y', 'category-discount', 'min-spend'] as const;
+
+export type PromotionRuleType = (typeof promotionRuleTypes)[number];
+
+export type PromotionSchedule = {
+  days: number[]; // 0 = Sunday; empty means every day
+  startTime: string; // 'HH:mm' in store time
+  endTime: string; // 'HH:mm'; earlier than startTime for a window past midnight
+};
+
+// A promotion applied automatically at checkout, stored in stores/{storeId}/promotionRules.
+export type PromotionRule = {
+  id: string;
+  name: string;
+  type: PromotionRuleType;
+  isActive: boolean;
+  discountType: 'percent' | 'nominal'; // Nominal item discounts are per unit; buy-x-get-y is always percent
+  discountValue: number;
+  productIds?: string[]; // Limits item promotions to these products
+  category?: ProductCategory; // Required for category-discount, optional scope otherwise
+  buyQuantity?: number; // buy-x-get-y: units to pay for...
+  getQuantity?: number; // ...and units discounted on top of them
+  minSpend?: number; // min-spend: required total after item promotions
+  schedule?: PromotionSchedule; // Required for happy-hour, optional for the others
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  createdAt: string;
+};
+
+// A promotion as it was applied to a transaction.
+export type AppliedPromotion = {
+  ruleId: string;
+  name: string;
+  type: PromotionRuleType;
+  amount: number; // In Rupiah
+};
+
 export type Challenge = {
   tier: string;
   description: string;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatQuantity, formatUnitPrice, isValidQuantity, roundQuantity } from './units';
+
+describe('roundQuantity', () => {
+  it('keeps pieces whole and weighed units to three decimals', () => {
+    expect(roundQuantity(2.6)).toBe(3);
+    expect(roundQuantity(0.1 + 0.2, 'kg')).toBe(0.3);
+    expect(roundQuantity(1.23456, 'liter')).toBe(1.235);
+  });
+});
+
+describe('isValidQuantity', () => {
+  it('only accepts positive quantities the unit can hold', () => {
+    expect(isValidQuantity(2)).toBe(true);
+    expect(isValidQuantity(1.5)).toBe(false);
+    expect(isValidQuantity(0.25, 'kg')).toBe(true);
+    expect(isValidQuantity(0.0001, 'kg')).toBe(false);
+    expect(isValidQuantity(0, 'kg')).toBe(false);
+    expect(isValidQuantity(NaN)).toBe(false);
+  });
+});
+
+describe('formatQuantity and formatUnitPrice', () => {
+  it('show weighed units with their label and pieces bare', () => {
+    expect(formatQuantity(0.35, 'kg')).toBe('0,35 kg');
+    expect(formatQuantity(3)).toBe('3');
+    expect(formatUnitPrice(85000, 'kg')).toBe('85.000/kg');
+    expect(formatUnitPrice(85000)).toBe('85.000');
+  });
+});
@@ -0,0 +1,66 @@
+import type { Product, TransactionItem, UnitOfMeasure } from './types';
+
+export const unitLabels: Record<UnitOfMeasure, string> = {
+  pcs: 'pcs',
+  kg: 'kg',
+  gram: 'gram',
+  liter: 'liter',
+};
+
+// Weighed quantities are kept to the gram (or millilitre) to avoid floating point drift.
+const QUANTITY_DECIMALS = 3;
+
+/**
+ * Whether a unit is sold in fractional quantities, e.g. 0.25 kg.
+ */
+export function isFractionalUnit(unit?: UnitOfMeasure): boolean {
+  return !!unit && unit !== 'pcs';
+}
+
+/**
+ * Rounds a quantity to what a unit can hold: whole units for pcs, 3 decimals otherwise.
+ */
+export function roundQuantity(quantity: number, unit?: UnitOfMeasure): number {
+  if (!isFractionalUnit(unit)) return Math.round(quantity);
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round(quantity * factor) / factor;
+}
+
+/**
+ * Checks that a quantity is positive and fits the unit's precision.
+ */
+export function isValidQuantity(quantity: number, unit?: UnitOfMeasure): boolean {
+  return Number.isFinite(quantity) && quantity > 0 && roundQuantity(quantity, unit) === quantity;
+}
+
+/**
+ * How much the cart's +/- buttons change a line's quantity.
+ */
+export function getQuantityStep(unit?: UnitOfMeasure): number {
+  if (unit === 'gram') return 100;
+  if (unit === 'kg' || unit === 'liter') return 0.1;
+  return 1;
+}
+
+/**
+ * Formats a quantity with its unit, e.g. "0,35 kg". Pieces are shown as a bare number.
+ */
+export function formatQuantity(quantity: number, unit?: UnitOfMeasure): string {
+  const formatted = quantity.toLocaleString('id-ID', { maximumFractionDigits: QUANTITY_DECIMALS });
+  return isFractionalUnit(unit) ? `${formatted} ${unitLabels[unit!]}` : formatted;
+}
+
+/**
+ * Formats a price per unit, e.g. "85.000/kg". Prices per piece have no suffix.
+ */
+export function formatUnitPrice(price: number, unit?: UnitOfMeasure): string {
+  const formatted = price.toLocaleString('id-ID');
+  return isFractionalUnit(unit) ? `${formatted}/${unitLabels[unit!]}` : formatted;
+}
+
+/**
+ * The unit stored on a transaction item; omitted for pieces.
+ */
+export function getItemUnit(product: Pick<Product, 'unit'>): Pick<TransactionItem, 'unit'> {
+  return isFractionalUnit(product.unit) ? { unit: product.unit } : {};
+}